@@ -0,0 +1,9 @@
+INSERT OR IGNORE INTO app_config (config_key, config_value, value_type, category, sub_category, display_name, description, default_value) VALUES
+('quota.daily_free', '6000', 'number', 'quota', 'daily', '免费用户日限额', '普通用户每日Token限额', '6000'),
+('quota.daily_subscriber', '30000', 'number', 'quota', 'daily', '订阅用户日限额', '订阅用户每日Token限额', '30000'),
+('quota.daily_staker', '100000', 'number', 'quota', 'daily', '质押用户日限额', '质押用户每日Token限额', '100000'),
+('quota.max_tokens_per_request', '2048', 'number', 'quota', 'request', '单次请求最大Token', 'AI 代理单次请求 max_tokens 上限', '2048'),
+('quota.tier_multiplier', '[1.0,1.2,1.5,2.0,3.0]', 'json', 'quota', 'tier', 'Tier配额倍数', '各Tier对日/月限额的倍数', '[1.0,1.2,1.5,2.0,3.0]');
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_logs_user_func_created
+ON ai_usage_logs(user_id, function_type, created_at);
@@ -0,0 +1,2 @@
+ALTER TABLE ai_usage_logs ADD COLUMN cache_hit INTEGER DEFAULT 0;
+ALTER TABLE ai_usage_logs ADD COLUMN saved_tokens INTEGER DEFAULT 0;
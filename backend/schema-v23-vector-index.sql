@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS memory_vector_index (
+    memory_id TEXT PRIMARY KEY,
+    wallet_address TEXT NOT NULL,
+    list_id INTEGER NOT NULL,
+    memory_type TEXT,
+    code TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_vector_index_list ON memory_vector_index(wallet_address, list_id);
+
+CREATE TABLE IF NOT EXISTS memory_vector_centroids (
+    wallet_address TEXT NOT NULL,
+    list_id INTEGER NOT NULL,
+    centroid_json TEXT NOT NULL,
+    size INTEGER DEFAULT 0,
+    PRIMARY KEY (wallet_address, list_id)
+);
+
+CREATE TABLE IF NOT EXISTS memory_vector_index_meta (
+    wallet_address TEXT PRIMARY KEY,
+    dimension INTEGER,
+    n_lists INTEGER DEFAULT 0,
+    trained_count INTEGER DEFAULT 0,
+    indexed_count INTEGER DEFAULT 0,
+    needs_rebuild INTEGER DEFAULT 0,
+    recall_at_k REAL,
+    recall_k INTEGER,
+    built_at INTEGER,
+    updated_at INTEGER
+);
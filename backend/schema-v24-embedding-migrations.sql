@@ -0,0 +1,24 @@
+CREATE TABLE IF NOT EXISTS embedding_migrations (
+    id TEXT PRIMARY KEY,
+    target_model TEXT NOT NULL,
+    target_dimension INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running',
+    total INTEGER DEFAULT 0,
+    processed INTEGER DEFAULT 0,
+    failed INTEGER DEFAULT 0,
+    skipped INTEGER DEFAULT 0,
+    cursor TEXT,
+    batch_size INTEGER DEFAULT 10,
+    last_error TEXT,
+    created_by TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    completed_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_migrations_status ON embedding_migrations(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_memory_vectors_model ON memory_vectors(model, vector_dimension);
+
+INSERT OR IGNORE INTO app_config (config_key, config_value, value_type, category, sub_category, display_name, description, default_value) VALUES
+('ai.embedding.model', 'text-embedding-v3', 'string', 'ai', 'embedding', 'AI-当前 Embedding 模型', '服务端生成查询向量与重新向量化迁移使用的模型；修改后需在管理后台发起迁移', 'text-embedding-v3'),
+('ai.embedding.dimension', '1024', 'number', 'ai', 'embedding', 'AI-当前 Embedding 维度', '与 ai.embedding.model 一起构成当前向量版本，维度不同的向量不参与比较', '1024');
@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS memory_blob_uploads (
+    id TEXT PRIMARY KEY,
+    wallet_address TEXT NOT NULL,
+    memory_id TEXT NOT NULL,
+    total_size INTEGER NOT NULL,
+    chunk_size INTEGER NOT NULL,
+    total_chunks INTEGER NOT NULL,
+    content_hash TEXT NOT NULL,
+    content_sha256 TEXT,
+    type TEXT DEFAULT 'text',
+    storage TEXT NOT NULL,
+    r2_upload_id TEXT,
+    staging_key TEXT,
+    status TEXT NOT NULL DEFAULT 'open',
+    result_json TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_blob_uploads_wallet ON memory_blob_uploads(wallet_address, status);
+CREATE INDEX IF NOT EXISTS idx_memory_blob_uploads_expires ON memory_blob_uploads(expires_at);
+
+CREATE TABLE IF NOT EXISTS memory_blob_upload_parts (
+    upload_id TEXT NOT NULL,
+    chunk_index INTEGER NOT NULL,
+    size INTEGER NOT NULL,
+    etag TEXT,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (upload_id, chunk_index)
+);
@@ -0,0 +1,2 @@
+ALTER TABLE memories ADD COLUMN content_hash TEXT;
+ALTER TABLE memories ADD COLUMN content_hash_verified_at INTEGER;
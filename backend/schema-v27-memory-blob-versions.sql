@@ -0,0 +1,17 @@
+ALTER TABLE memories ADD COLUMN deleted_at INTEGER;
+
+CREATE TABLE IF NOT EXISTS memory_blob_versions (
+    memory_id TEXT NOT NULL,
+    wallet_address TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    storage_ref TEXT NOT NULL,
+    size INTEGER NOT NULL DEFAULT 0,
+    content_hash TEXT,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (wallet_address, memory_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memories_deleted_at ON memories(deleted_at);
+
+INSERT OR IGNORE INTO app_config (config_key, config_value, value_type, category, sub_category, display_name, description, default_value) VALUES
+('memory.blob.restore_window_days', '30', 'number', 'memory', 'retention', '记忆-删除恢复期（天）', '删除的记忆在此期间内可恢复，过期后由定时任务永久清除全部版本', '30');
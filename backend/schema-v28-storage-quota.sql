@@ -0,0 +1,6 @@
+CREATE INDEX IF NOT EXISTS idx_memories_wallet ON memories(wallet_address);
+
+INSERT OR IGNORE INTO app_config (config_key, config_value, value_type, category, sub_category, display_name, description, default_value) VALUES
+('quota.storage_free_mb', '100', 'number', 'quota', 'storage', '免费用户存储配额(MB)', '免费用户可在 R2/KV 暂存的记忆数据上限（含历史版本与待清除数据）', '100'),
+('quota.storage_subscriber_mb', '2048', 'number', 'quota', 'storage', '订阅用户存储配额(MB)', '订阅用户可在 R2/KV 暂存的记忆数据上限（含历史版本与待清除数据）', '2048'),
+('quota.storage_staker_mb', '10240', 'number', 'quota', 'storage', '质押用户存储配额(MB)', '质押用户可在 R2/KV 暂存的记忆数据上限（含历史版本与待清除数据）', '10240');
@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS irys_migration_jobs (
+    id TEXT PRIMARY KEY,
+    wallet_address TEXT NOT NULL,
+    memory_id TEXT NOT NULL,
+    source_ref TEXT NOT NULL,
+    size INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at INTEGER NOT NULL,
+    last_error TEXT,
+    irys_id TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    completed_at INTEGER,
+    UNIQUE (wallet_address, memory_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_irys_migration_jobs_due ON irys_migration_jobs(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_irys_migration_jobs_wallet ON irys_migration_jobs(wallet_address, status);
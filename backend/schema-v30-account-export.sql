@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS account_exports (
+    id TEXT PRIMARY KEY,
+    wallet_address TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued',
+    r2_key TEXT,
+    size INTEGER,
+    memory_count INTEGER,
+    manifest_sha256 TEXT,
+    signature TEXT,
+    error TEXT,
+    created_at INTEGER NOT NULL,
+    started_at INTEGER,
+    completed_at INTEGER,
+    expires_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_exports_wallet ON account_exports(wallet_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_account_exports_status ON account_exports(status, created_at);
@@ -0,0 +1,23 @@
+ALTER TABLE users ADD COLUMN erased_at INTEGER;
+
+CREATE TABLE IF NOT EXISTS account_deletion_requests (
+    id TEXT PRIMARY KEY,
+    wallet_address TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'unconfirmed',
+    message TEXT NOT NULL,
+    challenge_expires_at INTEGER NOT NULL,
+    signature TEXT,
+    pseudonym TEXT,
+    requested_at INTEGER,
+    execute_after INTEGER,
+    cancelled_at INTEGER,
+    completed_at INTEGER,
+    last_error TEXT,
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_deletion_due ON account_deletion_requests(status, execute_after);
+CREATE INDEX IF NOT EXISTS idx_account_deletion_wallet ON account_deletion_requests(wallet_address, created_at DESC);
+
+INSERT OR IGNORE INTO app_config (config_key, config_value, value_type, category, sub_category, display_name, description, default_value) VALUES
+('account.deletion.cooling_off_days', '14', 'number', 'account', 'privacy', '账户-注销冷静期（天）', '用户签名确认注销后等待的天数，期间可撤回，期满后删除个人数据并假名化流水', '14');
@@ -0,0 +1,35 @@
+CREATE TABLE IF NOT EXISTS memory_imports (
+    id TEXT PRIMARY KEY,
+    wallet_address TEXT NOT NULL,
+    source TEXT NOT NULL,
+    file_name TEXT,
+    status TEXT NOT NULL DEFAULT 'active',
+    create_vectors INTEGER NOT NULL DEFAULT 0,
+    total_entries INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_imports_wallet ON memory_imports(wallet_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_memory_imports_status ON memory_imports(status, expires_at);
+
+CREATE TABLE IF NOT EXISTS memory_import_entries (
+    import_id TEXT NOT NULL,
+    seq INTEGER NOT NULL,
+    wallet_address TEXT NOT NULL,
+    external_id TEXT,
+    content_hash TEXT NOT NULL,
+    title TEXT,
+    content TEXT,
+    tags TEXT,
+    original_created_at INTEGER,
+    status TEXT NOT NULL DEFAULT 'pending',
+    duplicate_of TEXT,
+    memory_id TEXT,
+    vectorized INTEGER NOT NULL DEFAULT 0,
+    imported_at INTEGER,
+    PRIMARY KEY (import_id, seq)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_import_entries_hash ON memory_import_entries(wallet_address, content_hash);
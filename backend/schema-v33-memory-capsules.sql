@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS memory_capsules (
+    memory_id TEXT NOT NULL,
+    owner_wallet TEXT NOT NULL,
+    recipient_wallet TEXT,
+    unlock_at INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'sealed',
+    sealed_type TEXT,
+    sealed_content_hash TEXT,
+    key_envelope TEXT,
+    created_at INTEGER NOT NULL,
+    opened_at INTEGER,
+    notified_at INTEGER,
+    claimed_at INTEGER,
+    PRIMARY KEY (owner_wallet, memory_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_capsules_unlock ON memory_capsules(status, unlock_at);
+CREATE INDEX IF NOT EXISTS idx_memory_capsules_recipient ON memory_capsules(recipient_wallet);
@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS memory_shares (
+    id TEXT PRIMARY KEY,
+    memory_id TEXT NOT NULL,
+    wallet_address TEXT NOT NULL,
+    recipient_wallet TEXT,
+    expires_at INTEGER NOT NULL,
+    max_views INTEGER,
+    view_count INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    revoked_at INTEGER,
+    last_viewed_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_shares_wallet ON memory_shares(wallet_address, memory_id);
+
+CREATE TABLE IF NOT EXISTS memory_share_views (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    share_id TEXT NOT NULL,
+    wallet_address TEXT NOT NULL,
+    viewer_wallet TEXT,
+    ip_hash TEXT,
+    user_agent TEXT,
+    outcome TEXT NOT NULL,
+    viewed_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_share_views_share ON memory_share_views(share_id, viewed_at DESC);
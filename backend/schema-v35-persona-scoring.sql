@@ -0,0 +1 @@
+ALTER TABLE user_persona ADD COLUMN scoring_version TEXT;
@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS persona_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    wallet_address TEXT NOT NULL,
+    store TEXT NOT NULL DEFAULT 'persona',
+    source TEXT NOT NULL,
+    openness REAL NOT NULL,
+    conscientiousness REAL NOT NULL,
+    extraversion REAL NOT NULL,
+    agreeableness REAL NOT NULL,
+    neuroticism REAL NOT NULL,
+    sample_size INTEGER,
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_persona_snapshots_wallet ON persona_snapshots(wallet_address, store, created_at);
+
+INSERT OR IGNORE INTO app_config (config_key, config_value, value_type, category, sub_category, display_name, description, default_value) VALUES
+('persona.drift_threshold', '0.15', 'number', 'persona', 'history', '人格-漂移阈值', '窗口期内任一 OCEAN 维度变化达到该值（0-1）时在人格历史中标记为大幅漂移', '0.15'),
+('persona.drift_window_days', '30', 'number', 'persona', 'history', '人格-漂移检测窗口（天）', '漂移检测以最新快照对比该天数之前的快照', '30');
@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS persona_trait_evidence (
+    wallet_address TEXT NOT NULL,
+    trait TEXT NOT NULL,
+    evidence REAL NOT NULL DEFAULT 0,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (wallet_address, trait)
+);
+
+CREATE TABLE IF NOT EXISTS persona_applied_signals (
+    wallet_address TEXT NOT NULL,
+    message_id TEXT NOT NULL,
+    applied_at INTEGER NOT NULL,
+    PRIMARY KEY (wallet_address, message_id)
+);
+
+INSERT OR IGNORE INTO app_config (config_key, config_value, value_type, category, sub_category, display_name, description, default_value) VALUES
+('persona.evidence_half_life_days', '90', 'number', 'persona', 'update', '人格-证据半衰期（天）', '人格各维度累积的证据量按该半衰期衰减，较旧的对话信号权重随之降低', '90'),
+('persona.max_signal_step', '0.05', 'number', 'persona', 'update', '人格-单条信号最大变化', '单条对话信号对任一 OCEAN 维度（0-1）的最大改变量', '0.05');
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS chat_session_summaries (
+    session_id TEXT PRIMARY KEY,
+    wallet_address TEXT NOT NULL,
+    summary TEXT NOT NULL,
+    covered_until INTEGER NOT NULL,
+    covered_message_id TEXT,
+    covered_count INTEGER NOT NULL DEFAULT 0,
+    model TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_session_summaries_wallet ON chat_session_summaries(wallet_address);
+
+INSERT OR IGNORE INTO app_config (config_key, config_value, value_type, category, sub_category, display_name, description, default_value) VALUES
+('chat.summary.model', 'qwen-turbo', 'string', 'ai', 'chat_summary', '会话摘要-模型', '定时压缩长会话早期消息时使用的模型', 'qwen-turbo'),
+('chat.summary.keep_recent', '20', 'number', 'ai', 'chat_summary', '会话摘要-保留最近消息数', '每个会话最近这么多条消息保持原文，更早的消息才会被并入摘要', '20');
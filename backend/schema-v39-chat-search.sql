@@ -0,0 +1,13 @@
+-- 聊天记录全文索引：rowid 与 chat_messages.rowid 一致，body 为按字切分 CJK 后的文本（由应用写入）
+CREATE VIRTUAL TABLE IF NOT EXISTS chat_messages_fts USING fts5(
+    body,
+    wallet_address,
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- 存量消息补建进度（定时任务按 rowid 游标推进）
+CREATE TABLE IF NOT EXISTS chat_search_backfill (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    last_rowid INTEGER NOT NULL DEFAULT 0,
+    updated_at INTEGER NOT NULL
+);
@@ -21,6 +21,15 @@ import { handlePersonaRoutes } from './routes/persona';
 import { handleVectorRoutes } from './routes/vectors';
 import { handleQuestionRoutes } from './routes/questions';
 import { handleScheduledRenewal, sendRenewalReminders } from './scheduled/subscription-renewal';
+import { handleScheduledVectorIndex } from './scheduled/vector-index';
+import { handleScheduledEmbeddingMigration } from './scheduled/embedding-migration';
+import { handleScheduledMemoryPurge } from './scheduled/memory-purge';
+import { handleScheduledIrysMigration } from './scheduled/irys-migration';
+import { handleScheduledAccountExport } from './scheduled/account-export';
+import { handleScheduledAccountDeletion } from './scheduled/account-deletion';
+import { handleScheduledMemoryCapsules } from './scheduled/memory-capsules';
+import { handleScheduledChatSummaries } from './scheduled/chat-summaries';
+import { handleScheduledChatSearchBackfill } from './scheduled/chat-search';
 import { createAutoRenewSubscription, cancelAutoRenewSubscription, getAutoRenewStatusPublic, reportAutoRenewPaymentResultPublic, getPendingPaymentsPublic, getPendingPlanChangesPublic, markPlanChangeScheduledPublic } from './routes/admin/subscriptions';
 import { handleGenesisRoutes } from './routes/genesis';
 import { handleSupportRoutes } from './routes/support';
@@ -31,6 +40,11 @@ import { handleLicense } from './routes/license';
 import { getSolanaRpcUrl } from './utils/solana-rpc';
 import { handleCopyright } from './routes/copyright';
 import { handleMemoriesRoutes } from './routes/memories';
+import { handleMemoryImportRoutes } from './routes/memory-imports';
+import { handleMemoryCapsuleRoutes } from './routes/memory-capsules';
+import { handleMemoryShareRoutes } from './routes/memory-shares';
+import { handleAccountExportRoutes } from './routes/account-export';
+import { handleAccountDeletionRoutes } from './routes/account-deletion';
 import { handleIrysUpload } from './routes/irys';
 import { handleNftMetadata } from './routes/nft-metadata';
 import { getPreferredLang, t } from './i18n';
@@ -38,6 +52,28 @@ import { getUserAuth } from './utils/user-auth'
 import { checkRateLimit } from './utils/rate-limit'
 import { Env } from './types';
 import { jsonResponse } from './utils/response';
+import { callAiProvider } from './services/ai-provider';
+import {
+  commitQuota,
+  loadQuotaUser,
+  QuotaReservation,
+  QuotaUser,
+  refundQuota,
+  reserveQuota,
+  resolveQuotaPolicy
+} from './services/ai-quota';
+import { loadRoutingConfig, resolveRouting } from './services/ai-routing';
+import {
+  buildChatCacheKey,
+  buildEmbeddingCacheKey,
+  getCachedResponse,
+  getCacheTtl,
+  logCacheHit,
+  putCachedResponse,
+  shouldBypassCache
+} from './services/ai-cache';
+import { getToolMaxRounds, resolveServerTools, runServerToolLoop } from './services/ai-tools';
+import { getSessionSummary, withSessionSummary } from './services/chat-summaries';
 
 export { Env, jsonResponse };
 
@@ -63,6 +99,7 @@ function isPublicCorsPath(path: string): boolean {
     path.startsWith('/api/v1/i18n') ||
     path.startsWith('/api/v1/questions') ||
     path.startsWith('/nft/') ||
+    path.startsWith('/s/') ||
     path === '/health' ||
     path === '/'
   )
@@ -141,6 +178,8 @@ async function enforceRateLimit(request: Request, env: Env, path: string, ip: st
     limit = 30
   } else if (path.startsWith('/admin')) {
     limit = 60
+  } else if (path.startsWith('/s/')) {
+    limit = 30
   } else {
     return null
   }
@@ -276,6 +315,31 @@ export default {
     if (hour === 9) {
       await sendRenewalReminders(env);
     }
+
+    // 推进 Embedding 重新向量化迁移，再重建待更新的记忆向量索引
+    await handleScheduledEmbeddingMigration(env);
+    await handleScheduledVectorIndex(env);
+
+    // 清除超过恢复期的已删除记忆
+    await handleScheduledMemoryPurge(env);
+
+    // 把付费用户的服务端托管记忆迁移到 Irys
+    await handleScheduledIrysMigration(env);
+
+    // 打包账户导出并清理过期归档
+    await handleScheduledAccountExport(env);
+
+    // 执行冷静期已满的账户注销
+    await handleScheduledAccountDeletion(env);
+
+    // 开启到期的时间胶囊并推送通知
+    await handleScheduledMemoryCapsules(env);
+
+    // 为长会话推进滚动摘要
+    await handleScheduledChatSummaries(env);
+
+    // 为存量聊天消息补建全文索引
+    await handleScheduledChatSearchBackfill(env);
   },
 
   async fetch(request: Request, env: Env, ctx: any): Promise<Response> {
@@ -375,6 +439,15 @@ export default {
           { headers: { 'Content-Type': 'text/html' } }
         );
       }
+      // 记忆分享链接（公开，密钥在 URL fragment 中）
+      else if (path.startsWith('/s/')) {
+        const shareResponse = await handleMemoryShareRoutes(req, env, path)
+        if (shareResponse) {
+          response = shareResponse
+        } else {
+          response = jsonResponse({ error: t('not_found', lang) }, 404);
+        }
+      }
       // 应用图标（MWA 钱包显示用）
       else if (path === '/icon.png' || path === '/favicon.ico') {
         // 返回一个简单的 SVG 作为图标
@@ -400,7 +473,7 @@ export default {
       }
       // AI 代理端点（替代 API Key 下发）
       else if (path === '/api/v1/ai/proxy/completions') {
-        response = await handleAiProxy(req, env);
+        response = await handleAiProxy(req, env, ctx);
       }
       else if (path === '/api/v1/ai/quota/status') {
         response = await handleAiQuotaStatus(req, env);
@@ -413,6 +486,24 @@ export default {
       else if (path === '/api/v1/debug/ai-config') {
         response = await handleAiConfigDebug(env);
       }
+      // 账户数据导出
+      else if (path === '/api/v1/users/export' || path.startsWith('/api/v1/users/export/')) {
+        const exportResponse = await handleAccountExportRoutes(req, env, path, ctx)
+        if (exportResponse) {
+          response = exportResponse
+        } else {
+          response = jsonResponse({ error: t('not_found', lang) }, 404);
+        }
+      }
+      // 账户注销
+      else if (path === '/api/v1/users/deletion' || path.startsWith('/api/v1/users/deletion/')) {
+        const deletionResponse = await handleAccountDeletionRoutes(req, env, path)
+        if (deletionResponse) {
+          response = deletionResponse
+        } else {
+          response = jsonResponse({ error: t('not_found', lang) }, 404);
+        }
+      }
       // 数据同步 API 路由
       else if (path.startsWith('/api/v1/users/sync') || 
           path.startsWith('/api/v1/users/profile') ||
@@ -427,7 +518,7 @@ export default {
       else if (path === '/api/v1/memories/upload' && request.method === 'POST') {
         response = await handleIrysUpload(req, env);
       }
-      else if (path.startsWith('/api/v1/memories/blob')) {
+      else if (path.startsWith('/api/v1/memories/blob') || path === '/api/v1/memories/usage' || path === '/api/v1/memories/irys-migration') {
         const memResponse = await handleMemoriesRoutes(req, env, path)
         if (memResponse) {
           response = memResponse
@@ -435,6 +526,33 @@ export default {
           response = jsonResponse({ error: t('not_found', lang) }, 404);
         }
       }
+      // 记忆分享授权
+      else if (path === '/api/v1/memories/shares' || path.startsWith('/api/v1/memories/shares/')) {
+        const shareResponse = await handleMemoryShareRoutes(req, env, path)
+        if (shareResponse) {
+          response = shareResponse
+        } else {
+          response = jsonResponse({ error: t('not_found', lang) }, 404);
+        }
+      }
+      // 时间胶囊
+      else if (path === '/api/v1/memories/capsules' || path.startsWith('/api/v1/memories/capsules/')) {
+        const capsuleResponse = await handleMemoryCapsuleRoutes(req, env, path)
+        if (capsuleResponse) {
+          response = capsuleResponse
+        } else {
+          response = jsonResponse({ error: t('not_found', lang) }, 404);
+        }
+      }
+      // 日记导入
+      else if (path === '/api/v1/memories/imports' || path.startsWith('/api/v1/memories/imports/')) {
+        const importResponse = await handleMemoryImportRoutes(req, env, path)
+        if (importResponse) {
+          response = importResponse
+        } else {
+          response = jsonResponse({ error: t('not_found', lang) }, 404);
+        }
+      }
       // 聊天数据 API 路由
       else if (path.startsWith('/api/v1/chat')) {
         const chatResponse = await handleChatRoutes(req, env, path);
@@ -998,8 +1116,9 @@ async function handleAiConfigDebug(env: Env): Promise<Response> {
 /**
  * AI 代理处理函数（后端代理模式）
  * 接收客户端 Prompt，注入 API Key 后转发给 AI 服务商
+ * 请求体 stream: true 时以 SSE 逐块转发上游响应
  */
-async function handleAiProxy(request: Request, env: Env): Promise<Response> {
+export async function handleAiProxy(request: Request, env: Env, ctx?: any): Promise<Response> {
   if (request.method !== 'POST') {
     return jsonResponse({ error: 'Method not allowed' }, 405);
   }
@@ -1008,6 +1127,9 @@ async function handleAiProxy(request: Request, env: Env): Promise<Response> {
     return jsonResponse({ error: 'Database not available' }, 500);
   }
 
+  // 已预留但尚未结算的配额，异常退出时全额退回
+  let pendingReservation: QuotaReservation | null = null;
+
   try {
     const body = await request.json() as any;
     const walletAddress = (body.walletAddress || request.headers.get('X-Wallet-Address') || '').toString();
@@ -1050,6 +1172,8 @@ async function handleAiProxy(request: Request, env: Env): Promise<Response> {
           success INTEGER DEFAULT 1,
           error_message TEXT,
           request_id TEXT,
+          cache_hit INTEGER DEFAULT 0,
+          saved_tokens INTEGER DEFAULT 0,
           created_at INTEGER DEFAULT (unixepoch())
         )`
       ).run();
@@ -1061,24 +1185,22 @@ async function handleAiProxy(request: Request, env: Env): Promise<Response> {
     const statDate = now.toISOString().slice(0, 10);
     const statMonth = `${now.getUTCFullYear()}${String(now.getUTCMonth() + 1).padStart(2, '0')}`;
 
-    const dailyLimit = 6000;
-    const monthlyLimit = 140000;
-    const maxTokensHardCap = 2048;
-
-    const ensureUser = async (): Promise<string> => {
-      const existing = await env.DB!.prepare(
-        `SELECT id FROM users WHERE wallet_address = ? LIMIT 1`
-      ).bind(walletAddress).first();
-      if (existing?.id) return existing.id as string;
+    const ensureUser = async (): Promise<QuotaUser> => {
+      const existing = await loadQuotaUser(env, walletAddress);
+      if (existing?.id) return existing;
       const newId = `user_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
       await env.DB!.prepare(
         `INSERT INTO users (id, wallet_address, memo_balance, current_tier, subscription_type, created_at, last_active_at)
          VALUES (?, ?, 0, 1, 'FREE', ?, ?)`
       ).bind(newId, walletAddress, nowSec, nowSec).run();
-      return newId;
+      return { id: newId, current_tier: 1, subscription_type: 'FREE' };
     };
 
-    const userId = await ensureUser();
+    const quotaUser = await ensureUser();
+    const userId = quotaUser.id;
+    const quotaPolicy = await resolveQuotaPolicy(env, quotaUser);
+    const { dailyLimit, monthlyLimit } = quotaPolicy;
+    const maxTokensHardCap = quotaPolicy.maxTokensPerRequest;
 
     const dailyRow = await env.DB.prepare(
       `SELECT tokens_used FROM user_daily_stats WHERE user_id = ? AND stat_date = ? LIMIT 1`
@@ -1091,7 +1213,10 @@ async function handleAiProxy(request: Request, env: Env): Promise<Response> {
     const monthlyUsed = (monthlyRow?.tokens_used as number | undefined) ?? 0;
 
     if (monthlyUsed >= monthlyLimit) {
-      return jsonResponse({ error: 'monthly_quota_exceeded', monthlyUsed, monthlyLimit }, 429);
+      return jsonResponse({ error: 'monthly_quota_exceeded', monthlyUsed, monthlyLimit, rule: quotaPolicy.appliedRule }, 429);
+    }
+    if (dailyUsed >= dailyLimit) {
+      return jsonResponse({ error: 'daily_quota_exceeded', dailyUsed, dailyLimit, rule: quotaPolicy.appliedRule }, 429);
     }
 
     const normalizeMessages = (input: any[]): any[] => {
@@ -1123,234 +1248,392 @@ async function handleAiProxy(request: Request, env: Env): Promise<Response> {
     };
 
     const rawMessages = Array.isArray(body.messages) ? body.messages : [];
-    const messages = normalizeMessages(rawMessages);
+    let messages = normalizeMessages(rawMessages);
+
+    // include_session_summary: 把服务端保存的会话摘要并入系统提示，客户端只需发送最近的消息
+    let sessionSummaryApplied = false;
+    if (body.include_session_summary === true && typeof body.session_id === 'string' && body.session_id) {
+      try {
+        const sessionSummary = await getSessionSummary(env, body.session_id, walletAddress);
+        if (sessionSummary?.summary) {
+          messages = withSessionSummary(messages, sessionSummary.summary);
+          sessionSummaryApplied = true;
+        }
+      } catch (error) {
+        console.error('[AI Proxy] Failed to load session summary:', error);
+      }
+    }
     const lastUserContent = [...messages].reverse().find((m: any) => m?.role === 'user')?.content?.toString() || '';
 
     const functionType = (body.function_type || 'conversation').toString();
 
-    const isHighQuality = (() => {
-      if (messages.length >= 8) return true;
-      if (lastUserContent.length >= 120) return true;
-      if (/```|stack|trace|bug|error|kotlin|swift|typescript|sql|方案|设计|实现|步骤|对比|分析|权衡/i.test(lastUserContent)) return true;
-      if (/(必须|要求|至少|不少于|不要|改成|实现|支持).{0,20}(并且|同时|另外)/.test(lastUserContent)) return true;
-      return false;
-    })();
-
-    const requestedModel = (body.model || '').toString();
-    const selectedModel =
-      !requestedModel || requestedModel === 'auto'
-        ? (() => {
-            if (functionType === 'persona') return 'qwen-flash';
-            if (functionType === 'analysis') return 'qwen-flash';
-            if (functionType === 'questionnaire') return 'qwen-flash';
-            return isHighQuality ? 'qwen-max' : 'qwen-flash';
-          })()
-        : requestedModel;
-
-    const shouldEnableSearch = (() => {
-      if (typeof body.enable_search === 'boolean') return body.enable_search;
-      if (functionType === 'persona' || functionType === 'analysis' || functionType === 'questionnaire') return false;
-      if (/今天|最新|实时|价格|汇率|天气|新闻|发布|版本|what('?s)? new|latest|today|price|rate|weather|stock/i.test(lastUserContent)) return true;
-      return false;
-    })();
+    if (quotaPolicy.dailyConversationLimit != null && functionType === 'conversation') {
+      const dayStartSec = Math.floor(Date.parse(`${statDate}T00:00:00Z`) / 1000);
+      const conversationRow = await env.DB.prepare(
+        `SELECT COUNT(*) AS cnt FROM ai_usage_logs
+         WHERE user_id = ? AND function_type = 'conversation' AND success = 1 AND created_at >= ?`
+      ).bind(userId, dayStartSec).first();
+      const dailyConversations = Number(conversationRow?.cnt || 0);
+      if (dailyConversations >= quotaPolicy.dailyConversationLimit) {
+        return jsonResponse(
+          {
+            error: 'daily_conversation_limit_exceeded',
+            dailyConversations,
+            dailyConversationLimit: quotaPolicy.dailyConversationLimit,
+            rule: quotaPolicy.appliedRule
+          },
+          429
+        );
+      }
+    }
 
-    const upstreamModel = (() => {
-      if (!shouldEnableSearch) return selectedModel;
-      if (selectedModel.startsWith('qwen3-max')) return selectedModel;
-      return 'qwen3-max';
-    })();
+    // 模型、联网搜索、temperature、max_tokens 由 ai.routing.* 规则决定
+    const routingConfig = await loadRoutingConfig(env);
+    const routing = resolveRouting(routingConfig, {
+      functionType,
+      messageCount: messages.length,
+      lastUserContent,
+      tier: quotaPolicy.tier,
+      requestedModel: (body.model || '').toString(),
+      enableSearch: typeof body.enable_search === 'boolean' ? body.enable_search : null,
+      temperature: typeof body.temperature === 'number' ? body.temperature : null,
+      maxTokens: Number.isFinite(body.max_tokens) ? body.max_tokens : parseInt(body.max_tokens || '0') || 0
+    });
+    const shouldEnableSearch = routing.enableSearch;
+    const upstreamModel = routing.upstreamModel;
 
     const startMs = Date.now();
 
-    const maxTokens = Math.min(
-      Number.isFinite(body.max_tokens) ? body.max_tokens : parseInt(body.max_tokens || '0') || 0,
-      maxTokensHardCap
-    ) || 1000;
+    const maxTokens = Math.min(routing.maxTokens || 0, maxTokensHardCap) || 1000;
+
+    // 响应缓存：仅非流式、未开启联网搜索且该 function_type 配置了 TTL 时生效
+    const serverTools = resolveServerTools(body.server_tools);
+    const clientTools = Array.isArray(body.tools) && body.tools.length > 0 ? body.tools : null;
+
+    const cacheTtl = body.stream === true || shouldEnableSearch || serverTools.length > 0 || shouldBypassCache(request, body)
+      ? 0
+      : await getCacheTtl(env, functionType);
+    const cacheKey = cacheTtl > 0
+      ? await buildChatCacheKey(upstreamModel, messages, {
+        walletAddress,
+        temperature: routing.temperature,
+        maxTokens,
+        tools: clientTools,
+        toolChoice: clientTools ? body.tool_choice : undefined,
+        parallelToolCalls: clientTools && typeof body.parallel_tool_calls === 'boolean' ? body.parallel_tool_calls : null
+      })
+      : null;
+    if (cacheKey) {
+      const cached = await getCachedResponse(env, cacheKey);
+      if (cached) {
+        await logCacheHit(env, {
+          userId,
+          walletAddress,
+          model: upstreamModel,
+          functionType,
+          latencyMs: Date.now() - startMs,
+          savedTokens: cached.savedTokens,
+          requestId: cached.requestId
+        });
+        return new Response(cached.body, {
+          status: 200,
+          headers: { 'Content-Type': cached.contentType, 'X-AI-Cache': 'HIT', ...(sessionSummaryApplied ? { 'X-Session-Summary': 'applied' } : {}) }
+        });
+      }
+    }
 
     const estimatePromptTokens = (() => {
       const roughChars = messages.reduce((sum: number, m: any) => sum + ((m?.content || '').toString().length), 0);
       return Math.ceil(roughChars / 4) + messages.length * 5;
     })();
     const estimateTotalTokens = estimatePromptTokens + maxTokens;
-    if (monthlyUsed + estimateTotalTokens > monthlyLimit) {
+    // 调用上游前按预估用量原子预留，之后按实际 usage 结算或退回
+    const reserved = await reserveQuota(env, {
+      userId,
+      walletAddress,
+      statDate,
+      statMonth,
+      tokens: estimateTotalTokens,
+      dailyLimit,
+      monthlyLimit,
+      nowSec
+    });
+    if (!reserved.ok) {
       return jsonResponse(
-        { error: 'monthly_quota_would_exceed', monthlyUsed, monthlyLimit, estimatedTokens: estimateTotalTokens },
+        reserved.scope === 'monthly'
+          ? { error: 'monthly_quota_would_exceed', monthlyUsed, monthlyLimit, estimatedTokens: estimateTotalTokens }
+          : { error: 'daily_quota_would_exceed', dailyUsed, dailyLimit, estimatedTokens: estimateTotalTokens },
         429
       );
     }
+    const reservation = reserved.reservation;
+    pendingReservation = reservation;
 
-    const textEncoder = new TextEncoder();
     const textDecoder = new TextDecoder();
 
-    const base64ToBytes = (b64: string): Uint8Array<ArrayBuffer> => {
-      const binary = atob(b64);
-      const bytes = new Uint8Array(new ArrayBuffer(binary.length));
-      for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
-      return bytes;
-    };
-
-    const getAesKey = async (secret: string): Promise<CryptoKey> => {
-      const cached = (globalThis as any).__aiProxyCryptoKey as CryptoKey | undefined;
-      const cachedSecret = (globalThis as any).__aiProxyCryptoSecret as string | undefined;
-      if (cached && cachedSecret === secret) return cached;
-      const digest = await crypto.subtle.digest('SHA-256', textEncoder.encode(secret));
-      const key = await crypto.subtle.importKey('raw', digest, { name: 'AES-GCM' }, false, ['decrypt']);
-      (globalThis as any).__aiProxyCryptoKey = key;
-      (globalThis as any).__aiProxyCryptoSecret = secret;
-      return key;
-    };
+    // 服务端工具需要在多轮之间解析完整响应，启用时按非流式处理
+    const wantsStream = body.stream === true && serverTools.length === 0;
 
-    const decryptStoredKey = async (encrypted: string): Promise<string> => {
-      if (!encrypted) return '';
-      if (!encrypted.startsWith('v1:')) {
-        return atob(encrypted);
-      }
-      const secret = (env.ENCRYPTION_KEY || '').trim();
-      if (!secret) {
-        throw new Error('Missing ENCRYPTION_KEY');
-      }
-      const parts = encrypted.split(':');
-      if (parts.length !== 3) {
-        throw new Error('Invalid encrypted_key format');
-      }
-      const iv = base64ToBytes(parts[1]);
-      const data = base64ToBytes(parts[2]);
-      const cryptoKey = await getAesKey(secret);
-      const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, cryptoKey, data);
-      return textDecoder.decode(plaintext);
-    };
-
-    let apiKey = (env.QWEN_API_KEY && env.QWEN_API_KEY.trim().length > 0) ? env.QWEN_API_KEY.trim() : undefined;
-    let endpointUrl: string | undefined;
-
-    const qwenRow = await env.DB.prepare(
-      `SELECT encrypted_key, endpoint_url 
-       FROM api_keys 
-       WHERE service = 'qwen' AND is_active = 1
-       ORDER BY is_primary DESC, updated_at DESC, created_at DESC
-       LIMIT 1`
-    ).first();
-
-    if (qwenRow) {
-      endpointUrl = (qwenRow.endpoint_url as string) || undefined;
-    }
-
-    if (!apiKey) {
-      if (qwenRow && qwenRow.encrypted_key) {
-        try {
-          apiKey = await decryptStoredKey(qwenRow.encrypted_key as string);
-        } catch (e) {
-          return jsonResponse({ error: 'Key decryption failed' }, 500);
-        }
-      }
-    }
-
-    if (!apiKey) {
-      return jsonResponse({ error: 'AI service not configured', detail: 'missing_qwen_api_key' }, 503);
-    }
-    
-    const endpoint = endpointUrl || 'https://dashscope-intl.aliyuncs.com/compatible-mode/v1/chat/completions';
-    
     const proxyBody: any = {
       model: upstreamModel,
       messages,
-      temperature: body.temperature || 0.7,
+      temperature: routing.temperature,
       max_tokens: maxTokens,
-      stream: false
+      stream: wantsStream
     };
+    if (wantsStream) {
+      proxyBody.stream_options = { include_usage: true };
+    }
     if (shouldEnableSearch) {
       proxyBody.enable_search = true;
       proxyBody.search_options = { search_strategy: 'agent' };
     }
+    if (clientTools) {
+      proxyBody.tools = clientTools;
+      if (body.tool_choice !== undefined) proxyBody.tool_choice = body.tool_choice;
+      if (typeof body.parallel_tool_calls === 'boolean') proxyBody.parallel_tool_calls = body.parallel_tool_calls;
+    }
 
-    const upstreamResponse = await fetch(endpoint, {
+    // 按优先级依次尝试所有可用密钥，5xx / 429 / 超时自动切换
+    const sendUpstream = (payload: any) => callAiProvider(env, 'qwen', (key) => ({
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
+        'Authorization': `Bearer ${key.apiKey}`
       },
-      body: JSON.stringify(proxyBody)
-    });
-
-    const text = await upstreamResponse.text();
-    const latencyMs = Date.now() - startMs;
+      body: JSON.stringify(payload)
+    }), { timeoutMs: 90000 });
+
+    const providerResult = serverTools.length > 0
+      ? await runServerToolLoop(env, {
+          walletAddress,
+          payload: proxyBody,
+          enabledTools: serverTools,
+          maxRounds: await getToolMaxRounds(env),
+          tokenBudget: reservation.tokens,
+          send: sendUpstream
+        })
+      : await sendUpstream(proxyBody);
 
-    if (!upstreamResponse.ok) {
+    if (!providerResult.response) {
+      pendingReservation = null;
+      await refundQuota(env, reservation, nowSec);
+      const detail = providerResult.attempts.length === 0 ? 'missing_qwen_api_key' : 'all_providers_failed';
       await env.DB.prepare(
         `INSERT INTO ai_usage_logs (user_id, wallet_address, model, function_type, prompt_tokens, completion_tokens, total_tokens, latency_ms, success, error_message, created_at)
          VALUES (?, ?, ?, ?, 0, 0, 0, ?, 0, ?, ?)`
-      ).bind(userId, walletAddress, upstreamModel, functionType, latencyMs, text.slice(0, 500), nowSec).run();
+      ).bind(userId, walletAddress, upstreamModel, functionType, Date.now() - startMs, detail, nowSec).run();
+      return jsonResponse(
+        { error: 'AI service not configured', detail, attempts: providerResult.attempts.length },
+        503
+      );
+    }
+
+    const upstreamResponse = providerResult.response;
+    const apiKeyId = providerResult.key?.id ?? null;
+
+    const recordUsage = async (
+      usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number },
+      latencyMs: number,
+      upstreamRequestId: string | null,
+      errorMessage: string | null,
+      success = true
+    ): Promise<number> => {
+      const usedTokens = usage.total_tokens || (usage.prompt_tokens + usage.completion_tokens) || 0;
+
+      pendingReservation = null;
+      await commitQuota(env, reservation, usedTokens, Math.floor(Date.now() / 1000));
+
+      await env.DB!.prepare(
+        `INSERT INTO ai_usage_logs (user_id, wallet_address, api_key_id, model, function_type, prompt_tokens, completion_tokens, total_tokens, latency_ms, success, error_message, request_id, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).bind(
+        userId,
+        walletAddress,
+        apiKeyId,
+        upstreamModel,
+        functionType,
+        usage.prompt_tokens || 0,
+        usage.completion_tokens || 0,
+        usedTokens,
+        latencyMs,
+        success ? 1 : 0,
+        errorMessage,
+        upstreamRequestId,
+        nowSec
+      ).run();
+
+      return usedTokens;
+    };
+
+    if (!upstreamResponse.ok || !wantsStream || !upstreamResponse.body) {
+      const text = await upstreamResponse.text();
+      const latencyMs = Date.now() - startMs;
+
+      if (!upstreamResponse.ok) {
+        pendingReservation = null;
+        await refundQuota(env, reservation, nowSec);
+        await env.DB.prepare(
+          `INSERT INTO ai_usage_logs (user_id, wallet_address, api_key_id, model, function_type, prompt_tokens, completion_tokens, total_tokens, latency_ms, success, error_message, created_at)
+           VALUES (?, ?, ?, ?, ?, 0, 0, 0, ?, 0, ?, ?)`
+        ).bind(userId, walletAddress, apiKeyId, upstreamModel, functionType, latencyMs, text.slice(0, 500), nowSec).run();
+
+        return new Response(text, {
+          status: upstreamResponse.status,
+          headers: {
+            'Content-Type': upstreamResponse.headers.get('Content-Type') || 'application/json'
+          }
+        });
+      }
+
+      let usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+      let upstreamRequestId: string | null = null;
+      try {
+        const parsed = JSON.parse(text);
+        upstreamRequestId = parsed?.id || null;
+        if (parsed?.usage) {
+          usage = {
+            prompt_tokens: parsed.usage.prompt_tokens || 0,
+            completion_tokens: parsed.usage.completion_tokens || 0,
+            total_tokens: parsed.usage.total_tokens || 0
+          };
+        }
+      } catch (_e) {
+      }
+
+      const usedTokens = await recordUsage(usage, latencyMs, upstreamRequestId, null);
+      const contentType = upstreamResponse.headers.get('Content-Type') || 'application/json';
+
+      if (cacheKey) {
+        await putCachedResponse(env, cacheKey, {
+          body: text,
+          contentType,
+          savedTokens: usedTokens,
+          requestId: upstreamRequestId,
+          createdAt: nowSec
+        }, cacheTtl);
+      }
 
       return new Response(text, {
         status: upstreamResponse.status,
         headers: {
-          'Content-Type': upstreamResponse.headers.get('Content-Type') || 'application/json'
+          'Content-Type': contentType,
+          ...(cacheKey ? { 'X-AI-Cache': 'MISS' } : {}),
+          ...(sessionSummaryApplied ? { 'X-Session-Summary': 'applied' } : {})
         }
       });
     }
 
-    let usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
-    try {
-      const parsed = JSON.parse(text);
-      if (parsed?.usage) {
-        usage = {
-          prompt_tokens: parsed.usage.prompt_tokens || 0,
-          completion_tokens: parsed.usage.completion_tokens || 0,
-          total_tokens: parsed.usage.total_tokens || 0
-        };
-      }
-    } catch (_e) {
-    }
+    // 流式转发：逐块写给客户端，同时解析 SSE 事件提取最终 usage。
+    // 客户端中途断开时停止读取上游，并按已转发的内容计费。
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const upstreamReader = upstreamResponse.body.getReader();
+
+    const relay = (async () => {
+      let streamedUsage: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null = null;
+      let upstreamRequestId: string | null = null;
+      let completionChars = 0;
+      let clientGone = false;
+      let upstreamError: string | null = null;
+      let pending = '';
+
+      const consumeEvents = (chunkText: string) => {
+        pending += chunkText;
+        const lines = pending.split('\n');
+        pending = lines.pop() || '';
+        for (const rawLine of lines) {
+          const line = rawLine.trim();
+          if (!line.startsWith('data:')) continue;
+          const data = line.slice(5).trim();
+          if (!data || data === '[DONE]') continue;
+          try {
+            const event = JSON.parse(data);
+            if (event?.id && !upstreamRequestId) upstreamRequestId = event.id;
+            const delta = event?.choices?.[0]?.delta?.content;
+            if (typeof delta === 'string') completionChars += delta.length;
+            if (event?.usage) {
+              streamedUsage = {
+                prompt_tokens: event.usage.prompt_tokens || 0,
+                completion_tokens: event.usage.completion_tokens || 0,
+                total_tokens: event.usage.total_tokens || 0
+              };
+            }
+          } catch (_e) {
+          }
+        }
+      };
 
-    const usedTokens = usage.total_tokens || (usage.prompt_tokens + usage.completion_tokens) || 0;
-    if (monthlyUsed + usedTokens > monthlyLimit) {
-      return jsonResponse(
-        { error: 'monthly_quota_exceeded', monthlyUsed, monthlyLimit },
-        429
-      );
-    }
-    const newDailyUsed = Math.min(dailyLimit, dailyUsed + usedTokens);
-    const newMonthlyUsed = monthlyUsed + usedTokens;
+      try {
+        while (true) {
+          const { done, value } = await upstreamReader.read();
+          if (done) break;
+          if (!value) continue;
+          consumeEvents(textDecoder.decode(value, { stream: true }));
+          try {
+            await writer.write(value);
+          } catch (_e) {
+            clientGone = true;
+            await upstreamReader.cancel().catch(() => {});
+            break;
+          }
+        }
+      } catch (e) {
+        console.error('AI Proxy stream relay error:', e);
+        upstreamError = `upstream_stream_error: ${(e as Error)?.message || String(e)}`.slice(0, 500);
+      } finally {
+        if (!clientGone) {
+          // 上游中断时先发送 error 事件，避免客户端把截断的回答当作正常结束
+          if (upstreamError) {
+            const payload = JSON.stringify({ error: 'upstream_stream_error', message: upstreamError });
+            await writer.write(new TextEncoder().encode(`event: error\ndata: ${payload}\n\n`)).catch(() => {});
+          }
+          await writer.close().catch(() => {});
+        }
+      }
 
-    await env.DB.prepare(
-      `INSERT INTO user_daily_stats (user_id, wallet_address, stat_date, tokens_used, updated_at)
-       VALUES (?, ?, ?, ?, ?)
-       ON CONFLICT(user_id, stat_date) DO UPDATE SET tokens_used = ?, updated_at = ?`
-    ).bind(userId, walletAddress, statDate, newDailyUsed, nowSec, newDailyUsed, nowSec).run();
+      // 上游未返回 usage（例如客户端中途断开）时按已转发字符估算
+      const usage = streamedUsage || (() => {
+        const completionTokens = Math.ceil(completionChars / 4);
+        return {
+          prompt_tokens: estimatePromptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: estimatePromptTokens + completionTokens
+        };
+      })();
 
-    await env.DB.prepare(
-      `INSERT INTO user_monthly_stats (user_id, wallet_address, stat_month, tokens_used, updated_at)
-       VALUES (?, ?, ?, ?, ?)
-       ON CONFLICT(user_id, stat_month) DO UPDATE SET tokens_used = ?, updated_at = ?`
-    ).bind(userId, walletAddress, statMonth, newMonthlyUsed, nowSec, newMonthlyUsed, nowSec).run();
+      try {
+        await recordUsage(
+          usage,
+          Date.now() - startMs,
+          upstreamRequestId,
+          upstreamError ?? (clientGone ? 'client_disconnected' : null),
+          !upstreamError
+        );
+      } catch (e) {
+        console.error('AI Proxy stream billing error:', e);
+      }
+    })();
 
-    await env.DB.prepare(
-      `INSERT INTO ai_usage_logs (user_id, wallet_address, model, function_type, prompt_tokens, completion_tokens, total_tokens, latency_ms, success, request_id, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?)`
-    ).bind(
-      userId,
-      walletAddress,
-      upstreamModel,
-      functionType,
-      usage.prompt_tokens || 0,
-      usage.completion_tokens || 0,
-      usedTokens,
-      latencyMs,
-      (() => {
-        try { return JSON.parse(text)?.id || null; } catch (_e) { return null; }
-      })(),
-      nowSec
-    ).run();
+    if (ctx && typeof ctx.waitUntil === 'function') {
+      ctx.waitUntil(relay);
+    }
 
-    return new Response(text, {
-      status: upstreamResponse.status,
+    return new Response(readable, {
+      status: 200,
       headers: {
-        'Content-Type': upstreamResponse.headers.get('Content-Type') || 'application/json'
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        ...(sessionSummaryApplied ? { 'X-Session-Summary': 'applied' } : {})
       }
     });
 
   } catch (error) {
     console.error('AI Proxy Error:', error);
+    if (pendingReservation) {
+      await refundQuota(env, pendingReservation, Math.floor(Date.now() / 1000)).catch(() => {});
+    }
     return jsonResponse({ error: 'AI Proxy Failed', message: (error as Error).message }, 500);
   }
 }
@@ -1383,16 +1666,23 @@ async function handleAiQuotaStatus(request: Request, env: Env): Promise<Response
   const statDate = now.toISOString().slice(0, 10);
   const statMonth = `${now.getUTCFullYear()}${String(now.getUTCMonth() + 1).padStart(2, '0')}`;
 
-  const dailyLimit = 6000;
-  const monthlyLimit = 140000;
-
-  const userRow = await env.DB.prepare(
-    `SELECT id FROM users WHERE wallet_address = ? LIMIT 1`
-  ).bind(walletAddress).first();
-  const userId = (userRow?.id as string | undefined) || '';
+  const quotaUser = await loadQuotaUser(env, walletAddress);
+  const policy = await resolveQuotaPolicy(env, quotaUser);
+  const { dailyLimit, monthlyLimit } = policy;
+  const policyInfo = {
+    plan: policy.plan,
+    tier: policy.tier,
+    maxTokensPerRequest: policy.maxTokensPerRequest,
+    dailyConversationLimit: policy.dailyConversationLimit,
+    warningThreshold: policy.warningThreshold,
+    appliedRule: policy.appliedRule,
+    rules: policy.rules
+  };
+
+  const userId = quotaUser?.id || '';
   if (!userId) {
     return jsonResponse(
-      { walletAddress, dailyUsed: 0, dailyLimit, monthlyUsed: 0, monthlyLimit, statDate, statMonth },
+      { walletAddress, dailyUsed: 0, dailyLimit, monthlyUsed: 0, monthlyLimit, statDate, statMonth, ...policyInfo },
       200
     );
   }
@@ -1408,12 +1698,12 @@ async function handleAiQuotaStatus(request: Request, env: Env): Promise<Response
   const monthlyUsed = (monthlyRow?.tokens_used as number | undefined) ?? 0;
 
   return jsonResponse(
-    { walletAddress, dailyUsed, dailyLimit, monthlyUsed, monthlyLimit, statDate, statMonth },
+    { walletAddress, dailyUsed, dailyLimit, monthlyUsed, monthlyLimit, statDate, statMonth, ...policyInfo },
     200
   );
 }
 
-async function handleAiEmbeddingProxy(request: Request, env: Env): Promise<Response> {
+export async function handleAiEmbeddingProxy(request: Request, env: Env): Promise<Response> {
   if (request.method !== 'POST') {
     return jsonResponse({ error: 'Method not allowed' }, 405);
   }
@@ -1424,67 +1714,68 @@ async function handleAiEmbeddingProxy(request: Request, env: Env): Promise<Respo
 
   try {
     const body = await request.json() as any;
+    const startMs = Date.now();
 
-    let apiKey = (env.QWEN_API_KEY && env.QWEN_API_KEY.trim().length > 0) ? env.QWEN_API_KEY.trim() : undefined;
-    let endpointUrl: string | undefined;
-
-    const embeddingRow = await env.DB.prepare(
-      `SELECT encrypted_key, endpoint_url 
-       FROM api_keys
-       WHERE service = 'embedding' AND is_active = 1
-       ORDER BY is_primary DESC, updated_at DESC, created_at DESC
-       LIMIT 1`
-    ).first();
-
-    if (embeddingRow) {
-      endpointUrl = (embeddingRow.endpoint_url as string) || undefined;
-    }
-
-    if (!apiKey && embeddingRow && embeddingRow.encrypted_key) {
-      try {
-        apiKey = atob(embeddingRow.encrypted_key as string);
-      } catch (e) {
-        return jsonResponse({ error: 'Key decryption failed' }, 500);
-      }
-    }
-
-    if (!apiKey) {
-      const qwenRow = await env.DB.prepare(
-        `SELECT encrypted_key 
-         FROM api_keys
-         WHERE service = 'qwen' AND is_active = 1
-         ORDER BY is_primary DESC, updated_at DESC, created_at DESC
-         LIMIT 1`
-      ).first();
-      if (qwenRow && qwenRow.encrypted_key) {
-        try {
-          apiKey = atob(qwenRow.encrypted_key as string);
-        } catch (e) {
-          return jsonResponse({ error: 'Key decryption failed' }, 500);
-        }
+    const cacheTtl = shouldBypassCache(request, body) ? 0 : await getCacheTtl(env, 'embedding');
+    const cacheKey = cacheTtl > 0
+      ? await buildEmbeddingCacheKey((body.model || '').toString(), body.input ?? body.text, {
+          walletAddress: body.walletAddress ? String(body.walletAddress) : null,
+          parameters: body.parameters
+        })
+      : null;
+    if (cacheKey) {
+      const cached = await getCachedResponse(env, cacheKey);
+      if (cached) {
+        await logCacheHit(env, {
+          userId: null,
+          walletAddress: body.walletAddress ? String(body.walletAddress) : null,
+          model: (body.model || 'embedding').toString(),
+          functionType: 'embedding',
+          latencyMs: Date.now() - startMs,
+          savedTokens: cached.savedTokens,
+          requestId: cached.requestId
+        });
+        return new Response(cached.body, {
+          status: 200,
+          headers: { 'Content-Type': cached.contentType, 'X-AI-Cache': 'HIT' }
+        });
       }
     }
 
-    if (!apiKey) {
-      return jsonResponse({ error: 'AI service not configured' }, 503);
-    }
-
-    const endpoint = endpointUrl || 'https://dashscope-intl.aliyuncs.com/api/v1/services/embeddings/text-embedding/text-embedding';
-
-    const upstreamResponse = await fetch(endpoint, {
+    const providerResult = await callAiProvider(env, 'embedding', (key) => ({
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
+        'Authorization': `Bearer ${key.apiKey}`
       },
       body: JSON.stringify(body)
-    });
+    }));
+
+    if (!providerResult.response) {
+      return jsonResponse({ error: 'AI service not configured' }, 503);
+    }
 
+    const upstreamResponse = providerResult.response;
     const text = await upstreamResponse.text();
+    const contentType = upstreamResponse.headers.get('Content-Type') || 'application/json';
+
+    if (cacheKey && upstreamResponse.ok) {
+      let savedTokens = 0;
+      let requestId: string | null = null;
+      try {
+        const parsed = JSON.parse(text);
+        savedTokens = parsed?.usage?.total_tokens || 0;
+        requestId = parsed?.request_id || parsed?.id || null;
+      } catch (_e) {
+      }
+      await putCachedResponse(env, cacheKey, { body: text, contentType, savedTokens, requestId, createdAt: Math.floor(Date.now() / 1000) }, cacheTtl);
+    }
+
     return new Response(text, {
       status: upstreamResponse.status,
       headers: {
-        'Content-Type': upstreamResponse.headers.get('Content-Type') || 'application/json'
+        'Content-Type': contentType,
+        ...(cacheKey && upstreamResponse.ok ? { 'X-AI-Cache': 'MISS' } : {})
       }
     });
   } catch (error) {
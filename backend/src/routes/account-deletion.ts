@@ -0,0 +1,98 @@
+/**
+ * 账户注销 API
+ * challenge 获取待签名消息 → POST 提交钱包签名进入冷静期 → 冷静期内可 DELETE 撤回，期满由定时任务执行
+ */
+
+import { Env, jsonResponse } from '../index'
+import { getUserAuth } from '../utils/user-auth'
+import {
+  AccountDeletionRequest,
+  cancelDeletionRequest,
+  confirmDeletionRequest,
+  createDeletionChallenge,
+  getLatestDeletionRequest,
+} from '../services/account-deletion'
+
+function toDeletionView(request: AccountDeletionRequest) {
+  return {
+    requestId: request.id,
+    status: request.status,
+    requestedAt: request.requested_at ?? null,
+    executeAfter: request.execute_after ?? null,
+    cancelledAt: request.cancelled_at ?? null,
+    completedAt: request.completed_at ?? null,
+  }
+}
+
+export async function handleAccountDeletionRoutes(request: Request, env: Env, path: string): Promise<Response | null> {
+  if (path === '/api/v1/users/deletion/challenge' && request.method === 'POST') {
+    return handleDeletionChallenge(request, env)
+  }
+  if (path === '/api/v1/users/deletion' && request.method === 'POST') {
+    return handleConfirmDeletion(request, env)
+  }
+  if (path === '/api/v1/users/deletion' && request.method === 'GET') {
+    return handleGetDeletion(request, env)
+  }
+  if (path === '/api/v1/users/deletion' && request.method === 'DELETE') {
+    return handleCancelDeletion(request, env)
+  }
+  return null
+}
+
+async function handleDeletionChallenge(request: Request, env: Env): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const latest = await getLatestDeletionRequest(env, auth.walletAddress)
+  if (latest?.status === 'pending') {
+    return jsonResponse({ error: 'deletion_already_scheduled', ...toDeletionView(latest) }, 409)
+  }
+
+  const challenge = await createDeletionChallenge(env, auth.walletAddress)
+  return jsonResponse({
+    requestId: challenge.id,
+    message: challenge.message,
+    expiresAt: challenge.challenge_expires_at,
+  })
+}
+
+async function handleConfirmDeletion(request: Request, env: Env): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  let body: { requestId?: string; signature?: string }
+  try {
+    body = (await request.json()) as any
+  } catch {
+    return jsonResponse({ error: 'invalid_json' }, 400)
+  }
+  if (!body.requestId || !body.signature) {
+    return jsonResponse({ error: 'Missing required fields', required: ['requestId', 'signature'] }, 400)
+  }
+
+  const result = await confirmDeletionRequest(env, auth.walletAddress, body.requestId, body.signature)
+  if (!result.ok) return jsonResponse({ error: result.error }, result.status)
+  return jsonResponse({ success: true, ...toDeletionView(result.request) }, 202)
+}
+
+async function handleGetDeletion(request: Request, env: Env): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const latest = await getLatestDeletionRequest(env, auth.walletAddress)
+  return jsonResponse({ deletion: latest ? toDeletionView(latest) : null })
+}
+
+async function handleCancelDeletion(request: Request, env: Env): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const cancelled = await cancelDeletionRequest(env, auth.walletAddress)
+  if (!cancelled) return jsonResponse({ error: 'no_pending_deletion' }, 404)
+  return jsonResponse({ success: true, ...toDeletionView(cancelled) })
+}
@@ -0,0 +1,148 @@
+/**
+ * 账户数据导出 API
+ * POST 创建导出任务（异步打包到 R2），GET 查询状态 / 下载归档，verify 校验 manifest 签名
+ */
+
+import { Env, jsonResponse } from '../index'
+import { getUserAuth } from '../utils/user-auth'
+import { verifyConfigValue } from '../utils/config-signature'
+import {
+  ACCOUNT_EXPORT_SIGNATURE_KEY,
+  AccountExportJob,
+  buildAccountExport,
+  createAccountExport,
+  getAccountExport,
+  listAccountExports,
+} from '../services/account-export'
+
+function toExportView(job: AccountExportJob) {
+  return {
+    exportId: job.id,
+    status: job.status,
+    size: job.size ?? null,
+    memoryCount: job.memory_count ?? null,
+    manifestSha256: job.manifest_sha256 || null,
+    signature: job.signature || null,
+    error: job.error || null,
+    createdAt: job.created_at,
+    completedAt: job.completed_at ?? null,
+    expiresAt: job.expires_at ?? null,
+    downloadUrl: job.status === 'ready' ? `/api/v1/users/export/${job.id}/download` : null,
+  }
+}
+
+export async function handleAccountExportRoutes(request: Request, env: Env, path: string, ctx?: any): Promise<Response | null> {
+  if (path === '/api/v1/users/export' && request.method === 'POST') {
+    return handleCreateExport(request, env, ctx)
+  }
+  if (path === '/api/v1/users/export' && request.method === 'GET') {
+    return handleListExports(request, env)
+  }
+  if (path === '/api/v1/users/export/verify' && request.method === 'POST') {
+    return handleVerifyExport(request, env)
+  }
+
+  const downloadMatch = path.match(/^\/api\/v1\/users\/export\/([^/]+)\/download$/)
+  if (downloadMatch && request.method === 'GET') {
+    return handleDownloadExport(request, env, downloadMatch[1])
+  }
+
+  const exportMatch = path.match(/^\/api\/v1\/users\/export\/([^/]+)$/)
+  if (exportMatch && request.method === 'GET') {
+    return handleGetExport(request, env, exportMatch[1])
+  }
+
+  return null
+}
+
+async function handleCreateExport(request: Request, env: Env, ctx?: any): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB || !env.R2) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const { job, created } = await createAccountExport(env, auth.walletAddress)
+  // 优先在请求结束后立即打包，未完成的由定时任务兜底
+  if (created && ctx && typeof ctx.waitUntil === 'function') {
+    ctx.waitUntil(buildAccountExport(env, job.id))
+  }
+  return jsonResponse({ success: true, created, ...toExportView(job) }, 202)
+}
+
+async function handleListExports(request: Request, env: Env): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const jobs = await listAccountExports(env, auth.walletAddress)
+  return jsonResponse({ exports: jobs.map(toExportView) })
+}
+
+async function handleGetExport(request: Request, env: Env, exportId: string): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const job = await getAccountExport(env, auth.walletAddress, exportId)
+  if (!job) return jsonResponse({ error: 'not_found' }, 404)
+  return jsonResponse(toExportView(job))
+}
+
+async function handleDownloadExport(request: Request, env: Env, exportId: string): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB || !env.R2) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const job = await getAccountExport(env, auth.walletAddress, exportId)
+  if (!job) return jsonResponse({ error: 'not_found' }, 404)
+  if (job.status === 'expired' || (job.expires_at && job.expires_at <= Math.floor(Date.now() / 1000))) {
+    return jsonResponse({ error: 'export_expired', expiresAt: job.expires_at ?? null }, 410)
+  }
+  if (job.status !== 'ready' || !job.r2_key) {
+    return jsonResponse({ error: 'export_not_ready', status: job.status }, 409)
+  }
+
+  const obj = await env.R2.get(job.r2_key)
+  if (!obj) return jsonResponse({ error: 'not_found' }, 404)
+
+  const date = new Date(job.created_at * 1000).toISOString().slice(0, 10)
+  const headers = new Headers({
+    'Content-Type': 'application/zip',
+    'Content-Disposition': `attachment; filename="soulon-export-${date}-${job.id.slice(0, 8)}.zip"`,
+    'Content-Length': String(obj.size),
+  })
+  if (job.manifest_sha256) headers.set('X-Manifest-Sha256', job.manifest_sha256)
+  if (job.signature) headers.set('X-Manifest-Signature', job.signature)
+  return new Response(obj.body, { status: 200, headers })
+}
+
+/**
+ * 校验导出归档中的 manifest：传入 manifest.json 原文（或其 SHA-256）与 signature.json 中的签名
+ */
+async function handleVerifyExport(request: Request, env: Env): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+
+  let body: { manifest?: string; manifestSha256?: string; signature?: string }
+  try {
+    body = (await request.json()) as any
+  } catch {
+    return jsonResponse({ error: 'invalid_json' }, 400)
+  }
+  const signature = (body.signature || '').trim()
+  if (!signature || (typeof body.manifest !== 'string' && !body.manifestSha256)) {
+    return jsonResponse({ error: 'manifest_and_signature_required' }, 400)
+  }
+
+  let manifestSha256 = (body.manifestSha256 || '').trim().toLowerCase()
+  if (typeof body.manifest === 'string') {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body.manifest))
+    const actual = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+    if (manifestSha256 && manifestSha256 !== actual) {
+      return jsonResponse({ valid: false, reason: 'manifest_hash_mismatch', manifestSha256: actual })
+    }
+    manifestSha256 = actual
+  }
+
+  const valid = await verifyConfigValue(env, ACCOUNT_EXPORT_SIGNATURE_KEY, manifestSha256, signature)
+  return jsonResponse({ valid, manifestSha256, ...(valid ? {} : { reason: 'signature_invalid' }) })
+}
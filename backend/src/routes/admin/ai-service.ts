@@ -5,6 +5,20 @@
 
 import { AdminContext, logAdminAction } from './middleware'
 import { getSolanaRpcUrl } from '../../utils/solana-rpc'
+import { getProviderHealth, resetKeyCircuit } from '../../services/ai-provider'
+import { resolveQuotaPolicy, QuotaUser } from '../../services/ai-quota'
+import { ensureAiCacheColumns } from '../../services/ai-cache'
+import { loadRoutingConfig, resolveRouting, KeywordClass, RoutingConfig, RoutingRule } from '../../services/ai-routing'
+import {
+  advanceEmbeddingMigration,
+  createEmbeddingMigration,
+  getCurrentEmbeddingVersion,
+  getEmbeddingMigration,
+  getEmbeddingVersionStats,
+  listEmbeddingMigrations,
+  setEmbeddingMigrationStatus,
+  EmbeddingMigration,
+} from '../../services/embedding-migration'
 
 function jsonResponse(data: unknown, status: number = 200): Response {
   return new Response(JSON.stringify(data), {
@@ -556,6 +570,8 @@ export async function getAiUsageStats(
       return jsonResponse({ error: 'Database not available' }, 500)
     }
 
+    await ensureAiCacheColumns(env)
+
     const now = Math.floor(Date.now() / 1000)
     const startTime = now - (days * 86400)
 
@@ -579,7 +595,9 @@ export async function getAiUsageStats(
         SUM(completion_tokens) as completion_tokens,
         SUM(cost_usd) as total_cost,
         AVG(latency_ms) as avg_latency,
-        SUM(CASE WHEN success = 0 THEN 1 ELSE 0 END) as error_count
+        SUM(CASE WHEN success = 0 THEN 1 ELSE 0 END) as error_count,
+        SUM(CASE WHEN cache_hit = 1 THEN 1 ELSE 0 END) as cache_hits,
+        SUM(COALESCE(saved_tokens, 0)) as saved_tokens
       FROM ai_usage_logs 
       WHERE created_at >= ?
       GROUP BY ${groupBy}
@@ -724,9 +742,12 @@ export async function getUserQuota(
 
     // 获取用户信息
     const user = await env.DB.prepare(
-      'SELECT subscription_type, current_tier FROM users WHERE id = ?'
+      'SELECT id, subscription_type, current_tier, subscription_expiry, staked_amount FROM users WHERE id = ?'
     ).bind(userId).first()
 
+    // 实际生效的配额策略
+    const effective = await resolveQuotaPolicy(env, user ? (user as QuotaUser) : null)
+
     // 获取本月用量
     const monthStart = new Date()
     monthStart.setDate(1)
@@ -749,6 +770,7 @@ export async function getUserQuota(
         expiresAt: override.expires_at ? new Date(override.expires_at * 1000).toISOString() : null,
       } : null,
       usedTokens: usage?.used_tokens || 0,
+      effective,
     })
   } catch (error) {
     console.error('Error getting user quota:', error)
@@ -854,6 +876,239 @@ export async function toggleCircuitBreaker(
   }
 }
 
+/**
+ * 熔断状态：全局开关 + 各密钥健康
+ */
+export async function getCircuitBreakerStatus(
+  request: Request,
+  env: any,
+  adminContext: AdminContext
+): Promise<Response> {
+  try {
+    let flagValue: string | null = null
+    if (env.KV) {
+      flagValue = await env.KV.get('feature:ai_service_enabled')
+    }
+    if (flagValue === null && env.DB) {
+      const row = await env.DB.prepare(
+        'SELECT enabled FROM feature_flags WHERE key = ?'
+      ).bind('ai_service_enabled').first()
+      if (row) flagValue = String(row.enabled)
+    }
+
+    const keys = await getProviderHealth(env)
+
+    return jsonResponse({
+      circuitBreakerEnabled: flagValue === '0',
+      keys,
+      summary: {
+        total: keys.length,
+        open: keys.filter((k) => k.circuit === 'open').length,
+        halfOpen: keys.filter((k) => k.circuit === 'half_open').length,
+      },
+    })
+  } catch (error) {
+    console.error('Error getting circuit breaker status:', error)
+    return jsonResponse({ error: 'Failed to get circuit breaker status' }, 500)
+  }
+}
+
+/**
+ * 手动重置单个密钥的熔断状态
+ */
+export async function resetApiKeyCircuit(
+  request: Request,
+  env: any,
+  adminContext: AdminContext,
+  keyId: string
+): Promise<Response> {
+  try {
+    await resetKeyCircuit(env, keyId === 'env' ? null : parseInt(keyId))
+
+    await logAdminAction(env, adminContext, 'RESET_KEY_CIRCUIT', 'api_key', keyId,
+      `重置密钥熔断状态: ${keyId}`)
+
+    return jsonResponse({ success: true })
+  } catch (error) {
+    console.error('Error resetting key circuit:', error)
+    return jsonResponse({ error: 'Failed to reset key circuit' }, 500)
+  }
+}
+
+/**
+ * 路由规则试运行：返回样例请求会命中的规则与最终模型参数
+ * 可在 body 中传入 rules / keywordClasses / searchModel 草稿，在保存前验证
+ */
+export async function dryRunRouting(
+  request: Request,
+  env: any,
+  adminContext: AdminContext
+): Promise<Response> {
+  try {
+    const body = await request.json() as {
+      functionType?: string
+      messages?: Array<{ role: string; content: string }>
+      text?: string
+      messageCount?: number
+      tier?: number
+      model?: string
+      enableSearch?: boolean
+      temperature?: number
+      maxTokens?: number
+      rules?: RoutingRule[]
+      keywordClasses?: Record<string, KeywordClass>
+      searchModel?: string
+    }
+
+    const saved = await loadRoutingConfig(env)
+    const config: RoutingConfig = {
+      rules: Array.isArray(body.rules) ? body.rules : saved.rules,
+      keywordClasses: body.keywordClasses && typeof body.keywordClasses === 'object' ? body.keywordClasses : saved.keywordClasses,
+      searchModel: body.searchModel || saved.searchModel,
+    }
+
+    const messages = Array.isArray(body.messages) ? body.messages : []
+    const lastUserContent = body.text ??
+      [...messages].reverse().find((m) => (m?.role || '').toLowerCase() === 'user')?.content ?? ''
+
+    const decision = resolveRouting(config, {
+      functionType: body.functionType || 'conversation',
+      messageCount: body.messageCount ?? messages.length,
+      lastUserContent: String(lastUserContent),
+      tier: body.tier ?? 1,
+      requestedModel: body.model ?? null,
+      enableSearch: typeof body.enableSearch === 'boolean' ? body.enableSearch : null,
+      temperature: typeof body.temperature === 'number' ? body.temperature : null,
+      maxTokens: typeof body.maxTokens === 'number' ? body.maxTokens : null,
+    })
+
+    return jsonResponse({
+      decision,
+      usingDraft: Array.isArray(body.rules) || !!body.keywordClasses || !!body.searchModel,
+    })
+  } catch (error) {
+    console.error('Error running routing dry-run:', error)
+    return jsonResponse({ error: 'Failed to run routing dry-run' }, 500)
+  }
+}
+
+function formatMigration(m: EmbeddingMigration) {
+  const done = (m.processed || 0) + (m.failed || 0)
+  return {
+    id: m.id,
+    targetModel: m.target_model,
+    targetDimension: m.target_dimension,
+    status: m.status,
+    total: m.total,
+    processed: m.processed,
+    failed: m.failed,
+    progress: m.total > 0 ? Math.min(1, done / m.total) : 1,
+    cursor: m.cursor,
+    batchSize: m.batch_size,
+    lastError: m.last_error,
+    createdBy: m.created_by,
+    createdAt: new Date(m.created_at * 1000).toISOString(),
+    updatedAt: new Date(m.updated_at * 1000).toISOString(),
+    completedAt: m.completed_at ? new Date(m.completed_at * 1000).toISOString() : null,
+  }
+}
+
+/**
+ * Embedding 版本分布与迁移进度
+ */
+export async function getEmbeddingMigrations(
+  request: Request,
+  env: any,
+  adminContext: AdminContext
+): Promise<Response> {
+  try {
+    const [current, versions, migrations] = await Promise.all([
+      getCurrentEmbeddingVersion(env),
+      getEmbeddingVersionStats(env),
+      listEmbeddingMigrations(env),
+    ])
+    const total = versions.reduce((sum, v) => sum + v.count, 0)
+
+    return jsonResponse({
+      current,
+      versions: versions.map((v) => ({ ...v, share: total > 0 ? v.count / total : 0 })),
+      totalVectors: total,
+      outdatedVectors: versions.filter((v) => !v.current).reduce((sum, v) => sum + v.count, 0),
+      migrations: migrations.map(formatMigration),
+    })
+  } catch (error) {
+    console.error('Error getting embedding migrations:', error)
+    return jsonResponse({ error: 'Failed to get embedding migrations' }, 500)
+  }
+}
+
+/**
+ * 发起重新向量化迁移（默认迁移到当前配置的版本）
+ */
+export async function startEmbeddingMigration(
+  request: Request,
+  env: any,
+  adminContext: AdminContext
+): Promise<Response> {
+  try {
+    const body = await request.json().catch(() => ({})) as { model?: string; dimension?: number; batchSize?: number }
+
+    const { migration, error } = await createEmbeddingMigration(env, {
+      model: body.model,
+      dimension: body.dimension,
+      batchSize: body.batchSize,
+      createdBy: adminContext.adminEmail,
+    })
+    if (!migration) {
+      return jsonResponse({ error: error || 'Failed to start embedding migration' }, 409)
+    }
+
+    await logAdminAction(env, adminContext, 'START_EMBEDDING_MIGRATION', 'embedding_migration', migration.id,
+      `发起 Embedding 迁移: ${migration.target_model}@${migration.target_dimension}，待处理 ${migration.total} 条`)
+
+    return jsonResponse({ success: true, migration: formatMigration(migration) })
+  } catch (error) {
+    console.error('Error starting embedding migration:', error)
+    return jsonResponse({ error: 'Failed to start embedding migration' }, 500)
+  }
+}
+
+/**
+ * 暂停 / 恢复 / 取消迁移，或立即推进若干批
+ */
+export async function updateEmbeddingMigration(
+  request: Request,
+  env: any,
+  adminContext: AdminContext,
+  id: string,
+  action: string
+): Promise<Response> {
+  try {
+    let migration: EmbeddingMigration | null
+    if (action === 'run') {
+      const existing = await getEmbeddingMigration(env, id)
+      if (!existing || existing.status !== 'running') {
+        return jsonResponse({ error: 'Migration not running' }, 400)
+      }
+      migration = await advanceEmbeddingMigration(env, existing, 5)
+    } else {
+      const status = action === 'pause' ? 'paused' : action === 'resume' ? 'running' : 'cancelled'
+      migration = await setEmbeddingMigrationStatus(env, id, status)
+      if (!migration) {
+        return jsonResponse({ error: 'Migration not found or already finished' }, 404)
+      }
+    }
+
+    await logAdminAction(env, adminContext, 'UPDATE_EMBEDDING_MIGRATION', 'embedding_migration', id,
+      `Embedding 迁移操作: ${action}`)
+
+    return jsonResponse({ success: true, migration: migration ? formatMigration(migration) : null })
+  } catch (error) {
+    console.error('Error updating embedding migration:', error)
+    return jsonResponse({ error: 'Failed to update embedding migration' }, 500)
+  }
+}
+
 /**
  * 处理 AI 服务管理路由
  */
@@ -920,10 +1175,36 @@ export async function handleAiServiceRoutes(
     }
   }
 
+  // 模型路由
+  if (request.method === 'POST' && path === '/admin/ai/routing/dry-run') {
+    return dryRunRouting(request, env, adminContext)
+  }
+
+  // Embedding 版本迁移
+  if (request.method === 'GET' && path === '/admin/ai/embeddings/migrations') {
+    return getEmbeddingMigrations(request, env, adminContext)
+  }
+  if (request.method === 'POST' && path === '/admin/ai/embeddings/migrations') {
+    return startEmbeddingMigration(request, env, adminContext)
+  }
+
+  const migrationActionMatch = path.match(/^\/admin\/ai\/embeddings\/migrations\/([^/]+)\/(pause|resume|cancel|run)$/)
+  if (request.method === 'POST' && migrationActionMatch) {
+    return updateEmbeddingMigration(request, env, adminContext, migrationActionMatch[1], migrationActionMatch[2])
+  }
+
   // 熔断开关
+  if (request.method === 'GET' && path === '/admin/ai/circuit-breaker') {
+    return getCircuitBreakerStatus(request, env, adminContext)
+  }
   if (request.method === 'POST' && path === '/admin/ai/circuit-breaker') {
     return toggleCircuitBreaker(request, env, adminContext)
   }
 
+  const keyCircuitMatch = path.match(/^\/admin\/ai\/keys\/(\d+|env)\/circuit\/reset$/)
+  if (request.method === 'POST' && keyCircuitMatch) {
+    return resetApiKeyCircuit(request, env, adminContext, keyCircuitMatch[1])
+  }
+
   return null
 }
@@ -5,6 +5,16 @@
 
 import { AdminContext, logAdminAction } from './middleware'
 import { signConfigValue } from '../../utils/config-signature'
+import { DEFAULT_KEYWORD_CLASSES, DEFAULT_ROUTING_RULES, DEFAULT_SEARCH_MODEL } from '../../services/ai-routing'
+import { DEFAULT_CACHE_TTL_SECONDS } from '../../services/ai-cache'
+import { DEFAULT_TOOL_MAX_ROUNDS } from '../../services/ai-tools'
+import { DEFAULT_EMBEDDING_DIMENSION, DEFAULT_EMBEDDING_MODEL, DEFAULT_MIGRATION_BATCHES_PER_RUN } from '../../services/embedding-migration'
+import { DEFAULT_RESTORE_WINDOW_DAYS } from '../../services/memory-blob-store'
+import { DEFAULT_STORAGE_QUOTA_MB } from '../../services/storage-quota'
+import { DEFAULT_DELETION_COOLING_OFF_DAYS } from '../../services/account-deletion'
+import { DEFAULT_DRIFT_THRESHOLD, DEFAULT_DRIFT_WINDOW_DAYS } from '../../services/persona-history'
+import { DEFAULT_EVIDENCE_HALF_LIFE_DAYS, DEFAULT_MAX_SIGNAL_STEP } from '../../services/persona-updates'
+import { DEFAULT_SUMMARY_KEEP_RECENT, DEFAULT_SUMMARY_MODEL } from '../../services/chat-summaries'
 
 interface ConfigItem {
   id: number
@@ -1531,6 +1541,406 @@ const BUILTIN_CONFIG_DEFS: Record<string, Omit<ConfigItem, 'id' | 'configValue'
     isActive: true,
     updatedBy: null,
   },
+  'quota.daily_free': {
+    configKey: 'quota.daily_free',
+    valueType: 'number',
+    category: 'quota',
+    subCategory: 'daily',
+    displayName: '免费用户日限额',
+    description: '普通用户每日Token限额',
+    defaultValue: '6000',
+    minValue: '0',
+    maxValue: '100000000',
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'quota.daily_subscriber': {
+    configKey: 'quota.daily_subscriber',
+    valueType: 'number',
+    category: 'quota',
+    subCategory: 'daily',
+    displayName: '订阅用户日限额',
+    description: '订阅用户每日Token限额',
+    defaultValue: '30000',
+    minValue: '0',
+    maxValue: '100000000',
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'quota.daily_staker': {
+    configKey: 'quota.daily_staker',
+    valueType: 'number',
+    category: 'quota',
+    subCategory: 'daily',
+    displayName: '质押用户日限额',
+    description: '质押用户每日Token限额',
+    defaultValue: '100000',
+    minValue: '0',
+    maxValue: '100000000',
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'quota.max_tokens_per_request': {
+    configKey: 'quota.max_tokens_per_request',
+    valueType: 'number',
+    category: 'quota',
+    subCategory: 'request',
+    displayName: '单次请求最大Token',
+    description: 'AI 代理单次请求 max_tokens 上限',
+    defaultValue: '2048',
+    minValue: '1',
+    maxValue: '32768',
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'quota.storage_free_mb': {
+    configKey: 'quota.storage_free_mb',
+    valueType: 'number',
+    category: 'quota',
+    subCategory: 'storage',
+    displayName: '免费用户存储配额(MB)',
+    description: '免费用户可在 R2/KV 暂存的记忆数据上限（含历史版本与待清除数据）',
+    defaultValue: String(DEFAULT_STORAGE_QUOTA_MB.free),
+    minValue: '0',
+    maxValue: '1048576',
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'quota.storage_subscriber_mb': {
+    configKey: 'quota.storage_subscriber_mb',
+    valueType: 'number',
+    category: 'quota',
+    subCategory: 'storage',
+    displayName: '订阅用户存储配额(MB)',
+    description: '订阅用户可在 R2/KV 暂存的记忆数据上限（含历史版本与待清除数据）',
+    defaultValue: String(DEFAULT_STORAGE_QUOTA_MB.subscriber),
+    minValue: '0',
+    maxValue: '1048576',
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'quota.storage_staker_mb': {
+    configKey: 'quota.storage_staker_mb',
+    valueType: 'number',
+    category: 'quota',
+    subCategory: 'storage',
+    displayName: '质押用户存储配额(MB)',
+    description: '质押用户可在 R2/KV 暂存的记忆数据上限（含历史版本与待清除数据）',
+    defaultValue: String(DEFAULT_STORAGE_QUOTA_MB.staker),
+    minValue: '0',
+    maxValue: '1048576',
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'quota.tier_multiplier': {
+    configKey: 'quota.tier_multiplier',
+    valueType: 'json',
+    category: 'quota',
+    subCategory: 'tier',
+    displayName: 'Tier配额倍数',
+    description: '各Tier对日/月限额的倍数',
+    defaultValue: '[1.0,1.2,1.5,2.0,3.0]',
+    minValue: null,
+    maxValue: null,
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'ai.routing.rules': {
+    configKey: 'ai.routing.rules',
+    valueType: 'json',
+    category: 'ai',
+    subCategory: 'routing',
+    displayName: 'AI-模型路由规则（JSON）',
+    description: '按顺序匹配 function_type / 消息条数 / 长度 / 关键词类别 / Tier，各字段取第一条命中规则的 model、enableSearch、temperature、maxTokens',
+    defaultValue: JSON.stringify(DEFAULT_ROUTING_RULES),
+    minValue: null,
+    maxValue: null,
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'ai.routing.keyword_classes': {
+    configKey: 'ai.routing.keyword_classes',
+    valueType: 'json',
+    category: 'ai',
+    subCategory: 'routing',
+    displayName: 'AI-路由关键词类别（JSON）',
+    description: '类别名 → { pattern, flags } 正则，供路由规则的 keywordClasses 引用',
+    defaultValue: JSON.stringify(DEFAULT_KEYWORD_CLASSES),
+    minValue: null,
+    maxValue: null,
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'ai.routing.search_model': {
+    configKey: 'ai.routing.search_model',
+    valueType: 'string',
+    category: 'ai',
+    subCategory: 'routing',
+    displayName: 'AI-联网搜索模型',
+    description: '开启联网搜索时使用的模型（所选模型不属于该系列时自动切换）',
+    defaultValue: DEFAULT_SEARCH_MODEL,
+    minValue: null,
+    maxValue: null,
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'ai.cache.enabled': {
+    configKey: 'ai.cache.enabled',
+    valueType: 'boolean',
+    category: 'ai',
+    subCategory: 'cache',
+    displayName: 'AI-响应缓存开关',
+    description: '关闭后 AI 代理与 Embedding 代理不再读写响应缓存',
+    defaultValue: 'true',
+    minValue: null,
+    maxValue: null,
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'ai.cache.ttl_seconds': {
+    configKey: 'ai.cache.ttl_seconds',
+    valueType: 'json',
+    category: 'ai',
+    subCategory: 'cache',
+    displayName: 'AI-响应缓存 TTL（JSON）',
+    description: 'function_type → 缓存秒数，未列出或为 0 的类型不缓存；embedding 对应 Embedding 代理',
+    defaultValue: JSON.stringify(DEFAULT_CACHE_TTL_SECONDS),
+    minValue: null,
+    maxValue: null,
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'ai.tools.max_rounds': {
+    configKey: 'ai.tools.max_rounds',
+    valueType: 'number',
+    category: 'ai',
+    subCategory: 'tools',
+    displayName: 'AI-服务端工具最大轮数',
+    description: '单次代理请求内模型调用 search_memories 等服务端工具的最大轮数，达到后强制模型直接回答',
+    defaultValue: String(DEFAULT_TOOL_MAX_ROUNDS),
+    minValue: '0',
+    maxValue: '8',
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'ai.embedding.model': {
+    configKey: 'ai.embedding.model',
+    valueType: 'string',
+    category: 'ai',
+    subCategory: 'embedding',
+    displayName: 'AI-当前 Embedding 模型',
+    description: '服务端生成查询向量与重新向量化迁移使用的模型；修改后需在管理后台发起迁移',
+    defaultValue: DEFAULT_EMBEDDING_MODEL,
+    minValue: null,
+    maxValue: null,
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'ai.embedding.dimension': {
+    configKey: 'ai.embedding.dimension',
+    valueType: 'number',
+    category: 'ai',
+    subCategory: 'embedding',
+    displayName: 'AI-当前 Embedding 维度',
+    description: '与 ai.embedding.model 一起构成当前向量版本，维度不同的向量不参与比较',
+    defaultValue: String(DEFAULT_EMBEDDING_DIMENSION),
+    minValue: '64',
+    maxValue: '4096',
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'ai.embedding.migration_batches_per_run': {
+    configKey: 'ai.embedding.migration_batches_per_run',
+    valueType: 'number',
+    category: 'ai',
+    subCategory: 'embedding',
+    displayName: 'AI-迁移每次定时任务批数',
+    description: '每小时定时任务推进重新向量化迁移的最大批数（每批 batch_size 条）',
+    defaultValue: String(DEFAULT_MIGRATION_BATCHES_PER_RUN),
+    minValue: '1',
+    maxValue: '100',
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'memory.blob.restore_window_days': {
+    configKey: 'memory.blob.restore_window_days',
+    valueType: 'number',
+    category: 'memory',
+    subCategory: 'retention',
+    displayName: '记忆-删除恢复期（天）',
+    description: '删除的记忆在此期间内可恢复，过期后由定时任务永久清除全部版本',
+    defaultValue: String(DEFAULT_RESTORE_WINDOW_DAYS),
+    minValue: '0',
+    maxValue: '365',
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'account.deletion.cooling_off_days': {
+    configKey: 'account.deletion.cooling_off_days',
+    valueType: 'number',
+    category: 'account',
+    subCategory: 'privacy',
+    displayName: '账户-注销冷静期（天）',
+    description: '用户签名确认注销后等待的天数，期间可撤回，期满后删除个人数据并假名化流水',
+    defaultValue: String(DEFAULT_DELETION_COOLING_OFF_DAYS),
+    minValue: '0',
+    maxValue: '90',
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'persona.drift_threshold': {
+    configKey: 'persona.drift_threshold',
+    valueType: 'number',
+    category: 'persona',
+    subCategory: 'history',
+    displayName: '人格-漂移阈值',
+    description: '窗口期内任一 OCEAN 维度变化达到该值（0-1）时在人格历史中标记为大幅漂移',
+    defaultValue: String(DEFAULT_DRIFT_THRESHOLD),
+    minValue: '0.01',
+    maxValue: '1',
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'persona.drift_window_days': {
+    configKey: 'persona.drift_window_days',
+    valueType: 'number',
+    category: 'persona',
+    subCategory: 'history',
+    displayName: '人格-漂移检测窗口（天）',
+    description: '漂移检测以最新快照对比该天数之前的快照',
+    defaultValue: String(DEFAULT_DRIFT_WINDOW_DAYS),
+    minValue: '1',
+    maxValue: '365',
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'persona.evidence_half_life_days': {
+    configKey: 'persona.evidence_half_life_days',
+    valueType: 'number',
+    category: 'persona',
+    subCategory: 'update',
+    displayName: '人格-证据半衰期（天）',
+    description: '人格各维度累积的证据量按该半衰期衰减，较旧的对话信号权重随之降低',
+    defaultValue: String(DEFAULT_EVIDENCE_HALF_LIFE_DAYS),
+    minValue: '1',
+    maxValue: '3650',
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'persona.max_signal_step': {
+    configKey: 'persona.max_signal_step',
+    valueType: 'number',
+    category: 'persona',
+    subCategory: 'update',
+    displayName: '人格-单条信号最大变化',
+    description: '单条对话信号对任一 OCEAN 维度（0-1）的最大改变量',
+    defaultValue: String(DEFAULT_MAX_SIGNAL_STEP),
+    minValue: '0.01',
+    maxValue: '1',
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'chat.summary.model': {
+    configKey: 'chat.summary.model',
+    valueType: 'string',
+    category: 'ai',
+    subCategory: 'chat_summary',
+    displayName: '会话摘要-模型',
+    description: '定时压缩长会话早期消息时使用的模型',
+    defaultValue: DEFAULT_SUMMARY_MODEL,
+    minValue: null,
+    maxValue: null,
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
+  'chat.summary.keep_recent': {
+    configKey: 'chat.summary.keep_recent',
+    valueType: 'number',
+    category: 'ai',
+    subCategory: 'chat_summary',
+    displayName: '会话摘要-保留最近消息数',
+    description: '每个会话最近这么多条消息保持原文，更早的消息才会被并入摘要',
+    defaultValue: String(DEFAULT_SUMMARY_KEEP_RECENT),
+    minValue: '0',
+    maxValue: '200',
+    options: null,
+    isSensitive: false,
+    requiresRestart: false,
+    isActive: true,
+    updatedBy: null,
+  },
 }
 
 /**
@@ -4,6 +4,13 @@
  */
 
 import { AdminContext, logAdminAction } from './middleware'
+import { getGlobalStorageStats } from '../../services/storage-quota'
+import {
+  enqueueIrysMigration,
+  ensureIrysMigrationTable,
+  getIrysMigrationProgress,
+  retryFailedIrysMigrations,
+} from '../../services/irys-migration'
 
 /**
  * 获取记忆列表
@@ -157,6 +164,7 @@ export async function getContentStats(
       flaggedChats: 0,
       todayMemories: 0,
       todayChats: 0,
+      storage: null as Awaited<ReturnType<typeof getGlobalStorageStats>> | null,
     }
 
     if (env.DB) {
@@ -186,6 +194,9 @@ export async function getContentStats(
         `SELECT COUNT(*) as count FROM chat_logs WHERE timestamp >= ?`
       ).bind(todayStart).first()
       stats.todayChats = todayChats?.count || 0
+
+      // 存储用量（R2 / KV / Irys）
+      stats.storage = await getGlobalStorageStats(env)
     }
 
     return new Response(JSON.stringify(stats), {
@@ -200,6 +211,91 @@ export async function getContentStats(
   }
 }
 
+/**
+ * Irys 迁移进度：指定 wallet 时返回该用户详情，否则按用户汇总
+ */
+export async function getIrysMigrations(
+  request: Request,
+  env: any,
+  adminContext: AdminContext
+): Promise<Response> {
+  const url = new URL(request.url)
+  const wallet = url.searchParams.get('wallet')
+  const status = url.searchParams.get('status')
+  const page = Math.max(1, parseInt(url.searchParams.get('page') || '1'))
+  const pageSize = Math.min(100, Math.max(1, parseInt(url.searchParams.get('pageSize') || '20')))
+
+  try {
+    if (!env.DB) {
+      return new Response(JSON.stringify({ items: [], total: 0, page, pageSize }), {
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    if (wallet) {
+      const progress = await getIrysMigrationProgress(env, wallet)
+      return new Response(JSON.stringify({ walletAddress: wallet, ...progress }), {
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    await ensureIrysMigrationTable(env)
+    const having = status ? `HAVING SUM(CASE WHEN status = ? THEN 1 ELSE 0 END) > 0` : ''
+    const params: any[] = status ? [status] : []
+    const rows = await env.DB.prepare(
+      `SELECT wallet_address,
+              COUNT(*) as total,
+              SUM(CASE WHEN status = 'queued' THEN 1 ELSE 0 END) as queued,
+              SUM(CASE WHEN status = 'uploading' THEN 1 ELSE 0 END) as uploading,
+              SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed,
+              SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed,
+              SUM(CASE WHEN status = 'skipped' THEN 1 ELSE 0 END) as skipped,
+              MAX(updated_at) as updated_at
+       FROM irys_migration_jobs
+       GROUP BY wallet_address ${having}
+       ORDER BY failed DESC, updated_at DESC
+       LIMIT ? OFFSET ?`
+    ).bind(...params, pageSize, (page - 1) * pageSize).all()
+
+    return new Response(JSON.stringify({ items: rows.results || [], page, pageSize }), {
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (error) {
+    console.error('Error getting irys migrations:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to get irys migrations' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
+
+/**
+ * 重试某用户失败的 Irys 迁移任务，并补排尚未排队的记忆
+ */
+export async function retryIrysMigrations(
+  request: Request,
+  env: any,
+  adminContext: AdminContext,
+  walletAddress: string
+): Promise<Response> {
+  try {
+    const retried = await retryFailedIrysMigrations(env, walletAddress)
+    const queued = await enqueueIrysMigration(env, walletAddress)
+
+    await logAdminAction(env, adminContext, 'RETRY_IRYS_MIGRATION', 'user', walletAddress, `重试 ${retried} 条，新排队 ${queued} 条`)
+
+    return new Response(JSON.stringify({ success: true, retried, queued }), {
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (error) {
+    console.error('Error retrying irys migrations:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to retry irys migrations' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
+
 /**
  * 标记记忆
  */
@@ -343,6 +439,15 @@ export async function handleContentRoutes(
     return getContentStats(request, env, adminContext)
   }
 
+  if (request.method === 'GET' && path === '/admin/content/irys-migrations') {
+    return getIrysMigrations(request, env, adminContext)
+  }
+
+  const irysRetryMatch = path.match(/^\/admin\/content\/irys-migrations\/([^/]+)\/retry$/)
+  if (request.method === 'POST' && irysRetryMatch) {
+    return retryIrysMigrations(request, env, adminContext, irysRetryMatch[1])
+  }
+
   const flagMatch = path.match(/^\/admin\/content\/memories\/([^/]+)\/flag$/)
   if (request.method === 'POST' && flagMatch) {
     return flagMemory(request, env, adminContext, flagMatch[1])
@@ -4,6 +4,17 @@
  */
 
 import { jsonResponse } from '../index'
+import { deleteSessionSummary, getSessionSummary } from '../services/chat-summaries'
+import {
+  indexChatMessages,
+  MAX_CONTEXT_MESSAGES,
+  MAX_SEARCH_LIMIT,
+  parseSearchQuery,
+  reindexChatSession,
+  searchChatMessages,
+  unindexChatMessages,
+  unindexChatSession,
+} from '../services/chat-search'
 
 // ============================================
 // 类型定义
@@ -81,6 +92,17 @@ function getUserIdFromWallet(walletAddress: string): string {
   return `user_${walletAddress.substring(0, 8)}`
 }
 
+// 消息 timestamp 为客户端毫秒时间戳；参数可为毫秒、秒或 ISO 日期
+function parseTimestampParam(value: string | null): number | null | undefined {
+  if (value == null || value === '') return null
+  if (/^\d+$/.test(value)) {
+    const n = Number(value)
+    return n > 1e12 ? n : n * 1000
+  }
+  const parsed = Date.parse(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
 // ============================================
 // API 处理函数
 // ============================================
@@ -242,6 +264,8 @@ async function deleteSession(request: Request, env: any, sessionId: string): Pro
 
   try {
     const now = Math.floor(Date.now() / 1000)
+
+    await unindexChatSession(env, sessionId)
     
     // 软删除会话
     await env.DB.prepare(
@@ -253,6 +277,9 @@ async function deleteSession(request: Request, env: any, sessionId: string): Pro
       'UPDATE chat_messages SET is_deleted = 1 WHERE session_id = ?'
     ).bind(sessionId).run()
 
+    // 摘要由消息派生，随会话一并清除
+    await deleteSessionSummary(env, sessionId)
+
     return jsonResponse({ success: true })
   } catch (error) {
     console.error('Error deleting session:', error)
@@ -322,6 +349,100 @@ async function getMessages(request: Request, env: any, sessionId: string): Promi
   }
 }
 
+/**
+ * 获取会话的滚动摘要（由定时任务生成；尚未生成时 summary 为 null）
+ */
+async function getSummary(request: Request, env: any, sessionId: string): Promise<Response> {
+  const url = new URL(request.url)
+  const walletAddress = url.searchParams.get('wallet')
+
+  if (!env.DB) {
+    return jsonResponse({ error: 'Database not available' }, 500)
+  }
+
+  if (!walletAddress) {
+    return jsonResponse({ error: 'Missing wallet parameter' }, 400)
+  }
+
+  try {
+    const session = await env.DB.prepare(
+      'SELECT id FROM chat_sessions WHERE id = ? AND wallet_address = ? AND is_deleted = 0'
+    ).bind(sessionId, walletAddress).first()
+    if (!session) {
+      return jsonResponse({ error: 'Session not found' }, 404)
+    }
+
+    const row = await getSessionSummary(env, sessionId, walletAddress)
+    return jsonResponse({
+      sessionId,
+      summary: row?.summary ?? null,
+      coveredUntil: row?.covered_until ?? null,
+      coveredMessageCount: row?.covered_count ?? 0,
+      model: row?.model ?? null,
+      updatedAt: row?.updated_at ?? null,
+    })
+  } catch (error) {
+    console.error('Error getting session summary:', error)
+    return jsonResponse({ error: 'Failed to get session summary' }, 500)
+  }
+}
+
+/**
+ * 全文检索当前钱包的聊天记录
+ */
+async function searchMessages(request: Request, env: any): Promise<Response> {
+  const url = new URL(request.url)
+  const walletAddress = url.searchParams.get('wallet')
+
+  if (!env.DB) {
+    return jsonResponse({ error: 'Database not available' }, 500)
+  }
+
+  if (!walletAddress) {
+    return jsonResponse({ error: 'Missing wallet parameter' }, 400)
+  }
+
+  const query = parseSearchQuery(url.searchParams.get('q') || '')
+  if (!query) {
+    return jsonResponse({ error: 'invalid_query' }, 400)
+  }
+
+  const from = parseTimestampParam(url.searchParams.get('from'))
+  const to = parseTimestampParam(url.searchParams.get('to'))
+  if (from === undefined || to === undefined) {
+    return jsonResponse({ error: 'invalid_date' }, 400)
+  }
+
+  const isUserParam = url.searchParams.get('isUser')
+  const limit = Math.min(parseInt(url.searchParams.get('limit') || '20') || 20, MAX_SEARCH_LIMIT)
+  const offset = parseInt(url.searchParams.get('offset') || '0') || 0
+  const context = Math.min(parseInt(url.searchParams.get('context') ?? '1') || 0, MAX_CONTEXT_MESSAGES)
+
+  try {
+    const { hits, hasMore } = await searchChatMessages(env, walletAddress, query, {
+      from,
+      to,
+      isUser: isUserParam === 'true' ? true : isUserParam === 'false' ? false : null,
+      sessionId: url.searchParams.get('sessionId'),
+      sort: url.searchParams.get('sort') === 'recent' ? 'recent' : 'relevance',
+      context,
+      limit,
+      offset,
+    })
+
+    return jsonResponse({
+      results: hits,
+      count: hits.length,
+      hasMore,
+      limit,
+      offset,
+    })
+  } catch (error) {
+    console.error('Error searching messages:', error)
+    return jsonResponse({ error: 'Failed to search messages' }, 500)
+  }
+}
+
 /**
  * 批量创建/同步消息
  */
@@ -344,6 +465,9 @@ async function createMessages(request: Request, env: any): Promise<Response> {
     let totalTokens = 0
     let totalMemo = 0
 
+    // REPLACE 会改变已有消息的 rowid，先移除旧的检索索引
+    await unindexChatMessages(env, messages.map(m => m.id))
+
     // 批量插入消息
     for (const msg of messages) {
       await env.DB.prepare(`
@@ -374,6 +498,8 @@ async function createMessages(request: Request, env: any): Promise<Response> {
       totalMemo += msg.rewardedMemo || 0
     }
 
+    await indexChatMessages(env, messages)
+
     // 更新会话统计
     await env.DB.prepare(`
       UPDATE chat_sessions 
@@ -440,6 +566,7 @@ async function syncSessions(request: Request, env: any): Promise<Response> {
           session.createdAt, session.updatedAt, session.messageCount
         ).run()
       }
+      await reindexChatSession(env, session.id, walletAddress)
       synced++
     }
 
@@ -494,6 +621,17 @@ export async function handleChatRoutes(
     return getMessages(request, env, messagesMatch[1])
   }
 
+  // GET /api/v1/chat/sessions/:id/summary - 获取会话摘要
+  const summaryMatch = path.match(/^\/api\/v1\/chat\/sessions\/([^/]+)\/summary$/)
+  if (request.method === 'GET' && summaryMatch) {
+    return getSummary(request, env, summaryMatch[1])
+  }
+
+  // GET /api/v1/chat/search - 全文检索聊天记录
+  if (request.method === 'GET' && path === '/api/v1/chat/search') {
+    return searchMessages(request, env)
+  }
+
   // POST /api/v1/chat/messages - 批量创建消息
   if (request.method === 'POST' && path === '/api/v1/chat/messages') {
     return createMessages(request, env)
@@ -8,6 +8,7 @@ import { Env } from '../types';
 import { jsonResponse } from '../utils/response';
 import { verifyGenesisCollectionWithDas } from '../utils/solana';
 import { buildShipCoreCandyMachineMintTx, confirmShipCoreMint } from '../services/ship-core';
+import { aiChatCompletion } from '../services/ai-provider';
 import { getSolanaRpcUrl } from '../utils/solana-rpc';
 
 async function getShipQueueCount(env: Env, candyMachineAddress: string): Promise<number | null> {
@@ -1991,9 +1992,6 @@ async function handleDungeonAction(request: Request, env: Env, userId: string):
 }
 
 async function generateRoomDescription(env: Env, dungeonName: string, depth: number, type: string): Promise<string> {
-  const apiKey = env.QWEN_API_KEY;
-  if (!apiKey) return "You enter a dark, corrupted data sector. Static fills the air.";
-
   try {
     const prompt = `
     Generate a short, atmospheric description (2 sentences max) for a room in a Cyberpunk Digital Dungeon named "${dungeonName}".
@@ -2020,10 +2018,6 @@ async function generateRoomDescription(env: Env, dungeonName: string, depth: num
 }
 
 async function resolveDungeonAction(env: Env, state: DungeonState, action: string, dungeonName: string = "Unknown", dungeonDesc: string = "", difficulty: number = 1): Promise<{ narrative: string, nextRoomDesc?: string, sanityDelta: number, healthDelta: number }> {
-  const apiKey = env.QWEN_API_KEY;
-  // Fallback
-  if (!apiKey) return { narrative: "You move forward.", sanityDelta: -5, healthDelta: 0 };
-
   try {
     const prompt = `
     You are a Dungeon Master for a Text MUD RPG.
@@ -2071,30 +2065,7 @@ async function qwenChatCompletion(
   timeoutMs: number,
   responseFormat: QwenResponseFormat
 ): Promise<{ ok: boolean; content?: string; status?: number }> {
-  const apiKey = env.QWEN_API_KEY;
-  if (!apiKey) return { ok: false, status: 503 }
-  const controller = new AbortController()
-  const t = setTimeout(() => controller.abort(), timeoutMs)
-  try {
-    const resp = await fetch('https://dashscope-intl.aliyuncs.com/compatible-mode/v1/chat/completions', {
-      method: 'POST',
-      headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        model,
-        messages,
-        ...(responseFormat ? { response_format: responseFormat } : {})
-      }),
-      signal: controller.signal
-    })
-    if (!resp.ok) return { ok: false, status: resp.status }
-    const data = await resp.json() as any
-    const content = data?.choices?.[0]?.message?.content
-    return { ok: true, content: typeof content === 'string' ? content : '' }
-  } catch {
-    return { ok: false }
-  } finally {
-    clearTimeout(t)
-  }
+  return aiChatCompletion(env, { model, messages, responseFormat }, { timeoutMs })
 }
 
 function clampText(input: string, maxLen: number): string {
@@ -1,5 +1,6 @@
 import type { Env } from '../index'
 import { jsonResponse } from '../index'
+import { aiChatCompletion } from '../services/ai-provider'
 
 type TranslateItem = { key: string; text: string }
 
@@ -38,46 +39,7 @@ function getLangName(code: string): string {
   }
 }
 
-async function getQwenConfig(env: Env): Promise<{ apiKey: string; endpoint: string } | null> {
-  if (!env.DB) return null
-
-  let apiKey = (env.QWEN_API_KEY && env.QWEN_API_KEY.trim().length > 0) ? env.QWEN_API_KEY.trim() : undefined
-  let endpointUrl: string | undefined
-
-  const qwenRow = await env.DB.prepare(
-    `SELECT encrypted_key, endpoint_url
-     FROM api_keys
-     WHERE service = 'qwen' AND is_active = 1
-     ORDER BY is_primary DESC, updated_at DESC, created_at DESC
-     LIMIT 1`
-  ).first()
-
-  if (qwenRow) {
-    endpointUrl = (qwenRow.endpoint_url as string) || undefined
-  }
-
-  if (!apiKey) {
-    if (qwenRow && qwenRow.encrypted_key) {
-      try {
-        apiKey = atob(qwenRow.encrypted_key as string)
-      } catch {
-        return null
-      }
-    }
-  }
-
-  if (!apiKey) return null
-
-  return {
-    apiKey,
-    endpoint: endpointUrl || 'https://dashscope-intl.aliyuncs.com/compatible-mode/v1/chat/completions',
-  }
-}
-
 async function translateBatch(items: TranslateItem[], targetLang: string, env: Env): Promise<Record<string, string> | null> {
-  const config = await getQwenConfig(env)
-  if (!config) return null
-
   const langName = getLangName(targetLang)
   const user = [
     `Translate the following UI strings from English to ${langName}.`,
@@ -87,34 +49,22 @@ async function translateBatch(items: TranslateItem[], targetLang: string, env: E
     `Items JSON: ${JSON.stringify(items)}`,
   ].join('\n')
 
-  const proxyBody = {
+  const result = await aiChatCompletion(env, {
     model: 'qwen-turbo',
     messages: [
       { role: 'system', content: 'You are a precise UI localization translator.' },
       { role: 'user', content: user },
     ],
     temperature: 0,
-    max_tokens: 4000,
-    stream: false,
-  }
-
-  const upstreamResponse = await fetch(config.endpoint, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${config.apiKey}`,
-    },
-    body: JSON.stringify(proxyBody),
+    maxTokens: 4000,
   })
 
-  if (!upstreamResponse.ok) {
-    const text = await upstreamResponse.text()
-    console.error('i18n translate upstream failed:', upstreamResponse.status, text.slice(0, 500))
+  if (!result.ok) {
+    console.error('i18n translate upstream failed:', result.status)
     return null
   }
 
-  const json = (await upstreamResponse.json()) as any
-  const content = json?.choices?.[0]?.message?.content
+  const content = result.content
   if (!content) return null
 
   try {
@@ -1,12 +1,27 @@
 import { Env, jsonResponse } from '../index'
 import { getUserAuth } from '../utils/user-auth'
+import {
+  deleteAllBlobVersions,
+  deleteBlobRef,
+  ensureMemoryBlobTables,
+  getBlobVersion,
+  getRestoreWindowSeconds,
+  getVersionKvKey,
+  getVersionStorageKey,
+  listBlobVersions,
+  releaseBlobVersion,
+  reserveBlobVersion,
+} from '../services/memory-blob-store'
+import { checkStorageQuota, getStorageUsage, resolveStorageQuota } from '../services/storage-quota'
+import { enqueueIrysMigration, getIrysMigrationProgress, isIrysEligible, retryFailedIrysMigrations } from '../services/irys-migration'
+import { MAX_CAPSULE_LOCK_SECONDS, MemoryCapsule, getLockedCapsule, sealMemoryCapsule } from '../services/memory-capsules'
 
-function decodeBase64ToBytes(dataBase64: string): Uint8Array {
+function decodeBase64ToBytes(dataBase64: string): Uint8Array<ArrayBuffer> {
   return Uint8Array.from(Buffer.from(dataBase64, 'base64'))
 }
 
-function encodeBytesToBase64(bytes: ArrayBuffer): string {
-  return Buffer.from(bytes).toString('base64')
+function encodeBytesToBase64(bytes: ArrayBuffer | Uint8Array): string {
+  return Buffer.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)).toString('base64')
 }
 
 function getStorageKey(walletAddress: string, memoryId: string): string {
@@ -14,10 +29,64 @@ function getStorageKey(walletAddress: string, memoryId: string): string {
 }
 
 export async function handleMemoriesRoutes(request: Request, env: Env, path: string): Promise<Response | null> {
+  if (path === '/api/v1/memories/usage' && request.method === 'GET') {
+    return handleGetStorageUsage(request, env)
+  }
+
+  if (path === '/api/v1/memories/irys-migration' && request.method === 'GET') {
+    return handleGetIrysMigration(request, env)
+  }
+  if (path === '/api/v1/memories/irys-migration' && request.method === 'POST') {
+    return handleStartIrysMigration(request, env)
+  }
+
   if (path === '/api/v1/memories/blob' && request.method === 'POST') {
     return handleStoreMemoryBlob(request, env)
   }
 
+  // 分片上传会话
+  if (path === '/api/v1/memories/blob/uploads' && request.method === 'POST') {
+    return handleCreateUpload(request, env)
+  }
+
+  const chunkMatch = path.match(/^\/api\/v1\/memories\/blob\/uploads\/([^/]+)\/chunks\/(\d+)$/)
+  if (chunkMatch && request.method === 'PUT') {
+    return handlePutUploadChunk(request, env, chunkMatch[1], parseInt(chunkMatch[2], 10))
+  }
+
+  const completeMatch = path.match(/^\/api\/v1\/memories\/blob\/uploads\/([^/]+)\/complete$/)
+  if (completeMatch && request.method === 'POST') {
+    return handleCompleteUpload(request, env, completeMatch[1])
+  }
+
+  const uploadMatch = path.match(/^\/api\/v1\/memories\/blob\/uploads\/([^/]+)$/)
+  if (uploadMatch && request.method === 'GET') {
+    return handleGetUpload(request, env, uploadMatch[1])
+  }
+  if (uploadMatch && request.method === 'DELETE') {
+    return handleAbortUpload(request, env, uploadMatch[1])
+  }
+
+  const verifyMatch = path.match(/^\/api\/v1\/memories\/blob\/([^/]+)\/verify$/)
+  if (verifyMatch && request.method === 'POST') {
+    return handleVerifyMemoryBlob(request, env, verifyMatch[1])
+  }
+
+  const versionsMatch = path.match(/^\/api\/v1\/memories\/blob\/([^/]+)\/versions$/)
+  if (versionsMatch && request.method === 'GET') {
+    return handleListMemoryBlobVersions(request, env, versionsMatch[1])
+  }
+
+  const versionMatch = path.match(/^\/api\/v1\/memories\/blob\/([^/]+)\/versions\/(\d+)$/)
+  if (versionMatch && request.method === 'GET') {
+    return handleGetMemoryBlobVersion(request, env, versionMatch[1], parseInt(versionMatch[2], 10))
+  }
+
+  const restoreMatch = path.match(/^\/api\/v1\/memories\/blob\/([^/]+)\/restore$/)
+  if (restoreMatch && request.method === 'POST') {
+    return handleRestoreMemoryBlob(request, env, restoreMatch[1])
+  }
+
   const migratedMatch = path.match(/^\/api\/v1\/memories\/blob\/([^/]+)\/migrated$/)
   if (migratedMatch && request.method === 'POST') {
     return handleMarkMigrated(request, env, migratedMatch[1])
@@ -34,6 +103,81 @@ export async function handleMemoriesRoutes(request: Request, env: Env, path: str
   return null
 }
 
+function quotaExceededResponse(quota: { usedBytes: number; limitBytes: number; requiredBytes: number }): Response {
+  return jsonResponse({
+    error: 'storage_quota_exceeded',
+    usedBytes: quota.usedBytes,
+    limitBytes: quota.limitBytes,
+    requiredBytes: quota.requiredBytes,
+  }, 413)
+}
+
+/**
+ * 时间胶囊未到开启时间（或尚未被接收方领取）时拒绝读取，不返回任何记忆元数据
+ */
+function sealedResponse(capsule: MemoryCapsule): Response {
+  return jsonResponse({
+    error: 'memory_sealed',
+    unlockAt: capsule.unlock_at,
+    claimRequired: !!capsule.recipient_wallet,
+  }, 423)
+}
+
+async function handleGetStorageUsage(request: Request, env: Env): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const walletAddress = auth.walletAddress
+  const [usage, quota] = await Promise.all([
+    getStorageUsage(env, walletAddress),
+    resolveStorageQuota(env, walletAddress),
+  ])
+  return jsonResponse({
+    walletAddress,
+    plan: quota.plan,
+    tier: quota.tier,
+    limitBytes: quota.limitBytes,
+    usedBytes: usage.usedBytes,
+    remainingBytes: Math.max(0, quota.limitBytes - usage.usedBytes),
+    usagePercent: quota.limitBytes > 0 ? Math.round(usage.usedBytes / quota.limitBytes * 10000) / 100 : null,
+    pendingPurgeBytes: usage.deletedBytes,
+    byBackend: usage.byBackend,
+    byType: usage.byType,
+  })
+}
+
+async function handleGetIrysMigration(request: Request, env: Env): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const progress = await getIrysMigrationProgress(env, auth.walletAddress)
+  return jsonResponse({ walletAddress: auth.walletAddress, ...progress })
+}
+
+/**
+ * 手动触发迁移：排入尚未排队的记忆，并重试失败的任务
+ */
+async function handleStartIrysMigration(request: Request, env: Env): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const walletAddress = auth.walletAddress
+  const user = await env.DB.prepare(
+    'SELECT current_tier, subscription_type FROM users WHERE wallet_address = ?'
+  ).bind(walletAddress).first() as any
+  if (!isIrysEligible(user)) {
+    return jsonResponse({ error: 'payment_required', isPaidUser: false }, 403)
+  }
+
+  const retried = await retryFailedIrysMigrations(env, walletAddress)
+  const queued = await enqueueIrysMigration(env, walletAddress)
+  const progress = await getIrysMigrationProgress(env, walletAddress)
+  return jsonResponse({ success: true, queued, retried, ...progress })
+}
+
 async function handleMarkMigrated(request: Request, env: Env, memoryId: string): Promise<Response> {
   const auth = await getUserAuth(request, env)
   if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
@@ -49,33 +193,92 @@ async function handleMarkMigrated(request: Request, env: Env, memoryId: string):
     ).bind(memoryId, walletAddress).first() as any
 
     if (row) {
-      const updateIrysId = irysId || row.irys_id || ''
+      const currentRef: string | null = row.irys_id || null
+      const updateIrysId = irysId || currentRef || ''
       await env.DB.prepare(
         'UPDATE memories SET irys_id = ? WHERE id = ? AND wallet_address = ?'
       ).bind(updateIrysId, memoryId, walletAddress).run()
+
+      // 只删除已迁移走的当前版本对象；历史版本保留，未提供 irysId 时记录仍指向原对象，不删除
+      if (deleteBlob && currentRef && currentRef !== updateIrysId) {
+        await deleteBlobRef(env, currentRef)
+        await env.DB.prepare(
+          'DELETE FROM memory_blob_versions WHERE wallet_address = ? AND memory_id = ? AND storage_ref = ?'
+        ).bind(walletAddress, memoryId, currentRef).run()
+      }
+      return jsonResponse({ success: true, memoryId })
     }
   }
 
+  // 没有 memories 记录时只有旧版单一对象键
   if (deleteBlob) {
-    await deleteStoredBlob(env, walletAddress, memoryId)
+    await deleteLegacyBlob(env, walletAddress, memoryId)
   }
 
   return jsonResponse({ success: true, memoryId })
 }
 
+/**
+ * 软删除：写入墓碑，保留期内可通过 /restore 恢复，过期后由定时任务清除
+ * 没有 memories 记录（或未配置 D1）时无法记录墓碑，直接删除对象
+ */
 async function handleDeleteMemoryBlob(request: Request, env: Env, memoryId: string): Promise<Response> {
   const auth = await getUserAuth(request, env)
   if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
 
-  await deleteStoredBlob(env, auth.walletAddress, memoryId)
+  const walletAddress = auth.walletAddress
+  if (env.DB) {
+    await ensureMemoryBlobTables(env)
+    const now = Math.floor(Date.now() / 1000)
+    const row = await env.DB.prepare(
+      'SELECT deleted_at FROM memories WHERE id = ? AND wallet_address = ?'
+    ).bind(memoryId, walletAddress).first() as any
+    if (row) {
+      const deletedAt = row.deleted_at ? Number(row.deleted_at) : now
+      if (!row.deleted_at) {
+        await env.DB.prepare(
+          'UPDATE memories SET deleted_at = ? WHERE id = ? AND wallet_address = ?'
+        ).bind(deletedAt, memoryId, walletAddress).run()
+      }
+      const window = await getRestoreWindowSeconds(env)
+      return jsonResponse({ success: true, memoryId, deletedAt, restorableUntil: deletedAt + window })
+    }
+  }
+
+  await deleteStoredBlob(env, walletAddress, memoryId)
   return jsonResponse({ success: true, memoryId })
 }
 
-async function deleteStoredBlob(env: Env, walletAddress: string, memoryId: string): Promise<void> {
-  const key = getStorageKey(walletAddress, memoryId)
+async function handleRestoreMemoryBlob(request: Request, env: Env, memoryId: string): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const walletAddress = auth.walletAddress
+  await ensureMemoryBlobTables(env)
+  const row = await env.DB.prepare(
+    'SELECT deleted_at FROM memories WHERE id = ? AND wallet_address = ?'
+  ).bind(memoryId, walletAddress).first() as any
+  if (!row) return jsonResponse({ error: 'Not found' }, 404)
+  if (!row.deleted_at) return jsonResponse({ success: true, memoryId, restored: false })
+
+  const restorableUntil = Number(row.deleted_at) + await getRestoreWindowSeconds(env)
+  if (Math.floor(Date.now() / 1000) > restorableUntil) {
+    return jsonResponse({ error: 'restore_window_expired', restorableUntil }, 410)
+  }
+
+  await env.DB.prepare(
+    'UPDATE memories SET deleted_at = NULL WHERE id = ? AND wallet_address = ?'
+  ).bind(memoryId, walletAddress).run()
+  return jsonResponse({ success: true, memoryId, restored: true })
+}
 
+/**
+ * 永久删除已存储的对象（含全部历史版本）
+ */
+async function deleteLegacyBlob(env: Env, walletAddress: string, memoryId: string): Promise<void> {
   if (env.R2) {
-    await env.R2.delete(key)
+    await env.R2.delete(getStorageKey(walletAddress, memoryId))
   }
 
   if (env.KV) {
@@ -83,6 +286,86 @@ async function deleteStoredBlob(env: Env, walletAddress: string, memoryId: strin
   }
 }
 
+async function deleteStoredBlob(env: Env, walletAddress: string, memoryId: string): Promise<void> {
+  await deleteLegacyBlob(env, walletAddress, memoryId)
+  await deleteAllBlobVersions(env, walletAddress, memoryId)
+}
+
+/**
+ * 写入 blob（R2 优先，回退 KV），返回存储引用；均未配置时返回 null
+ * 配置了 D1 时每次写入都是新的不可变版本（独立对象键），否则沿用单一对象键覆盖写入
+ * sha256 为服务端计算值；contentHash 为客户端自定义的哈希（App 端为明文哈希），原样保存在元数据中
+ */
+async function storeBlobBytes(
+  env: Env,
+  walletAddress: string,
+  memoryId: string,
+  bytes: Uint8Array,
+  sha256: string,
+  contentHash: string = sha256
+): Promise<{ ref: string; version: number | null } | null> {
+  if (!env.R2 && !env.KV) return null
+
+  const refFor = (version: number | null) => {
+    if (env.R2) return `r2:${version ? getVersionStorageKey(walletAddress, memoryId, version) : getStorageKey(walletAddress, memoryId)}`
+    return `kv:${version ? getVersionKvKey(walletAddress, memoryId, version) : `memory_blob:${walletAddress}:${memoryId}`}`
+  }
+  const version = env.DB
+    ? await reserveBlobVersion(env, walletAddress, memoryId, refFor, bytes.byteLength, sha256)
+    : null
+  const ref = refFor(version)
+
+  try {
+    if (env.R2) {
+      await env.R2.put(ref.substring('r2:'.length), bytes, {
+        httpMetadata: { contentType: 'application/octet-stream' },
+        customMetadata: {
+          walletAddress,
+          memoryId,
+          contentHash,
+          sha256,
+          ...(version ? { version: String(version) } : {}),
+        },
+      })
+    } else {
+      await env.KV!.put(ref.substring('kv:'.length), encodeBytesToBase64(bytes))
+    }
+  } catch (error) {
+    if (version) await releaseBlobVersion(env, walletAddress, memoryId, version)
+    throw error
+  }
+
+  return { ref, version }
+}
+
+async function upsertMemoryRow(
+  env: Env,
+  walletAddress: string,
+  memoryId: string,
+  type: string,
+  storedRef: string,
+  size: number,
+  sha256: string
+): Promise<void> {
+  if (!env.DB) return
+  await ensureMemoryBlobTables(env)
+  const user = await env.DB.prepare('SELECT id FROM users WHERE wallet_address = ?').bind(walletAddress).first() as any
+  const userId = user?.id || `user_${walletAddress.substring(0, 8)}`
+  await env.DB.prepare(
+    `INSERT INTO memories (id, user_id, wallet_address, type, irys_id, size, content_hash, content_hash_verified_at, deleted_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, NULL, NULL)
+     ON CONFLICT(id) DO UPDATE SET
+       user_id = excluded.user_id,
+       wallet_address = excluded.wallet_address,
+       type = excluded.type,
+       irys_id = excluded.irys_id,
+       size = excluded.size,
+       content_hash = excluded.content_hash,
+       content_hash_verified_at = NULL,
+       deleted_at = NULL`
+  ).bind(memoryId, userId, walletAddress, type, storedRef, size, sha256).run()
+}
+
 async function handleStoreMemoryBlob(request: Request, env: Env): Promise<Response> {
   const auth = await getUserAuth(request, env)
   if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
@@ -94,8 +377,13 @@ async function handleStoreMemoryBlob(request: Request, env: Env): Promise<Respon
     contentBase64?: string
     content_hash?: string
     contentHash?: string
+    contentSha256?: string
+    content_sha256?: string
     metadata?: Record<string, string>
     type?: string
+    unlockAt?: number
+    recipientWallet?: string
+    keyEnvelope?: string
   }
 
   const bodyWalletAddress = (body.walletAddress || body.wallet_address || '').trim()
@@ -111,65 +399,144 @@ async function handleStoreMemoryBlob(request: Request, env: Env): Promise<Respon
     return jsonResponse({ error: 'Missing required fields', required: ['memoryId', 'contentBase64'] }, 400)
   }
 
+  // 时间胶囊：unlockAt 为开启时间（Unix 秒），recipientWallet 指定时到期后由该钱包领取
+  const unlockAt = body.unlockAt == null ? null : Math.floor(Number(body.unlockAt))
+  const recipientWallet = (body.recipientWallet || '').trim() || null
+  if (unlockAt != null) {
+    const now = Math.floor(Date.now() / 1000)
+    if (!Number.isFinite(unlockAt) || unlockAt <= now || unlockAt > now + MAX_CAPSULE_LOCK_SECONDS) {
+      return jsonResponse({ error: 'invalid_unlock_at' }, 400)
+    }
+    if (recipientWallet === walletAddress) return jsonResponse({ error: 'invalid_recipient' }, 400)
+    if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+  } else if (recipientWallet) {
+    return jsonResponse({ error: 'Missing required fields', required: ['unlockAt'] }, 400)
+  }
+
+  // 封存中的胶囊不允许覆盖写入
+  const locked = await getLockedCapsule(env, walletAddress, memoryId)
+  if (locked) return sealedResponse(locked)
+
   const bytes = decodeBase64ToBytes(contentBase64)
-  const storageKey = getStorageKey(walletAddress, memoryId)
+  const sha256 = await sha256Hex(bytes)
 
-  let storedRef = ''
-  if (env.R2) {
-    await env.R2.put(storageKey, bytes, {
-      httpMetadata: { contentType: 'application/octet-stream' },
-      customMetadata: {
-        walletAddress,
-        memoryId,
-        contentHash,
-      },
-    })
-    storedRef = `r2:${storageKey}`
-  } else if (env.KV) {
-    const kvKey = `memory_blob:${walletAddress}:${memoryId}`
-    await env.KV.put(kvKey, contentBase64)
-    storedRef = `kv:${kvKey}`
-  } else {
+  // 客户端声明了存储字节的摘要时必须一致（contentHash 语义由客户端定义，不参与校验）
+  const declared = body.contentSha256 || body.content_sha256 || parseDigestHeader(request.headers.get('Digest'))
+  if (declared && normalizeContentHash(declared) !== sha256) {
+    return jsonResponse({
+      error: 'content_hash_mismatch',
+      expected: normalizeContentHash(declared),
+      actual: sha256,
+    }, 422)
+  }
+
+  const quota = await checkStorageQuota(env, walletAddress, bytes.byteLength)
+  if (!quota.allowed) return quotaExceededResponse(quota)
+
+  const stored = await storeBlobBytes(env, walletAddress, memoryId, bytes, sha256, contentHash || sha256)
+  if (!stored) {
     return jsonResponse({ error: 'Server not configured' }, 500)
   }
 
-  if (env.DB) {
-    const user = await env.DB.prepare('SELECT id FROM users WHERE wallet_address = ?').bind(walletAddress).first() as any
-    const userId = user?.id || `user_${walletAddress.substring(0, 8)}`
-    const type = (body.type || body.metadata?.type || body.metadata?.Type || 'text').toString()
-    const size = bytes.byteLength
-    await env.DB.prepare(
-      `INSERT INTO memories (id, user_id, wallet_address, type, irys_id, size)
-       VALUES (?, ?, ?, ?, ?, ?)
-       ON CONFLICT(id) DO UPDATE SET
-         user_id = excluded.user_id,
-         wallet_address = excluded.wallet_address,
-         type = excluded.type,
-         irys_id = excluded.irys_id,
-         size = excluded.size`
-    ).bind(memoryId, userId, walletAddress, type, storedRef, size).run()
+  const type = (body.type || body.metadata?.type || body.metadata?.Type || 'text').toString()
+  await upsertMemoryRow(env, walletAddress, memoryId, type, stored.ref, bytes.byteLength, sha256)
+  if (unlockAt != null) {
+    await sealMemoryCapsule(env, { memoryId, ownerWallet: walletAddress, unlockAt, recipientWallet, keyEnvelope: body.keyEnvelope })
   }
 
   return jsonResponse({
     success: true,
     memoryId,
-    storage: storedRef.startsWith('r2:') ? 'r2' : 'kv',
+    sha256,
+    version: stored.version,
+    storage: stored.ref.startsWith('r2:') ? 'r2' : 'kv',
     path: `/api/v1/memories/blob/${memoryId}`,
+    ...(unlockAt != null ? { sealedUntil: unlockAt, recipientWallet } : {}),
   })
 }
 
-async function handleGetMemoryBlob(request: Request, env: Env, memoryId: string): Promise<Response> {
-  const auth = await getUserAuth(request, env)
-  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+/**
+ * 解析 Digest 请求头（RFC 3230：sha-256=<base64>），返回 hex；未提供或算法不符时返回 null
+ */
+function parseDigestHeader(value: string | null): string | null {
+  if (!value) return null
+  for (const part of value.split(',')) {
+    const [algorithm, ...rest] = part.trim().split('=')
+    if (algorithm.toLowerCase() === 'sha-256' && rest.length > 0) {
+      return Buffer.from(rest.join('='), 'base64').toString('hex')
+    }
+  }
+  return null
+}
 
-  const walletAddress = auth.walletAddress
+function integrityHeaders(sha256: string): Record<string, string> {
+  return {
+    ETag: `"${sha256}"`,
+    Digest: `sha-256=${Buffer.from(sha256, 'hex').toString('base64')}`,
+  }
+}
+
+type StoredBlob = {
+  bytes: Uint8Array<ArrayBuffer>
+  storage: 'r2' | 'kv'
+  recordedHash: string | null
+}
+
+/**
+ * 按存储引用读取对象；recordedHash 为空时回退到 R2 元数据中的 sha256
+ */
+async function readBlobRef(
+  env: Env,
+  ref: string,
+  recordedHash: string | null
+): Promise<{ blob: StoredBlob } | { response: Response }> {
+  if (ref.startsWith('r2:')) {
+    if (!env.R2) return { response: jsonResponse({ error: 'Server not configured' }, 500) }
+    const key = ref.substring('r2:'.length)
+    const obj = await env.R2.get(key)
+    if (!obj) return { response: jsonResponse({ error: 'Not found' }, 404) }
+    const bytes = new Uint8Array(await obj.arrayBuffer())
+    return { blob: { bytes, storage: 'r2', recordedHash: recordedHash || obj.customMetadata?.sha256 || null } }
+  }
+
+  if (ref.startsWith('kv:')) {
+    if (!env.KV) return { response: jsonResponse({ error: 'Server not configured' }, 500) }
+    const key = ref.substring('kv:'.length)
+    const contentBase64 = await env.KV.get(key)
+    if (!contentBase64) return { response: jsonResponse({ error: 'Not found' }, 404) }
+    return { blob: { bytes: decodeBase64ToBytes(contentBase64), storage: 'kv', recordedHash } }
+  }
+
+  return { response: jsonResponse({ error: 'Not found' }, 404) }
+}
+
+async function deletedResponse(env: Env, deletedAt: number): Promise<Response> {
+  const restorableUntil = deletedAt + await getRestoreWindowSeconds(env)
+  return jsonResponse({ error: 'memory_deleted', deletedAt, restorableUntil }, 410)
+}
+
+/**
+ * 读取当前版本的 blob 及记录的哈希（memories.content_hash 优先，其次 R2 元数据）
+ * 已软删除的记忆返回 410
+ */
+async function readStoredBlob(
+  env: Env,
+  walletAddress: string,
+  memoryId: string
+): Promise<{ blob: StoredBlob } | { response: Response }> {
   let ref: string | null = null
+  let recordedHash: string | null = null
 
   if (env.DB) {
+    await ensureMemoryBlobTables(env)
     const row = await env.DB.prepare(
-      'SELECT irys_id FROM memories WHERE id = ? AND wallet_address = ?'
+      'SELECT irys_id, content_hash, deleted_at FROM memories WHERE id = ? AND wallet_address = ?'
     ).bind(memoryId, walletAddress).first() as any
+    if (row?.deleted_at) return { response: await deletedResponse(env, Number(row.deleted_at)) }
+    const locked = await getLockedCapsule(env, walletAddress, memoryId)
+    if (locked) return { response: sealedResponse(locked) }
     ref = row?.irys_id || null
+    recordedHash = row?.content_hash || null
   }
 
   if (!ref) {
@@ -177,26 +544,579 @@ async function handleGetMemoryBlob(request: Request, env: Env, memoryId: string)
     else if (env.KV) ref = `kv:memory_blob:${walletAddress}:${memoryId}`
   }
 
-  if (!ref) return jsonResponse({ error: 'Not found' }, 404)
+  if (!ref) return { response: jsonResponse({ error: 'Not found' }, 404) }
+  return readBlobRef(env, ref, recordedHash)
+}
 
-  if (ref.startsWith('r2:')) {
-    if (!env.R2) return jsonResponse({ error: 'Server not configured' }, 500)
-    const key = ref.substring('r2:'.length)
-    const obj = await env.R2.get(key)
-    if (!obj) return jsonResponse({ error: 'Not found' }, 404)
-    const bytes = await obj.arrayBuffer()
-    return new Response(bytes, { status: 200, headers: { 'Content-Type': 'application/octet-stream' } })
+async function handleGetMemoryBlob(request: Request, env: Env, memoryId: string): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+
+  const loaded = await readStoredBlob(env, auth.walletAddress, memoryId)
+  if ('response' in loaded) return loaded.response
+  const { bytes, recordedHash } = loaded.blob
+
+  // 返回记录的哈希而非按下发字节重算，客户端据此校验下载内容；旧数据没有记录时才现算
+  const sha256 = recordedHash || await sha256Hex(bytes)
+  const headers = integrityHeaders(sha256)
+  if (request.headers.get('If-None-Match') === headers.ETag) {
+    return new Response(null, { status: 304, headers })
   }
+  return new Response(bytes, { status: 200, headers: { 'Content-Type': 'application/octet-stream', ...headers } })
+}
 
-  if (ref.startsWith('kv:')) {
+/**
+ * 重新读取存储对象并计算 SHA-256，与记录值比对
+ * 旧数据没有记录值时以本次结果作为基线写入
+ */
+async function handleVerifyMemoryBlob(request: Request, env: Env, memoryId: string): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+
+  const walletAddress = auth.walletAddress
+  const loaded = await readStoredBlob(env, walletAddress, memoryId)
+  if ('response' in loaded) return loaded.response
+  const { bytes, storage, recordedHash } = loaded.blob
+
+  const actual = await sha256Hex(bytes)
+  const now = Math.floor(Date.now() / 1000)
+  const status = !recordedHash ? 'recorded' : recordedHash === actual ? 'match' : 'mismatch'
+
+  if (status === 'mismatch') {
+    console.error(`[Memories] 完整性校验失败 memory=${memoryId} expected=${recordedHash} actual=${actual}`)
+  } else if (env.DB) {
+    await env.DB.prepare(
+      `UPDATE memories SET content_hash = ?, content_hash_verified_at = ? WHERE id = ? AND wallet_address = ?`
+    ).bind(actual, now, memoryId, walletAddress).run()
+  }
+
+  return jsonResponse({
+    memoryId,
+    algorithm: 'sha256',
+    status,
+    match: status === 'recorded' ? null : status === 'match',
+    expected: recordedHash,
+    actual,
+    size: bytes.byteLength,
+    storage,
+    verifiedAt: status === 'mismatch' ? null : now,
+  })
+}
+
+async function handleListMemoryBlobVersions(request: Request, env: Env, memoryId: string): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const walletAddress = auth.walletAddress
+  await ensureMemoryBlobTables(env)
+  const row = await env.DB.prepare(
+    'SELECT irys_id, deleted_at FROM memories WHERE id = ? AND wallet_address = ?'
+  ).bind(memoryId, walletAddress).first() as any
+  const locked = await getLockedCapsule(env, walletAddress, memoryId)
+  if (locked) return sealedResponse(locked)
+  const versions = await listBlobVersions(env, walletAddress, memoryId)
+  if (!row && versions.length === 0) return jsonResponse({ error: 'Not found' }, 404)
+
+  const deletedAt = row?.deleted_at ? Number(row.deleted_at) : null
+  return jsonResponse({
+    memoryId,
+    currentVersion: versions.find((v) => v.storage_ref === row?.irys_id)?.version ?? null,
+    deletedAt,
+    restorableUntil: deletedAt ? deletedAt + await getRestoreWindowSeconds(env) : null,
+    versions: versions.map((v) => ({
+      version: v.version,
+      size: v.size,
+      sha256: v.content_hash,
+      createdAt: v.created_at,
+      path: `/api/v1/memories/blob/${memoryId}/versions/${v.version}`,
+    })),
+  })
+}
+
+async function handleGetMemoryBlobVersion(request: Request, env: Env, memoryId: string, version: number): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const walletAddress = auth.walletAddress
+  await ensureMemoryBlobTables(env)
+  const row = await env.DB.prepare(
+    'SELECT deleted_at FROM memories WHERE id = ? AND wallet_address = ?'
+  ).bind(memoryId, walletAddress).first() as any
+  if (row?.deleted_at) return deletedResponse(env, Number(row.deleted_at))
+  const locked = await getLockedCapsule(env, walletAddress, memoryId)
+  if (locked) return sealedResponse(locked)
+
+  const entry = await getBlobVersion(env, walletAddress, memoryId, version)
+  if (!entry) return jsonResponse({ error: 'Not found' }, 404)
+
+  const loaded = await readBlobRef(env, entry.storage_ref, entry.content_hash)
+  if ('response' in loaded) return loaded.response
+  const { bytes, recordedHash } = loaded.blob
+
+  const headers = integrityHeaders(recordedHash || await sha256Hex(bytes))
+  if (request.headers.get('If-None-Match') === headers.ETag) {
+    return new Response(null, { status: 304, headers })
+  }
+  return new Response(bytes, {
+    status: 200,
+    headers: { 'Content-Type': 'application/octet-stream', 'X-Memory-Version': String(entry.version), ...headers },
+  })
+}
+
+// ============================================
+// 分片上传会话
+// 客户端先创建会话，按序号 PUT 分片（可重传、可乱序），随时查询已收到的分片，最后 complete。
+// R2 可用时使用 multipart upload 写入临时对象；否则分片暂存 KV。
+// complete 时以 contentSha256（SHA-256 hex）校验拼接后的字节，一致才写入正式位置与 memories 记录；
+// contentHash 与单次上传一致，为客户端自定义的哈希，原样写入元数据。
+// 结果保存在会话上，重试 complete 直接返回。过期会话由定时任务清理（R2 multipart 一并 abort）。
+// ============================================
+
+type UploadSession = {
+  id: string
+  wallet_address: string
+  memory_id: string
+  total_size: number
+  chunk_size: number
+  total_chunks: number
+  content_hash: string
+  content_sha256: string | null
+  type: string
+  storage: 'r2' | 'kv'
+  r2_upload_id: string | null
+  staging_key: string | null
+  status: 'open' | 'completed' | 'aborted' | 'failed'
+  result_json: string | null
+  created_at: number
+  updated_at: number
+  expires_at: number
+}
+
+const UPLOAD_SESSION_TTL_SECONDS = 24 * 3600
+// R2 multipart 除最后一片外每片至少 5 MiB
+const R2_MIN_PART_SIZE = 5 * 1024 * 1024
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024
+const KV_DEFAULT_CHUNK_SIZE = 1024 * 1024
+const MAX_CHUNK_SIZE = 32 * 1024 * 1024
+// complete 时需整体读入内存计算哈希
+const MAX_R2_UPLOAD_SIZE = 64 * 1024 * 1024
+const MAX_KV_UPLOAD_SIZE = 16 * 1024 * 1024
+
+async function ensureUploadTables(env: Env): Promise<void> {
+  if (!env.DB || (globalThis as any).__memoryUploadTablesReady) return
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS memory_blob_uploads (
+      id TEXT PRIMARY KEY,
+      wallet_address TEXT NOT NULL,
+      memory_id TEXT NOT NULL,
+      total_size INTEGER NOT NULL,
+      chunk_size INTEGER NOT NULL,
+      total_chunks INTEGER NOT NULL,
+      content_hash TEXT NOT NULL,
+      content_sha256 TEXT,
+      type TEXT DEFAULT 'text',
+      storage TEXT NOT NULL,
+      r2_upload_id TEXT,
+      staging_key TEXT,
+      status TEXT NOT NULL DEFAULT 'open',
+      result_json TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL
+    )`
+  ).run()
+  try { await env.DB.prepare(`ALTER TABLE memory_blob_uploads ADD COLUMN result_json TEXT`).run() } catch {}
+  try { await env.DB.prepare(`ALTER TABLE memory_blob_uploads ADD COLUMN content_sha256 TEXT`).run() } catch {}
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS memory_blob_upload_parts (
+      upload_id TEXT NOT NULL,
+      chunk_index INTEGER NOT NULL,
+      size INTEGER NOT NULL,
+      etag TEXT,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (upload_id, chunk_index)
+    )`
+  ).run()
+  ;(globalThis as any).__memoryUploadTablesReady = true
+}
+
+function normalizeContentHash(value: string): string {
+  return value.trim().toLowerCase().replace(/^sha-?256:/, '')
+}
+
+async function sha256Hex(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+function getChunkKvKey(uploadId: string, index: number): string {
+  return `memory_blob_chunk:${uploadId}:${index}`
+}
+
+function expectedChunkSize(session: UploadSession, index: number): number {
+  if (index < session.total_chunks - 1) return session.chunk_size
+  return session.total_size - session.chunk_size * (session.total_chunks - 1)
+}
+
+async function listReceivedChunks(env: Env, uploadId: string): Promise<Array<{ chunk_index: number; size: number; etag: string | null }>> {
+  const rows = await env.DB!.prepare(
+    'SELECT chunk_index, size, etag FROM memory_blob_upload_parts WHERE upload_id = ? ORDER BY chunk_index'
+  ).bind(uploadId).all()
+  return (rows.results || []) as any[]
+}
+
+/**
+ * 读取当前用户的上传会话，并校验是否仍可写入
+ */
+async function loadUploadSession(
+  request: Request,
+  env: Env,
+  uploadId: string,
+  requireOpen: boolean
+): Promise<{ session: UploadSession } | { response: Response }> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return { response: jsonResponse({ error: 'unauthorized', detail: auth.error }, 401) }
+  if (!env.DB) return { response: jsonResponse({ error: 'Server not configured' }, 500) }
+
+  await ensureUploadTables(env)
+  const session = await env.DB.prepare(
+    'SELECT * FROM memory_blob_uploads WHERE id = ? AND wallet_address = ?'
+  ).bind(uploadId, auth.walletAddress).first() as unknown as UploadSession | null
+  if (!session) return { response: jsonResponse({ error: 'Upload not found' }, 404) }
+
+  const closed = requireOpen ? checkUploadOpen(session) : null
+  if (closed) return { response: closed }
+  return { session }
+}
+
+function checkUploadOpen(session: UploadSession): Response | null {
+  if (session.status !== 'open') {
+    return jsonResponse({ error: 'upload_not_open', status: session.status }, 409)
+  }
+  if (session.expires_at <= Math.floor(Date.now() / 1000)) {
+    return jsonResponse({ error: 'upload_expired' }, 410)
+  }
+  return null
+}
+
+async function discardUploadData(env: Env, session: UploadSession, multipartCompleted: boolean): Promise<void> {
+  try {
+    if (session.storage === 'r2' && env.R2 && session.staging_key) {
+      if (multipartCompleted) {
+        await env.R2.delete(session.staging_key)
+      } else if (session.r2_upload_id) {
+        await env.R2.resumeMultipartUpload(session.staging_key, session.r2_upload_id).abort()
+      }
+    }
+    if (session.storage === 'kv' && env.KV) {
+      for (let i = 0; i < session.total_chunks; i++) {
+        await env.KV.delete(getChunkKvKey(session.id, i))
+      }
+    }
+  } catch (e) {
+    console.error(`[Memory Upload] Failed to discard data for ${session.id}:`, e)
+  }
+}
+
+async function setUploadStatus(env: Env, uploadId: string, status: UploadSession['status']): Promise<void> {
+  await env.DB!.prepare(
+    'UPDATE memory_blob_uploads SET status = ?, updated_at = ? WHERE id = ?'
+  ).bind(status, Math.floor(Date.now() / 1000), uploadId).run()
+}
+
+function formatUploadSession(session: UploadSession, received: number[]) {
+  const receivedSet = new Set(received)
+  const missing: number[] = []
+  for (let i = 0; i < session.total_chunks; i++) {
+    if (!receivedSet.has(i)) missing.push(i)
+  }
+  return {
+    uploadId: session.id,
+    memoryId: session.memory_id,
+    status: session.status,
+    storage: session.storage,
+    totalSize: session.total_size,
+    chunkSize: session.chunk_size,
+    totalChunks: session.total_chunks,
+    receivedChunks: received,
+    missingChunks: missing,
+    expiresAt: session.expires_at,
+  }
+}
+
+async function handleCreateUpload(request: Request, env: Env): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+
+  const body = (await request.json()) as {
+    walletAddress?: string
+    wallet_address?: string
+    memoryId?: string
+    totalSize?: number
+    chunkSize?: number
+    contentHash?: string
+    content_hash?: string
+    contentSha256?: string
+    content_sha256?: string
+    metadata?: Record<string, string>
+    type?: string
+  }
+
+  const bodyWalletAddress = (body.walletAddress || body.wallet_address || '').trim()
+  if (bodyWalletAddress && bodyWalletAddress !== auth.walletAddress) {
+    return jsonResponse({ error: 'forbidden' }, 403)
+  }
+  const walletAddress = auth.walletAddress
+  const memoryId = (body.memoryId || '').trim()
+  const totalSize = Math.floor(Number(body.totalSize))
+  const contentSha256 = normalizeContentHash(body.contentSha256 || body.content_sha256 || '')
+  const contentHash = (body.contentHash || body.content_hash || '').trim()
+
+  if (!memoryId || !Number.isFinite(totalSize) || totalSize <= 0 || !contentSha256) {
+    return jsonResponse({ error: 'Missing required fields', required: ['memoryId', 'totalSize', 'contentSha256'] }, 400)
+  }
+  if (!/^[0-9a-f]{64}$/.test(contentSha256)) {
+    return jsonResponse({ error: 'invalid_content_sha256', detail: 'contentSha256 must be the SHA-256 hex digest of the uploaded bytes' }, 400)
+  }
+  if (!env.DB || (!env.R2 && !env.KV)) {
+    return jsonResponse({ error: 'Server not configured' }, 500)
+  }
+  const locked = await getLockedCapsule(env, walletAddress, memoryId)
+  if (locked) return sealedResponse(locked)
+
+  const storage: 'r2' | 'kv' = env.R2 ? 'r2' : 'kv'
+  const maxSize = storage === 'r2' ? MAX_R2_UPLOAD_SIZE : MAX_KV_UPLOAD_SIZE
+  if (totalSize > maxSize) {
+    return jsonResponse({ error: 'upload_too_large', maxSize }, 413)
+  }
+  const quota = await checkStorageQuota(env, walletAddress, totalSize)
+  if (!quota.allowed) return quotaExceededResponse(quota)
+
+  let chunkSize = Math.floor(Number(body.chunkSize)) || (storage === 'r2' ? DEFAULT_CHUNK_SIZE : KV_DEFAULT_CHUNK_SIZE)
+  if (storage === 'r2') chunkSize = Math.max(chunkSize, R2_MIN_PART_SIZE)
+  chunkSize = Math.min(Math.max(chunkSize, 64 * 1024), MAX_CHUNK_SIZE)
+  const totalChunks = Math.max(1, Math.ceil(totalSize / chunkSize))
+
+  await ensureUploadTables(env)
+  const now = Math.floor(Date.now() / 1000)
+  const uploadId = crypto.randomUUID()
+  let stagingKey: string | null = null
+  let r2UploadId: string | null = null
+
+  if (storage === 'r2') {
+    stagingKey = `memory-blob-uploads/${walletAddress}/${uploadId}`
+    const multipart = await env.R2!.createMultipartUpload(stagingKey, {
+      httpMetadata: { contentType: 'application/octet-stream' },
+    })
+    r2UploadId = multipart.uploadId
+  }
+
+  const type = (body.type || body.metadata?.type || body.metadata?.Type || 'text').toString()
+  await env.DB.prepare(
+    `INSERT INTO memory_blob_uploads
+     (id, wallet_address, memory_id, total_size, chunk_size, total_chunks, content_hash, content_sha256, type, storage, r2_upload_id, staging_key, status, created_at, updated_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'open', ?, ?, ?)`
+  ).bind(
+    uploadId, walletAddress, memoryId, totalSize, chunkSize, totalChunks, contentHash || contentSha256, contentSha256, type,
+    storage, r2UploadId, stagingKey, now, now, now + UPLOAD_SESSION_TTL_SECONDS
+  ).run()
+
+  return jsonResponse({
+    success: true,
+    uploadId,
+    memoryId,
+    storage,
+    totalSize,
+    chunkSize,
+    totalChunks,
+    expiresAt: now + UPLOAD_SESSION_TTL_SECONDS,
+  })
+}
+
+async function handlePutUploadChunk(request: Request, env: Env, uploadId: string, index: number): Promise<Response> {
+  const loaded = await loadUploadSession(request, env, uploadId, true)
+  if ('response' in loaded) return loaded.response
+  const session = loaded.session
+
+  if (index < 0 || index >= session.total_chunks) {
+    return jsonResponse({ error: 'invalid_chunk_index', totalChunks: session.total_chunks }, 400)
+  }
+
+  const bytes = new Uint8Array(await request.arrayBuffer())
+  const expected = expectedChunkSize(session, index)
+  if (bytes.byteLength !== expected) {
+    return jsonResponse({ error: 'chunk_size_mismatch', expected, received: bytes.byteLength }, 400)
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  let etag: string | null = null
+  if (session.storage === 'r2') {
+    if (!env.R2 || !session.staging_key || !session.r2_upload_id) {
+      return jsonResponse({ error: 'Server not configured' }, 500)
+    }
+    const multipart = env.R2.resumeMultipartUpload(session.staging_key, session.r2_upload_id)
+    const part = await multipart.uploadPart(index + 1, bytes)
+    etag = part.etag
+  } else {
     if (!env.KV) return jsonResponse({ error: 'Server not configured' }, 500)
-    const key = ref.substring('kv:'.length)
-    const contentBase64 = await env.KV.get(key)
-    if (!contentBase64) return jsonResponse({ error: 'Not found' }, 404)
-    const bytes = decodeBase64ToBytes(contentBase64)
-    const buffer = new Uint8Array(bytes).buffer
-    return new Response(buffer, { status: 200, headers: { 'Content-Type': 'application/octet-stream' } })
+    await env.KV.put(getChunkKvKey(uploadId, index), encodeBytesToBase64(bytes), {
+      expirationTtl: Math.max(60, session.expires_at - now),
+    })
   }
 
-  return jsonResponse({ error: 'Not found' }, 404)
+  await env.DB!.prepare(
+    `INSERT INTO memory_blob_upload_parts (upload_id, chunk_index, size, etag, created_at)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(upload_id, chunk_index) DO UPDATE SET size = excluded.size, etag = excluded.etag, created_at = excluded.created_at`
+  ).bind(uploadId, index, bytes.byteLength, etag, now).run()
+  await env.DB!.prepare(
+    'UPDATE memory_blob_uploads SET updated_at = ? WHERE id = ?'
+  ).bind(now, uploadId).run()
+
+  const received = await listReceivedChunks(env, uploadId)
+  return jsonResponse({
+    success: true,
+    uploadId,
+    chunkIndex: index,
+    receivedCount: received.length,
+    totalChunks: session.total_chunks,
+  })
+}
+
+async function handleGetUpload(request: Request, env: Env, uploadId: string): Promise<Response> {
+  const loaded = await loadUploadSession(request, env, uploadId, false)
+  if ('response' in loaded) return loaded.response
+
+  const received = await listReceivedChunks(env, uploadId)
+  return jsonResponse(formatUploadSession(loaded.session, received.map((r) => r.chunk_index)))
+}
+
+async function handleCompleteUpload(request: Request, env: Env, uploadId: string): Promise<Response> {
+  const loaded = await loadUploadSession(request, env, uploadId, false)
+  if ('response' in loaded) return loaded.response
+  const session = loaded.session
+  // 客户端未收到响应而重试时返回首次完成的结果
+  if (session.status === 'completed' && session.result_json) {
+    return jsonResponse(JSON.parse(session.result_json))
+  }
+  const closed = checkUploadOpen(session)
+  if (closed) return closed
+  const locked = await getLockedCapsule(env, session.wallet_address, session.memory_id)
+  if (locked) return sealedResponse(locked)
+
+  const received = await listReceivedChunks(env, uploadId)
+  if (received.length < session.total_chunks) {
+    return jsonResponse({
+      error: 'missing_chunks',
+      ...formatUploadSession(session, received.map((r) => r.chunk_index)),
+    }, 409)
+  }
+
+  // 拼接
+  let bytes: Uint8Array<ArrayBuffer>
+  if (session.storage === 'r2') {
+    if (!env.R2 || !session.staging_key || !session.r2_upload_id) {
+      return jsonResponse({ error: 'Server not configured' }, 500)
+    }
+    const multipart = env.R2.resumeMultipartUpload(session.staging_key, session.r2_upload_id)
+    await multipart.complete(received.map((r) => ({ partNumber: r.chunk_index + 1, etag: r.etag || '' })))
+    const obj = await env.R2.get(session.staging_key)
+    if (!obj) return jsonResponse({ error: 'assembled_object_missing' }, 500)
+    bytes = new Uint8Array(await obj.arrayBuffer())
+  } else {
+    if (!env.KV) return jsonResponse({ error: 'Server not configured' }, 500)
+    bytes = new Uint8Array(session.total_size)
+    let offset = 0
+    for (let i = 0; i < session.total_chunks; i++) {
+      const chunkBase64 = await env.KV.get(getChunkKvKey(uploadId, i))
+      if (!chunkBase64) {
+        return jsonResponse({ error: 'missing_chunks', missingChunks: [i] }, 409)
+      }
+      const chunk = decodeBase64ToBytes(chunkBase64)
+      bytes.set(chunk, offset)
+      offset += chunk.byteLength
+    }
+  }
+
+  // 校验
+  const actualHash = await sha256Hex(bytes)
+  const expectedHash = session.content_sha256 || session.content_hash
+  if (bytes.byteLength !== session.total_size || actualHash !== expectedHash) {
+    await discardUploadData(env, session, true)
+    await setUploadStatus(env, uploadId, 'failed')
+    return jsonResponse({
+      error: 'content_hash_mismatch',
+      expected: expectedHash,
+      actual: actualHash,
+      expectedSize: session.total_size,
+      actualSize: bytes.byteLength,
+    }, 422)
+  }
+
+  // 会话创建后其它写入可能已占用配额，落盘前再检查一次
+  const quota = await checkStorageQuota(env, session.wallet_address, bytes.byteLength)
+  if (!quota.allowed) {
+    await discardUploadData(env, session, true)
+    await setUploadStatus(env, uploadId, 'failed')
+    return quotaExceededResponse(quota)
+  }
+
+  const stored = await storeBlobBytes(env, session.wallet_address, session.memory_id, bytes, actualHash, session.content_hash)
+  if (!stored) {
+    return jsonResponse({ error: 'Server not configured' }, 500)
+  }
+  await upsertMemoryRow(env, session.wallet_address, session.memory_id, session.type, stored.ref, bytes.byteLength, actualHash)
+  await discardUploadData(env, session, true)
+
+  const result = {
+    success: true,
+    uploadId,
+    memoryId: session.memory_id,
+    sha256: actualHash,
+    contentHash: session.content_hash,
+    size: bytes.byteLength,
+    version: stored.version,
+    storage: stored.ref.startsWith('r2:') ? 'r2' : 'kv',
+    path: `/api/v1/memories/blob/${session.memory_id}`,
+  }
+  await env.DB!.prepare(
+    `UPDATE memory_blob_uploads SET status = 'completed', result_json = ?, updated_at = ? WHERE id = ?`
+  ).bind(JSON.stringify(result), Math.floor(Date.now() / 1000), uploadId).run()
+
+  return jsonResponse(result)
+}
+
+/**
+ * 清理过期的上传会话：仍未完成的先 abort R2 multipart / 删除 KV 分片，再删除会话与分片记录
+ */
+export async function sweepExpiredUploads(env: Env, limit: number = 50): Promise<number> {
+  if (!env.DB) return 0
+  await ensureUploadTables(env)
+  const rows = await env.DB.prepare(
+    'SELECT * FROM memory_blob_uploads WHERE expires_at <= ? ORDER BY expires_at LIMIT ?'
+  ).bind(Math.floor(Date.now() / 1000), limit).all()
+  const sessions = (rows.results || []) as unknown as UploadSession[]
+
+  for (const session of sessions) {
+    if (session.status === 'open') await discardUploadData(env, session, false)
+    await env.DB.batch([
+      env.DB.prepare('DELETE FROM memory_blob_upload_parts WHERE upload_id = ?').bind(session.id),
+      env.DB.prepare('DELETE FROM memory_blob_uploads WHERE id = ?').bind(session.id),
+    ])
+  }
+  return sessions.length
+}
+
+async function handleAbortUpload(request: Request, env: Env, uploadId: string): Promise<Response> {
+  const loaded = await loadUploadSession(request, env, uploadId, false)
+  if ('response' in loaded) return loaded.response
+  const session = loaded.session
+
+  if (session.status === 'open') {
+    await discardUploadData(env, session, false)
+    await setUploadStatus(env, uploadId, 'aborted')
+  }
+  return jsonResponse({ success: true, uploadId, status: session.status === 'open' ? 'aborted' : session.status })
 }
@@ -0,0 +1,83 @@
+/**
+ * 时间胶囊 API
+ * 封存通过 POST /api/v1/memories/blob 携带 unlockAt（可选 recipientWallet、keyEnvelope）完成；
+ * 这里提供胶囊列表、状态查询与接收方领取
+ */
+
+import { Env, jsonResponse } from '../index'
+import { getUserAuth } from '../utils/user-auth'
+import { MemoryCapsule, claimMemoryCapsule, getIncomingCapsule, getMemoryCapsule, listMemoryCapsules } from '../services/memory-capsules'
+
+/**
+ * 胶囊视图不含记忆类型与哈希；keyEnvelope 仅在领取后返回给接收方
+ */
+function toCapsuleView(capsule: MemoryCapsule, walletAddress: string) {
+  const isRecipient = capsule.recipient_wallet === walletAddress
+  return {
+    memoryId: capsule.memory_id,
+    ownerWallet: capsule.owner_wallet,
+    recipientWallet: capsule.recipient_wallet,
+    unlockAt: capsule.unlock_at,
+    status: capsule.status,
+    createdAt: capsule.created_at,
+    openedAt: capsule.opened_at,
+    claimedAt: capsule.claimed_at,
+    claimable: isRecipient && capsule.status !== 'claimed' && capsule.unlock_at <= Math.floor(Date.now() / 1000),
+    keyEnvelope: isRecipient && capsule.status === 'claimed' ? capsule.key_envelope : null,
+  }
+}
+
+export async function handleMemoryCapsuleRoutes(request: Request, env: Env, path: string): Promise<Response | null> {
+  if (path === '/api/v1/memories/capsules' && request.method === 'GET') {
+    return handleListCapsules(request, env)
+  }
+  const claimMatch = path.match(/^\/api\/v1\/memories\/capsules\/([^/]+)\/claim$/)
+  if (claimMatch && request.method === 'POST') {
+    return handleClaimCapsule(request, env, claimMatch[1])
+  }
+  const match = path.match(/^\/api\/v1\/memories\/capsules\/([^/]+)$/)
+  if (match && request.method === 'GET') {
+    return handleGetCapsule(request, env, match[1])
+  }
+  return null
+}
+
+async function handleListCapsules(request: Request, env: Env): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const { sealed, incoming } = await listMemoryCapsules(env, auth.walletAddress)
+  return jsonResponse({
+    sealed: sealed.map(c => toCapsuleView(c, auth.walletAddress)),
+    incoming: incoming.map(c => toCapsuleView(c, auth.walletAddress)),
+  })
+}
+
+async function handleGetCapsule(request: Request, env: Env, memoryId: string): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const capsule = await getMemoryCapsule(env, auth.walletAddress, memoryId)
+    || await getIncomingCapsule(env, auth.walletAddress, memoryId)
+  if (!capsule) return jsonResponse({ error: 'not_found' }, 404)
+  return jsonResponse(toCapsuleView(capsule, auth.walletAddress))
+}
+
+async function handleClaimCapsule(request: Request, env: Env, memoryId: string): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const result = await claimMemoryCapsule(env, auth.walletAddress, memoryId)
+  if (!result.ok) {
+    const { ok, status, ...error } = result
+    return jsonResponse(error, status)
+  }
+  return jsonResponse({
+    success: true,
+    ...toCapsuleView(result.capsule, auth.walletAddress),
+    path: `/api/v1/memories/blob/${memoryId}`,
+  })
+}
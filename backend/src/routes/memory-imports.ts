@@ -0,0 +1,228 @@
+/**
+ * 日记导入 API
+ * 上传导出文件 → 服务端解析暂存 → 客户端分页领取 pending 条目，加密后走 /api/v1/memories/blob 上传并回执
+ * 中断后再次领取 pending 即可续传
+ */
+
+import { Env, jsonResponse } from '../index'
+import { getUserAuth } from '../utils/user-auth'
+import { JournalFormat, parseJournalExport } from '../services/journal-parsers'
+import {
+  MEMORY_IMPORT_MAX_ENTRIES,
+  MemoryImport,
+  MemoryImportEntry,
+  MemoryImportEntryStatus,
+  acknowledgeMemoryImportEntries,
+  cancelMemoryImport,
+  createMemoryImport,
+  getMemoryImport,
+  getMemoryImportProgress,
+  listMemoryImportEntries,
+  listMemoryImports,
+} from '../services/memory-import'
+
+const MAX_IMPORT_FILE_BYTES = 50 * 1024 * 1024
+const FORMATS: JournalFormat[] = ['markdown', 'dayone', 'enex']
+const ENTRY_STATUSES: MemoryImportEntryStatus[] = ['pending', 'imported', 'duplicate', 'skipped']
+
+function toImportView(job: MemoryImport) {
+  return {
+    importId: job.id,
+    source: job.source,
+    fileName: job.file_name,
+    status: job.status,
+    createVectors: job.create_vectors === 1,
+    totalEntries: job.total_entries,
+    createdAt: job.created_at,
+    updatedAt: job.updated_at,
+    expiresAt: job.expires_at,
+  }
+}
+
+function toEntryView(entry: MemoryImportEntry) {
+  let tags: string[] = []
+  try {
+    tags = entry.tags ? JSON.parse(entry.tags) : []
+  } catch {}
+  return {
+    seq: entry.seq,
+    externalId: entry.external_id,
+    contentHash: entry.content_hash,
+    title: entry.title,
+    content: entry.content,
+    tags,
+    createdAt: entry.original_created_at,
+    status: entry.status,
+    duplicateOf: entry.duplicate_of,
+    memoryId: entry.memory_id,
+    vectorized: entry.vectorized === 1,
+  }
+}
+
+export async function handleMemoryImportRoutes(request: Request, env: Env, path: string): Promise<Response | null> {
+  if (path === '/api/v1/memories/imports' && request.method === 'POST') {
+    return handleCreateImport(request, env)
+  }
+  if (path === '/api/v1/memories/imports' && request.method === 'GET') {
+    return handleListImports(request, env)
+  }
+  const entriesMatch = path.match(/^\/api\/v1\/memories\/imports\/([^/]+)\/entries$/)
+  if (entriesMatch && request.method === 'GET') {
+    return handleListImportEntries(request, env, entriesMatch[1])
+  }
+  const ackMatch = path.match(/^\/api\/v1\/memories\/imports\/([^/]+)\/entries\/ack$/)
+  if (ackMatch && request.method === 'POST') {
+    return handleAckImportEntries(request, env, ackMatch[1])
+  }
+  const match = path.match(/^\/api\/v1\/memories\/imports\/([^/]+)$/)
+  if (match && request.method === 'GET') {
+    return handleGetImport(request, env, match[1])
+  }
+  if (match && request.method === 'DELETE') {
+    return handleCancelImport(request, env, match[1])
+  }
+  return null
+}
+
+/**
+ * 请求体为原始文件（zip / json / enex），format、fileName、createVectors 通过查询参数传递
+ */
+async function handleCreateImport(request: Request, env: Env): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const url = new URL(request.url)
+  const formatParam = url.searchParams.get('format')
+  if (formatParam && !FORMATS.includes(formatParam as JournalFormat)) {
+    return jsonResponse({ error: 'unsupported_format', supported: FORMATS }, 400)
+  }
+
+  const declared = Number(request.headers.get('Content-Length') || 0)
+  if (declared > MAX_IMPORT_FILE_BYTES) {
+    return jsonResponse({ error: 'file_too_large', maxBytes: MAX_IMPORT_FILE_BYTES }, 413)
+  }
+  const bytes = new Uint8Array(await request.arrayBuffer())
+  if (bytes.length === 0) return jsonResponse({ error: 'empty_file' }, 400)
+  if (bytes.length > MAX_IMPORT_FILE_BYTES) {
+    return jsonResponse({ error: 'file_too_large', maxBytes: MAX_IMPORT_FILE_BYTES }, 413)
+  }
+
+  let parsed: Awaited<ReturnType<typeof parseJournalExport>>
+  try {
+    parsed = await parseJournalExport(bytes, formatParam as JournalFormat | null)
+  } catch (error: any) {
+    return jsonResponse({ error: 'parse_failed', detail: error?.message || String(error) }, 422)
+  }
+  if (parsed.entries.length === 0) return jsonResponse({ error: 'no_entries', format: parsed.format }, 422)
+  if (parsed.entries.length > MEMORY_IMPORT_MAX_ENTRIES) {
+    return jsonResponse({ error: 'too_many_entries', count: parsed.entries.length, maxEntries: MEMORY_IMPORT_MAX_ENTRIES }, 413)
+  }
+
+  const createVectors = ['1', 'true'].includes(url.searchParams.get('createVectors') || '')
+  const { job, duplicates, skipped } = await createMemoryImport(env, auth.walletAddress, parsed.format, parsed.entries, {
+    fileName: url.searchParams.get('fileName'),
+    createVectors,
+  })
+  return jsonResponse({
+    success: true,
+    ...toImportView(job),
+    pending: parsed.entries.length - duplicates - skipped,
+    duplicates,
+    skipped,
+  }, 201)
+}
+
+async function handleListImports(request: Request, env: Env): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const jobs = await listMemoryImports(env, auth.walletAddress)
+  return jsonResponse({ imports: jobs.map(toImportView) })
+}
+
+async function handleGetImport(request: Request, env: Env, importId: string): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const job = await getMemoryImport(env, auth.walletAddress, importId)
+  if (!job) return jsonResponse({ error: 'not_found' }, 404)
+  const progress = await getMemoryImportProgress(env, job.id)
+  return jsonResponse({ ...toImportView(job), progress })
+}
+
+async function handleListImportEntries(request: Request, env: Env, importId: string): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const job = await getMemoryImport(env, auth.walletAddress, importId)
+  if (!job) return jsonResponse({ error: 'not_found' }, 404)
+
+  const url = new URL(request.url)
+  const status = (url.searchParams.get('status') || 'pending') as MemoryImportEntryStatus
+  if (!ENTRY_STATUSES.includes(status)) return jsonResponse({ error: 'invalid_status', supported: ENTRY_STATUSES }, 400)
+  const after = url.searchParams.get('after')
+  const entries = await listMemoryImportEntries(env, job.id, {
+    status,
+    afterSeq: after != null && after !== '' ? parseInt(after, 10) : undefined,
+    limit: parseInt(url.searchParams.get('limit') || '50', 10),
+  })
+  return jsonResponse({
+    importId: job.id,
+    createVectors: job.create_vectors === 1,
+    entries: entries.map(toEntryView),
+    nextAfter: entries.length > 0 ? entries[entries.length - 1].seq : null,
+  })
+}
+
+/**
+ * 回执：entries 为已上传的条目（seq + memoryId，vectorized 表示已写入 memory_vectors），skip 为放弃导入的 seq
+ */
+async function handleAckImportEntries(request: Request, env: Env, importId: string): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const job = await getMemoryImport(env, auth.walletAddress, importId)
+  if (!job) return jsonResponse({ error: 'not_found' }, 404)
+  if (job.status !== 'active') return jsonResponse({ error: 'import_not_active', status: job.status }, 409)
+
+  let body: { entries?: Array<{ seq: number; memoryId: string; vectorized?: boolean }>; skip?: number[] }
+  try {
+    body = (await request.json()) as any
+  } catch {
+    return jsonResponse({ error: 'invalid_json' }, 400)
+  }
+  const entries = Array.isArray(body.entries) ? body.entries : []
+  const skip = Array.isArray(body.skip) ? body.skip : []
+  if (entries.some(e => !Number.isInteger(e?.seq) || !e.memoryId) || skip.some(s => !Number.isInteger(s))) {
+    return jsonResponse({ error: 'invalid_entries' }, 400)
+  }
+  if (entries.length + skip.length === 0) {
+    return jsonResponse({ error: 'Missing required fields', required: ['entries', 'skip'] }, 400)
+  }
+  if (entries.length + skip.length > 200) return jsonResponse({ error: 'too_many_entries', maxEntries: 200 }, 400)
+
+  const result = await acknowledgeMemoryImportEntries(env, job, [
+    ...entries.map(e => ({ seq: e.seq, memoryId: e.memoryId, vectorized: !!e.vectorized })),
+    ...skip.map(seq => ({ seq, skip: true })),
+  ])
+  const progress = await getMemoryImportProgress(env, job.id)
+  return jsonResponse({ success: true, ...result, progress })
+}
+
+async function handleCancelImport(request: Request, env: Env, importId: string): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const job = await getMemoryImport(env, auth.walletAddress, importId)
+  if (!job) return jsonResponse({ error: 'not_found' }, 404)
+  if (job.status !== 'active') return jsonResponse({ error: 'import_not_active', status: job.status }, 409)
+
+  await cancelMemoryImport(env, job)
+  return jsonResponse({ success: true, importId: job.id, status: 'cancelled' })
+}
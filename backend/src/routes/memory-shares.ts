@@ -0,0 +1,222 @@
+/**
+ * 记忆分享 API
+ * 所有者：POST/GET /api/v1/memories/shares 创建与列出分享，GET/DELETE /api/v1/memories/shares/:shareId 查看访问记录与撤销
+ * 公开：GET /s/:shareId 下发密文（指定了接收方的分享需接收方钱包登录）；密钥在链接 fragment 中，由客户端解密
+ */
+
+import { Env, jsonResponse } from '../index'
+import { getUserAuth } from '../utils/user-auth'
+import { ensureMemoryBlobTables, readBlobRefBytes } from '../services/memory-blob-store'
+import { getLockedCapsule } from '../services/memory-capsules'
+import {
+  DEFAULT_SHARE_TTL_SECONDS,
+  MAX_SHARE_TTL_SECONDS,
+  MAX_SHARE_VIEWS,
+  MemoryShare,
+  consumeShareView,
+  createMemoryShare,
+  getMemoryShare,
+  getShareDenial,
+  listMemoryShares,
+  listShareViews,
+  logShareView,
+  revokeMemoryShare,
+} from '../services/memory-shares'
+
+function toShareView(share: MemoryShare, origin: string) {
+  return {
+    shareId: share.id,
+    memoryId: share.memory_id,
+    recipientWallet: share.recipient_wallet,
+    expiresAt: share.expires_at,
+    maxViews: share.max_views,
+    viewCount: share.view_count,
+    createdAt: share.created_at,
+    revokedAt: share.revoked_at,
+    lastViewedAt: share.last_viewed_at,
+    status: getShareDenial(share) || 'active',
+    path: `/s/${share.id}`,
+    url: `${origin}/s/${share.id}`,
+  }
+}
+
+export async function handleMemoryShareRoutes(request: Request, env: Env, path: string): Promise<Response | null> {
+  if (path === '/api/v1/memories/shares' && request.method === 'POST') {
+    return handleCreateShare(request, env)
+  }
+  if (path === '/api/v1/memories/shares' && request.method === 'GET') {
+    return handleListShares(request, env)
+  }
+  const match = path.match(/^\/api\/v1\/memories\/shares\/([^/]+)$/)
+  if (match && request.method === 'GET') {
+    return handleGetShare(request, env, match[1])
+  }
+  if (match && request.method === 'DELETE') {
+    return handleRevokeShare(request, env, match[1])
+  }
+  const publicMatch = path.match(/^\/s\/([A-Za-z0-9_-]+)$/)
+  if (publicMatch && (request.method === 'GET' || request.method === 'HEAD')) {
+    return handleOpenShare(request, env, publicMatch[1])
+  }
+  return null
+}
+
+async function handleCreateShare(request: Request, env: Env): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  let body: { memoryId?: string; expiresInSeconds?: number; maxViews?: number | null; recipientWallet?: string | null }
+  try {
+    body = (await request.json()) as any
+  } catch {
+    return jsonResponse({ error: 'invalid_json' }, 400)
+  }
+  const memoryId = (body.memoryId || '').trim()
+  if (!memoryId) return jsonResponse({ error: 'Missing required fields', required: ['memoryId'] }, 400)
+
+  const ttl = body.expiresInSeconds == null ? DEFAULT_SHARE_TTL_SECONDS : Math.floor(Number(body.expiresInSeconds))
+  if (!Number.isFinite(ttl) || ttl <= 0 || ttl > MAX_SHARE_TTL_SECONDS) {
+    return jsonResponse({ error: 'invalid_expiry', maxSeconds: MAX_SHARE_TTL_SECONDS }, 400)
+  }
+  const maxViews = body.maxViews == null ? null : Math.floor(Number(body.maxViews))
+  if (maxViews != null && (!Number.isFinite(maxViews) || maxViews < 1 || maxViews > MAX_SHARE_VIEWS)) {
+    return jsonResponse({ error: 'invalid_max_views', max: MAX_SHARE_VIEWS }, 400)
+  }
+  const recipientWallet = (body.recipientWallet || '').trim() || null
+  if (recipientWallet === auth.walletAddress) return jsonResponse({ error: 'invalid_recipient' }, 400)
+
+  await ensureMemoryBlobTables(env)
+  const memory = await env.DB.prepare(
+    'SELECT deleted_at FROM memories WHERE id = ? AND wallet_address = ?'
+  ).bind(memoryId, auth.walletAddress).first() as any
+  if (!memory) return jsonResponse({ error: 'Not found' }, 404)
+  if (memory.deleted_at) return jsonResponse({ error: 'memory_deleted' }, 410)
+  const locked = await getLockedCapsule(env, auth.walletAddress, memoryId)
+  if (locked) return jsonResponse({ error: 'memory_sealed', unlockAt: locked.unlock_at }, 423)
+
+  const share = await createMemoryShare(env, {
+    walletAddress: auth.walletAddress,
+    memoryId,
+    expiresAt: Math.floor(Date.now() / 1000) + ttl,
+    maxViews,
+    recipientWallet,
+  })
+  return jsonResponse({ success: true, ...toShareView(share, new URL(request.url).origin) }, 201)
+}
+
+async function handleListShares(request: Request, env: Env): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const url = new URL(request.url)
+  const shares = await listMemoryShares(env, auth.walletAddress, url.searchParams.get('memoryId'))
+  return jsonResponse({ shares: shares.map(s => toShareView(s, url.origin)) })
+}
+
+async function handleGetShare(request: Request, env: Env, shareId: string): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const share = await getMemoryShare(env, shareId)
+  if (!share || share.wallet_address !== auth.walletAddress) return jsonResponse({ error: 'not_found' }, 404)
+  const views = await listShareViews(env, share.id)
+  return jsonResponse({
+    ...toShareView(share, new URL(request.url).origin),
+    views: views.map(v => ({
+      viewedAt: v.viewed_at,
+      outcome: v.outcome,
+      viewerWallet: v.viewer_wallet,
+      ipHash: v.ip_hash,
+      userAgent: v.user_agent,
+    })),
+  })
+}
+
+async function handleRevokeShare(request: Request, env: Env, shareId: string): Promise<Response> {
+  const auth = await getUserAuth(request, env)
+  if (!auth.ok) return jsonResponse({ error: 'unauthorized', detail: auth.error }, 401)
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const share = await revokeMemoryShare(env, auth.walletAddress, shareId)
+  if (!share) return jsonResponse({ error: 'not_found' }, 404)
+  return jsonResponse({ success: true, ...toShareView(share, new URL(request.url).origin) })
+}
+
+/**
+ * 公开访问：校验分享状态与接收方后占用一次查看次数并下发密文
+ * Irys 上的记忆不经服务端转发，返回交易 ID 由客户端自行下载
+ */
+async function handleOpenShare(request: Request, env: Env, shareId: string): Promise<Response> {
+  if (!env.DB) return jsonResponse({ error: 'Server not configured' }, 500)
+
+  const share = await getMemoryShare(env, shareId)
+  if (!share) return jsonResponse({ error: 'not_found' }, 404)
+
+  const visit = {
+    ip: request.headers.get('CF-Connecting-IP'),
+    userAgent: request.headers.get('User-Agent'),
+    viewerWallet: null as string | null,
+  }
+  const deny = async (outcome: string, status: number) => {
+    await logShareView(env, share, { ...visit, outcome })
+    return jsonResponse({ error: outcome }, status)
+  }
+
+  const denial = getShareDenial(share)
+  if (denial) return deny(denial, 410)
+
+  if (share.recipient_wallet) {
+    const auth = await getUserAuth(request, env)
+    if (!auth.ok) return deny('unauthorized', 401)
+    visit.viewerWallet = auth.walletAddress
+    if (auth.walletAddress !== share.recipient_wallet) return deny('forbidden', 403)
+  }
+
+  await ensureMemoryBlobTables(env)
+  const memory = await env.DB.prepare(
+    'SELECT irys_id, content_hash, deleted_at FROM memories WHERE id = ? AND wallet_address = ?'
+  ).bind(share.memory_id, share.wallet_address).first() as any
+  if (!memory || memory.deleted_at || !memory.irys_id) return deny('memory_unavailable', 410)
+  if (await getLockedCapsule(env, share.wallet_address, share.memory_id)) return deny('memory_sealed', 423)
+
+  const ref = String(memory.irys_id)
+  const onIrys = !ref.startsWith('r2:') && !ref.startsWith('kv:')
+  const source = onIrys ? null : await readBlobRefBytes(env, ref)
+  if (!onIrys && !source) return deny('memory_unavailable', 410)
+
+  if (request.method === 'HEAD') {
+    return new Response(null, { status: 200, headers: { 'Cache-Control': 'no-store' } })
+  }
+  const viewCount = await consumeShareView(env, share)
+  if (viewCount == null) return deny('share_exhausted', 410)
+  await logShareView(env, share, { ...visit, outcome: 'served' })
+
+  const headers: Record<string, string> = {
+    'Cache-Control': 'no-store',
+    'Referrer-Policy': 'no-referrer',
+    'X-Content-Type-Options': 'nosniff',
+    'X-Share-Expires-At': String(share.expires_at),
+  }
+  if (share.max_views != null) headers['X-Share-Views-Remaining'] = String(Math.max(0, share.max_views - viewCount))
+
+  if (onIrys) {
+    const response = jsonResponse({ storage: 'irys', irysId: ref, sha256: memory.content_hash || null })
+    for (const [k, v] of Object.entries(headers)) response.headers.set(k, v)
+    return response
+  }
+
+  const sha256 = memory.content_hash || Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', source!.bytes)))
+    .map(b => b.toString(16).padStart(2, '0')).join('')
+  return new Response(source!.bytes, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      ETag: `"${sha256}"`,
+      Digest: `sha-256=${Buffer.from(sha256, 'hex').toString('base64')}`,
+      ...headers,
+    },
+  })
+}
@@ -4,6 +4,43 @@
  */
 
 import { jsonResponse } from '../index'
+import {
+  OCEAN_TRAITS,
+  OceanScores,
+  PERSONA_SCORING_VERSION,
+  crossCheckClientScores,
+  ensurePersonaScoringColumns,
+  scorePersonaAnswers,
+} from '../services/persona-scoring'
+import {
+  MAX_TRAJECTORY_POINTS,
+  PERSONA_SNAPSHOT_SOURCES,
+  PERSONA_SNAPSHOT_STORES,
+  PersonaSnapshotSource,
+  PersonaSnapshotStore,
+  buildPersonaTrajectory,
+  detectPersonaDrift,
+  getDriftSettings,
+  listPersonaSnapshots,
+  recordCurrentPersonaSnapshot,
+  recordPersonaSnapshot,
+  scoresFromProfileV2,
+} from '../services/persona-history'
+import {
+  PersonaSignal,
+  QUESTIONNAIRE_ITEM_EVIDENCE,
+  applyPersonaSignal,
+  claimPersonaSignal,
+  clientSignalConfidence,
+  decayEvidence,
+  getPersonaConfidence,
+  getPersonaUpdateSettings,
+  getTraitEvidence,
+  parseDetectedTraits,
+  saveTraitEvidence,
+  toSeconds,
+  traitConfidence,
+} from '../services/persona-updates'
 
 // ============================================
 // 类型定义
@@ -36,6 +73,8 @@ interface UpdatePersonaRequest {
   neuroticism?: number
   sampleSize?: number
   syncRate?: number
+  // 快照来源：客户端合并对话分析结果时传 chat_inference，默认 manual
+  source?: PersonaSnapshotSource
 }
 
 interface UpdatePersonaProfileV2Request {
@@ -46,7 +85,8 @@ interface UpdatePersonaProfileV2Request {
 interface QuestionnaireRequest {
   walletAddress: string
   answers: Record<string, any>
-  personaScores: {
+  // 仅用于与服务端计分交叉校验
+  personaScores?: {
     openness: number
     conscientiousness: number
     extraversion: number
@@ -115,6 +155,16 @@ async function getPersona(request: Request, env: any): Promise<Response> {
       WHERE wallet_address = ?
     `).bind(walletAddress).first()
 
+    // 各维度置信度（0-1），由衰减后的证据量计算；读取失败不影响人格数据返回
+    let confidence: OceanScores = { openness: 0, conscientiousness: 0, extraversion: 0, agreeableness: 0, neuroticism: 0 }
+    if (persona) {
+      try {
+        confidence = await getPersonaConfidence(env, walletAddress)
+      } catch (error) {
+        console.error('Error getting persona confidence:', error)
+      }
+    }
+
     if (!persona) {
       // 返回默认值
       return jsonResponse({
@@ -127,6 +177,7 @@ async function getPersona(request: Request, env: any): Promise<Response> {
           extraversion: 0.5,
           agreeableness: 0.5,
           neuroticism: 0.5,
+          confidence,
           sampleSize: 0,
           analyzedAt: null,
           syncRate: 0,
@@ -149,6 +200,7 @@ async function getPersona(request: Request, env: any): Promise<Response> {
         extraversion: persona.extraversion,
         agreeableness: persona.agreeableness,
         neuroticism: persona.neuroticism,
+        confidence,
         sampleSize: persona.sample_size,
         analyzedAt: persona.analyzed_at,
         syncRate: persona.sync_rate,
@@ -181,6 +233,9 @@ async function updatePersona(request: Request, env: any): Promise<Response> {
     const body = await request.json() as UpdatePersonaRequest
     const { walletAddress, openness, conscientiousness, extraversion, 
             agreeableness, neuroticism, sampleSize, syncRate } = body
+    const source: PersonaSnapshotSource = body.source === 'chat_inference' ? 'chat_inference' : 'manual'
+    const traitsChanged = [openness, conscientiousness, extraversion, agreeableness, neuroticism]
+      .some(value => value !== undefined)
 
     if (!walletAddress) {
       return jsonResponse({ error: 'Missing walletAddress' }, 400)
@@ -256,6 +311,10 @@ async function updatePersona(request: Request, env: any): Promise<Response> {
       ).run()
     }
 
+    if (traitsChanged || !existing) {
+      await recordCurrentPersonaSnapshot(env, walletAddress, source)
+    }
+
     return jsonResponse({ success: true })
   } catch (error) {
     console.error('Error updating persona:', error)
@@ -289,6 +348,17 @@ async function updatePersonaProfileV2(request: Request, env: any): Promise<Respo
         updated_at = excluded.updated_at
     `).bind(walletAddress, profileJson, now).run()
 
+    // 画像 V2 由客户端基于对话证据更新
+    let profile: any = personaProfileV2
+    if (typeof profile === 'string') {
+      try { profile = JSON.parse(profile) } catch { profile = null }
+    }
+    const scores = scoresFromProfileV2(profile)
+    if (scores) {
+      const sampleCount = Number(profile.sampleCount)
+      await recordPersonaSnapshot(env, walletAddress, 'chat_inference', scores, Number.isFinite(sampleCount) ? sampleCount : null, 'profile_v2')
+    }
+
     return jsonResponse({ success: true })
   } catch (error) {
     console.error('Error updating persona profile v2:', error)
@@ -308,12 +378,29 @@ async function submitQuestionnaire(request: Request, env: any): Promise<Response
     const body = await request.json() as QuestionnaireRequest
     const { walletAddress, answers, personaScores } = body
 
-    if (!walletAddress || !answers || !personaScores) {
+    if (!walletAddress || !answers || typeof answers !== 'object') {
       return jsonResponse({ error: 'Missing required fields' }, 400)
     }
 
+    // 分数以服务端按题库计算为准
+    const scoring = scorePersonaAnswers(answers)
+    if (scoring.invalid.length > 0) {
+      return jsonResponse({ error: 'invalid_answers', items: scoring.invalid, scoringVersion: PERSONA_SCORING_VERSION }, 400)
+    }
+    if (!scoring.complete) {
+      return jsonResponse({ error: 'incomplete_answers', missing: scoring.missing, scoringVersion: PERSONA_SCORING_VERSION }, 400)
+    }
+    const scores = scoring.scores as OceanScores
+
+    const crossCheck = crossCheckClientScores(scores, personaScores)
+    if (crossCheck && !crossCheck.consistent) {
+      console.warn(`[Persona] Client questionnaire scores diverge for ${walletAddress}: maxDelta=${crossCheck.maxDelta}`)
+    }
+
     const userId = getUserIdFromWallet(walletAddress)
     const now = Math.floor(Date.now() / 1000)
+    const sampleSize = scoring.answered.length
+    await ensurePersonaScoringColumns(env)
 
     // 检查是否存在
     const existing = await env.DB.prepare(
@@ -329,23 +416,26 @@ async function submitQuestionnaire(request: Request, env: any): Promise<Response
           extraversion = ?,
           agreeableness = ?,
           neuroticism = ?,
-          sample_size = 20,
+          sample_size = ?,
           analyzed_at = ?,
           sync_rate = 1.0,
           questionnaire_completed = 1,
           questionnaire_answers = ?,
           questionnaire_completed_at = ?,
+          scoring_version = ?,
           updated_at = ?
         WHERE wallet_address = ?
       `).bind(
-        personaScores.openness,
-        personaScores.conscientiousness,
-        personaScores.extraversion,
-        personaScores.agreeableness,
-        personaScores.neuroticism,
+        scores.openness,
+        scores.conscientiousness,
+        scores.extraversion,
+        scores.agreeableness,
+        scores.neuroticism,
+        sampleSize,
         now,
         JSON.stringify(answers),
         now,
+        scoring.version,
         now,
         walletAddress
       ).run()
@@ -356,34 +446,51 @@ async function submitQuestionnaire(request: Request, env: any): Promise<Response
         (user_id, wallet_address, openness, conscientiousness, extraversion,
          agreeableness, neuroticism, sample_size, analyzed_at, sync_rate,
          questionnaire_completed, questionnaire_answers, questionnaire_completed_at,
-         created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, 20, ?, 1.0, 1, ?, ?, ?, ?)
+         scoring_version, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 1.0, 1, ?, ?, ?, ?, ?)
       `).bind(
         userId, walletAddress,
-        personaScores.openness,
-        personaScores.conscientiousness,
-        personaScores.extraversion,
-        personaScores.agreeableness,
-        personaScores.neuroticism,
+        scores.openness,
+        scores.conscientiousness,
+        scores.extraversion,
+        scores.agreeableness,
+        scores.neuroticism,
+        sampleSize,
         now,
         JSON.stringify(answers),
         now,
+        scoring.version,
         now, now
       ).run()
     }
 
+    // 问卷重新锚定各维度：证据量按已作答题目的权重折算
+    const evidence: Partial<OceanScores> = {}
+    for (const [trait, weight] of Object.entries(scoring.weights)) {
+      evidence[trait as keyof OceanScores] = weight * QUESTIONNAIRE_ITEM_EVIDENCE
+    }
+    await saveTraitEvidence(env, walletAddress, evidence, now)
+    await recordPersonaSnapshot(env, walletAddress, 'questionnaire', scores, sampleSize)
+
     return jsonResponse({
       success: true,
       persona: {
-        openness: personaScores.openness,
-        conscientiousness: personaScores.conscientiousness,
-        extraversion: personaScores.extraversion,
-        agreeableness: personaScores.agreeableness,
-        neuroticism: personaScores.neuroticism,
-        sampleSize: 20,
+        openness: scores.openness,
+        conscientiousness: scores.conscientiousness,
+        extraversion: scores.extraversion,
+        agreeableness: scores.agreeableness,
+        neuroticism: scores.neuroticism,
+        sampleSize,
         syncRate: 1.0,
         questionnaireCompleted: true,
-      }
+        scoringVersion: scoring.version,
+      },
+      scoring: {
+        version: scoring.version,
+        answered: scoring.answered,
+        missing: scoring.missing,
+        clientCrossCheck: crossCheck,
+      },
     })
   } catch (error) {
     console.error('Error submitting questionnaire:', error)
@@ -393,6 +500,9 @@ async function submitQuestionnaire(request: Request, env: any): Promise<Response
 
 /**
  * 增量更新人格（基于对话分析）
+ * traitAdjustments 为各维度的观测值（0-1），按信号置信度做贝叶斯加权更新：
+ * 传 messageId 时置信度取该条 chat_messages 的 relevance_score / detected_traits，且每条消息只计入一次；
+ * 否则取客户端的 confidence，并截断到 MAX_CLIENT_SIGNAL_CONFIDENCE
  */
 async function incrementPersona(request: Request, env: any): Promise<Response> {
   if (!env.DB) {
@@ -409,18 +519,47 @@ async function incrementPersona(request: Request, env: any): Promise<Response> {
         agreeableness?: number
         neuroticism?: number
       }
-      weight?: number  // 调整权重，默认 0.1
+      messageId?: string
+      confidence?: number
+      detectedTraits?: string[]
+      observedAt?: number
+      weight?: number  // 旧版客户端的调整权重，等同 confidence
     }
 
-    const { walletAddress, traitAdjustments, weight = 0.1 } = body
+    const { walletAddress, traitAdjustments, messageId } = body
 
-    if (!walletAddress || !traitAdjustments) {
+    if (!walletAddress || !traitAdjustments || typeof traitAdjustments !== 'object') {
       return jsonResponse({ error: 'Missing required fields' }, 400)
     }
 
     const userId = getUserIdFromWallet(walletAddress)
     const now = Math.floor(Date.now() / 1000)
 
+    // 信号置信度
+    let signal: PersonaSignal
+    if (messageId) {
+      const message = await env.DB.prepare(
+        `SELECT relevance_score, detected_traits, timestamp
+         FROM chat_messages WHERE id = ? AND wallet_address = ?`
+      ).bind(messageId, walletAddress).first()
+      if (!message) {
+        return jsonResponse({ error: 'message_not_found' }, 404)
+      }
+      signal = {
+        observations: traitAdjustments,
+        confidence: Number(message.relevance_score) || 0,
+        corroborated: parseDetectedTraits(message.detected_traits),
+        observedAt: message.timestamp ? toSeconds(Number(message.timestamp)) : null,
+      }
+    } else {
+      signal = {
+        observations: traitAdjustments,
+        confidence: clientSignalConfidence(body.confidence ?? body.weight),
+        corroborated: parseDetectedTraits(body.detectedTraits),
+        observedAt: body.observedAt ? toSeconds(Number(body.observedAt)) : null,
+      }
+    }
+
     // 获取当前人格数据
     let persona = await env.DB.prepare(
       'SELECT * FROM user_persona WHERE wallet_address = ?'
@@ -443,48 +582,64 @@ async function incrementPersona(request: Request, env: any): Promise<Response> {
       }
     }
 
-    // 计算新值（加权平均）
-    const newOpenness = persona.openness * (1 - weight) + 
-                       (traitAdjustments.openness ?? persona.openness) * weight
-    const newConscientiousness = persona.conscientiousness * (1 - weight) + 
-                                (traitAdjustments.conscientiousness ?? persona.conscientiousness) * weight
-    const newExtraversion = persona.extraversion * (1 - weight) + 
-                           (traitAdjustments.extraversion ?? persona.extraversion) * weight
-    const newAgreeableness = persona.agreeableness * (1 - weight) + 
-                            (traitAdjustments.agreeableness ?? persona.agreeableness) * weight
-    const newNeuroticism = persona.neuroticism * (1 - weight) + 
-                          (traitAdjustments.neuroticism ?? persona.neuroticism) * weight
-
-    // 更新记录
-    await env.DB.prepare(`
-      UPDATE user_persona SET
-        openness = ?,
-        conscientiousness = ?,
-        extraversion = ?,
-        agreeableness = ?,
-        neuroticism = ?,
-        sample_size = sample_size + 1,
-        analyzed_at = ?,
-        updated_at = ?
-      WHERE wallet_address = ?
-    `).bind(
-      Math.max(0, Math.min(1, newOpenness)),
-      Math.max(0, Math.min(1, newConscientiousness)),
-      Math.max(0, Math.min(1, newExtraversion)),
-      Math.max(0, Math.min(1, newAgreeableness)),
-      Math.max(0, Math.min(1, newNeuroticism)),
-      now, now, walletAddress
-    ).run()
+    const current = {
+      openness: Number(persona.openness ?? 0.5),
+      conscientiousness: Number(persona.conscientiousness ?? 0.5),
+      extraversion: Number(persona.extraversion ?? 0.5),
+      agreeableness: Number(persona.agreeableness ?? 0.5),
+      neuroticism: Number(persona.neuroticism ?? 0.5),
+    }
+    const [state, settings] = await Promise.all([
+      getTraitEvidence(env, walletAddress),
+      getPersonaUpdateSettings(env),
+    ])
+    // 客户端重试或重放同一条消息时不再叠加证据
+    const duplicate = messageId ? !await claimPersonaSignal(env, walletAddress, messageId, now) : false
+    const { scores: stored, evidence, updates } = duplicate
+      ? { scores: current, evidence: {} as Partial<OceanScores>, updates: {} }
+      : applyPersonaSignal(current, state, signal, settings, now)
+    const applied = Object.values(updates).some(update => update.weight > 0)
+
+    if (applied) {
+      // 更新记录
+      await env.DB.prepare(`
+        UPDATE user_persona SET
+          openness = ?,
+          conscientiousness = ?,
+          extraversion = ?,
+          agreeableness = ?,
+          neuroticism = ?,
+          sample_size = sample_size + 1,
+          analyzed_at = ?,
+          updated_at = ?
+        WHERE wallet_address = ?
+      `).bind(
+        stored.openness,
+        stored.conscientiousness,
+        stored.extraversion,
+        stored.agreeableness,
+        stored.neuroticism,
+        now, now, walletAddress
+      ).run()
+
+      await saveTraitEvidence(env, walletAddress, evidence, now)
+      await recordPersonaSnapshot(env, walletAddress, 'increment', stored, Number(persona.sample_size || 0) + 1)
+    }
+
+    const confidence = {} as OceanScores
+    for (const trait of OCEAN_TRAITS) {
+      const entry = state[trait]
+      const amount = evidence[trait] ?? (entry ? decayEvidence(entry.evidence, now - entry.updatedAt, settings.halfLifeDays) : 0)
+      confidence[trait] = traitConfidence(amount)
+    }
 
     return jsonResponse({
       success: true,
-      newPersona: {
-        openness: newOpenness,
-        conscientiousness: newConscientiousness,
-        extraversion: newExtraversion,
-        agreeableness: newAgreeableness,
-        neuroticism: newNeuroticism,
-      }
+      applied,
+      duplicate,
+      newPersona: stored,
+      confidence,
+      updates,
     })
   } catch (error) {
     console.error('Error incrementing persona:', error)
@@ -492,6 +647,73 @@ async function incrementPersona(request: Request, env: any): Promise<Response> {
   }
 }
 
+/**
+ * 人格变化轨迹与漂移检测
+ * 查询参数：store（persona / profile_v2，默认 persona）、from / to（秒）、source、maxPoints（超过时按时间分桶降采样）
+ */
+async function getPersonaHistory(request: Request, env: any): Promise<Response> {
+  const url = new URL(request.url)
+  const walletAddress = url.searchParams.get('wallet')
+
+  if (!walletAddress) {
+    return jsonResponse({ error: 'Missing wallet parameter' }, 400)
+  }
+
+  if (!env.DB) {
+    return jsonResponse({ error: 'Database not available' }, 500)
+  }
+
+  const parseTime = (name: string) => {
+    const raw = url.searchParams.get(name)
+    if (raw == null || raw === '') return null
+    const value = Number(raw)
+    return Number.isFinite(value) ? Math.floor(value) : NaN
+  }
+  const from = parseTime('from')
+  const to = parseTime('to')
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    return jsonResponse({ error: 'invalid_range' }, 400)
+  }
+
+  const store = (url.searchParams.get('store') || 'persona') as PersonaSnapshotStore
+  if (!PERSONA_SNAPSHOT_STORES.includes(store)) {
+    return jsonResponse({ error: 'invalid_store', allowed: PERSONA_SNAPSHOT_STORES }, 400)
+  }
+
+  const source = url.searchParams.get('source')
+  if (source && !PERSONA_SNAPSHOT_SOURCES.includes(source as PersonaSnapshotSource)) {
+    return jsonResponse({ error: 'invalid_source', allowed: PERSONA_SNAPSHOT_SOURCES }, 400)
+  }
+
+  const rawMaxPoints = url.searchParams.get('maxPoints')
+  const maxPoints = rawMaxPoints ? Math.floor(Number(rawMaxPoints)) : null
+  if (maxPoints != null && (!Number.isFinite(maxPoints) || maxPoints < 2 || maxPoints > MAX_TRAJECTORY_POINTS)) {
+    return jsonResponse({ error: 'invalid_max_points', min: 2, max: MAX_TRAJECTORY_POINTS }, 400)
+  }
+
+  try {
+    const snapshots = await listPersonaSnapshots(env, walletAddress, {
+      store,
+      from,
+      to,
+      source: source as PersonaSnapshotSource | null,
+    })
+    const trajectory = buildPersonaTrajectory(snapshots, maxPoints)
+
+    return jsonResponse({
+      walletAddress,
+      store,
+      total: snapshots.length,
+      downsampled: trajectory.length < snapshots.length,
+      trajectory,
+      drift: detectPersonaDrift(snapshots, await getDriftSettings(env)),
+    })
+  } catch (error) {
+    console.error('Error getting persona history:', error)
+    return jsonResponse({ error: 'Failed to get persona history' }, 500)
+  }
+}
+
 // ============================================
 // 路由处理
 // ============================================
@@ -506,6 +728,11 @@ export async function handlePersonaRoutes(
     return getPersona(request, env)
   }
 
+  // GET /api/v1/persona/history - 人格变化轨迹
+  if (request.method === 'GET' && path === '/api/v1/persona/history') {
+    return getPersonaHistory(request, env)
+  }
+
   // PUT /api/v1/persona - 更新人格数据
   if (request.method === 'PUT' && path === '/api/v1/persona') {
     return updatePersona(request, env)
@@ -4,6 +4,7 @@
  */
 
 import { jsonResponse } from '../index'
+import { enqueueIrysMigration } from '../services/irys-migration'
 
 /**
  * 获取 AI 服务配置（包括 API 密钥）
@@ -561,6 +562,16 @@ async function syncSubscription(request: Request, env: any): Promise<Response> {
         UPDATE users SET subscription_type = ?, subscription_expiry = ? WHERE wallet_address = ?
       `).bind(planId.toUpperCase(), endMs, walletAddress).run()
 
+      // 升级为付费用户后，把服务端托管的记忆排入 Irys 迁移队列
+      if (planId.toUpperCase() !== 'FREE') {
+        try {
+          const queued = await enqueueIrysMigration(env, walletAddress)
+          if (queued > 0) console.log(`[Irys Migration] Queued ${queued} memories for ${walletAddress}`)
+        } catch (e) {
+          console.error('[Irys Migration] Failed to enqueue after subscription sync:', e)
+        }
+      }
+
       console.log(`Subscription synced: ${walletAddress} -> ${planId}`)
     }
 
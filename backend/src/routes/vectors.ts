@@ -4,6 +4,12 @@
  */
 
 import { jsonResponse } from '../index'
+import { searchMemoryVectors } from '../services/memory-search'
+import type { MemoryFilters } from '../services/memory-search'
+import { hybridSearchMemories } from '../services/hybrid-search'
+import type { FusionMethod, SearchMode } from '../services/hybrid-search'
+import { countOutdatedVectors, DEFAULT_EMBEDDING_MODEL, getCurrentEmbeddingVersion } from '../services/embedding-migration'
+import { getMemoryIndexStats, indexMemoryVectors, probeCount, removeFromMemoryIndex } from '../services/vector-index'
 
 // ============================================
 // 类型定义
@@ -38,6 +44,7 @@ interface CreateVectorRequest {
 
 interface BatchCreateVectorsRequest {
   walletAddress: string
+  model?: string
   vectors: {
     memoryId: string
     vector: number[]
@@ -51,10 +58,25 @@ interface BatchCreateVectorsRequest {
 
 interface SearchVectorsRequest {
   walletAddress: string
-  queryVector: number[]
+  queryVector?: number[]
+  // 查询向量的 Embedding 模型（不传则只按维度匹配）
+  model?: string
   topK?: number
   threshold?: number
   memoryType?: string
+  // 混合检索
+  query?: string
+  mode?: SearchMode
+  fusion?: FusionMethod
+  vectorWeight?: number
+  mmr?: boolean
+  mmrLambda?: number
+  // 过滤
+  memoryTypes?: string[]
+  sourceType?: string
+  sourceTypes?: string[]
+  createdAfter?: number | string
+  createdBefore?: number | string
 }
 
 // ============================================
@@ -66,23 +88,14 @@ function getUserIdFromWallet(walletAddress: string): string {
 }
 
 /**
- * 计算余弦相似度
+ * 时间过滤参数：秒 / 毫秒时间戳或 ISO 日期字符串，统一转为秒
  */
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) return 0
-  
-  let dotProduct = 0
-  let normA = 0
-  let normB = 0
-  
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i]
-    normA += a[i] * a[i]
-    normB += b[i] * b[i]
-  }
-  
-  if (normA === 0 || normB === 0) return 0
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB))
+function parseTimestamp(value: number | string | undefined): number | null {
+  if (value === undefined || value === null || value === '') return null
+  const n = typeof value === 'number' ? value : Number(value)
+  if (Number.isFinite(n)) return n > 1e12 ? Math.floor(n / 1000) : Math.floor(n)
+  const parsed = Date.parse(String(value))
+  return Number.isNaN(parsed) ? null : Math.floor(parsed / 1000)
 }
 
 // ============================================
@@ -191,7 +204,7 @@ async function createVector(request: Request, env: any): Promise<Response> {
       memoryId, userId, walletAddress,
       JSON.stringify(vector),
       vector.length,
-      model || 'text-embedding-v3',
+      model || DEFAULT_EMBEDDING_MODEL,
       textPreview || '',
       textLength || 0,
       memoryType || 'chat',
@@ -200,6 +213,12 @@ async function createVector(request: Request, env: any): Promise<Response> {
       now
     ).run()
 
+    try {
+      await indexMemoryVectors(env, walletAddress, [{ memoryId, vector, memoryType }])
+    } catch (e) {
+      console.error('Error indexing vector:', e)
+    }
+
     return jsonResponse({
       success: true,
       memoryId,
@@ -236,11 +255,12 @@ async function batchCreateVectors(request: Request, env: any): Promise<Response>
         INSERT OR REPLACE INTO memory_vectors 
         (memory_id, user_id, wallet_address, vector_json, vector_dimension, model,
          text_preview, text_length, memory_type, source_id, source_type, created_at)
-        VALUES (?, ?, ?, ?, ?, 'text-embedding-v3', ?, ?, ?, ?, ?, ?)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).bind(
         v.memoryId, userId, walletAddress,
         JSON.stringify(v.vector),
         v.vector.length,
+        body.model || DEFAULT_EMBEDDING_MODEL,
         v.textPreview || '',
         v.textLength || 0,
         v.memoryType || 'chat',
@@ -251,6 +271,16 @@ async function batchCreateVectors(request: Request, env: any): Promise<Response>
       created++
     }
 
+    try {
+      await indexMemoryVectors(env, walletAddress, vectors.map((v) => ({
+        memoryId: v.memoryId,
+        vector: v.vector,
+        memoryType: v.memoryType,
+      })))
+    } catch (e) {
+      console.error('Error indexing vectors:', e)
+    }
+
     return jsonResponse({
       success: true,
       created,
@@ -274,6 +304,12 @@ async function deleteVector(request: Request, env: any, memoryId: string): Promi
       'DELETE FROM memory_vectors WHERE memory_id = ?'
     ).bind(memoryId).run()
 
+    try {
+      await removeFromMemoryIndex(env, memoryId)
+    } catch (e) {
+      console.error('Error removing vector from index:', e)
+    }
+
     return jsonResponse({ success: true })
   } catch (error) {
     console.error('Error deleting vector:', error)
@@ -292,66 +328,68 @@ async function searchVectors(request: Request, env: any): Promise<Response> {
   try {
     const body = await request.json() as SearchVectorsRequest
     const { walletAddress, queryVector, topK = 5, threshold = 0.7, memoryType } = body
+    const query = (body.query || '').trim()
+    const mode: SearchMode = body.mode || (query ? 'hybrid' : 'vector')
+    const hasVector = Array.isArray(queryVector) && queryVector.length > 0
 
-    if (!walletAddress || !queryVector || queryVector.length === 0) {
+    if (!walletAddress || !['vector', 'keyword', 'hybrid'].includes(mode)) {
       return jsonResponse({ error: 'Missing required fields' }, 400)
     }
-
-    // 获取用户所有向量
-    let query = `
-      SELECT memory_id, vector_json, text_preview, text_length, memory_type,
-             source_id, source_type, created_at
-      FROM memory_vectors 
-      WHERE wallet_address = ?
-    `
-    const params: any[] = [walletAddress]
-
-    if (memoryType) {
-      query += ' AND memory_type = ?'
-      params.push(memoryType)
+    if ((mode === 'vector' && !hasVector) || (mode === 'keyword' && !query) || (mode === 'hybrid' && !hasVector && !query)) {
+      return jsonResponse({ error: 'Missing required fields' }, 400)
     }
 
-    const result = await env.DB.prepare(query).bind(...params).all()
+    const filters: MemoryFilters = {
+      memoryTypes: body.memoryTypes?.length ? body.memoryTypes : (memoryType ? [memoryType] : undefined),
+      sourceTypes: body.sourceTypes?.length ? body.sourceTypes : (body.sourceType ? [body.sourceType] : undefined),
+      createdAfter: parseTimestamp(body.createdAfter),
+      createdBefore: parseTimestamp(body.createdBefore),
+    }
 
-    // 计算相似度并排序
-    const similarities: {
-      memoryId: string
-      similarity: number
-      textPreview: string
-      textLength: number
-      memoryType: string
-      sourceId?: string
-      sourceType?: string
-      createdAt: number
-    }[] = []
-
-    for (const row of (result.results || [])) {
-      const storedVector = JSON.parse(row.vector_json)
-      const similarity = cosineSimilarity(queryVector, storedVector)
-      
-      if (similarity >= threshold) {
-        similarities.push({
-          memoryId: row.memory_id,
-          similarity,
-          textPreview: row.text_preview,
-          textLength: row.text_length,
-          memoryType: row.memory_type,
-          sourceId: row.source_id,
-          sourceType: row.source_type,
-          createdAt: row.created_at,
-        })
-      }
+    // 尚未迁移到当前 Embedding 版本的向量不参与向量比较，数量随结果返回；
+    // 客户端未指明查询向量的模型时按当前版本过滤，避免同维度的新旧模型向量混算
+    const version = await getCurrentEmbeddingVersion(env)
+    const outdated = await countOutdatedVectors(env, version, walletAddress)
+    const embedding = { model: version.model, dimension: version.dimension, outdated }
+    const model = body.model || version.model
+
+    if (mode === 'vector' && !body.mmr) {
+      const { results, total, totalExact } = await searchMemoryVectors(env, walletAddress, queryVector!, { topK, threshold, filters, model })
+
+      // 返回 topK 个结果
+      return jsonResponse({
+        results,
+        total,
+        totalExact,
+        topK,
+        threshold,
+        embedding,
+      })
     }
 
-    // 按相似度降序排序
-    similarities.sort((a, b) => b.similarity - a.similarity)
+    const { results, total } = await hybridSearchMemories(env, walletAddress, {
+      mode,
+      query,
+      queryVector: hasVector ? queryVector : null,
+      model,
+      topK,
+      threshold,
+      filters,
+      fusion: body.fusion === 'weighted' ? 'weighted' : 'rrf',
+      vectorWeight: body.vectorWeight,
+      mmr: !!body.mmr,
+      mmrLambda: body.mmrLambda,
+    })
 
-    // 返回 topK 个结果
     return jsonResponse({
-      results: similarities.slice(0, topK),
-      total: similarities.length,
+      results,
+      total,
       topK,
       threshold,
+      mode,
+      fusion: body.fusion === 'weighted' ? 'weighted' : 'rrf',
+      mmr: !!body.mmr,
+      embedding,
     })
   } catch (error) {
     console.error('Error searching vectors:', error)
@@ -359,6 +397,43 @@ async function searchVectors(request: Request, env: any): Promise<Response> {
   }
 }
 
+/**
+ * 向量索引状态（recall@k 为最近一次重建时相对暴力检索的召回率）
+ */
+async function getVectorIndexStatus(request: Request, env: any): Promise<Response> {
+  const url = new URL(request.url)
+  const walletAddress = url.searchParams.get('wallet')
+
+  if (!walletAddress) {
+    return jsonResponse({ error: 'Missing wallet parameter' }, 400)
+  }
+
+  if (!env.DB) {
+    return jsonResponse({ error: 'Database not available' }, 500)
+  }
+
+  try {
+    const meta = await getMemoryIndexStats(env, walletAddress)
+    const nLists = meta?.n_lists || 0
+
+    return jsonResponse({
+      indexed: nLists > 0,
+      dimension: meta?.dimension ?? null,
+      nLists,
+      nProbe: nLists > 0 ? probeCount(nLists) : 0,
+      trainedCount: meta?.trained_count || 0,
+      indexedCount: meta?.indexed_count || 0,
+      pendingRebuild: !!meta?.needs_rebuild,
+      recallAtK: meta?.recall_at_k ?? null,
+      recallK: meta?.recall_k ?? null,
+      builtAt: meta?.built_at ?? null,
+    })
+  } catch (error) {
+    console.error('Error getting vector index status:', error)
+    return jsonResponse({ error: 'Failed to get vector index status' }, 500)
+  }
+}
+
 // ============================================
 // 路由处理
 // ============================================
@@ -388,6 +463,11 @@ export async function handleVectorRoutes(
     return searchVectors(request, env)
   }
 
+  // GET /api/v1/vectors/index - 索引状态
+  if (request.method === 'GET' && path === '/api/v1/vectors/index') {
+    return getVectorIndexStatus(request, env)
+  }
+
   // DELETE /api/v1/vectors/:id - 删除向量
   const deleteMatch = path.match(/^\/api\/v1\/vectors\/([^/]+)$/)
   if (request.method === 'DELETE' && deleteMatch) {
@@ -0,0 +1,18 @@
+/**
+ * 账户注销定时任务
+ * 每小时执行冷静期已满的注销请求，回执写入 admin_logs
+ */
+
+import type { Env } from '../types'
+import { runDueAccountDeletions } from '../services/account-deletion'
+
+export async function handleScheduledAccountDeletion(env: Env): Promise<void> {
+  if (!env.DB) return
+
+  try {
+    const completed = await runDueAccountDeletions(env)
+    if (completed > 0) console.log(`[Account Deletion] Erased ${completed} accounts`)
+  } catch (error) {
+    console.error('[Account Deletion] Scheduled run failed:', error)
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * 账户导出定时任务
+ * 打包请求内未能完成的导出任务，并删除超过保留期的归档
+ */
+
+import type { Env } from '../types'
+import { purgeExpiredAccountExports, runAccountExportBatch } from '../services/account-export'
+
+export async function handleScheduledAccountExport(env: Env): Promise<void> {
+  if (!env.DB || !env.R2) return
+
+  try {
+    const built = await runAccountExportBatch(env)
+    if (built > 0) console.log(`[Account Export] Built ${built} exports`)
+    const expired = await purgeExpiredAccountExports(env)
+    if (expired > 0) console.log(`[Account Export] Removed ${expired} expired exports`)
+  } catch (error) {
+    console.error('[Account Export] Scheduled run failed:', error)
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * 聊天检索索引补建定时任务
+ * 每小时按 rowid 游标为尚未建索引的存量消息补建全文索引
+ */
+
+import type { Env } from '../types'
+import { backfillChatSearchIndex } from '../services/chat-search'
+
+export async function handleScheduledChatSearchBackfill(env: Env): Promise<void> {
+  if (!env.DB) return
+
+  try {
+    const indexed = await backfillChatSearchIndex(env)
+    if (indexed > 0) console.log(`[Chat Search] Backfilled ${indexed} messages`)
+  } catch (error) {
+    console.error('[Chat Search] Scheduled run failed:', error)
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * 会话摘要定时任务
+ * 每小时为积累了足够新消息的会话推进滚动摘要
+ */
+
+import type { Env } from '../types'
+import { summarizePendingSessions } from '../services/chat-summaries'
+
+export async function handleScheduledChatSummaries(env: Env): Promise<void> {
+  if (!env.DB) return
+
+  try {
+    const { updated, failed } = await summarizePendingSessions(env)
+    if (updated > 0 || failed > 0) console.log(`[Chat Summaries] Updated ${updated} sessions, ${failed} failed`)
+  } catch (error) {
+    console.error('[Chat Summaries] Scheduled run failed:', error)
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Embedding 重新向量化迁移定时任务
+ * 每小时推进进行中的迁移任务若干批，游标持久化在 embedding_migrations，中断后从上次位置继续
+ */
+
+import type { Env } from '../types'
+import {
+  advanceEmbeddingMigration,
+  ensureEmbeddingMigrationTable,
+  getMigrationBatchesPerRun,
+  EmbeddingMigration,
+} from '../services/embedding-migration'
+
+export async function handleScheduledEmbeddingMigration(env: Env): Promise<void> {
+  if (!env.DB) return
+
+  try {
+    await ensureEmbeddingMigrationTable(env)
+    const migration = await env.DB.prepare(
+      `SELECT * FROM embedding_migrations WHERE status = 'running' ORDER BY created_at ASC LIMIT 1`
+    ).first() as unknown as EmbeddingMigration | null
+    if (!migration) return
+
+    const maxBatches = await getMigrationBatchesPerRun(env)
+    const result = await advanceEmbeddingMigration(env, migration, maxBatches)
+    console.log(`[Embedding Migration] ${migration.id}: status=${result?.status} processed=${result?.processed}/${result?.total} failed=${result?.failed} skipped=${result?.skipped}${result?.last_error ? ` error=${result.last_error}` : ''}`)
+  } catch (error) {
+    console.error('[Embedding Migration] Scheduled run failed:', error)
+  }
+}
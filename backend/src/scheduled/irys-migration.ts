@@ -0,0 +1,31 @@
+/**
+ * Irys 迁移定时任务
+ * 每小时先为已升级的付费用户补排队，再执行若干批到期任务（失败按指数退避重试）
+ */
+
+import type { Env } from '../types'
+import { enqueueEligibleWallets, runIrysMigrationBatch } from '../services/irys-migration'
+
+const BATCH_SIZE = 20
+const MAX_BATCHES_PER_RUN = 5
+
+export async function handleScheduledIrysMigration(env: Env): Promise<void> {
+  if (!env.DB) return
+  if (!env.IRYS_UPLOADER_URL) return
+
+  try {
+    const queued = await enqueueEligibleWallets(env)
+    if (queued > 0) console.log(`[Irys Migration] Queued ${queued} memories`)
+
+    for (let i = 0; i < MAX_BATCHES_PER_RUN; i++) {
+      const counts = await runIrysMigrationBatch(env, BATCH_SIZE)
+      const processed = counts.completed + counts.failed + counts.skipped + counts.queued
+      if (processed > 0) {
+        console.log(`[Irys Migration] completed=${counts.completed} retry=${counts.queued} failed=${counts.failed} skipped=${counts.skipped}`)
+      }
+      if (processed < BATCH_SIZE) break
+    }
+  } catch (error) {
+    console.error('[Irys Migration] Scheduled run failed:', error)
+  }
+}
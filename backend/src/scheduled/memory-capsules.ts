@@ -0,0 +1,18 @@
+/**
+ * 时间胶囊开启定时任务
+ * 每小时处理到期的胶囊，并通过 FCM 通知所有者（或待领取的接收方）
+ */
+
+import type { Env } from '../types'
+import { openDueMemoryCapsules } from '../services/memory-capsules'
+
+export async function handleScheduledMemoryCapsules(env: Env): Promise<void> {
+  if (!env.DB) return
+
+  try {
+    const opened = await openDueMemoryCapsules(env)
+    if (opened > 0) console.log(`[Memory Capsules] Processed ${opened} due capsules`)
+  } catch (error) {
+    console.error('[Memory Capsules] Scheduled run failed:', error)
+  }
+}
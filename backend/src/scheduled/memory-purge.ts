@@ -0,0 +1,35 @@
+/**
+ * 记忆软删除清理定时任务
+ * 每小时清除超过恢复期（memory.blob.restore_window_days）的墓碑及其全部版本对象，清空过期导入任务的暂存正文，
+ * 并清理过期的分片上传会话
+ */
+
+import type { Env } from '../types'
+import { purgeExpiredMemoryBlobs } from '../services/memory-blob-store'
+import { expireMemoryImports } from '../services/memory-import'
+import { sweepExpiredUploads } from '../routes/memories'
+
+export async function handleScheduledMemoryPurge(env: Env): Promise<void> {
+  if (!env.DB) return
+
+  try {
+    const purged = await purgeExpiredMemoryBlobs(env)
+    if (purged > 0) console.log(`[Memory Purge] Purged ${purged} deleted memories`)
+  } catch (error) {
+    console.error('[Memory Purge] Scheduled run failed:', error)
+  }
+
+  try {
+    const expired = await expireMemoryImports(env)
+    if (expired > 0) console.log(`[Memory Purge] Expired ${expired} memory imports`)
+  } catch (error) {
+    console.error('[Memory Purge] Import expiry failed:', error)
+  }
+
+  try {
+    const swept = await sweepExpiredUploads(env)
+    if (swept > 0) console.log(`[Memory Purge] Swept ${swept} expired blob uploads`)
+  } catch (error) {
+    console.error('[Memory Purge] Upload sweep failed:', error)
+  }
+}
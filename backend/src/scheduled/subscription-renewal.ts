@@ -5,6 +5,7 @@
 
 import { getPendingPayments, recordPaymentResult } from '../routes/admin/subscriptions'
 import { getSolanaRpcUrl } from '../utils/solana-rpc'
+import { sendFcmNotification } from '../utils/fcm'
 
 // Solana 相关配置
 const SUBSCRIPTION_PROGRAM_ID = 'SUBScripXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX'
@@ -266,53 +267,3 @@ export async function sendRenewalReminders(env: Env): Promise<void> {
     }
   }
 }
-
-/**
- * 发送 FCM 推送通知
- */
-async function sendFcmNotification(
-  env: Env,
-  fcmToken: string,
-  notification: {
-    title: string
-    body: string
-    data?: Record<string, string>
-  }
-): Promise<void> {
-  // 获取 FCM 服务器密钥
-  const fcmServerKey = (env as any).FCM_SERVER_KEY
-  
-  if (!fcmServerKey) {
-    console.warn('[FCM] FCM_SERVER_KEY not configured')
-    return
-  }
-  
-  const response = await fetch('https://fcm.googleapis.com/fcm/send', {
-    method: 'POST',
-    headers: {
-      'Authorization': `key=${fcmServerKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      to: fcmToken,
-      notification: {
-        title: notification.title,
-        body: notification.body,
-        icon: 'ic_notification',
-        sound: 'default',
-      },
-      data: notification.data || {},
-      priority: 'high',
-    }),
-  })
-  
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`FCM error: ${response.status} - ${errorText}`)
-  }
-  
-  const result = await response.json() as { success: number; failure: number }
-  if (result.failure > 0) {
-    console.warn('[FCM] Some messages failed to send')
-  }
-}
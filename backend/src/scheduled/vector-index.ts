@@ -0,0 +1,27 @@
+/**
+ * 记忆向量索引维护定时任务
+ * 每小时重建少量标记为 needs_rebuild 的钱包索引，避免单次任务超出 CPU 限额
+ */
+
+import type { Env } from '../types'
+import { listStaleMemoryIndexes, rebuildMemoryIndex } from '../services/vector-index'
+
+const REBUILDS_PER_RUN = 3
+
+export async function handleScheduledVectorIndex(env: Env): Promise<void> {
+  try {
+    const wallets = await listStaleMemoryIndexes(env, REBUILDS_PER_RUN)
+    if (wallets.length === 0) return
+
+    for (const wallet of wallets) {
+      try {
+        const meta = await rebuildMemoryIndex(env, wallet)
+        console.log(`[Vector Index] Rebuilt ${wallet}: lists=${meta?.n_lists ?? 0} vectors=${meta?.indexed_count ?? 0} recall@${meta?.recall_k ?? '-'}=${meta?.recall_at_k ?? '-'}`)
+      } catch (e) {
+        console.error(`[Vector Index] Rebuild failed for ${wallet}:`, e)
+      }
+    }
+  } catch (error) {
+    console.error('[Vector Index] Scheduled maintenance failed:', error)
+  }
+}
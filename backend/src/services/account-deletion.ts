@@ -0,0 +1,429 @@
+/**
+ * 账户注销（被遗忘权）
+ * 用户用钱包签名确认注销请求，经过冷静期（account.deletion.cooling_off_days）后由定时任务执行：
+ * 个人数据（记忆及其 R2 / KV 对象、向量、聊天、人格、签到、游戏角色等）直接删除；
+ * 需保留对账的流水（MEMO、支付、订阅、质押、奖励等）把钱包地址替换为随机假名；
+ * users 行保留为匿名账户，供流水的 user_id 外键引用。执行结果作为回执写入 admin_logs。
+ * 已上传到 Irys / Arweave 的数据无法删除，回执中单独列出数量。
+ */
+
+import type { Env } from '../types'
+import { readConfigValues } from '../utils/config-reader'
+import { base58Decode, base58Encode, generateChallenge, verifySignature } from '../utils/crypto'
+import { createAdminContext, logAdminAction } from '../routes/admin/middleware'
+import { deleteAllBlobVersions, deleteBlobRef, ensureMemoryBlobTables } from './memory-blob-store'
+
+export type AccountDeletionStatus = 'unconfirmed' | 'pending' | 'cancelled' | 'completed'
+
+export type AccountDeletionRequest = {
+  id: string
+  wallet_address: string
+  status: AccountDeletionStatus
+  message: string
+  challenge_expires_at: number
+  signature: string | null
+  pseudonym: string | null
+  requested_at: number | null
+  execute_after: number | null
+  cancelled_at: number | null
+  completed_at: number | null
+  last_error: string | null
+  created_at: number
+}
+
+export const DEFAULT_DELETION_COOLING_OFF_DAYS = 14
+export const ACCOUNT_ERASURE_ACTION = 'ACCOUNT_ERASURE'
+const CHALLENGE_EXPIRY_SECONDS = 10 * 60
+
+// 直接删除的个人数据（子表在前）
+const ERASE_BY_WALLET = [
+  'chat_session_summaries',
+  'chat_messages_fts',
+  'chat_messages',
+  'chat_sessions',
+  'chat_logs',
+  'memory_vectors',
+  'memory_vector_index',
+  'memory_vector_centroids',
+  'memory_vector_index_meta',
+  'memory_blob_uploads',
+  'memory_blob_versions',
+  'irys_migration_jobs',
+  'memories',
+  'proactive_questions',
+  'user_persona',
+  'user_persona_profile_v2',
+  'user_profiles',
+  'persona_snapshots',
+  'persona_trait_evidence',
+  'persona_applied_signals',
+  'user_checkins',
+  'user_check_ins',
+  'user_daily_stats',
+  'user_monthly_stats',
+  'adventure_completions',
+  'support_bug_reports',
+  'auth_challenges',
+  'fcm_tokens',
+  'game_ship_mint_notify_subscriptions',
+  'game_ship_mint_rate_limits',
+  'game_ship_mint_tx_cache',
+  'game_ship_mint_tx_locks',
+  'account_exports',
+  'memory_import_entries',
+  'memory_imports',
+  'memory_share_views',
+  'memory_shares',
+]
+
+const ERASE_BY_PLAYER = [
+  'game_inventory',
+  'game_player_artifacts',
+  'game_player_dungeon_state',
+  'game_player_exploration',
+  'game_player_factions',
+  'game_player_lore',
+  'game_player_season_contrib',
+  'game_player_travel_state',
+  'game_npc_interactions',
+  'game_npc_memory_summaries',
+]
+
+// 对账需保留的流水：只替换钱包地址
+const PSEUDONYMIZE_BY_WALLET: Array<{ table: string; column: string }> = [
+  { table: 'memo_transactions', column: 'wallet_address' },
+  { table: 'memo_transaction_logs', column: 'wallet_address' },
+  { table: 'dialogue_rewards', column: 'wallet_address' },
+  { table: 'payment_transactions', column: 'wallet_address' },
+  { table: 'subscription_records', column: 'wallet_address' },
+  { table: 'auto_renew_subscriptions', column: 'wallet_address' },
+  { table: 'staking_records', column: 'wallet_address' },
+  { table: 'reward_distributions', column: 'wallet_address' },
+  { table: 'airdrop_recipients', column: 'wallet_address' },
+  { table: 'genesis_redemptions', column: 'wallet_address' },
+  { table: 'ai_usage_logs', column: 'wallet_address' },
+  { table: 'game_ship_nfts', column: 'wallet_address' },
+  { table: 'game_ship_metadata', column: 'assigned_wallet' },
+  { table: 'memory_shares', column: 'recipient_wallet' },
+  { table: 'memory_share_views', column: 'viewer_wallet' },
+]
+
+export type ErasureReceipt = {
+  requestId: string
+  walletSha256: string
+  pseudonym: string
+  requestedAt: number | null
+  executedAt: number
+  deleted: Record<string, number>
+  pseudonymized: Record<string, number>
+  skipped: string[]
+  objects: { r2: number; kv: number }
+  irysRetained: number
+}
+
+export async function ensureAccountDeletionTable(env: Env): Promise<void> {
+  if (!env.DB || (globalThis as any).__accountDeletionReady) return
+  try { await env.DB.prepare(`ALTER TABLE users ADD COLUMN erased_at INTEGER`).run() } catch {}
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS account_deletion_requests (
+      id TEXT PRIMARY KEY,
+      wallet_address TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'unconfirmed',
+      message TEXT NOT NULL,
+      challenge_expires_at INTEGER NOT NULL,
+      signature TEXT,
+      pseudonym TEXT,
+      requested_at INTEGER,
+      execute_after INTEGER,
+      cancelled_at INTEGER,
+      completed_at INTEGER,
+      last_error TEXT,
+      created_at INTEGER NOT NULL
+    )`
+  ).run()
+  await env.DB.prepare(
+    `CREATE INDEX IF NOT EXISTS idx_account_deletion_due ON account_deletion_requests(status, execute_after)`
+  ).run()
+  ;(globalThis as any).__accountDeletionReady = true
+}
+
+export async function getCoolingOffSeconds(env: Env): Promise<number> {
+  const values = await readConfigValues(env, ['account.deletion.cooling_off_days'])
+  const raw = values['account.deletion.cooling_off_days']
+  const days = raw == null || raw === '' ? NaN : Number(raw)
+  return (Number.isFinite(days) && days >= 0 ? days : DEFAULT_DELETION_COOLING_OFF_DAYS) * 86400
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * 最近一次已确认的注销请求（待执行 / 已取消 / 已完成）
+ */
+export async function getLatestDeletionRequest(env: Env, walletAddress: string): Promise<AccountDeletionRequest | null> {
+  await ensureAccountDeletionTable(env)
+  return await env.DB!.prepare(
+    `SELECT * FROM account_deletion_requests WHERE wallet_address = ? AND status != 'unconfirmed'
+     ORDER BY created_at DESC LIMIT 1`
+  ).bind(walletAddress).first() as unknown as AccountDeletionRequest | null
+}
+
+/**
+ * 生成待签名的注销消息
+ */
+export async function createDeletionChallenge(env: Env, walletAddress: string): Promise<AccountDeletionRequest> {
+  await ensureAccountDeletionTable(env)
+  const now = Math.floor(Date.now() / 1000)
+  const coolingOffDays = Math.round(await getCoolingOffSeconds(env) / 86400)
+  const id = crypto.randomUUID()
+  const message = [
+    'Soulon Account Deletion',
+    '',
+    `Wallet: ${walletAddress}`,
+    `Request: ${id}`,
+    `Challenge: ${base58Encode(generateChallenge())}`,
+    `Issued At: ${new Date(now * 1000).toISOString()}`,
+    `Cooling-off: ${coolingOffDays} days`,
+    '',
+    'Sign this message to permanently delete your account data after the cooling-off period.',
+  ].join('\n')
+
+  await env.DB!.prepare(
+    `DELETE FROM account_deletion_requests WHERE wallet_address = ? AND status = 'unconfirmed'`
+  ).bind(walletAddress).run()
+  await env.DB!.prepare(
+    `INSERT INTO account_deletion_requests (id, wallet_address, status, message, challenge_expires_at, created_at)
+     VALUES (?, ?, 'unconfirmed', ?, ?, ?)`
+  ).bind(id, walletAddress, message, now + CHALLENGE_EXPIRY_SECONDS, now).run()
+
+  return {
+    id,
+    wallet_address: walletAddress,
+    status: 'unconfirmed',
+    message,
+    challenge_expires_at: now + CHALLENGE_EXPIRY_SECONDS,
+    signature: null,
+    pseudonym: null,
+    requested_at: null,
+    execute_after: null,
+    cancelled_at: null,
+    completed_at: null,
+    last_error: null,
+    created_at: now,
+  }
+}
+
+/**
+ * 校验钱包签名并进入冷静期
+ */
+export async function confirmDeletionRequest(
+  env: Env,
+  walletAddress: string,
+  requestId: string,
+  signatureBase58: string
+): Promise<{ ok: true; request: AccountDeletionRequest } | { ok: false; error: string; status: number }> {
+  await ensureAccountDeletionTable(env)
+  const row = await env.DB!.prepare(
+    'SELECT * FROM account_deletion_requests WHERE id = ? AND wallet_address = ?'
+  ).bind(requestId, walletAddress).first() as unknown as AccountDeletionRequest | null
+  if (!row) return { ok: false, error: 'not_found', status: 404 }
+  if (row.status !== 'unconfirmed') return { ok: false, error: 'already_confirmed', status: 409 }
+
+  const now = Math.floor(Date.now() / 1000)
+  if (row.challenge_expires_at < now) return { ok: false, error: 'challenge_expired', status: 410 }
+
+  let valid = false
+  try {
+    valid = verifySignature(new TextEncoder().encode(row.message), base58Decode(signatureBase58), base58Decode(walletAddress))
+  } catch {
+    valid = false
+  }
+  if (!valid) return { ok: false, error: 'invalid_signature', status: 401 }
+
+  // 假名在确认时生成，执行中途失败重试时各表仍使用同一假名
+  const pseudonym = `erased_${crypto.randomUUID().replace(/-/g, '')}`
+  const executeAfter = now + await getCoolingOffSeconds(env)
+  await env.DB!.prepare(
+    `UPDATE account_deletion_requests SET status = 'pending', signature = ?, pseudonym = ?, requested_at = ?, execute_after = ?
+     WHERE id = ? AND status = 'unconfirmed'`
+  ).bind(signatureBase58, pseudonym, now, executeAfter, row.id).run()
+  return {
+    ok: true,
+    request: { ...row, status: 'pending', signature: signatureBase58, pseudonym, requested_at: now, execute_after: executeAfter },
+  }
+}
+
+export async function cancelDeletionRequest(env: Env, walletAddress: string): Promise<AccountDeletionRequest | null> {
+  await ensureAccountDeletionTable(env)
+  const now = Math.floor(Date.now() / 1000)
+  const row = await env.DB!.prepare(
+    `SELECT * FROM account_deletion_requests WHERE wallet_address = ? AND status = 'pending' LIMIT 1`
+  ).bind(walletAddress).first() as unknown as AccountDeletionRequest | null
+  if (!row) return null
+  await env.DB!.prepare(
+    `UPDATE account_deletion_requests SET status = 'cancelled', cancelled_at = ? WHERE id = ? AND status = 'pending'`
+  ).bind(now, row.id).run()
+  return { ...row, status: 'cancelled', cancelled_at: now }
+}
+
+async function deleteR2Prefix(env: Env, prefix: string): Promise<number> {
+  if (!env.R2) return 0
+  let deleted = 0
+  let cursor: string | undefined
+  do {
+    const listed = await env.R2.list({ prefix, cursor })
+    const keys = listed.objects.map(o => o.key)
+    if (keys.length > 0) await env.R2.delete(keys)
+    deleted += keys.length
+    cursor = listed.truncated ? listed.cursor : undefined
+  } while (cursor)
+  return deleted
+}
+
+async function deleteKvPrefix(env: Env, prefix: string): Promise<number> {
+  if (!env.KV) return 0
+  let deleted = 0
+  let cursor: string | undefined
+  do {
+    const listed = await env.KV.list({ prefix, cursor })
+    for (const key of listed.keys) await env.KV.delete(key.name)
+    deleted += listed.keys.length
+    cursor = listed.list_complete ? undefined : listed.cursor
+  } while (cursor)
+  return deleted
+}
+
+/**
+ * 执行注销：删除 / 假名化所有持有该钱包的数据，返回回执
+ * 每一步均可重复执行，中途失败时下次定时任务从头重试
+ */
+export async function eraseAccount(env: Env, request: AccountDeletionRequest): Promise<ErasureReceipt> {
+  const db = env.DB!
+  const walletAddress = request.wallet_address
+  await ensureMemoryBlobTables(env)
+
+  const receipt: ErasureReceipt = {
+    requestId: request.id,
+    walletSha256: await sha256Hex(walletAddress),
+    pseudonym: request.pseudonym || `erased_${crypto.randomUUID().replace(/-/g, '')}`,
+    requestedAt: request.requested_at,
+    executedAt: Math.floor(Date.now() / 1000),
+    deleted: {},
+    pseudonymized: {},
+    skipped: [],
+    objects: { r2: 0, kv: 0 },
+    irysRetained: 0,
+  }
+
+  // 不存在的表（对应功能未启用）记为 skipped
+  const exec = async (bucket: Record<string, number>, table: string, sql: string, ...params: any[]) => {
+    try {
+      const result = await db.prepare(sql).bind(...params).run()
+      bucket[table] = (bucket[table] || 0) + Number(result.meta?.changes || 0)
+    } catch (error) {
+      if (!/no such (table|column)/i.test(String((error as any)?.message || error))) throw error
+      receipt.skipped.push(table)
+    }
+  }
+
+  // 记忆对象：逐条删除全部版本与当前引用，再按前缀兜底清扫
+  const memoryResult = await db.prepare(
+    'SELECT id, irys_id FROM memories WHERE wallet_address = ?'
+  ).bind(walletAddress).all()
+  for (const row of (memoryResult.results || []) as any[]) {
+    await deleteAllBlobVersions(env, walletAddress, row.id)
+    const ref = row.irys_id ? String(row.irys_id) : ''
+    if (ref.startsWith('r2:') || ref.startsWith('kv:')) {
+      await deleteBlobRef(env, ref)
+      receipt.objects[ref.startsWith('r2:') ? 'r2' : 'kv']++
+    } else if (ref) {
+      receipt.irysRetained++
+    }
+  }
+  for (const prefix of [`memory-blobs/${walletAddress}/`, `memory-blob-uploads/${walletAddress}/`, `account-exports/${walletAddress}/`]) {
+    receipt.objects.r2 += await deleteR2Prefix(env, prefix)
+  }
+  receipt.objects.kv += await deleteKvPrefix(env, `memory_blob:${walletAddress}:`)
+  if (env.KV) {
+    await env.KV.delete(`autoRenew:switch:${walletAddress}`)
+    await env.KV.delete(`autoRenew:cancelLock:${walletAddress}`)
+  }
+
+  const user = await db.prepare('SELECT id FROM users WHERE wallet_address = ?').bind(walletAddress).first() as any
+  if (user?.id) {
+    for (const table of ERASE_BY_PLAYER) {
+      await exec(receipt.deleted, table,
+        `DELETE FROM ${table} WHERE player_id IN (SELECT id FROM game_players WHERE user_id = ?)`, user.id)
+    }
+    await exec(receipt.deleted, 'game_players', 'DELETE FROM game_players WHERE user_id = ?', user.id)
+    await exec(receipt.deleted, 'user_quota_overrides', 'DELETE FROM user_quota_overrides WHERE user_id = ?', user.id)
+  }
+  // 分片记录没有 wallet_address，须在上传会话删除前按会话清除
+  await exec(receipt.deleted, 'memory_blob_upload_parts',
+    'DELETE FROM memory_blob_upload_parts WHERE upload_id IN (SELECT id FROM memory_blob_uploads WHERE wallet_address = ?)', walletAddress)
+  for (const table of ERASE_BY_WALLET) {
+    await exec(receipt.deleted, table, `DELETE FROM ${table} WHERE wallet_address = ?`, walletAddress)
+  }
+  // 时间胶囊：自己封存的随记忆一起删除；发给自己但未领取的退回所有者（到期后自动开启）
+  await exec(receipt.deleted, 'memory_capsules', 'DELETE FROM memory_capsules WHERE owner_wallet = ?', walletAddress)
+  await exec(receipt.pseudonymized, 'memory_capsules',
+    `UPDATE memory_capsules SET recipient_wallet = NULL, key_envelope = NULL, status = 'sealed', notified_at = NULL
+     WHERE recipient_wallet = ? AND status != 'claimed'`, walletAddress)
+  await exec(receipt.pseudonymized, 'memory_capsules',
+    'UPDATE memory_capsules SET recipient_wallet = ? WHERE recipient_wallet = ?', receipt.pseudonym, walletAddress)
+
+  // 自动续费被扣款日志外键引用，不能删除：先停用以免继续扣款，再随流水替换地址
+  await exec(receipt.pseudonymized, 'auto_renew_subscriptions',
+    'UPDATE auto_renew_subscriptions SET is_active = 0, updated_at = ? WHERE wallet_address = ?', receipt.executedAt, walletAddress)
+  for (const { table, column } of PSEUDONYMIZE_BY_WALLET) {
+    await exec(receipt.pseudonymized, table,
+      `UPDATE ${table} SET ${column} = ? WHERE ${column} = ?`, receipt.pseudonym, walletAddress)
+  }
+  await exec(receipt.pseudonymized, 'users',
+    `UPDATE users SET wallet_address = ?, erased_at = ?, memories_count = 0 WHERE wallet_address = ?`,
+    receipt.pseudonym, receipt.executedAt, walletAddress)
+
+  return receipt
+}
+
+/**
+ * 定时任务：执行冷静期已过的注销请求
+ */
+export async function runDueAccountDeletions(env: Env, now = Math.floor(Date.now() / 1000), limit = 5): Promise<number> {
+  if (!env.DB) return 0
+  await ensureAccountDeletionTable(env)
+  const due = await env.DB.prepare(
+    `SELECT * FROM account_deletion_requests WHERE status = 'pending' AND execute_after <= ?
+     ORDER BY execute_after ASC LIMIT ?`
+  ).bind(now, limit).all()
+
+  let completed = 0
+  for (const request of (due.results || []) as unknown as AccountDeletionRequest[]) {
+    try {
+      const receipt = await eraseAccount(env, request)
+      // 请求记录本身也只保留假名，签名与消息中含钱包地址，一并清除
+      await env.DB.prepare(
+        `UPDATE account_deletion_requests
+         SET status = 'completed', wallet_address = ?, message = '', signature = NULL, completed_at = ?, last_error = NULL
+         WHERE id = ?`
+      ).bind(receipt.pseudonym, receipt.executedAt, request.id).run()
+      await logAdminAction(
+        env,
+        createAdminContext('system@account-erasure'),
+        ACCOUNT_ERASURE_ACTION,
+        'user',
+        request.id,
+        JSON.stringify(receipt)
+      )
+      completed++
+    } catch (error) {
+      console.error(`[Account Deletion] Erasure failed for request ${request.id}:`, error)
+      await env.DB.prepare(
+        `UPDATE account_deletion_requests SET last_error = ? WHERE id = ?`
+      ).bind(error instanceof Error ? error.message : String(error), request.id).run()
+    }
+  }
+  return completed
+}
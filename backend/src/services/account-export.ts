@@ -0,0 +1,469 @@
+/**
+ * 账户数据导出
+ * 用户发起后异步打包为 ZIP 写入 R2：加密记忆 blob（原样密文）、聊天会话与消息、人格画像 v2、问卷回答、
+ * MEMO 积分流水、签到记录与游戏角色状态；manifest.json 列出每条记忆的 ID / SHA-256 / 存储引用及每个文件的哈希，
+ * 由服务端用 CONFIG_PRIVATE_KEY 对 manifest 的 SHA-256 签名（signature.json），日后可通过 verify 接口或客户端内置公钥校验。
+ * 归档保留 ACCOUNT_EXPORT_RETENTION_DAYS 天，过期由定时任务删除。
+ */
+
+import type { Env } from '../types'
+import { signConfigValue } from '../utils/config-signature'
+import { ZipWriter } from '../utils/zip'
+import { ensureMemoryBlobTables, readBlobRefBytes } from './memory-blob-store'
+import { SEALED_CAPSULE_TYPE } from './memory-capsules'
+
+export type AccountExportStatus = 'queued' | 'building' | 'ready' | 'failed' | 'expired'
+
+export type AccountExportJob = {
+  id: string
+  wallet_address: string
+  status: AccountExportStatus
+  r2_key: string | null
+  size: number | null
+  memory_count: number | null
+  manifest_sha256: string | null
+  signature: string | null
+  error: string | null
+  created_at: number
+  started_at: number | null
+  completed_at: number | null
+  expires_at: number | null
+}
+
+export const ACCOUNT_EXPORT_FORMAT = 'soulon-account-export/1'
+export const ACCOUNT_EXPORT_SIGNATURE_KEY = 'account_export'
+export const ACCOUNT_EXPORT_RETENTION_DAYS = 7
+// R2 分片上传要求除最后一片外大小一致
+const ARCHIVE_PART_SIZE = 8 * 1024 * 1024
+// building 状态超过该时长视为上次执行中断，重新放回队列
+const STALE_BUILDING_SECONDS = 30 * 60
+
+const GAME_PLAYER_TABLES = [
+  'game_inventory',
+  'game_player_artifacts',
+  'game_player_dungeon_state',
+  'game_player_exploration',
+  'game_player_factions',
+  'game_player_lore',
+  'game_player_season_contrib',
+  'game_player_travel_state',
+]
+
+export async function ensureAccountExportTable(env: Env): Promise<void> {
+  if (!env.DB || (globalThis as any).__accountExportReady) return
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS account_exports (
+      id TEXT PRIMARY KEY,
+      wallet_address TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'queued',
+      r2_key TEXT,
+      size INTEGER,
+      memory_count INTEGER,
+      manifest_sha256 TEXT,
+      signature TEXT,
+      error TEXT,
+      created_at INTEGER NOT NULL,
+      started_at INTEGER,
+      completed_at INTEGER,
+      expires_at INTEGER
+    )`
+  ).run()
+  await env.DB.prepare(
+    `CREATE INDEX IF NOT EXISTS idx_account_exports_wallet ON account_exports(wallet_address, created_at DESC)`
+  ).run()
+  ;(globalThis as any).__accountExportReady = true
+}
+
+export function getAccountExportKey(walletAddress: string, exportId: string): string {
+  return `account-exports/${walletAddress}/${exportId}.zip`
+}
+
+async function sha256Hex(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * 创建导出任务；已有排队或打包中的任务时直接返回该任务
+ */
+export async function createAccountExport(env: Env, walletAddress: string): Promise<{ job: AccountExportJob; created: boolean }> {
+  await ensureAccountExportTable(env)
+  const active = await env.DB!.prepare(
+    `SELECT * FROM account_exports WHERE wallet_address = ? AND status IN ('queued', 'building')
+     ORDER BY created_at DESC LIMIT 1`
+  ).bind(walletAddress).first() as unknown as AccountExportJob | null
+  if (active) return { job: active, created: false }
+
+  const now = Math.floor(Date.now() / 1000)
+  const id = crypto.randomUUID()
+  await env.DB!.prepare(
+    `INSERT INTO account_exports (id, wallet_address, status, created_at) VALUES (?, ?, 'queued', ?)`
+  ).bind(id, walletAddress, now).run()
+  return {
+    job: {
+      id,
+      wallet_address: walletAddress,
+      status: 'queued',
+      r2_key: null,
+      size: null,
+      memory_count: null,
+      manifest_sha256: null,
+      signature: null,
+      error: null,
+      created_at: now,
+      started_at: null,
+      completed_at: null,
+      expires_at: null,
+    },
+    created: true,
+  }
+}
+
+export async function getAccountExport(env: Env, walletAddress: string, exportId: string): Promise<AccountExportJob | null> {
+  await ensureAccountExportTable(env)
+  return await env.DB!.prepare(
+    'SELECT * FROM account_exports WHERE id = ? AND wallet_address = ?'
+  ).bind(exportId, walletAddress).first() as unknown as AccountExportJob | null
+}
+
+export async function listAccountExports(env: Env, walletAddress: string, limit = 10): Promise<AccountExportJob[]> {
+  await ensureAccountExportTable(env)
+  const result = await env.DB!.prepare(
+    'SELECT * FROM account_exports WHERE wallet_address = ? ORDER BY created_at DESC LIMIT ?'
+  ).bind(walletAddress, limit).all()
+  return (result.results || []) as unknown as AccountExportJob[]
+}
+
+async function queryAll(env: Env, sql: string, ...params: any[]): Promise<any[]> {
+  try {
+    const result = await env.DB!.prepare(sql).bind(...params).all()
+    return (result.results || []) as any[]
+  } catch (error) {
+    // 部分表只在启用对应功能的部署中存在
+    console.warn('[Account Export] Query skipped:', error)
+    return []
+  }
+}
+
+function parseJson(value: any): any {
+  if (typeof value !== 'string') return value ?? null
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+/**
+ * 把 ZIP 字节流按固定分片大小写入 R2 分片上传
+ */
+function createMultipartSink(multipart: R2MultipartUpload) {
+  const parts: R2UploadedPart[] = []
+  let buffer = new Uint8Array(ARCHIVE_PART_SIZE)
+  let filled = 0
+
+  const uploadBuffer = async (length: number) => {
+    parts.push(await multipart.uploadPart(parts.length + 1, buffer.slice(0, length)))
+    filled = 0
+  }
+
+  return {
+    write: async (chunk: Uint8Array) => {
+      let offset = 0
+      while (offset < chunk.length) {
+        const n = Math.min(ARCHIVE_PART_SIZE - filled, chunk.length - offset)
+        buffer.set(chunk.subarray(offset, offset + n), filled)
+        filled += n
+        offset += n
+        if (filled === ARCHIVE_PART_SIZE) await uploadBuffer(filled)
+      }
+    },
+    close: async () => {
+      if (filled > 0 || parts.length === 0) await uploadBuffer(filled)
+      buffer = new Uint8Array(0)
+      await multipart.complete(parts)
+    },
+  }
+}
+
+/**
+ * 写入全部数据文件与签名 manifest，返回 manifest 哈希、签名与记忆数量
+ */
+async function writeArchive(
+  env: Env,
+  job: AccountExportJob,
+  zip: ZipWriter
+): Promise<{ manifestSha256: string; signature: string | null; memoryCount: number }> {
+  const walletAddress = job.wallet_address
+  const exportedAt = new Date()
+  const files: Array<{ path: string; sha256: string; size: number; records?: number }> = []
+
+  const addJson = async (path: string, value: unknown, records?: number) => {
+    const bytes = await zip.addJson(path, value, exportedAt) as Uint8Array<ArrayBuffer>
+    files.push({ path, sha256: await sha256Hex(bytes), size: bytes.length, ...(records == null ? {} : { records }) })
+  }
+
+  const user = await env.DB!.prepare(
+    'SELECT id FROM users WHERE wallet_address = ?'
+  ).bind(walletAddress).first() as any
+  const userId = user?.id ? String(user.id) : null
+
+  // 记忆：只导出未删除记忆的当前版本，Irys 上的记忆只记录交易 ID；封存中的时间胶囊不导出
+  await ensureMemoryBlobTables(env)
+  const memoryResult = await env.DB!.prepare(
+    `SELECT m.id, m.type, m.irys_id, m.size, m.content_hash, m.created_at,
+            (SELECT MAX(v.version) FROM memory_blob_versions v WHERE v.wallet_address = m.wallet_address AND v.memory_id = m.id) AS version
+     FROM memories m
+     WHERE m.wallet_address = ? AND m.deleted_at IS NULL AND COALESCE(m.type, '') != ?
+     ORDER BY m.created_at ASC`
+  ).bind(walletAddress, SEALED_CAPSULE_TYPE).all()
+  const memories: any[] = []
+  for (const row of (memoryResult.results || []) as any[]) {
+    const ref = row.irys_id ? String(row.irys_id) : null
+    const storage = !ref ? null : ref.startsWith('r2:') ? 'r2' : ref.startsWith('kv:') ? 'kv' : 'irys'
+    const entry: any = {
+      id: row.id,
+      type: row.type || 'text',
+      createdAt: row.created_at ?? null,
+      version: row.version == null ? null : Number(row.version),
+      storage,
+      storageRef: ref,
+      size: Number(row.size || 0),
+      sha256: row.content_hash || null,
+      path: null,
+    }
+    if (storage === 'r2' || storage === 'kv') {
+      const source = await readBlobRefBytes(env, ref!)
+      if (source) {
+        entry.path = `memories/${row.id}.bin`
+        entry.size = source.bytes.length
+        entry.sha256 = await sha256Hex(source.bytes)
+        entry.recordedSha256 = row.content_hash || null
+        await zip.addFile(entry.path, source.bytes, exportedAt)
+        files.push({ path: entry.path, sha256: entry.sha256, size: entry.size })
+      } else {
+        entry.missing = true
+      }
+    }
+    memories.push(entry)
+  }
+
+  // 聊天会话与消息
+  const sessions = await queryAll(env,
+    `SELECT id, title, created_at, updated_at, message_count, total_tokens, total_memo_earned
+     FROM chat_sessions WHERE wallet_address = ? AND (is_deleted = 0 OR is_deleted IS NULL)
+     ORDER BY created_at ASC`,
+    walletAddress
+  )
+  const messages = await queryAll(env,
+    `SELECT id, session_id, text, is_user, timestamp, tokens_used, rewarded_memo,
+            is_persona_relevant, relevance_score, detected_traits, retrieved_memories, is_error, irys_tx_id
+     FROM chat_messages WHERE wallet_address = ? AND (is_deleted = 0 OR is_deleted IS NULL)
+     ORDER BY timestamp ASC`,
+    walletAddress
+  )
+  const bySession = new Map<string, any[]>()
+  for (const m of messages) {
+    const list = bySession.get(m.session_id) || []
+    list.push({
+      ...m,
+      is_user: !!m.is_user,
+      is_error: !!m.is_error,
+      detected_traits: parseJson(m.detected_traits),
+      retrieved_memories: parseJson(m.retrieved_memories),
+    })
+    bySession.set(m.session_id, list)
+  }
+  const summaries = await queryAll(env,
+    'SELECT session_id, summary, covered_until, covered_count, updated_at FROM chat_session_summaries WHERE wallet_address = ?',
+    walletAddress
+  )
+  const summaryBySession = new Map(summaries.map(({ session_id, ...rest }) => [session_id, rest]))
+  await addJson('chats.json', sessions.map(s => ({
+    ...s,
+    summary: summaryBySession.get(s.id) ?? null,
+    messages: bySession.get(s.id) || [],
+  })), messages.length)
+
+  // 人格画像 v2 与问卷
+  const profileRows = await queryAll(env,
+    'SELECT profile_json, updated_at FROM user_persona_profile_v2 WHERE wallet_address = ?',
+    walletAddress
+  )
+  await addJson('persona/profile-v2.json', profileRows[0]
+    ? { profile: parseJson(profileRows[0].profile_json), updatedAt: profileRows[0].updated_at ?? null }
+    : null)
+
+  const personaRows = await queryAll(env,
+    `SELECT questionnaire_completed, questionnaire_answers, questionnaire_completed_at
+     FROM user_persona WHERE wallet_address = ?`,
+    walletAddress
+  )
+  const proactiveAnswers = await queryAll(env,
+    `SELECT id, question_text, category, answer_text, answered_at
+     FROM proactive_questions WHERE wallet_address = ? AND answer_text IS NOT NULL
+     ORDER BY answered_at ASC`,
+    walletAddress
+  )
+  await addJson('persona/questionnaire.json', {
+    completed: !!personaRows[0]?.questionnaire_completed,
+    completedAt: personaRows[0]?.questionnaire_completed_at ?? null,
+    answers: parseJson(personaRows[0]?.questionnaire_answers ?? null),
+    proactiveAnswers,
+  }, proactiveAnswers.length)
+
+  const personaSnapshots = await queryAll(env,
+    `SELECT store, source, openness, conscientiousness, extraversion, agreeableness, neuroticism, sample_size, created_at
+     FROM persona_snapshots WHERE wallet_address = ?
+     ORDER BY created_at ASC, id ASC`,
+    walletAddress
+  )
+  await addJson('persona/history.json', personaSnapshots, personaSnapshots.length)
+
+  // MEMO 流水（签到、奇遇、对话奖励）与签到记录
+  const memoTransactions = await queryAll(env,
+    `SELECT id, type, amount, description, reference_id, created_at
+     FROM memo_transaction_logs WHERE wallet_address = ?
+     ORDER BY created_at ASC, id ASC`,
+    walletAddress
+  )
+  await addJson('memo-transactions.json', memoTransactions, memoTransactions.length)
+
+  const checkins = await queryAll(env,
+    `SELECT check_in_date, consecutive_days, weekly_progress, reward_amount, tier_multiplier, created_at
+     FROM user_check_ins WHERE wallet_address = ?
+     ORDER BY check_in_date ASC`,
+    walletAddress
+  )
+  await addJson('checkins.json', checkins, checkins.length)
+
+  // 管理员调整余额的记录（早期记录可能只有 user_id）
+  const memoAdjustments = await queryAll(env,
+    `SELECT id, type, amount, balance_before, balance_after, source, description, admin_reason, reference_id, reference_type, created_at
+     FROM memo_transactions WHERE wallet_address = ? OR user_id = ?
+     ORDER BY created_at ASC, id ASC`,
+    walletAddress, userId || walletAddress
+  )
+  await addJson('memo-admin-adjustments.json', memoAdjustments, memoAdjustments.length)
+
+  // 游戏角色状态
+  const players = userId ? await queryAll(env, 'SELECT * FROM game_players WHERE user_id = ?', userId) : []
+  const game: Record<string, any> = { player: players[0] || null }
+  if (players[0]) {
+    for (const table of GAME_PLAYER_TABLES) {
+      game[table] = await queryAll(env, `SELECT * FROM ${table} WHERE player_id = ?`, players[0].id)
+    }
+  }
+  await addJson('game/player.json', game)
+
+  const manifest = {
+    format: ACCOUNT_EXPORT_FORMAT,
+    exportId: job.id,
+    walletAddress,
+    createdAt: Math.floor(exportedAt.getTime() / 1000),
+    memories,
+    files,
+  }
+  const manifestBytes = await zip.addJson('manifest.json', manifest, exportedAt) as Uint8Array<ArrayBuffer>
+  const manifestSha256 = await sha256Hex(manifestBytes)
+  const signature = await signConfigValue(env, ACCOUNT_EXPORT_SIGNATURE_KEY, manifestSha256)
+  await zip.addJson('signature.json', {
+    algorithm: 'RSASSA-PKCS1-v1_5/SHA-256',
+    signedMessage: `${ACCOUNT_EXPORT_SIGNATURE_KEY}:${manifestSha256}`,
+    manifestSha256,
+    signature,
+  }, exportedAt)
+
+  return { manifestSha256, signature, memoryCount: memories.length }
+}
+
+/**
+ * 打包单个导出任务；任务已被其它执行者领取时直接返回其当前状态
+ */
+export async function buildAccountExport(env: Env, exportId: string): Promise<AccountExportStatus | null> {
+  if (!env.DB || !env.R2) return null
+  await ensureAccountExportTable(env)
+  const job = await env.DB.prepare(
+    'SELECT * FROM account_exports WHERE id = ?'
+  ).bind(exportId).first() as unknown as AccountExportJob | null
+  if (!job) return null
+
+  const now = Math.floor(Date.now() / 1000)
+  const claimed = await env.DB.prepare(
+    `UPDATE account_exports SET status = 'building', started_at = ? WHERE id = ? AND status = 'queued'`
+  ).bind(now, job.id).run()
+  if (!claimed.meta?.changes) return job.status
+
+  const r2Key = getAccountExportKey(job.wallet_address, job.id)
+  let multipart: R2MultipartUpload | null = null
+  try {
+    multipart = await env.R2.createMultipartUpload(r2Key, {
+      httpMetadata: { contentType: 'application/zip' },
+      customMetadata: { walletAddress: job.wallet_address, exportId: job.id },
+    })
+    const sink = createMultipartSink(multipart)
+    const zip = new ZipWriter(sink.write)
+    const { manifestSha256, signature, memoryCount } = await writeArchive(env, job, zip)
+    const size = await zip.finish()
+    await sink.close()
+
+    const completedAt = Math.floor(Date.now() / 1000)
+    await env.DB.prepare(
+      `UPDATE account_exports
+       SET status = 'ready', r2_key = ?, size = ?, memory_count = ?, manifest_sha256 = ?, signature = ?,
+           error = NULL, completed_at = ?, expires_at = ?
+       WHERE id = ?`
+    ).bind(r2Key, size, memoryCount, manifestSha256, signature, completedAt,
+      completedAt + ACCOUNT_EXPORT_RETENTION_DAYS * 86400, job.id).run()
+    return 'ready'
+  } catch (error) {
+    console.error(`[Account Export] Build failed for ${job.id}:`, error)
+    if (multipart) {
+      try { await multipart.abort() } catch {}
+    }
+    await env.DB.prepare(
+      `UPDATE account_exports SET status = 'failed', error = ?, completed_at = ? WHERE id = ?`
+    ).bind(error instanceof Error ? error.message : String(error), Math.floor(Date.now() / 1000), job.id).run()
+    return 'failed'
+  }
+}
+
+/**
+ * 定时任务：回收中断的打包任务并处理排队中的任务
+ */
+export async function runAccountExportBatch(env: Env, limit = 2): Promise<number> {
+  if (!env.DB || !env.R2) return 0
+  await ensureAccountExportTable(env)
+  const now = Math.floor(Date.now() / 1000)
+  await env.DB.prepare(
+    `UPDATE account_exports SET status = 'queued' WHERE status = 'building' AND started_at < ?`
+  ).bind(now - STALE_BUILDING_SECONDS).run()
+
+  const result = await env.DB.prepare(
+    `SELECT id FROM account_exports WHERE status = 'queued' ORDER BY created_at ASC LIMIT ?`
+  ).bind(limit).all()
+  let built = 0
+  for (const row of (result.results || []) as any[]) {
+    if (await buildAccountExport(env, row.id) === 'ready') built++
+  }
+  return built
+}
+
+/**
+ * 删除超过保留期的导出归档
+ */
+export async function purgeExpiredAccountExports(env: Env, now = Math.floor(Date.now() / 1000)): Promise<number> {
+  if (!env.DB) return 0
+  await ensureAccountExportTable(env)
+  const result = await env.DB.prepare(
+    `SELECT id, r2_key FROM account_exports WHERE status = 'ready' AND expires_at <= ? LIMIT 100`
+  ).bind(now).all()
+  const rows = (result.results || []) as any[]
+  for (const row of rows) {
+    if (row.r2_key && env.R2) await env.R2.delete(row.r2_key)
+    await env.DB.prepare(
+      `UPDATE account_exports SET status = 'expired' WHERE id = ?`
+    ).bind(row.id).run()
+  }
+  return rows.length
+}
@@ -0,0 +1,174 @@
+/**
+ * AI 响应缓存
+ * 以「钱包 + 模型 + 规范化消息 + 生成参数」的 SHA-256 为 key 缓存在 KV 中，各 function_type 独立 TTL（ai.cache.ttl_seconds），
+ * 主要用于客户端重试时重复发送的人格分析、问卷等请求。命中记录写入 ai_usage_logs（cache_hit = 1，上游 token 为 0）。
+ */
+
+import type { Env } from '../types'
+import { readConfigValues } from '../utils/config-reader'
+
+export type CachedAiResponse = {
+  body: string
+  contentType: string
+  savedTokens: number
+  requestId: string | null
+  createdAt: number
+}
+
+export const DEFAULT_CACHE_TTL_SECONDS: Record<string, number> = {
+  persona: 3600,
+  analysis: 3600,
+  questionnaire: 3600,
+  embedding: 86400,
+}
+
+// KV expirationTtl 下限为 60 秒
+const MIN_TTL_SECONDS = 60
+
+/**
+ * 读取某 function_type 的缓存 TTL，返回 0 表示不缓存
+ */
+export async function getCacheTtl(env: Env, functionType: string): Promise<number> {
+  if (!env.KV) return 0
+  const values = await readConfigValues(env, ['ai.cache.enabled', 'ai.cache.ttl_seconds'])
+  if ((values['ai.cache.enabled'] || 'true').trim().toLowerCase() === 'false') return 0
+
+  let ttls = DEFAULT_CACHE_TTL_SECONDS
+  const raw = values['ai.cache.ttl_seconds']
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw)
+      if (parsed && typeof parsed === 'object') ttls = parsed
+    } catch {}
+  }
+  const ttl = Math.floor(Number(ttls[functionType]) || 0)
+  return ttl > 0 ? Math.max(MIN_TTL_SECONDS, ttl) : 0
+}
+
+/**
+ * 客户端可通过 body.cache = false、Cache-Control: no-cache 或 X-AI-Cache: bypass 跳过缓存
+ */
+export function shouldBypassCache(request: Request, body: any): boolean {
+  if (body && body.cache === false) return true
+  const cacheControl = (request.headers.get('Cache-Control') || '').toLowerCase()
+  if (cacheControl.includes('no-cache') || cacheControl.includes('no-store')) return true
+  return (request.headers.get('X-AI-Cache') || '').toLowerCase() === 'bypass'
+}
+
+function normalizeText(value: unknown): string {
+  return (value ?? '').toString().replace(/\s+/g, ' ').trim()
+}
+
+async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input))
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+export type ChatCacheKeyOptions = {
+  walletAddress: string | null
+  temperature: number | null
+  maxTokens: number
+  tools?: unknown
+  toolChoice?: unknown
+  parallelToolCalls?: boolean | null
+}
+
+/**
+ * chat 缓存按钱包隔离：persona、问卷等响应基于个人数据，不能跨用户复用；
+ * temperature、max_tokens 与 tools 会改变输出，一并计入 key
+ */
+export async function buildChatCacheKey(
+  model: string,
+  messages: Array<{ role?: string; content?: unknown }>,
+  options: ChatCacheKeyOptions
+): Promise<string> {
+  const normalized = messages.map((m) => [normalizeText(m?.role).toLowerCase(), normalizeText(m?.content)])
+  const params = [
+    options.temperature ?? null,
+    options.maxTokens,
+    options.tools ?? null,
+    options.toolChoice ?? null,
+    options.parallelToolCalls ?? null,
+  ]
+  const scope = normalizeText(options.walletAddress) || 'anonymous'
+  return `ai:cache:chat:${await sha256Hex(JSON.stringify([scope, normalizeText(model), normalized, params]))}`
+}
+
+/**
+ * 与对话缓存一样按钱包隔离，避免命中头泄露其他用户是否嵌入过同一段文本
+ */
+export async function buildEmbeddingCacheKey(
+  model: string,
+  input: unknown,
+  options: { walletAddress: string | null; parameters?: unknown }
+): Promise<string> {
+  // 兼容 OpenAI 风格的 input 数组与 DashScope 的 { texts: [] }
+  const source = input && typeof input === 'object' && !Array.isArray(input) && Array.isArray((input as any).texts)
+    ? (input as any).texts
+    : input
+  const list = Array.isArray(source) ? source : [source]
+  const texts = list.map((t: unknown) => (typeof t === 'string' ? normalizeText(t) : JSON.stringify(t ?? null)))
+  const scope = normalizeText(options.walletAddress) || 'anonymous'
+  return `ai:cache:embedding:${await sha256Hex(JSON.stringify([scope, normalizeText(model), texts, options.parameters ?? null]))}`
+}
+
+export async function getCachedResponse(env: Env, key: string): Promise<CachedAiResponse | null> {
+  if (!env.KV) return null
+  try {
+    const raw = await env.KV.get(key)
+    return raw ? JSON.parse(raw) as CachedAiResponse : null
+  } catch {
+    return null
+  }
+}
+
+export async function putCachedResponse(env: Env, key: string, entry: CachedAiResponse, ttlSeconds: number): Promise<void> {
+  if (!env.KV || ttlSeconds <= 0) return
+  try {
+    await env.KV.put(key, JSON.stringify(entry), { expirationTtl: Math.max(MIN_TTL_SECONDS, ttlSeconds) })
+  } catch (e) {
+    console.error('[AI Cache] Failed to store cached response:', e)
+  }
+}
+
+/**
+ * 确保 ai_usage_logs 带有缓存命中相关字段（旧库在线补列）
+ */
+export async function ensureAiCacheColumns(env: Env): Promise<void> {
+  if (!env.DB || (globalThis as any).__aiCacheColumnsReady) return
+  try { await env.DB.prepare(`ALTER TABLE ai_usage_logs ADD COLUMN cache_hit INTEGER DEFAULT 0`).run() } catch {}
+  try { await env.DB.prepare(`ALTER TABLE ai_usage_logs ADD COLUMN saved_tokens INTEGER DEFAULT 0`).run() } catch {}
+  ;(globalThis as any).__aiCacheColumnsReady = true
+}
+
+/**
+ * 记录一次缓存命中（上游 token 为 0，节省量记入 saved_tokens）
+ */
+export async function logCacheHit(
+  env: Env,
+  params: {
+    userId: string | null
+    walletAddress: string | null
+    model: string
+    functionType: string
+    latencyMs: number
+    savedTokens: number
+    requestId: string | null
+  }
+): Promise<void> {
+  if (!env.DB) return
+  await ensureAiCacheColumns(env)
+  await env.DB.prepare(
+    `INSERT INTO ai_usage_logs (user_id, wallet_address, model, function_type, prompt_tokens, completion_tokens, total_tokens, latency_ms, success, request_id, cache_hit, saved_tokens, created_at)
+     VALUES (?, ?, ?, ?, 0, 0, 0, ?, 1, ?, 1, ?, ?)`
+  ).bind(
+    params.userId,
+    params.walletAddress,
+    params.model,
+    params.functionType,
+    params.latencyMs,
+    params.requestId,
+    params.savedTokens,
+    Math.floor(Date.now() / 1000)
+  ).run()
+}
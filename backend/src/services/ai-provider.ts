@@ -0,0 +1,436 @@
+/**
+ * AI 服务商调用层
+ * 按优先级遍历 api_keys 中某个服务的全部可用密钥，遇到 5xx / 429 / 超时自动切换下一个，
+ * 连续失败的密钥进入熔断冷却期，避免单个坏密钥拖垮聊天、人格分析、翻译与 NPC 对话。
+ */
+
+import type { Env } from '../types'
+
+export type AiService = 'qwen' | 'embedding'
+
+export type AiProviderKey = {
+  id: number | null
+  name: string
+  service: string
+  endpoint: string
+  apiKey: string
+}
+
+export type KeyCircuitState = {
+  failures: number
+  openedUntil: number
+  lastError: string | null
+  lastFailureAt: number | null
+  lastSuccessAt: number | null
+}
+
+export type ProviderAttempt = {
+  keyId: number | null
+  keyName: string
+  status: number | null
+  error: string | null
+  latencyMs: number
+}
+
+export type ProviderCallResult = {
+  response: Response | null
+  key: AiProviderKey | null
+  attempts: ProviderAttempt[]
+}
+
+export const DEFAULT_ENDPOINTS: Record<AiService, string> = {
+  qwen: 'https://dashscope-intl.aliyuncs.com/compatible-mode/v1/chat/completions',
+  embedding: 'https://dashscope-intl.aliyuncs.com/api/v1/services/embeddings/text-embedding/text-embedding',
+}
+
+const CIRCUIT_FAILURE_THRESHOLD = 3
+const CIRCUIT_COOLDOWN_SECONDS = 60
+const DEFAULT_TIMEOUT_MS = 30000
+
+const memoryCircuits = new Map<string, KeyCircuitState>()
+
+const textEncoder = new TextEncoder()
+let cachedCryptoKey: CryptoKey | null = null
+let cachedSecret: string | null = null
+
+function base64ToBytes(b64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(b64)
+  const bytes = new Uint8Array(new ArrayBuffer(binary.length))
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+async function getAesKey(secret: string): Promise<CryptoKey> {
+  if (cachedCryptoKey && cachedSecret === secret) return cachedCryptoKey
+  const digest = await crypto.subtle.digest('SHA-256', textEncoder.encode(secret))
+  cachedCryptoKey = await crypto.subtle.importKey('raw', digest, { name: 'AES-GCM' }, false, ['decrypt'])
+  cachedSecret = secret
+  return cachedCryptoKey
+}
+
+/**
+ * 解密 api_keys.encrypted_key（v1 为 AES-GCM，旧数据为 base64）
+ */
+export async function decryptStoredKey(env: Env, encrypted: string): Promise<string> {
+  if (!encrypted) return ''
+  if (!encrypted.startsWith('v1:')) {
+    return atob(encrypted)
+  }
+  const secret = (env.ENCRYPTION_KEY || '').trim()
+  if (!secret) {
+    throw new Error('Missing ENCRYPTION_KEY')
+  }
+  const parts = encrypted.split(':')
+  if (parts.length !== 3) {
+    throw new Error('Invalid encrypted_key format')
+  }
+  const iv = base64ToBytes(parts[1])
+  const data = base64ToBytes(parts[2])
+  const cryptoKey = await getAesKey(secret)
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, cryptoKey, data)
+  return new TextDecoder().decode(plaintext)
+}
+
+function circuitKey(keyId: number | null): string {
+  return `ai:circuit:${keyId ?? 'env'}`
+}
+
+function emptyCircuit(): KeyCircuitState {
+  return { failures: 0, openedUntil: 0, lastError: null, lastFailureAt: null, lastSuccessAt: null }
+}
+
+export async function getKeyCircuit(env: Env, keyId: number | null): Promise<KeyCircuitState> {
+  const k = circuitKey(keyId)
+  if (env.KV) {
+    try {
+      const raw = await env.KV.get(k)
+      if (raw) return { ...emptyCircuit(), ...(JSON.parse(raw) as Partial<KeyCircuitState>) }
+    } catch {}
+    return emptyCircuit()
+  }
+  return memoryCircuits.get(k) || emptyCircuit()
+}
+
+async function saveKeyCircuit(env: Env, keyId: number | null, state: KeyCircuitState): Promise<void> {
+  const k = circuitKey(keyId)
+  if (env.KV) {
+    try {
+      await env.KV.put(k, JSON.stringify(state), { expirationTtl: 7 * 86400 })
+    } catch {}
+    return
+  }
+  memoryCircuits.set(k, state)
+}
+
+export async function resetKeyCircuit(env: Env, keyId: number | null): Promise<void> {
+  const k = circuitKey(keyId)
+  if (env.KV) {
+    try {
+      await env.KV.delete(k)
+    } catch {}
+  }
+  memoryCircuits.delete(k)
+}
+
+async function recordKeySuccess(env: Env, key: AiProviderKey, state: KeyCircuitState): Promise<void> {
+  const now = Math.floor(Date.now() / 1000)
+  if (state.failures > 0 || state.openedUntil > 0) {
+    await saveKeyCircuit(env, key.id, { ...emptyCircuit(), lastSuccessAt: now })
+  }
+  if (env.DB && key.id != null) {
+    try {
+      await env.DB.prepare(
+        'UPDATE api_keys SET usage_count = usage_count + 1, last_used_at = ? WHERE id = ?'
+      ).bind(now, key.id).run()
+    } catch {}
+  }
+}
+
+async function recordKeyFailure(env: Env, key: AiProviderKey, state: KeyCircuitState, error: string): Promise<void> {
+  const now = Math.floor(Date.now() / 1000)
+  const failures = state.failures + 1
+  const next: KeyCircuitState = {
+    ...state,
+    failures,
+    lastError: error.slice(0, 500),
+    lastFailureAt: now,
+    openedUntil: failures >= CIRCUIT_FAILURE_THRESHOLD ? now + CIRCUIT_COOLDOWN_SECONDS : state.openedUntil,
+  }
+  await saveKeyCircuit(env, key.id, next)
+  if (failures === CIRCUIT_FAILURE_THRESHOLD) {
+    console.warn(`[AI Provider] Circuit opened for ${key.service} key ${key.name} (${key.id ?? 'env'}): ${error.slice(0, 200)}`)
+  }
+  if (env.DB && key.id != null) {
+    try {
+      await env.DB.prepare(
+        'UPDATE api_keys SET last_error = ?, last_used_at = ? WHERE id = ?'
+      ).bind(error.slice(0, 500), now, key.id).run()
+    } catch {}
+  }
+}
+
+/**
+ * 按优先级列出某服务的全部可用密钥
+ * QWEN_API_KEY secret 优先（沿用主密钥的 endpoint），embedding 无专用密钥时回退到 qwen 密钥
+ */
+export async function listProviderKeys(env: Env, service: AiService): Promise<AiProviderKey[]> {
+  const keys: AiProviderKey[] = []
+
+  const loadRows = async (svc: string): Promise<any[]> => {
+    if (!env.DB) return []
+    try {
+      const result = await env.DB.prepare(
+        `SELECT id, name, service, encrypted_key, endpoint_url
+         FROM api_keys
+         WHERE service = ? AND is_active = 1 AND (expires_at IS NULL OR expires_at > ?)
+         ORDER BY is_primary DESC, updated_at DESC, created_at DESC`
+      ).bind(svc, Math.floor(Date.now() / 1000)).all()
+      return result.results || []
+    } catch (e) {
+      console.error(`[AI Provider] Failed to load ${svc} keys:`, e)
+      return []
+    }
+  }
+
+  let rows = await loadRows(service)
+  let rowsService: string = service
+  if (rows.length === 0 && service === 'embedding') {
+    rows = await loadRows('qwen')
+    rowsService = 'qwen'
+  }
+
+  const primaryEndpoint = rowsService === service ? (rows[0]?.endpoint_url as string | undefined) : undefined
+  const secret = (env.QWEN_API_KEY || '').trim()
+  if (secret) {
+    keys.push({
+      id: null,
+      name: 'QWEN_API_KEY',
+      service,
+      endpoint: primaryEndpoint || DEFAULT_ENDPOINTS[service],
+      apiKey: secret,
+    })
+  }
+
+  for (const row of rows) {
+    if (!row.encrypted_key) continue
+    let apiKey = ''
+    try {
+      apiKey = await decryptStoredKey(env, row.encrypted_key as string)
+    } catch (e) {
+      console.error(`[AI Provider] Key decryption failed for key ${row.id}:`, e)
+      continue
+    }
+    if (!apiKey) continue
+    keys.push({
+      id: Number(row.id),
+      name: (row.name as string) || `key_${row.id}`,
+      service,
+      endpoint: (rowsService === service && row.endpoint_url) ? (row.endpoint_url as string) : DEFAULT_ENDPOINTS[service],
+      apiKey,
+    })
+  }
+
+  return keys
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+/**
+ * 依次尝试各密钥发送请求，直到获得非可重试响应
+ * 全部失败时返回最后一个上游响应（可能为 null，表示无可用密钥或全部网络错误/超时）
+ */
+export async function callAiProvider(
+  env: Env,
+  service: AiService,
+  buildInit: (key: AiProviderKey) => RequestInit,
+  options: { timeoutMs?: number } = {}
+): Promise<ProviderCallResult> {
+  const keys = await listProviderKeys(env, service)
+  const attempts: ProviderAttempt[] = []
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const now = Math.floor(Date.now() / 1000)
+
+  const states = await Promise.all(keys.map((k) => getKeyCircuit(env, k.id)))
+  const closed = keys.map((k, i) => ({ key: k, state: states[i] })).filter((c) => c.state.openedUntil <= now)
+  // 所有密钥都处于熔断期时仍尝试一次，避免整个服务彻底不可用
+  const candidates = closed.length > 0
+    ? closed
+    : keys.map((k, i) => ({ key: k, state: states[i] }))
+
+  let lastResponse: Response | null = null
+  let lastKey: AiProviderKey | null = null
+
+  for (const { key, state } of candidates) {
+    const startMs = Date.now()
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeoutMs)
+    try {
+      const init = buildInit(key)
+      const response = await fetch(key.endpoint, { ...init, signal: controller.signal })
+      const latencyMs = Date.now() - startMs
+
+      if (isRetryableStatus(response.status)) {
+        const text = await response.text().catch(() => '')
+        attempts.push({ keyId: key.id, keyName: key.name, status: response.status, error: text.slice(0, 200), latencyMs })
+        await recordKeyFailure(env, key, state, `HTTP ${response.status}: ${text}`)
+        lastResponse = new Response(text, { status: response.status, headers: response.headers })
+        lastKey = key
+        continue
+      }
+
+      attempts.push({ keyId: key.id, keyName: key.name, status: response.status, error: null, latencyMs })
+      if (response.ok) {
+        await recordKeySuccess(env, key, state)
+      }
+      return { response, key, attempts }
+    } catch (e) {
+      const aborted = controller.signal.aborted
+      const message = aborted ? `timeout after ${timeoutMs}ms` : ((e as Error)?.message || 'network_error')
+      attempts.push({ keyId: key.id, keyName: key.name, status: null, error: message, latencyMs: Date.now() - startMs })
+      await recordKeyFailure(env, key, state, message)
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  return { response: lastResponse, key: lastKey, attempts }
+}
+
+type ChatMessage = { role: string; content: string }
+
+/**
+ * 非流式 chat/completions 便捷调用（i18n 翻译、玩法 NPC 等内部调用使用）
+ */
+export async function aiChatCompletion(
+  env: Env,
+  params: {
+    model: string
+    messages: ChatMessage[]
+    temperature?: number
+    maxTokens?: number
+    responseFormat?: { type: 'json_object' } | null
+  },
+  options: { timeoutMs?: number } = {}
+): Promise<{ ok: boolean; content?: string; status?: number; usage?: any }> {
+  const result = await callAiProvider(env, 'qwen', (key) => ({
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${key.apiKey}`,
+    },
+    body: JSON.stringify({
+      model: params.model,
+      messages: params.messages,
+      ...(params.temperature !== undefined ? { temperature: params.temperature } : {}),
+      ...(params.maxTokens !== undefined ? { max_tokens: params.maxTokens } : {}),
+      ...(params.responseFormat ? { response_format: params.responseFormat } : {}),
+      stream: false,
+    }),
+  }), options)
+
+  if (!result.response) return { ok: false, status: 503 }
+  if (!result.response.ok) return { ok: false, status: result.response.status }
+  try {
+    const data = await result.response.json() as any
+    const content = data?.choices?.[0]?.message?.content
+    return { ok: true, content: typeof content === 'string' ? content : '', usage: data?.usage }
+  } catch {
+    return { ok: false, status: 502 }
+  }
+}
+
+/**
+ * 文本向量化（兼容 DashScope 原生与 OpenAI 兼容两种 embedding 接口）
+ */
+export async function aiEmbedText(
+  env: Env,
+  texts: string[],
+  options: { model?: string; dimension?: number; timeoutMs?: number } = {}
+): Promise<{ ok: boolean; embeddings: number[][]; model: string; totalTokens: number; status?: number }> {
+  const model = options.model || 'text-embedding-v3'
+  const result = await callAiProvider(env, 'embedding', (key) => {
+    const compatible = key.endpoint.includes('compatible-mode')
+    const payload = compatible
+      ? { model, input: texts, ...(options.dimension ? { dimensions: options.dimension } : {}) }
+      : { model, input: { texts }, parameters: options.dimension ? { dimension: options.dimension } : {} }
+    return {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${key.apiKey}`,
+      },
+      body: JSON.stringify(payload),
+    }
+  }, { timeoutMs: options.timeoutMs })
+
+  if (!result.response) return { ok: false, embeddings: [], model, totalTokens: 0, status: 503 }
+  if (!result.response.ok) return { ok: false, embeddings: [], model, totalTokens: 0, status: result.response.status }
+  try {
+    const data = await result.response.json() as any
+    const items: any[] = data?.output?.embeddings || data?.data || []
+    const embeddings = items
+      .slice()
+      .sort((a, b) => (a.text_index ?? a.index ?? 0) - (b.text_index ?? b.index ?? 0))
+      .map((item) => item.embedding as number[])
+    return { ok: embeddings.length === texts.length, embeddings, model, totalTokens: data?.usage?.total_tokens || 0 }
+  } catch {
+    return { ok: false, embeddings: [], model, totalTokens: 0, status: 502 }
+  }
+}
+
+/**
+ * 各密钥健康状态（管理后台展示）
+ */
+export async function getProviderHealth(env: Env): Promise<Array<{
+  keyId: number | null
+  name: string
+  service: string
+  isPrimary: boolean
+  isActive: boolean
+  circuit: 'closed' | 'open' | 'half_open'
+  failures: number
+  openedUntil: string | null
+  lastError: string | null
+  lastFailureAt: string | null
+  lastSuccessAt: string | null
+}>> {
+  const now = Math.floor(Date.now() / 1000)
+  const toIso = (sec: number | null) => (sec ? new Date(sec * 1000).toISOString() : null)
+  const rows: any[] = []
+
+  if ((env.QWEN_API_KEY || '').trim()) {
+    rows.push({ id: null, name: 'QWEN_API_KEY', service: 'qwen', is_primary: 1, is_active: 1 })
+  }
+  if (env.DB) {
+    const result = await env.DB.prepare(
+      `SELECT id, name, service, is_primary, is_active
+       FROM api_keys
+       WHERE service IN ('qwen', 'embedding')
+       ORDER BY service, is_primary DESC, updated_at DESC, created_at DESC`
+    ).all()
+    rows.push(...(result.results || []))
+  }
+
+  return Promise.all(rows.map(async (row) => {
+    const keyId = row.id == null ? null : Number(row.id)
+    const state = await getKeyCircuit(env, keyId)
+    const circuit = state.openedUntil > now
+      ? 'open'
+      : (state.failures >= CIRCUIT_FAILURE_THRESHOLD ? 'half_open' : 'closed')
+    return {
+      keyId,
+      name: row.name,
+      service: row.service,
+      isPrimary: !!row.is_primary,
+      isActive: !!row.is_active,
+      circuit,
+      failures: state.failures,
+      openedUntil: state.openedUntil > now ? toIso(state.openedUntil) : null,
+      lastError: state.lastError,
+      lastFailureAt: toIso(state.lastFailureAt),
+      lastSuccessAt: toIso(state.lastSuccessAt),
+    }
+  }))
+}
@@ -0,0 +1,276 @@
+/**
+ * AI 配额策略
+ * 按「全局配置 → 用户 Tier / 订阅 / 质押 → 管理员单独覆盖」的顺序解析用户的每日、每月 Token 限额，
+ * AI 代理与配额查询接口共用同一份结果。
+ */
+
+import type { Env } from '../types'
+
+export type QuotaPlan = 'free' | 'subscriber' | 'staker'
+
+export type QuotaRule = 'default' | 'global' | 'subscription' | 'staker' | 'tier' | 'override'
+
+export type QuotaUser = {
+  id: string
+  current_tier?: number | null
+  subscription_type?: string | null
+  subscription_expiry?: number | null
+  staked_amount?: number | null
+}
+
+export type QuotaPolicy = {
+  plan: QuotaPlan
+  tier: number
+  dailyLimit: number
+  monthlyLimit: number
+  maxTokensPerRequest: number
+  dailyConversationLimit: number | null
+  warningThreshold: number
+  appliedRule: QuotaRule
+  rules: string[]
+  overrideExpiresAt: number | null
+}
+
+// 未配置 app_config 时的兜底值（与旧版硬编码一致）
+const FALLBACK: Record<string, number> = {
+  'quota.daily_free': 6000,
+  'quota.daily_subscriber': 30000,
+  'quota.daily_staker': 100000,
+  'quota.free': 140000,
+  'quota.subscriber': 700000,
+  'quota.staker': 2800000,
+  'quota.max_tokens_per_request': 2048,
+  'quota.warning_threshold': 0.8,
+}
+
+const FALLBACK_TIER_MULTIPLIER = [1.0, 1.2, 1.5, 2.0, 3.0]
+
+export async function loadQuotaConfig(env: Env): Promise<Record<string, string>> {
+  const config: Record<string, string> = {}
+  if (!env.DB) return config
+  try {
+    const rows = await env.DB.prepare(
+      `SELECT config_key, config_value FROM app_config WHERE category = 'quota' AND is_active = 1`
+    ).all()
+    for (const row of (rows.results || []) as any[]) {
+      config[row.config_key as string] = String(row.config_value)
+    }
+  } catch (e) {
+    console.error('[AI Quota] Failed to load quota config:', e)
+  }
+  return config
+}
+
+function readNumber(config: Record<string, string>, key: string): { value: number; fromConfig: boolean } {
+  const raw = config[key]
+  const n = raw == null ? NaN : Number(raw)
+  if (Number.isFinite(n) && n >= 0) return { value: n, fromConfig: true }
+  return { value: FALLBACK[key], fromConfig: false }
+}
+
+export function readTierMultiplier(config: Record<string, string>, tier: number): number {
+  let list = FALLBACK_TIER_MULTIPLIER
+  const raw = config['quota.tier_multiplier']
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw)
+      if (Array.isArray(parsed) && parsed.every((x) => Number.isFinite(Number(x)))) {
+        list = parsed.map(Number)
+      }
+    } catch {}
+  }
+  const idx = Math.max(0, Math.min(list.length - 1, tier - 1))
+  const m = list[idx]
+  return Number.isFinite(m) && m > 0 ? m : 1
+}
+
+export async function loadQuotaUser(env: Env, walletAddress: string): Promise<QuotaUser | null> {
+  if (!env.DB || !walletAddress) return null
+  const row = await env.DB.prepare(
+    `SELECT id, current_tier, subscription_type, subscription_expiry, staked_amount
+     FROM users WHERE wallet_address = ? LIMIT 1`
+  ).bind(walletAddress).first()
+  return row ? (row as unknown as QuotaUser) : null
+}
+
+/**
+ * 按质押 / 有效订阅 / 免费划分用户档位（AI 配额与存储配额共用）
+ */
+export function resolveQuotaPlan(
+  user: QuotaUser | null,
+  nowSec = Math.floor(Date.now() / 1000)
+): { plan: QuotaPlan; tier: number; subscriptionType: string } {
+  const tier = Math.max(1, Math.floor(Number(user?.current_tier) || 1))
+  const subscriptionType = (user?.subscription_type || 'FREE').toString().toUpperCase()
+  const subscriptionActive = subscriptionType !== 'FREE' &&
+    (user?.subscription_expiry == null || Number(user.subscription_expiry) > nowSec)
+  const plan: QuotaPlan = Number(user?.staked_amount) > 0
+    ? 'staker'
+    : (subscriptionActive ? 'subscriber' : 'free')
+  return { plan, tier, subscriptionType }
+}
+
+/**
+ * 解析用户的配额策略
+ * user 为空时按免费用户处理
+ */
+export async function resolveQuotaPolicy(env: Env, user: QuotaUser | null): Promise<QuotaPolicy> {
+  const nowSec = Math.floor(Date.now() / 1000)
+  const config = await loadQuotaConfig(env)
+  const rules: string[] = []
+
+  const { plan, tier, subscriptionType } = resolveQuotaPlan(user, nowSec)
+
+  const daily = readNumber(config, `quota.daily_${plan}`)
+  const monthly = readNumber(config, `quota.${plan}`)
+  const maxTokens = readNumber(config, 'quota.max_tokens_per_request')
+  const warning = readNumber(config, 'quota.warning_threshold')
+
+  let appliedRule: QuotaRule = daily.fromConfig || monthly.fromConfig ? 'global' : 'default'
+  rules.push(`${appliedRule}:${plan}`)
+  if (plan === 'subscriber') {
+    appliedRule = 'subscription'
+    rules.push(`subscription:${subscriptionType}`)
+  } else if (plan === 'staker') {
+    appliedRule = 'staker'
+    rules.push('staker')
+  }
+
+  let dailyLimit = daily.value
+  let monthlyLimit = monthly.value
+
+  const tierMultiplier = readTierMultiplier(config, tier)
+  if (tierMultiplier !== 1) {
+    dailyLimit *= tierMultiplier
+    monthlyLimit *= tierMultiplier
+    appliedRule = 'tier'
+    rules.push(`tier:${tier}x${tierMultiplier}`)
+  }
+
+  let dailyConversationLimit: number | null = null
+  let overrideExpiresAt: number | null = null
+
+  if (user?.id && env.DB) {
+    const override = await env.DB.prepare(
+      `SELECT monthly_token_limit, daily_conversation_limit, custom_multiplier, reason, expires_at
+       FROM user_quota_overrides
+       WHERE user_id = ? AND (expires_at IS NULL OR expires_at > ?)
+       LIMIT 1`
+    ).bind(user.id, nowSec).first() as any
+
+    if (override) {
+      const multiplier = Number(override.custom_multiplier)
+      if (Number.isFinite(multiplier) && multiplier > 0) {
+        dailyLimit *= multiplier
+        monthlyLimit *= multiplier
+      }
+      const monthlyOverride = Number(override.monthly_token_limit)
+      if (override.monthly_token_limit != null && Number.isFinite(monthlyOverride) && monthlyOverride >= 0) {
+        monthlyLimit = monthlyOverride
+      }
+      const conversationOverride = Number(override.daily_conversation_limit)
+      if (override.daily_conversation_limit != null && Number.isFinite(conversationOverride) && conversationOverride >= 0) {
+        dailyConversationLimit = Math.floor(conversationOverride)
+      }
+      overrideExpiresAt = override.expires_at ?? null
+      appliedRule = 'override'
+      rules.push(`override${override.reason ? `:${override.reason}` : ''}`)
+    }
+  }
+
+  return {
+    plan,
+    tier,
+    dailyLimit: Math.floor(dailyLimit),
+    monthlyLimit: Math.floor(monthlyLimit),
+    maxTokensPerRequest: Math.floor(maxTokens.value),
+    dailyConversationLimit,
+    warningThreshold: warning.value,
+    appliedRule,
+    rules,
+    overrideExpiresAt,
+  }
+}
+
+export type QuotaReservation = {
+  userId: string
+  statDate: string
+  statMonth: string
+  tokens: number
+}
+
+/**
+ * 原子预留配额
+ * 在一条 UPSERT 内完成「检查 + 累加」，并发请求不会同时越过限额；日额度预留失败时回滚已预留的月额度
+ */
+export async function reserveQuota(
+  env: Env,
+  params: {
+    userId: string
+    walletAddress: string
+    statDate: string
+    statMonth: string
+    tokens: number
+    dailyLimit: number
+    monthlyLimit: number
+    nowSec: number
+  }
+): Promise<{ ok: true; reservation: QuotaReservation } | { ok: false; scope: 'daily' | 'monthly' }> {
+  const { userId, walletAddress, statDate, statMonth, tokens, nowSec } = params
+  if (tokens > params.monthlyLimit) return { ok: false, scope: 'monthly' }
+  if (tokens > params.dailyLimit) return { ok: false, scope: 'daily' }
+
+  const monthly = await env.DB!.prepare(
+    `INSERT INTO user_monthly_stats (user_id, wallet_address, stat_month, tokens_used, updated_at)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(user_id, stat_month) DO UPDATE SET tokens_used = tokens_used + excluded.tokens_used, updated_at = excluded.updated_at
+     WHERE user_monthly_stats.tokens_used + excluded.tokens_used <= ?`
+  ).bind(userId, walletAddress, statMonth, tokens, nowSec, params.monthlyLimit).run()
+  if (!monthly.meta?.changes) return { ok: false, scope: 'monthly' }
+
+  const daily = await env.DB!.prepare(
+    `INSERT INTO user_daily_stats (user_id, wallet_address, stat_date, tokens_used, updated_at)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(user_id, stat_date) DO UPDATE SET tokens_used = tokens_used + excluded.tokens_used, updated_at = excluded.updated_at
+     WHERE user_daily_stats.tokens_used + excluded.tokens_used <= ?`
+  ).bind(userId, walletAddress, statDate, tokens, nowSec, params.dailyLimit).run()
+  if (!daily.meta?.changes) {
+    await adjustQuota(env, { userId, statDate, statMonth, tokens }, -tokens, nowSec, false)
+    return { ok: false, scope: 'daily' }
+  }
+
+  return { ok: true, reservation: { userId, statDate, statMonth, tokens } }
+}
+
+async function adjustQuota(
+  env: Env,
+  reservation: QuotaReservation,
+  delta: number,
+  nowSec: number,
+  includeDaily: boolean
+): Promise<void> {
+  if (delta === 0) return
+  await env.DB!.prepare(
+    `UPDATE user_monthly_stats SET tokens_used = MAX(0, tokens_used + ?), updated_at = ?
+     WHERE user_id = ? AND stat_month = ?`
+  ).bind(delta, nowSec, reservation.userId, reservation.statMonth).run()
+  if (!includeDaily) return
+  await env.DB!.prepare(
+    `UPDATE user_daily_stats SET tokens_used = MAX(0, tokens_used + ?), updated_at = ?
+     WHERE user_id = ? AND stat_date = ?`
+  ).bind(delta, nowSec, reservation.userId, reservation.statDate).run()
+}
+
+/**
+ * 按上游返回的实际用量结算预留（多退少补）
+ */
+export async function commitQuota(env: Env, reservation: QuotaReservation, actualTokens: number, nowSec: number): Promise<void> {
+  await adjustQuota(env, reservation, Math.max(0, actualTokens) - reservation.tokens, nowSec, true)
+}
+
+/**
+ * 上游失败时全额退回预留
+ */
+export async function refundQuota(env: Env, reservation: QuotaReservation, nowSec: number): Promise<void> {
+  await adjustQuota(env, reservation, -reservation.tokens, nowSec, true)
+}
@@ -0,0 +1,213 @@
+/**
+ * AI 模型路由规则
+ * 规则保存在 app_config 的 ai.routing.* 下，按顺序匹配 function_type、消息条数、长度、关键词类别与用户 Tier，
+ * 每个字段（模型 / 联网搜索 / temperature / max_tokens）取第一条命中且设置了该字段的规则。
+ */
+
+import type { Env } from '../types'
+import { readConfigValues } from '../utils/config-reader'
+
+export type RoutingMatch = {
+  functionTypes?: string[]
+  minMessages?: number
+  maxMessages?: number
+  minLength?: number
+  maxLength?: number
+  keywordClasses?: string[]
+  minTier?: number
+  maxTier?: number
+}
+
+export type RoutingRule = {
+  id: string
+  enabled?: boolean
+  match?: RoutingMatch
+  set: {
+    model?: string
+    enableSearch?: boolean
+    temperature?: number
+    maxTokens?: number
+  }
+}
+
+export type KeywordClass = { pattern: string; flags?: string }
+
+export type RoutingConfig = {
+  rules: RoutingRule[]
+  keywordClasses: Record<string, KeywordClass>
+  searchModel: string
+}
+
+export type RoutingInput = {
+  functionType: string
+  messageCount: number
+  lastUserContent: string
+  tier: number
+  requestedModel?: string | null
+  enableSearch?: boolean | null
+  temperature?: number | null
+  maxTokens?: number | null
+}
+
+type RoutingField = 'model' | 'enableSearch' | 'temperature' | 'maxTokens'
+
+export type RoutingDecision = {
+  model: string
+  upstreamModel: string
+  enableSearch: boolean
+  temperature: number
+  maxTokens: number | null
+  matchedRules: string[]
+  sources: Record<RoutingField, string>
+  keywordClasses: string[]
+}
+
+export const DEFAULT_KEYWORD_CLASSES: Record<string, KeywordClass> = {
+  realtime: {
+    pattern: "今天|最新|实时|价格|汇率|天气|新闻|发布|版本|what('?s)? new|latest|today|price|rate|weather|stock",
+    flags: 'i',
+  },
+  technical: {
+    pattern: '```|stack|trace|bug|error|kotlin|swift|typescript|sql|方案|设计|实现|步骤|对比|分析|权衡',
+    flags: 'i',
+  },
+  compound_requirement: {
+    pattern: '(必须|要求|至少|不少于|不要|改成|实现|支持).{0,20}(并且|同时|另外)',
+  },
+}
+
+export const DEFAULT_ROUTING_RULES: RoutingRule[] = [
+  {
+    id: 'structured_tasks',
+    match: { functionTypes: ['persona', 'analysis', 'questionnaire'] },
+    set: { model: 'qwen-flash', enableSearch: false },
+  },
+  { id: 'realtime_search', match: { keywordClasses: ['realtime'] }, set: { enableSearch: true } },
+  { id: 'long_thread', match: { minMessages: 8 }, set: { model: 'qwen-max' } },
+  { id: 'long_message', match: { minLength: 120 }, set: { model: 'qwen-max' } },
+  { id: 'complex_request', match: { keywordClasses: ['technical', 'compound_requirement'] }, set: { model: 'qwen-max' } },
+  { id: 'default', set: { model: 'qwen-flash', enableSearch: false } },
+]
+
+export const DEFAULT_SEARCH_MODEL = 'qwen3-max'
+const DEFAULT_TEMPERATURE = 0.7
+
+const ROUTING_KEYS = ['ai.routing.rules', 'ai.routing.keyword_classes', 'ai.routing.search_model']
+
+function parseJson<T>(raw: string | null | undefined, fallback: T): T {
+  if (!raw) return fallback
+  try {
+    return JSON.parse(raw) as T
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * 读取路由配置（KV 优先，回退 D1，均无时使用内置默认规则）
+ */
+export async function loadRoutingConfig(env: Env): Promise<RoutingConfig> {
+  const values = await readConfigValues(env, ROUTING_KEYS)
+
+  const rules = parseJson<RoutingRule[]>(values['ai.routing.rules'], DEFAULT_ROUTING_RULES)
+  const keywordClasses = parseJson<Record<string, KeywordClass>>(values['ai.routing.keyword_classes'], DEFAULT_KEYWORD_CLASSES)
+
+  return {
+    rules: Array.isArray(rules) ? rules : DEFAULT_ROUTING_RULES,
+    keywordClasses: keywordClasses && typeof keywordClasses === 'object' ? keywordClasses : DEFAULT_KEYWORD_CLASSES,
+    searchModel: (values['ai.routing.search_model'] || '').trim() || DEFAULT_SEARCH_MODEL,
+  }
+}
+
+function detectKeywordClasses(text: string, classes: Record<string, KeywordClass>): string[] {
+  const hits: string[] = []
+  for (const [name, def] of Object.entries(classes)) {
+    if (!def?.pattern) continue
+    try {
+      if (new RegExp(def.pattern, def.flags || '').test(text)) hits.push(name)
+    } catch {
+      console.warn(`[AI Routing] Invalid keyword class pattern: ${name}`)
+    }
+  }
+  return hits
+}
+
+function ruleMatches(match: RoutingMatch | undefined, input: RoutingInput, keywordHits: string[]): boolean {
+  if (!match) return true
+  const length = input.lastUserContent.length
+  if (match.functionTypes?.length && !match.functionTypes.includes(input.functionType)) return false
+  if (match.minMessages != null && input.messageCount < match.minMessages) return false
+  if (match.maxMessages != null && input.messageCount > match.maxMessages) return false
+  if (match.minLength != null && length < match.minLength) return false
+  if (match.maxLength != null && length > match.maxLength) return false
+  if (match.minTier != null && input.tier < match.minTier) return false
+  if (match.maxTier != null && input.tier > match.maxTier) return false
+  if (match.keywordClasses?.length && !match.keywordClasses.some((c) => keywordHits.includes(c))) return false
+  return true
+}
+
+/**
+ * 计算路由结果
+ * 客户端显式传入的 model / enable_search / temperature / max_tokens 优先于规则
+ */
+export function resolveRouting(config: RoutingConfig, input: RoutingInput): RoutingDecision {
+  const keywordHits = detectKeywordClasses(input.lastUserContent, config.keywordClasses)
+  const picked: Partial<RoutingRule['set']> = {}
+  const sources: Record<RoutingField, string> = {
+    model: 'default',
+    enableSearch: 'default',
+    temperature: 'default',
+    maxTokens: 'default',
+  }
+  const matchedRules: string[] = []
+
+  for (const rule of config.rules) {
+    if (!rule || rule.enabled === false || !rule.set) continue
+    if (!ruleMatches(rule.match, input, keywordHits)) continue
+    matchedRules.push(rule.id)
+    for (const field of Object.keys(sources) as RoutingField[]) {
+      if (picked[field] !== undefined || rule.set[field] === undefined) continue
+      ;(picked as any)[field] = rule.set[field]
+      sources[field] = `rule:${rule.id}`
+    }
+  }
+
+  const requestedModel = (input.requestedModel || '').trim()
+  let model = picked.model || 'qwen-flash'
+  if (requestedModel && requestedModel !== 'auto') {
+    model = requestedModel
+    sources.model = 'client'
+  }
+
+  let enableSearch = picked.enableSearch === true
+  if (typeof input.enableSearch === 'boolean') {
+    enableSearch = input.enableSearch
+    sources.enableSearch = 'client'
+  }
+
+  let temperature = typeof picked.temperature === 'number' ? picked.temperature : DEFAULT_TEMPERATURE
+  if (typeof input.temperature === 'number' && input.temperature) {
+    temperature = input.temperature
+    sources.temperature = 'client'
+  }
+
+  let maxTokens = typeof picked.maxTokens === 'number' ? picked.maxTokens : null
+  if (typeof input.maxTokens === 'number' && input.maxTokens > 0) {
+    maxTokens = input.maxTokens
+    sources.maxTokens = 'client'
+  }
+
+  // 联网搜索只有 searchModel 系列支持
+  const upstreamModel = enableSearch && !model.startsWith(config.searchModel) ? config.searchModel : model
+
+  return {
+    model,
+    upstreamModel,
+    enableSearch,
+    temperature,
+    maxTokens,
+    matchedRules,
+    sources,
+    keywordClasses: keywordHits,
+  }
+}
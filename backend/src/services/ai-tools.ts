@@ -0,0 +1,284 @@
+/**
+ * AI 代理服务端工具
+ * 模型在一次代理请求内可调用 search_memories / get_persona / list_pending_questions，
+ * 由后端执行后把结果回填给模型，最多 maxRounds 轮。
+ */
+
+import type { Env } from '../types'
+import type { ProviderCallResult } from './ai-provider'
+import { aiEmbedText } from './ai-provider'
+import { hybridSearchMemories } from './hybrid-search'
+import { getCurrentEmbeddingVersion } from './embedding-migration'
+import { readConfigValues } from '../utils/config-reader'
+
+export const SERVER_TOOL_DEFINITIONS = [
+  {
+    type: 'function',
+    function: {
+      name: 'search_memories',
+      description: 'Search the user\'s saved memories by meaning. Use it when the user refers to past events, people or feelings they may have recorded.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'What to look for, in natural language' },
+          top_k: { type: 'integer', description: 'Maximum number of memories to return (1-10)' },
+          memory_type: { type: 'string', description: 'Optional memory type filter' },
+        },
+        required: ['query'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_persona',
+      description: 'Get the user\'s current personality profile (Big Five scores and derived traits).',
+      parameters: { type: 'object', properties: {} },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_pending_questions',
+      description: 'List proactive questions the user has not answered yet.',
+      parameters: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', description: 'Maximum number of questions to return (1-20)' },
+        },
+      },
+    },
+  },
+] as const
+
+export type ServerToolName = typeof SERVER_TOOL_DEFINITIONS[number]['function']['name']
+
+const SERVER_TOOL_NAMES = new Set<string>(SERVER_TOOL_DEFINITIONS.map((t) => t.function.name))
+const MAX_TOOL_RESULT_CHARS = 4000
+
+/**
+ * 解析请求中的 server_tools：true 表示全部，数组表示指定工具
+ */
+export function resolveServerTools(value: unknown): ServerToolName[] {
+  if (value === true) return [...SERVER_TOOL_NAMES] as ServerToolName[]
+  if (Array.isArray(value)) {
+    return value.map(String).filter((name) => SERVER_TOOL_NAMES.has(name)) as ServerToolName[]
+  }
+  return []
+}
+
+function clampInt(value: unknown, fallback: number, min: number, max: number): number {
+  const n = Math.floor(Number(value))
+  if (!Number.isFinite(n)) return fallback
+  return Math.max(min, Math.min(max, n))
+}
+
+type ToolOutput = { output: unknown; tokens: number }
+
+async function executeServerTool(env: Env, walletAddress: string, name: string, rawArgs: string): Promise<ToolOutput> {
+  let args: any = {}
+  try {
+    args = rawArgs ? JSON.parse(rawArgs) : {}
+  } catch {
+    return { output: { error: 'invalid_arguments' }, tokens: 0 }
+  }
+  if (name === 'search_memories') return searchMemoriesTool(env, walletAddress, args)
+  return { output: await runLookupTool(env, walletAddress, name, args), tokens: 0 }
+}
+
+// 查询向量化消耗的 token 计入本次请求
+async function searchMemoriesTool(env: Env, walletAddress: string, args: any): Promise<ToolOutput> {
+  const query = (args.query || '').toString().trim()
+  if (!query) return { output: { error: 'missing_query' }, tokens: 0 }
+  // 向量化失败时退化为纯关键词检索
+  const version = await getCurrentEmbeddingVersion(env)
+  const embedded = await aiEmbedText(env, [query], { model: version.model, dimension: version.dimension })
+  const { results } = await hybridSearchMemories(env, walletAddress, {
+    mode: embedded.ok ? 'hybrid' : 'keyword',
+    query,
+    queryVector: embedded.ok ? embedded.embeddings[0] : null,
+    model: version.model,
+    topK: clampInt(args.top_k, 5, 1, 10),
+    threshold: 0.3,
+    filters: { memoryTypes: args.memory_type ? [String(args.memory_type)] : undefined },
+  })
+  return {
+    output: {
+      memories: results.map((r) => ({
+        memoryId: r.memoryId,
+        similarity: Math.round(r.similarity * 1000) / 1000,
+        text: r.textPreview,
+        memoryType: r.memoryType,
+        createdAt: r.createdAt,
+      })),
+    },
+    tokens: embedded.totalTokens || 0,
+  }
+}
+
+async function runLookupTool(env: Env, walletAddress: string, name: string, args: any): Promise<unknown> {
+
+  switch (name) {
+    case 'get_persona': {
+      const row = await env.DB!.prepare(
+        `SELECT profile_json, updated_at FROM user_persona_profile_v2 WHERE wallet_address = ?`
+      ).bind(walletAddress).first()
+      if (!row?.profile_json) return { exists: false }
+      try {
+        return { exists: true, profile: JSON.parse(row.profile_json as string), updatedAt: row.updated_at }
+      } catch {
+        return { exists: false }
+      }
+    }
+    case 'list_pending_questions': {
+      const now = Math.floor(Date.now() / 1000)
+      const result = await env.DB!.prepare(
+        `SELECT id, question_text, category, priority, created_at
+         FROM proactive_questions
+         WHERE wallet_address = ?
+           AND status IN ('PENDING', 'NOTIFIED')
+           AND (expires_at IS NULL OR expires_at > ?)
+         ORDER BY priority DESC, created_at ASC
+         LIMIT ?`
+      ).bind(walletAddress, now, clampInt(args.limit, 5, 1, 20)).all()
+      return {
+        questions: (result.results || []).map((row: any) => ({
+          id: row.id,
+          questionText: row.question_text,
+          category: row.category,
+          priority: row.priority,
+          createdAt: row.created_at,
+        })),
+      }
+    }
+    default:
+      return { error: 'unknown_tool' }
+  }
+}
+
+type Usage = { prompt_tokens: number; completion_tokens: number; total_tokens: number }
+
+/**
+ * 返回给客户端前移除服务端工具调用（客户端无法执行，回传结果也无从对应）
+ * 剩余为空时去掉 tool_calls，finish_reason 改为 stop
+ */
+function stripServerToolCalls(data: any, enabled: Set<string>): any {
+  const choice = data?.choices?.[0]
+  const calls: any[] = Array.isArray(choice?.message?.tool_calls) ? choice.message.tool_calls : []
+  const kept = calls.filter((c) => !enabled.has(c?.function?.name))
+  if (kept.length === calls.length) return data
+
+  const message = { ...choice.message }
+  if (kept.length > 0) {
+    message.tool_calls = kept
+  } else {
+    delete message.tool_calls
+    if (message.content == null) message.content = ''
+  }
+  const finishReason = kept.length > 0 ? choice.finish_reason : (choice.finish_reason === 'tool_calls' ? 'stop' : choice.finish_reason)
+  return { ...data, choices: [{ ...choice, message, finish_reason: finishReason }, ...data.choices.slice(1)] }
+}
+
+/**
+ * 执行服务端工具循环
+ * 模型只调用服务端工具时由后端执行并继续对话；混有客户端工具或无工具调用时移除服务端调用后返回。
+ * 达到轮数上限后以 tool_choice = none 再请求一次，强制模型给出最终回答；
+ * 累计用量达到 tokenBudget（本次配额预留）时不再继续，返回 server_tool_budget_exhausted。
+ * 返回的响应体 usage 为各轮与工具向量化之和，server_tool_rounds 为执行轮数。
+ */
+export async function runServerToolLoop(
+  env: Env,
+  params: {
+    walletAddress: string
+    payload: any
+    enabledTools: ServerToolName[]
+    maxRounds: number
+    tokenBudget: number
+    send: (payload: any) => Promise<ProviderCallResult>
+  }
+): Promise<ProviderCallResult> {
+  const enabled = new Set<string>(params.enabledTools)
+  const clientTools = Array.isArray(params.payload.tools) ? params.payload.tools : []
+  const serverTools = SERVER_TOOL_DEFINITIONS.filter((t) => enabled.has(t.function.name))
+  const messages = [...params.payload.messages]
+  const usage: Usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+  const attempts: ProviderCallResult['attempts'] = []
+  let toolTokens = 0
+  let rounds = 0
+
+  while (true) {
+    const forceAnswer = rounds >= params.maxRounds
+    const payload = {
+      ...params.payload,
+      messages,
+      tools: [...clientTools, ...serverTools],
+      ...(forceAnswer ? { tool_choice: 'none' } : {}),
+    }
+    const result = await params.send(payload)
+    attempts.push(...result.attempts)
+    if (!result.response || !result.response.ok) {
+      return { ...result, attempts }
+    }
+
+    const text = await result.response.text()
+    let data: any
+    try {
+      data = JSON.parse(text)
+    } catch {
+      return { response: new Response(text, { status: result.response.status, headers: result.response.headers }), key: result.key, attempts }
+    }
+
+    if (data?.usage) {
+      usage.prompt_tokens += data.usage.prompt_tokens || 0
+      usage.completion_tokens += data.usage.completion_tokens || 0
+      usage.total_tokens += data.usage.total_tokens || 0
+    }
+
+    const message = data?.choices?.[0]?.message
+    const toolCalls: any[] = Array.isArray(message?.tool_calls) ? message.tool_calls : []
+    const allServerCalls = toolCalls.length > 0 && toolCalls.every((c) => enabled.has(c?.function?.name))
+    const budgetExhausted = allServerCalls && !forceAnswer && usage.total_tokens + toolTokens >= params.tokenBudget
+
+    if (forceAnswer || !allServerCalls || budgetExhausted) {
+      const final = {
+        ...stripServerToolCalls(data, enabled),
+        usage: { ...usage, total_tokens: usage.total_tokens + toolTokens },
+        server_tool_rounds: rounds,
+        server_tool_tokens: toolTokens,
+        ...(budgetExhausted ? { server_tool_budget_exhausted: true } : {}),
+      }
+      return {
+        response: new Response(JSON.stringify(final), { status: 200, headers: { 'Content-Type': 'application/json' } }),
+        key: result.key,
+        attempts,
+      }
+    }
+
+    messages.push({ role: 'assistant', content: message.content ?? '', tool_calls: toolCalls })
+    for (const call of toolCalls) {
+      let output: unknown
+      try {
+        const executed = await executeServerTool(env, params.walletAddress, call.function.name, call.function.arguments)
+        output = executed.output
+        toolTokens += executed.tokens
+      } catch (e) {
+        console.error(`[AI Tools] ${call.function.name} failed:`, e)
+        output = { error: 'tool_failed' }
+      }
+      messages.push({
+        role: 'tool',
+        tool_call_id: call.id,
+        name: call.function.name,
+        content: JSON.stringify(output).slice(0, MAX_TOOL_RESULT_CHARS),
+      })
+    }
+    rounds++
+  }
+}
+
+export const DEFAULT_TOOL_MAX_ROUNDS = 3
+
+export async function getToolMaxRounds(env: Env): Promise<number> {
+  const values = await readConfigValues(env, ['ai.tools.max_rounds'])
+  return clampInt(values['ai.tools.max_rounds'], DEFAULT_TOOL_MAX_ROUNDS, 0, 8)
+}
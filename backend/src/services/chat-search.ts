@@ -0,0 +1,294 @@
+/**
+ * 聊天记录全文检索
+ * chat_messages_fts 是以 chat_messages.rowid 为 rowid 的 FTS5 索引。unicode61 分词器不切分中日韩文字，
+ * 所以写入和查询都先经 tokenize() 把 CJK 逐字拆开、以空格连接，词语查询即为逐字相邻的短语查询。
+ * 索引在 createMessages / syncSessions / 删除会话时同步维护，存量消息由定时任务按 rowid 游标补建。
+ */
+
+import type { Env } from '../types'
+
+export type ChatSearchOptions = {
+  from?: number | null
+  to?: number | null
+  isUser?: boolean | null
+  sessionId?: string | null
+  sort?: 'relevance' | 'recent'
+  context?: number
+  limit?: number
+  offset?: number
+}
+
+export type ChatSearchContextMessage = { id: string; text: string; isUser: boolean; timestamp: number }
+
+export type ChatSearchHit = {
+  messageId: string
+  sessionId: string
+  sessionTitle: string | null
+  isUser: boolean
+  timestamp: number
+  snippet: string
+  // snippet 内命中片段的 [start, end) 下标（UTF-16）
+  highlights: [number, number][]
+  before: ChatSearchContextMessage[]
+  after: ChatSearchContextMessage[]
+}
+
+export const MAX_QUERY_LENGTH = 200
+export const MAX_QUERY_TERMS = 10
+export const MAX_SEARCH_LIMIT = 50
+export const MAX_CONTEXT_MESSAGES = 3
+const SNIPPET_RADIUS = 60
+const CONTEXT_TEXT_CHARS = 200
+const BACKFILL_BATCH = 500
+const UNINDEX_CHUNK = 50
+
+const CJK = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}'
+// 与 unicode61 一致：标点、符号、空白为分隔符；CJK 逐字成词
+const TOKEN_RE = new RegExp(`[${CJK}]|[^\\s\\p{P}\\p{S}${CJK}]+`, 'gu')
+
+export function tokenize(text: string): string[] {
+  return String(text || '').match(TOKEN_RE) || []
+}
+
+export async function ensureChatSearchIndex(env: Env): Promise<void> {
+  if (!env.DB || (globalThis as any).__chatSearchIndexReady) return
+  await env.DB.prepare(
+    `CREATE VIRTUAL TABLE IF NOT EXISTS chat_messages_fts USING fts5(
+      body,
+      wallet_address,
+      tokenize = 'unicode61 remove_diacritics 2'
+    )`
+  ).run()
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS chat_search_backfill (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      last_rowid INTEGER NOT NULL DEFAULT 0,
+      updated_at INTEGER NOT NULL
+    )`
+  ).run()
+  ;(globalThis as any).__chatSearchIndexReady = true
+}
+
+/**
+ * 删除消息的索引行；须在 INSERT OR REPLACE 之前调用（REPLACE 会给消息分配新的 rowid）
+ */
+export async function unindexChatMessages(env: Env, messageIds: string[]): Promise<void> {
+  if (messageIds.length === 0) return
+  try {
+    await ensureChatSearchIndex(env)
+    // D1 单条语句最多 100 个绑定参数
+    for (let i = 0; i < messageIds.length; i += UNINDEX_CHUNK) {
+      const chunk = messageIds.slice(i, i + UNINDEX_CHUNK)
+      await env.DB!.prepare(
+        `DELETE FROM chat_messages_fts WHERE rowid IN (SELECT rowid FROM chat_messages WHERE id IN (${chunk.map(() => '?').join(', ')}))`
+      ).bind(...chunk).run()
+    }
+  } catch (error) {
+    console.error('[Chat Search] Failed to unindex messages:', error)
+  }
+}
+
+/**
+ * 为已写入 chat_messages 的消息建立索引；失败只记录日志，不影响消息本身的写入
+ */
+export async function indexChatMessages(env: Env, messages: { id: string; text: string }[]): Promise<void> {
+  if (messages.length === 0) return
+  try {
+    await ensureChatSearchIndex(env)
+    for (const message of messages) {
+      await env.DB!.prepare(
+        `INSERT INTO chat_messages_fts (rowid, body, wallet_address)
+         SELECT rowid, ?, wallet_address FROM chat_messages WHERE id = ?`
+      ).bind(tokenize(message.text).join(' '), message.id).run()
+    }
+  } catch (error) {
+    console.error('[Chat Search] Failed to index messages:', error)
+  }
+}
+
+/**
+ * 重建一个会话的索引（用于 syncSessions：会话迁移前已上传的消息可能尚未建索引）
+ */
+export async function reindexChatSession(env: Env, sessionId: string, walletAddress: string): Promise<void> {
+  try {
+    await ensureChatSearchIndex(env)
+    await env.DB!.prepare(
+      'DELETE FROM chat_messages_fts WHERE rowid IN (SELECT rowid FROM chat_messages WHERE session_id = ?)'
+    ).bind(sessionId).run()
+    const result = await env.DB!.prepare(
+      'SELECT id, text FROM chat_messages WHERE session_id = ? AND wallet_address = ? AND is_deleted = 0'
+    ).bind(sessionId, walletAddress).all()
+    await indexChatMessages(env, (result.results || []) as any[])
+  } catch (error) {
+    console.error('[Chat Search] Failed to reindex session:', error)
+  }
+}
+
+export async function unindexChatSession(env: Env, sessionId: string): Promise<void> {
+  try {
+    await ensureChatSearchIndex(env)
+    await env.DB!.prepare(
+      'DELETE FROM chat_messages_fts WHERE rowid IN (SELECT rowid FROM chat_messages WHERE session_id = ?)'
+    ).bind(sessionId).run()
+  } catch (error) {
+    console.error('[Chat Search] Failed to unindex session:', error)
+  }
+}
+
+/**
+ * 解析查询：双引号内为短语，其余按空白切分，各项之间为 AND；每项转为 body 列上的短语查询
+ * 返回 null 表示没有可检索的词
+ */
+export function parseSearchQuery(query: string): { match: string; terms: string[][] } | null {
+  const terms: string[][] = []
+  for (const part of String(query || '').slice(0, MAX_QUERY_LENGTH).matchAll(/"([^"]*)"|(\S+)/g)) {
+    const tokens = tokenize(part[1] ?? part[2])
+    if (tokens.length > 0) terms.push(tokens)
+    if (terms.length >= MAX_QUERY_TERMS) break
+  }
+  if (terms.length === 0) return null
+  return { match: terms.map(tokens => `body : "${tokens.join(' ')}"`).join(' AND '), terms }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * 在原文中定位命中词，截取首个命中附近的片段并给出片段内的高亮区间
+ */
+export function buildSnippet(text: string, terms: string[][]): { snippet: string; highlights: [number, number][] } {
+  const source = String(text || '')
+  const pattern = new RegExp(
+    terms.map(tokens => tokens.map(escapeRegExp).join('[\\s\\p{P}\\p{S}]*')).join('|'),
+    'giu'
+  )
+  const matches = [...source.matchAll(pattern)].filter(m => m[0].length > 0)
+  const first = matches[0]?.index ?? 0
+  const start = Math.max(0, first - SNIPPET_RADIUS)
+  const end = Math.min(source.length, first + SNIPPET_RADIUS * 2)
+  const prefix = start > 0 ? '…' : ''
+  const snippet = prefix + source.slice(start, end) + (end < source.length ? '…' : '')
+
+  const highlights: [number, number][] = []
+  for (const match of matches) {
+    const from = match.index!
+    const to = from + match[0].length
+    if (from >= start && to <= end) highlights.push([from - start + prefix.length, to - start + prefix.length])
+  }
+  return { snippet, highlights }
+}
+
+async function loadContext(
+  env: Env,
+  sessionId: string,
+  timestamp: number,
+  direction: 'before' | 'after',
+  count: number
+): Promise<ChatSearchContextMessage[]> {
+  const result = await env.DB!.prepare(
+    `SELECT id, text, is_user, timestamp FROM chat_messages
+     WHERE session_id = ? AND is_deleted = 0 AND timestamp ${direction === 'before' ? '<' : '>'} ?
+     ORDER BY timestamp ${direction === 'before' ? 'DESC' : 'ASC'} LIMIT ?`
+  ).bind(sessionId, timestamp, count).all()
+  const rows = ((result.results || []) as any[]).map(row => ({
+    id: row.id,
+    text: String(row.text || '').slice(0, CONTEXT_TEXT_CHARS),
+    isUser: !!row.is_user,
+    timestamp: row.timestamp,
+  }))
+  return direction === 'before' ? rows.reverse() : rows
+}
+
+export async function searchChatMessages(
+  env: Env,
+  walletAddress: string,
+  query: { match: string; terms: string[][] },
+  options: ChatSearchOptions = {}
+): Promise<{ hits: ChatSearchHit[]; hasMore: boolean }> {
+  await ensureChatSearchIndex(env)
+  const limit = Math.max(1, Math.min(MAX_SEARCH_LIMIT, options.limit ?? 20))
+  const offset = Math.max(0, options.offset ?? 0)
+  const context = Math.max(0, Math.min(MAX_CONTEXT_MESSAGES, options.context ?? 1))
+
+  // 钱包地址作为索引列参与 MATCH，避免先匹配全部用户的消息再过滤
+  const where = [
+    'chat_messages_fts MATCH ?',
+    'm.wallet_address = ?',
+    'm.is_deleted = 0',
+    'm.is_error = 0',
+  ]
+  const params: any[] = [`wallet_address : "${walletAddress.replace(/"/g, '')}" AND ${query.match}`, walletAddress]
+  if (options.from != null) {
+    where.push('m.timestamp >= ?')
+    params.push(options.from)
+  }
+  if (options.to != null) {
+    where.push('m.timestamp <= ?')
+    params.push(options.to)
+  }
+  if (options.isUser != null) {
+    where.push('m.is_user = ?')
+    params.push(options.isUser ? 1 : 0)
+  }
+  if (options.sessionId) {
+    where.push('m.session_id = ?')
+    params.push(options.sessionId)
+  }
+
+  const result = await env.DB!.prepare(
+    `SELECT m.id, m.session_id, m.text, m.is_user, m.timestamp, s.title AS session_title,
+            bm25(chat_messages_fts, 1.0, 0.0) AS score
+     FROM chat_messages_fts
+     JOIN chat_messages m ON m.rowid = chat_messages_fts.rowid
+     LEFT JOIN chat_sessions s ON s.id = m.session_id
+     WHERE ${where.join(' AND ')}
+     ORDER BY ${options.sort === 'recent' ? 'm.timestamp DESC' : 'score ASC, m.timestamp DESC'}
+     LIMIT ? OFFSET ?`
+  ).bind(...params, limit + 1, offset).all()
+  const rows = (result.results || []) as any[]
+
+  const hits: ChatSearchHit[] = []
+  for (const row of rows.slice(0, limit)) {
+    hits.push({
+      messageId: row.id,
+      sessionId: row.session_id,
+      sessionTitle: row.session_title ?? null,
+      isUser: !!row.is_user,
+      timestamp: row.timestamp,
+      ...buildSnippet(row.text, query.terms),
+      before: context > 0 ? await loadContext(env, row.session_id, row.timestamp, 'before', context) : [],
+      after: context > 0 ? await loadContext(env, row.session_id, row.timestamp, 'after', context) : [],
+    })
+  }
+  return { hits, hasMore: rows.length > limit }
+}
+
+/**
+ * 定时任务：按 rowid 游标为存量消息补建索引，已建索引的消息先删后插，可重复执行
+ */
+export async function backfillChatSearchIndex(env: Env, batchSize = BACKFILL_BATCH): Promise<number> {
+  if (!env.DB) return 0
+  await ensureChatSearchIndex(env)
+  const state = await env.DB.prepare('SELECT last_rowid FROM chat_search_backfill WHERE id = 1').first() as any
+  const lastRowid = Number(state?.last_rowid) || 0
+
+  const result = await env.DB.prepare(
+    `SELECT rowid, id, text FROM chat_messages WHERE rowid > ? AND is_deleted = 0 ORDER BY rowid ASC LIMIT ?`
+  ).bind(lastRowid, batchSize).all()
+  const rows = (result.results || []) as any[]
+  if (rows.length === 0) return 0
+
+  for (const row of rows) {
+    await env.DB.prepare('DELETE FROM chat_messages_fts WHERE rowid = ?').bind(row.rowid).run()
+    await env.DB.prepare(
+      'INSERT INTO chat_messages_fts (rowid, body, wallet_address) SELECT rowid, ?, wallet_address FROM chat_messages WHERE rowid = ?'
+    ).bind(tokenize(row.text).join(' '), row.rowid).run()
+  }
+
+  await env.DB.prepare(
+    `INSERT INTO chat_search_backfill (id, last_rowid, updated_at) VALUES (1, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET last_rowid = excluded.last_rowid, updated_at = excluded.updated_at`
+  ).bind(rows[rows.length - 1].rowid, Math.floor(Date.now() / 1000)).run()
+  return rows.length
+}
@@ -0,0 +1,243 @@
+/**
+ * 会话滚动摘要
+ * 定时任务把会话中较早的 chat_messages（保留最近 keep_recent 条原文）连同上一版摘要交给模型压缩成新的摘要，
+ * 按会话保存；客户端可直接读取，或在 AI 代理请求中携带 include_session_summary 由服务端自动附加到系统提示。
+ */
+
+import type { Env } from '../types'
+import { readConfigValues } from '../utils/config-reader'
+import { aiChatCompletion } from './ai-provider'
+
+export type ChatSessionSummary = {
+  session_id: string
+  wallet_address: string
+  summary: string
+  covered_until: number
+  covered_message_id: string | null
+  covered_count: number
+  model: string | null
+  created_at: number
+  updated_at: number
+}
+
+export type SummarySettings = { model: string; keepRecent: number }
+
+export const DEFAULT_SUMMARY_MODEL = 'qwen-turbo'
+export const DEFAULT_SUMMARY_KEEP_RECENT = 20
+// 未摘要的旧消息少于该数量时不调用模型
+export const SUMMARY_MIN_BATCH = 20
+export const SUMMARY_MAX_BATCH = 80
+export const SUMMARY_MAX_CHARS = 2000
+// ai_usage_logs.function_type
+export const SUMMARY_FUNCTION_TYPE = 'session_summary'
+const MESSAGE_MAX_CHARS = 1500
+const SESSIONS_PER_RUN = 20
+
+export async function ensureChatSummaryTable(env: Env): Promise<void> {
+  if (!env.DB || (globalThis as any).__chatSummaryTableReady) return
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS chat_session_summaries (
+      session_id TEXT PRIMARY KEY,
+      wallet_address TEXT NOT NULL,
+      summary TEXT NOT NULL,
+      covered_until INTEGER NOT NULL,
+      covered_message_id TEXT,
+      covered_count INTEGER NOT NULL DEFAULT 0,
+      model TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )`
+  ).run()
+  await env.DB.prepare(
+    `CREATE INDEX IF NOT EXISTS idx_chat_session_summaries_wallet ON chat_session_summaries(wallet_address)`
+  ).run()
+  ;(globalThis as any).__chatSummaryTableReady = true
+}
+
+export async function getSummarySettings(env: Env): Promise<SummarySettings> {
+  const values = await readConfigValues(env, ['chat.summary.model', 'chat.summary.keep_recent'])
+  const model = (values['chat.summary.model'] || '').trim()
+  const rawKeep = values['chat.summary.keep_recent']
+  const keepRecent = rawKeep == null || rawKeep === '' ? NaN : Number(rawKeep)
+  return {
+    model: model || DEFAULT_SUMMARY_MODEL,
+    keepRecent: Number.isFinite(keepRecent) && keepRecent >= 0 ? Math.floor(keepRecent) : DEFAULT_SUMMARY_KEEP_RECENT,
+  }
+}
+
+export async function getSessionSummary(env: Env, sessionId: string, walletAddress: string): Promise<ChatSessionSummary | null> {
+  if (!env.DB) return null
+  await ensureChatSummaryTable(env)
+  return await env.DB.prepare(
+    'SELECT * FROM chat_session_summaries WHERE session_id = ? AND wallet_address = ?'
+  ).bind(sessionId, walletAddress).first() as unknown as ChatSessionSummary | null
+}
+
+export async function deleteSessionSummary(env: Env, sessionId: string): Promise<void> {
+  await ensureChatSummaryTable(env)
+  await env.DB!.prepare('DELETE FROM chat_session_summaries WHERE session_id = ?').bind(sessionId).run()
+}
+
+/**
+ * 把摘要并入系统提示（代理请求的 messages 已合并为至多一条位于首位的 system 消息）
+ */
+export function withSessionSummary<T extends { role: string; content: string }>(messages: T[], summary: string): T[] {
+  const block = `【此前对话摘要】\n${summary}`
+  if (messages[0]?.role === 'system') {
+    return [{ ...messages[0], content: `${messages[0].content}\n\n${block}` }, ...messages.slice(1)]
+  }
+  return [{ role: 'system', content: block } as T, ...messages]
+}
+
+function buildSummaryPrompt(previous: string | null, messages: { text: string; is_user: number }[]) {
+  const transcript = messages
+    .map(m => `${m.is_user ? 'User' : 'Assistant'}: ${String(m.text || '').slice(0, MESSAGE_MAX_CHARS)}`)
+    .join('\n')
+  return [
+    {
+      role: 'system',
+      content: [
+        'You maintain a rolling summary of a long conversation between a user and their AI companion.',
+        'Merge the previous summary with the new messages into one updated summary.',
+        'Keep facts the user shared about themselves, their preferences, open questions, plans and commitments, and the current topic.',
+        'Drop greetings and small talk. Write in the language the user writes in. Stay under 300 words.',
+        'Output the summary text only.',
+      ].join(' '),
+    },
+    {
+      role: 'user',
+      content: `Previous summary:\n${previous || '(none)'}\n\nNew messages:\n${transcript}`,
+    },
+  ]
+}
+
+/**
+ * 记录摘要调用的用量；后台任务不扣用户配额，只用于成本统计
+ */
+async function logSummaryUsage(
+  env: Env,
+  session: { wallet_address: string; user_id?: string | null },
+  model: string,
+  completion: { ok: boolean; status?: number; usage?: any },
+  latencyMs: number
+): Promise<void> {
+  const usage = completion.usage || {}
+  const promptTokens = Number(usage.prompt_tokens) || 0
+  const completionTokens = Number(usage.completion_tokens) || 0
+  await env.DB!.prepare(
+    `INSERT INTO ai_usage_logs (user_id, wallet_address, model, function_type, prompt_tokens, completion_tokens, total_tokens, latency_ms, success, error_message, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    session.user_id || null,
+    session.wallet_address,
+    model,
+    SUMMARY_FUNCTION_TYPE,
+    promptTokens,
+    completionTokens,
+    Number(usage.total_tokens) || promptTokens + completionTokens,
+    latencyMs,
+    completion.ok ? 1 : 0,
+    completion.ok ? null : `status_${completion.status ?? 'unknown'}`,
+    Math.floor(Date.now() / 1000)
+  ).run()
+}
+
+/**
+ * 为单个会话推进一次摘要：取上次摘要之后、最近 keepRecent 条之前的消息（至多 SUMMARY_MAX_BATCH 条）
+ * minBatch 之下不处理；模型调用失败时保留旧摘要
+ */
+export async function summarizeSession(
+  env: Env,
+  session: { id: string; wallet_address: string; user_id?: string | null },
+  settings: SummarySettings,
+  minBatch = SUMMARY_MIN_BATCH
+): Promise<'updated' | 'skipped' | 'failed'> {
+  const previous = await getSessionSummary(env, session.id, session.wallet_address)
+  const coveredUntil = previous?.covered_until ?? -1
+  const coveredId = previous?.covered_message_id ?? ''
+
+  const result = await env.DB!.prepare(
+    `SELECT id, text, is_user, timestamp FROM chat_messages
+     WHERE session_id = ? AND wallet_address = ? AND is_deleted = 0 AND is_error = 0
+       AND (timestamp > ? OR (timestamp = ? AND id > ?))
+     ORDER BY timestamp ASC, id ASC LIMIT ?`
+  ).bind(session.id, session.wallet_address, coveredUntil, coveredUntil, coveredId, SUMMARY_MAX_BATCH + settings.keepRecent).all()
+  const rows = (result.results || []) as any[]
+  const batch = rows.slice(0, Math.max(0, rows.length - settings.keepRecent))
+  if (batch.length === 0 || batch.length < minBatch) return 'skipped'
+
+  const startMs = Date.now()
+  const completion = await aiChatCompletion(env, {
+    model: settings.model,
+    messages: buildSummaryPrompt(previous?.summary ?? null, batch),
+    temperature: 0.2,
+    maxTokens: 800,
+  }, { timeoutMs: 60000 })
+  await logSummaryUsage(env, session, settings.model, completion, Date.now() - startMs)
+  const summary = (completion.content || '').trim().slice(0, SUMMARY_MAX_CHARS)
+  if (!completion.ok || !summary) {
+    console.error(`[Chat Summaries] Summarization failed for ${session.id}: ${completion.status ?? 'empty'}`)
+    return 'failed'
+  }
+
+  const last = batch[batch.length - 1]
+  const now = Math.floor(Date.now() / 1000)
+  await env.DB!.prepare(
+    `INSERT INTO chat_session_summaries
+     (session_id, wallet_address, summary, covered_until, covered_message_id, covered_count, model, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(session_id) DO UPDATE SET
+       summary = excluded.summary,
+       covered_until = excluded.covered_until,
+       covered_message_id = excluded.covered_message_id,
+       covered_count = chat_session_summaries.covered_count + ?,
+       model = excluded.model,
+       updated_at = excluded.updated_at`
+  ).bind(
+    session.id,
+    session.wallet_address,
+    summary,
+    Number(last.timestamp),
+    String(last.id),
+    batch.length,
+    settings.model,
+    now,
+    now,
+    batch.length
+  ).run()
+  return 'updated'
+}
+
+/**
+ * 定时任务：先按 message_count 与已摘要条数粗筛，再按实际可摘要的消息数（排除已删除、出错的消息）
+ * 选出积累了足够新消息的会话，逐个推进摘要；只有已删除消息的会话不会每轮被反复选中
+ */
+export async function summarizePendingSessions(env: Env, limit = SESSIONS_PER_RUN): Promise<{ updated: number; failed: number }> {
+  if (!env.DB) return { updated: 0, failed: 0 }
+  await ensureChatSummaryTable(env)
+  const settings = await getSummarySettings(env)
+
+  const threshold = settings.keepRecent + SUMMARY_MIN_BATCH
+  const sessions = await env.DB.prepare(
+    `SELECT s.id, s.wallet_address, s.user_id FROM chat_sessions s
+     LEFT JOIN chat_session_summaries cs ON cs.session_id = s.id
+     WHERE s.is_deleted = 0
+       AND s.message_count - COALESCE(cs.covered_count, 0) >= ?
+       AND (
+         SELECT COUNT(*) FROM chat_messages m
+         WHERE m.session_id = s.id AND m.wallet_address = s.wallet_address AND m.is_deleted = 0 AND m.is_error = 0
+           AND (m.timestamp > COALESCE(cs.covered_until, -1)
+             OR (m.timestamp = COALESCE(cs.covered_until, -1) AND m.id > COALESCE(cs.covered_message_id, '')))
+       ) >= ?
+     ORDER BY s.updated_at DESC LIMIT ?`
+  ).bind(threshold, threshold, limit).all()
+
+  let updated = 0
+  let failed = 0
+  for (const session of (sessions.results || []) as any[]) {
+    const outcome = await summarizeSession(env, session, settings)
+    if (outcome === 'updated') updated++
+    if (outcome === 'failed') failed++
+  }
+  return { updated, failed }
+}
@@ -0,0 +1,282 @@
+/**
+ * Embedding 模型版本与重新向量化迁移
+ * 当前版本由 ai.embedding.model / ai.embedding.dimension 配置；
+ * 迁移任务按 memory_id 游标分批处理旧版本向量，经 aiEmbedText 重新生成，
+ * 由定时任务推进，可暂停 / 恢复，进度持久化在 embedding_migrations 中。
+ * 注意：memory_vectors 只保存前 200 字的 text_preview，仅完整保存了原文的行在服务端重新向量化；
+ * 被截断的行计入 skipped 并保持旧版本，经搜索响应的 embedding.outdated 提示客户端用原文重新上传。
+ */
+
+import type { Env } from '../types'
+import { readConfigValues } from '../utils/config-reader'
+import { indexMemoryVectors } from './vector-index'
+import { aiEmbedText } from './ai-provider'
+
+export type EmbeddingVersion = { model: string; dimension: number }
+
+export type EmbeddingMigrationStatus = 'running' | 'paused' | 'completed' | 'cancelled'
+
+export type EmbeddingMigration = {
+  id: string
+  target_model: string
+  target_dimension: number
+  status: EmbeddingMigrationStatus
+  total: number
+  processed: number
+  failed: number
+  skipped: number
+  cursor: string | null
+  batch_size: number
+  last_error: string | null
+  created_by: string | null
+  created_at: number
+  updated_at: number
+  completed_at: number | null
+}
+
+export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-v3'
+export const DEFAULT_EMBEDDING_DIMENSION = 1024
+export const DEFAULT_MIGRATION_BATCH_SIZE = 10
+export const DEFAULT_MIGRATION_BATCHES_PER_RUN = 20
+// 与客户端写入 text_preview 时的截断长度一致
+export const TEXT_PREVIEW_MAX_CHARS = 200
+
+/**
+ * 读取当前 Embedding 版本
+ */
+export async function getCurrentEmbeddingVersion(env: Env): Promise<EmbeddingVersion> {
+  const values = await readConfigValues(env, ['ai.embedding.model', 'ai.embedding.dimension'])
+  const dimension = Math.floor(Number(values['ai.embedding.dimension']))
+  return {
+    model: (values['ai.embedding.model'] || '').trim() || DEFAULT_EMBEDDING_MODEL,
+    dimension: Number.isFinite(dimension) && dimension > 0 ? dimension : DEFAULT_EMBEDDING_DIMENSION,
+  }
+}
+
+export async function getMigrationBatchesPerRun(env: Env): Promise<number> {
+  const values = await readConfigValues(env, ['ai.embedding.migration_batches_per_run'])
+  const n = Math.floor(Number(values['ai.embedding.migration_batches_per_run']))
+  return Number.isFinite(n) && n > 0 ? Math.min(100, n) : DEFAULT_MIGRATION_BATCHES_PER_RUN
+}
+
+export async function ensureEmbeddingMigrationTable(env: Env): Promise<void> {
+  if (!env.DB || (globalThis as any).__embeddingMigrationReady) return
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS embedding_migrations (
+      id TEXT PRIMARY KEY,
+      target_model TEXT NOT NULL,
+      target_dimension INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'running',
+      total INTEGER DEFAULT 0,
+      processed INTEGER DEFAULT 0,
+      failed INTEGER DEFAULT 0,
+      skipped INTEGER DEFAULT 0,
+      cursor TEXT,
+      batch_size INTEGER DEFAULT 10,
+      last_error TEXT,
+      created_by TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      completed_at INTEGER
+    )`
+  ).run()
+  try { await env.DB.prepare(`ALTER TABLE embedding_migrations ADD COLUMN skipped INTEGER DEFAULT 0`).run() } catch {}
+  ;(globalThis as any).__embeddingMigrationReady = true
+}
+
+/**
+ * 统计与目标版本不一致的向量数（可按钱包）
+ */
+export async function countOutdatedVectors(env: Env, version: EmbeddingVersion, walletAddress?: string): Promise<number> {
+  let sql = `SELECT COUNT(*) AS cnt FROM memory_vectors WHERE (model != ? OR vector_dimension != ?)`
+  const params: any[] = [version.model, version.dimension]
+  if (walletAddress) {
+    sql += ' AND wallet_address = ?'
+    params.push(walletAddress)
+  }
+  const row = await env.DB!.prepare(sql).bind(...params).first()
+  return Number(row?.cnt || 0)
+}
+
+/**
+ * 各模型版本的向量分布
+ */
+export async function getEmbeddingVersionStats(env: Env): Promise<Array<{ model: string; dimension: number; count: number; current: boolean }>> {
+  const current = await getCurrentEmbeddingVersion(env)
+  const rows = await env.DB!.prepare(
+    `SELECT model, vector_dimension, COUNT(*) AS cnt FROM memory_vectors GROUP BY model, vector_dimension ORDER BY cnt DESC`
+  ).all()
+  return ((rows.results || []) as any[]).map((r) => ({
+    model: r.model,
+    dimension: r.vector_dimension,
+    count: Number(r.cnt || 0),
+    current: r.model === current.model && Number(r.vector_dimension) === current.dimension,
+  }))
+}
+
+export async function listEmbeddingMigrations(env: Env, limit: number = 20): Promise<EmbeddingMigration[]> {
+  await ensureEmbeddingMigrationTable(env)
+  const rows = await env.DB!.prepare(
+    `SELECT * FROM embedding_migrations ORDER BY created_at DESC LIMIT ?`
+  ).bind(limit).all()
+  return (rows.results || []) as unknown as EmbeddingMigration[]
+}
+
+export async function getEmbeddingMigration(env: Env, id: string): Promise<EmbeddingMigration | null> {
+  await ensureEmbeddingMigrationTable(env)
+  const row = await env.DB!.prepare(`SELECT * FROM embedding_migrations WHERE id = ?`).bind(id).first()
+  return (row as unknown as EmbeddingMigration) || null
+}
+
+/**
+ * 创建迁移任务（默认目标为当前版本）；同一时间只允许一个进行中的任务
+ */
+export async function createEmbeddingMigration(
+  env: Env,
+  params: { model?: string; dimension?: number; batchSize?: number; createdBy?: string | null }
+): Promise<{ migration: EmbeddingMigration | null; error?: string }> {
+  await ensureEmbeddingMigrationTable(env)
+  const active = await env.DB!.prepare(
+    `SELECT id FROM embedding_migrations WHERE status IN ('running', 'paused') LIMIT 1`
+  ).first()
+  if (active) return { migration: null, error: 'migration_in_progress' }
+
+  const current = await getCurrentEmbeddingVersion(env)
+  const target: EmbeddingVersion = {
+    model: (params.model || '').trim() || current.model,
+    dimension: params.dimension && params.dimension > 0 ? Math.floor(params.dimension) : current.dimension,
+  }
+  const batchSize = Math.max(1, Math.min(25, Math.floor(params.batchSize || DEFAULT_MIGRATION_BATCH_SIZE)))
+  const total = await countOutdatedVectors(env, target)
+  const now = Math.floor(Date.now() / 1000)
+  const id = `emb_${now}_${Math.random().toString(36).slice(2, 8)}`
+
+  await env.DB!.prepare(
+    `INSERT INTO embedding_migrations (id, target_model, target_dimension, status, total, processed, failed, skipped, cursor, batch_size, created_by, created_at, updated_at, completed_at)
+     VALUES (?, ?, ?, ?, ?, 0, 0, 0, NULL, ?, ?, ?, ?, ?)`
+  ).bind(
+    id,
+    target.model,
+    target.dimension,
+    total === 0 ? 'completed' : 'running',
+    total,
+    batchSize,
+    params.createdBy || null,
+    now,
+    now,
+    total === 0 ? now : null
+  ).run()
+
+  return { migration: await getEmbeddingMigration(env, id) }
+}
+
+export async function setEmbeddingMigrationStatus(
+  env: Env,
+  id: string,
+  status: 'running' | 'paused' | 'cancelled'
+): Promise<EmbeddingMigration | null> {
+  const migration = await getEmbeddingMigration(env, id)
+  if (!migration || migration.status === 'completed' || migration.status === 'cancelled') return null
+  await env.DB!.prepare(
+    `UPDATE embedding_migrations SET status = ?, updated_at = ? WHERE id = ?`
+  ).bind(status, Math.floor(Date.now() / 1000), id).run()
+  return getEmbeddingMigration(env, id)
+}
+
+/**
+ * text_preview 是否为截断后的原文（text_length 缺失时按是否达到截断长度判断）
+ */
+export function isTruncatedPreview(row: { text_preview?: string | null; text_length?: number | null }): boolean {
+  const preview = row.text_preview || ''
+  const textLength = Number(row.text_length || 0)
+  return textLength > 0 ? textLength > preview.length : preview.length >= TEXT_PREVIEW_MAX_CHARS
+}
+
+/**
+ * 推进一批迁移
+ * 上游失败时不移动游标（下次重试）；无文本或维度不符的行记入 failed，原文被截断的行记入 skipped，均跳过
+ */
+export async function runEmbeddingMigrationBatch(env: Env, migration: EmbeddingMigration): Promise<EmbeddingMigration | null> {
+  const version: EmbeddingVersion = { model: migration.target_model, dimension: migration.target_dimension }
+  const now = Math.floor(Date.now() / 1000)
+
+  const rows = await env.DB!.prepare(
+    `SELECT memory_id, wallet_address, text_preview, text_length, memory_type
+     FROM memory_vectors
+     WHERE memory_id > ? AND (model != ? OR vector_dimension != ?)
+     ORDER BY memory_id
+     LIMIT ?`
+  ).bind(migration.cursor || '', version.model, version.dimension, migration.batch_size || DEFAULT_MIGRATION_BATCH_SIZE).all()
+  const batch = (rows.results || []) as any[]
+
+  if (batch.length === 0) {
+    await env.DB!.prepare(
+      `UPDATE embedding_migrations SET status = 'completed', updated_at = ?, completed_at = ? WHERE id = ?`
+    ).bind(now, now, migration.id).run()
+    return getEmbeddingMigration(env, migration.id)
+  }
+
+  const withText = batch.filter((r) => (r.text_preview || '').trim())
+  const embeddable = withText.filter((r) => !isTruncatedPreview(r))
+  let failed = batch.length - withText.length
+  const skipped = withText.length - embeddable.length
+  let processed = 0
+
+  if (embeddable.length > 0) {
+    const result = await aiEmbedText(env, embeddable.map((r) => r.text_preview as string), version)
+    if (!result.ok) {
+      const error = result.status ? `HTTP ${result.status}` : 'embedding_count_mismatch'
+      await env.DB!.prepare(
+        `UPDATE embedding_migrations SET last_error = ?, updated_at = ? WHERE id = ?`
+      ).bind(error, now, migration.id).run()
+      return getEmbeddingMigration(env, migration.id)
+    }
+
+    const updates: any[] = []
+    const byWallet = new Map<string, Array<{ memoryId: string; vector: number[]; memoryType: string }>>()
+    embeddable.forEach((row, i) => {
+      const vector = result.embeddings[i]
+      if (!Array.isArray(vector) || vector.length !== version.dimension) {
+        failed++
+        return
+      }
+      updates.push(env.DB!.prepare(
+        `UPDATE memory_vectors SET vector_json = ?, vector_dimension = ?, model = ? WHERE memory_id = ?`
+      ).bind(JSON.stringify(vector), vector.length, version.model, row.memory_id))
+      const list = byWallet.get(row.wallet_address) || []
+      list.push({ memoryId: row.memory_id, vector, memoryType: row.memory_type })
+      byWallet.set(row.wallet_address, list)
+      processed++
+    })
+    if (updates.length > 0) await env.DB!.batch(updates)
+
+    for (const [wallet, entries] of byWallet) {
+      try {
+        await indexMemoryVectors(env, wallet, entries)
+      } catch (e) {
+        console.error(`[Embedding Migration] Failed to update index for ${wallet}:`, e)
+      }
+    }
+  }
+
+  await env.DB!.prepare(
+    `UPDATE embedding_migrations
+     SET processed = processed + ?, failed = failed + ?, skipped = skipped + ?, cursor = ?, last_error = NULL, updated_at = ?
+     WHERE id = ?`
+  ).bind(processed, failed, skipped, batch[batch.length - 1].memory_id, now, migration.id).run()
+
+  return getEmbeddingMigration(env, migration.id)
+}
+
+/**
+ * 连续推进多批，直到完成、出错或达到批数上限
+ */
+export async function advanceEmbeddingMigration(env: Env, migration: EmbeddingMigration, maxBatches: number): Promise<EmbeddingMigration | null> {
+  let current: EmbeddingMigration | null = migration
+  for (let i = 0; i < maxBatches && current && current.status === 'running'; i++) {
+    const before = current.cursor
+    current = await runEmbeddingMigrationBatch(env, current)
+    if (current && current.status === 'running' && current.cursor === before) break
+  }
+  return current
+}
@@ -0,0 +1,265 @@
+/**
+ * 记忆混合检索（关键词 BM25 + 向量）
+ * 关键词侧在 text_preview 上计算 BM25，弥补向量对人名、日期等精确词不敏感的问题；
+ * 两路结果以 RRF 或加权方式融合，可选 MMR 多样性重排。
+ */
+
+import type { Env } from '../types'
+import type { MemoryFilters, MemorySearchHit } from './memory-search'
+import { buildMemoryFilterSql, cosineSimilarity, searchMemoryVectors, toHit } from './memory-search'
+
+export type SearchMode = 'vector' | 'keyword' | 'hybrid'
+export type FusionMethod = 'rrf' | 'weighted'
+
+export type HybridSearchOptions = {
+  mode: SearchMode
+  query?: string | null
+  queryVector?: number[] | null
+  // 查询向量的 Embedding 模型，传入时只与同模型的向量比较
+  model?: string | null
+  topK: number
+  threshold: number
+  filters: MemoryFilters
+  fusion?: FusionMethod
+  vectorWeight?: number
+  mmr?: boolean
+  mmrLambda?: number
+}
+
+export type HybridSearchHit = MemorySearchHit & {
+  score: number
+  keywordScore: number | null
+  vectorRank: number | null
+  keywordRank: number | null
+}
+
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+const RRF_K = 60
+const MAX_QUERY_TERMS = 8
+const MAX_KEYWORD_CANDIDATES = 1000
+const CANDIDATE_FACTOR = 4
+const MIN_CANDIDATES = 50
+
+const CJK = /[\u3400-\u9fff\uf900-\ufaff]/
+
+/**
+ * 分词：拉丁字母 / 数字按词（保留 2024-05-03、v1.2 这类整体），中文按字二元组
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = []
+  const lower = (text || '').toLowerCase()
+  for (const match of lower.matchAll(/[a-z0-9]+(?:[-./:][a-z0-9]+)*|[\u3400-\u9fff\uf900-\ufaff]+/g)) {
+    const word = match[0]
+    if (!CJK.test(word)) {
+      tokens.push(word)
+      continue
+    }
+    if (word.length === 1) {
+      tokens.push(word)
+      continue
+    }
+    for (let i = 0; i < word.length - 1; i++) tokens.push(word.slice(i, i + 2))
+  }
+  return tokens
+}
+
+function escapeLike(term: string): string {
+  return term.replace(/[\\%_]/g, (c) => `\\${c}`)
+}
+
+/**
+ * 关键词检索：先用 LIKE 在 SQL 中收窄候选，再计算 BM25
+ * 包含任一查询词的文档都在候选内，因此 df 是准确的；avgdl 取候选文档的平均长度（近似）
+ */
+export async function keywordSearchMemories(
+  env: Env,
+  walletAddress: string,
+  query: string,
+  filters: MemoryFilters
+): Promise<Array<{ row: any; score: number }>> {
+  const terms = [...new Set(tokenize(query))]
+    .sort((a, b) => b.length - a.length)
+    .slice(0, MAX_QUERY_TERMS)
+  if (terms.length === 0) return []
+
+  const filter = buildMemoryFilterSql(filters)
+  const countRow = await env.DB!.prepare(
+    `SELECT COUNT(*) AS cnt FROM memory_vectors WHERE wallet_address = ?${filter.sql}`
+  ).bind(walletAddress, ...filter.params).first()
+  const totalDocs = Number(countRow?.cnt || 0)
+  if (totalDocs === 0) return []
+
+  const likeSql = terms.map(() => `text_preview LIKE ? ESCAPE '\\'`).join(' OR ')
+  const result = await env.DB!.prepare(
+    `SELECT memory_id, text_preview, text_length, memory_type, source_id, source_type, created_at
+     FROM memory_vectors
+     WHERE wallet_address = ?${filter.sql} AND (${likeSql})
+     LIMIT ?`
+  ).bind(walletAddress, ...filter.params, ...terms.map((t) => `%${escapeLike(t)}%`), MAX_KEYWORD_CANDIDATES).all()
+
+  const docs = ((result.results || []) as any[]).map((row) => {
+    const tf = new Map<string, number>()
+    const tokens = tokenize(row.text_preview || '')
+    for (const t of tokens) tf.set(t, (tf.get(t) || 0) + 1)
+    return { row, tf, length: tokens.length }
+  })
+  if (docs.length === 0) return []
+
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1
+  const idf = new Map<string, number>()
+  for (const term of terms) {
+    const df = docs.filter((d) => d.tf.has(term)).length
+    idf.set(term, Math.log(1 + (totalDocs - df + 0.5) / (df + 0.5)))
+  }
+
+  const scored: Array<{ row: any; score: number }> = []
+  for (const doc of docs) {
+    let score = 0
+    for (const term of terms) {
+      const f = doc.tf.get(term) || 0
+      if (f === 0) continue
+      score += idf.get(term)! * (f * (BM25_K1 + 1)) / (f + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / avgLength))
+    }
+    if (score > 0) scored.push({ row: doc.row, score })
+  }
+  return scored.sort((a, b) => b.score - a.score)
+}
+
+/**
+ * MMR 重排：在相关性与已选结果的相似度之间取平衡
+ */
+function mmrRerank<T extends { relevance: number; vector: number[] | null }>(items: T[], k: number, lambda: number): T[] {
+  const remaining = [...items]
+  const selected: T[] = []
+  while (selected.length < k && remaining.length > 0) {
+    let bestIndex = 0
+    let bestScore = -Infinity
+    for (let i = 0; i < remaining.length; i++) {
+      const item = remaining[i]
+      let redundancy = 0
+      if (item.vector) {
+        for (const s of selected) {
+          if (s.vector) redundancy = Math.max(redundancy, cosineSimilarity(item.vector, s.vector))
+        }
+      }
+      const score = lambda * item.relevance - (1 - lambda) * redundancy
+      if (score > bestScore) {
+        bestScore = score
+        bestIndex = i
+      }
+    }
+    selected.push(remaining.splice(bestIndex, 1)[0])
+  }
+  return selected
+}
+
+/**
+ * 混合检索
+ * - vector：纯向量，threshold 作用于余弦相似度
+ * - keyword：纯 BM25
+ * - hybrid：关键词命中的结果始终参与融合，仅向量命中的结果需达到 threshold
+ */
+export async function hybridSearchMemories(
+  env: Env,
+  walletAddress: string,
+  options: HybridSearchOptions
+): Promise<{ results: HybridSearchHit[]; total: number }> {
+  const { mode, topK, threshold, filters } = options
+  const pool = Math.max(topK * CANDIDATE_FACTOR, MIN_CANDIDATES)
+  const useVector = mode !== 'keyword' && !!options.queryVector?.length
+  const useKeyword = mode !== 'vector' && !!options.query?.trim()
+
+  const vectorHits = useVector
+    ? (await searchMemoryVectors(env, walletAddress, options.queryVector!, { topK: pool, threshold, filters, model: options.model })).results
+    : []
+  const keywordHits = useKeyword
+    ? await keywordSearchMemories(env, walletAddress, options.query!, filters)
+    : []
+
+  type Candidate = {
+    row: any
+    hit: MemorySearchHit | null
+    similarity: number | null
+    keywordScore: number | null
+    vectorRank: number | null
+    keywordRank: number | null
+    relevance: number
+    vector: number[] | null
+  }
+  const candidates = new Map<string, Candidate>()
+  vectorHits.forEach((hit, i) => {
+    candidates.set(hit.memoryId, {
+      row: null, hit, similarity: hit.similarity, keywordScore: null,
+      vectorRank: i + 1, keywordRank: null, relevance: 0, vector: null,
+    })
+  })
+  keywordHits.slice(0, pool).forEach(({ row, score }, i) => {
+    const existing = candidates.get(row.memory_id)
+    if (existing) {
+      existing.keywordScore = score
+      existing.keywordRank = i + 1
+    } else {
+      candidates.set(row.memory_id, {
+        row, hit: null, similarity: null, keywordScore: score,
+        vectorRank: null, keywordRank: i + 1, relevance: 0, vector: null,
+      })
+    }
+  })
+
+  // 融合打分
+  const vectorWeight = Math.max(0, Math.min(1, options.vectorWeight ?? 0.5))
+  const maxKeyword = keywordHits[0]?.score || 1
+  for (const c of candidates.values()) {
+    if (options.fusion === 'weighted') {
+      c.relevance = vectorWeight * (c.similarity ?? 0) + (1 - vectorWeight) * ((c.keywordScore ?? 0) / maxKeyword)
+    } else {
+      c.relevance = (c.vectorRank ? vectorWeight / (RRF_K + c.vectorRank) : 0) +
+        (c.keywordRank ? (1 - vectorWeight) / (RRF_K + c.keywordRank) : 0)
+    }
+  }
+
+  let ranked = [...candidates.values()].sort((a, b) => b.relevance - a.relevance)
+  const total = ranked.length
+
+  // 为 MMR 及仅关键词命中的结果补齐向量
+  const shortlist = ranked.slice(0, options.mmr ? Math.max(topK * 3, topK) : topK)
+  const needVectors = shortlist.filter((c) => options.mmr || (c.similarity === null && useVector))
+  if (needVectors.length > 0) {
+    const ids = needVectors.map((c) => (c.hit ? c.hit.memoryId : c.row.memory_id))
+    for (let i = 0; i < ids.length; i += 90) {
+      const chunk = ids.slice(i, i + 90)
+      const rows = await env.DB!.prepare(
+        `SELECT memory_id, vector_json FROM memory_vectors WHERE wallet_address = ? AND memory_id IN (${chunk.map(() => '?').join(', ')})`
+      ).bind(walletAddress, ...chunk).all()
+      for (const row of (rows.results || []) as any[]) {
+        const c = candidates.get(row.memory_id)
+        if (!c) continue
+        try {
+          c.vector = JSON.parse(row.vector_json)
+          if (c.similarity === null && options.queryVector?.length) {
+            c.similarity = cosineSimilarity(options.queryVector, c.vector!)
+          }
+        } catch {}
+      }
+    }
+  }
+
+  if (options.mmr) {
+    const top = shortlist[0]?.relevance || 1
+    const normalized = shortlist.map((c) => ({ ...c, relevance: c.relevance / top, original: c.relevance }))
+    ranked = mmrRerank(normalized, topK, Math.max(0, Math.min(1, options.mmrLambda ?? 0.7)))
+      .map((c) => ({ ...c, relevance: c.original }))
+  }
+
+  const results = ranked.slice(0, topK).map((c) => ({
+    ...(c.hit || toHit(c.row, c.similarity ?? 0)),
+    similarity: c.similarity ?? 0,
+    score: c.relevance,
+    keywordScore: c.keywordScore,
+    vectorRank: c.vectorRank,
+    keywordRank: c.keywordRank,
+  }))
+
+  return { results, total }
+}
@@ -0,0 +1,305 @@
+/**
+ * 服务端托管记忆 → Irys 迁移队列
+ * 用户升级为付费用户后，把仍存放在 R2 / KV 的记忆排入队列，由定时任务分批上传到 Irys，
+ * 成功后 memories.irys_id 更新为 Arweave 交易 ID 并删除服务端副本（与 /migrated 的 deleteBlob 默认行为一致）；
+ * 失败按指数退避重试，超过上限标记为 failed。
+ *
+ * Worker 内不持有 Irys 私钥：上传经由 IRYS_UPLOADER_URL 指向的签名上传服务（持有已充值的 Irys 钱包）。
+ * 未配置时任务保持 queued，不消耗重试次数。
+ */
+
+import type { Env } from '../types'
+import { deleteAllBlobVersions, deleteBlobRef, ensureMemoryBlobTables, readBlobRefBytes } from './memory-blob-store'
+import { SEALED_CAPSULE_TYPE } from './memory-capsules'
+
+export type IrysMigrationStatus = 'queued' | 'uploading' | 'completed' | 'failed' | 'skipped'
+
+export type IrysMigrationJob = {
+  id: string
+  wallet_address: string
+  memory_id: string
+  source_ref: string
+  size: number
+  status: IrysMigrationStatus
+  attempts: number
+  next_attempt_at: number
+  last_error: string | null
+  irys_id: string | null
+  created_at: number
+  updated_at: number
+  completed_at: number | null
+}
+
+export const IRYS_MIGRATION_MAX_ATTEMPTS = 6
+const BACKOFF_BASE_SECONDS = 60
+const BACKOFF_MAX_SECONDS = 6 * 3600
+// uploading 状态超过该时长视为上次执行中断，重新放回队列
+const STALE_UPLOADING_SECONDS = 15 * 60
+
+export async function ensureIrysMigrationTable(env: Env): Promise<void> {
+  if (!env.DB || (globalThis as any).__irysMigrationReady) return
+  await ensureMemoryBlobTables(env)
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS irys_migration_jobs (
+      id TEXT PRIMARY KEY,
+      wallet_address TEXT NOT NULL,
+      memory_id TEXT NOT NULL,
+      source_ref TEXT NOT NULL,
+      size INTEGER NOT NULL DEFAULT 0,
+      status TEXT NOT NULL DEFAULT 'queued',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at INTEGER NOT NULL,
+      last_error TEXT,
+      irys_id TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      completed_at INTEGER,
+      UNIQUE (wallet_address, memory_id)
+    )`
+  ).run()
+  await env.DB.prepare(
+    `CREATE INDEX IF NOT EXISTS idx_irys_migration_jobs_due ON irys_migration_jobs(status, next_attempt_at)`
+  ).run()
+  ;(globalThis as any).__irysMigrationReady = true
+}
+
+/**
+ * 付费用户判断（与 /api/v1/memories/upload 一致：Tier > 1 或订阅类型不是 FREE）
+ */
+export function isIrysEligible(user: { current_tier?: number | null; subscription_type?: string | null } | null): boolean {
+  if (!user) return false
+  return (Number(user.current_tier) || 1) > 1 || (user.subscription_type || 'FREE').toString().toUpperCase() !== 'FREE'
+}
+
+export function irysBackoffSeconds(attempts: number): number {
+  return Math.min(BACKOFF_MAX_SECONDS, BACKOFF_BASE_SECONDS * 2 ** Math.max(0, attempts - 1))
+}
+
+/**
+ * 把钱包下仍在 R2 / KV 的记忆排入队列，返回新排入（或重新排入）的条数
+ * 已完成的任务在源对象变化（重新写入服务器存储）后会重新排队；进行中的任务不受影响
+ */
+export async function enqueueIrysMigration(env: Env, walletAddress: string): Promise<number> {
+  if (!env.DB) return 0
+  await ensureIrysMigrationTable(env)
+  const now = Math.floor(Date.now() / 1000)
+
+  const result = await env.DB.prepare(
+    `INSERT INTO irys_migration_jobs (id, wallet_address, memory_id, source_ref, size, status, attempts, next_attempt_at, created_at, updated_at)
+     SELECT 'irysmig_' || lower(hex(randomblob(8))), wallet_address, id, irys_id, COALESCE(size, 0), 'queued', 0, ?, ?, ?
+     FROM memories
+     WHERE wallet_address = ? AND (irys_id LIKE 'r2:%' OR irys_id LIKE 'kv:%') AND deleted_at IS NULL
+       AND COALESCE(type, '') != ?
+     ON CONFLICT(wallet_address, memory_id) DO UPDATE SET
+       source_ref = excluded.source_ref,
+       size = excluded.size,
+       status = 'queued',
+       attempts = 0,
+       next_attempt_at = excluded.next_attempt_at,
+       last_error = NULL,
+       updated_at = excluded.updated_at
+     WHERE irys_migration_jobs.status != 'uploading'
+       AND (irys_migration_jobs.status != 'queued' OR irys_migration_jobs.source_ref != excluded.source_ref)`
+  ).bind(now, now, now, walletAddress, SEALED_CAPSULE_TYPE).run()
+  return Number(result.meta?.changes || 0)
+}
+
+/**
+ * 找出已是付费用户、但仍有服务端托管记忆未排队的钱包并排队（覆盖所有升级途径）
+ */
+export async function enqueueEligibleWallets(env: Env, limit = 20): Promise<number> {
+  if (!env.DB) return 0
+  await ensureIrysMigrationTable(env)
+  const result = await env.DB.prepare(
+    `SELECT DISTINCT m.wallet_address
+     FROM memories m
+     JOIN users u ON u.wallet_address = m.wallet_address
+     WHERE (u.current_tier > 1 OR UPPER(COALESCE(u.subscription_type, 'FREE')) != 'FREE')
+       AND (m.irys_id LIKE 'r2:%' OR m.irys_id LIKE 'kv:%') AND m.deleted_at IS NULL
+       AND COALESCE(m.type, '') != ?
+       AND NOT EXISTS (
+         SELECT 1 FROM irys_migration_jobs j
+         WHERE j.wallet_address = m.wallet_address AND j.memory_id = m.id AND j.source_ref = m.irys_id
+       )
+     LIMIT ?`
+  ).bind(SEALED_CAPSULE_TYPE, limit).all()
+
+  let queued = 0
+  for (const row of (result.results || []) as any[]) {
+    queued += await enqueueIrysMigration(env, row.wallet_address)
+  }
+  return queued
+}
+
+/**
+ * 通过签名上传服务写入 Irys，返回 Arweave 交易 ID
+ */
+async function uploadToIrys(env: Env, bytes: Uint8Array<ArrayBuffer>, tags: Array<{ name: string; value: string }>): Promise<string> {
+  const response = await fetch(env.IRYS_UPLOADER_URL!, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Authorization': `Bearer ${env.IRYS_UPLOADER_TOKEN || ''}`,
+      'X-Irys-Tags': JSON.stringify(tags),
+    },
+    body: bytes,
+  })
+  if (!response.ok) {
+    const text = await response.text().catch(() => '')
+    throw new Error(`HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`)
+  }
+  const data = await response.json() as { id?: string }
+  if (!data.id) throw new Error('uploader response missing id')
+  return data.id
+}
+
+async function finishJob(env: Env, id: string, status: IrysMigrationStatus, fields: { irysId?: string | null; error?: string | null } = {}): Promise<void> {
+  const now = Math.floor(Date.now() / 1000)
+  await env.DB!.prepare(
+    `UPDATE irys_migration_jobs SET status = ?, irys_id = COALESCE(?, irys_id), last_error = ?, updated_at = ?, completed_at = ? WHERE id = ?`
+  ).bind(status, fields.irysId ?? null, fields.error ?? null, now, status === 'completed' ? now : null, id).run()
+}
+
+async function processJob(env: Env, job: IrysMigrationJob): Promise<IrysMigrationStatus> {
+  const db = env.DB!
+  const now = Math.floor(Date.now() / 1000)
+
+  const claimed = await db.prepare(
+    `UPDATE irys_migration_jobs SET status = 'uploading', attempts = attempts + 1, updated_at = ? WHERE id = ? AND status = 'queued'`
+  ).bind(now, job.id).run()
+  if (!claimed.meta?.changes) return job.status
+  const attempts = job.attempts + 1
+
+  // 源对象已变化（客户端自行迁移、重新写入或已删除）时不再上传
+  const memory = await db.prepare(
+    'SELECT irys_id, type, deleted_at FROM memories WHERE id = ? AND wallet_address = ?'
+  ).bind(job.memory_id, job.wallet_address).first() as any
+  if (!memory || memory.deleted_at || memory.irys_id !== job.source_ref) {
+    await finishJob(env, job.id, 'skipped', { error: 'source_changed' })
+    return 'skipped'
+  }
+  // 封存中的时间胶囊留在服务端，开启后重新排队
+  if (memory.type === SEALED_CAPSULE_TYPE) {
+    await finishJob(env, job.id, 'skipped', { error: 'memory_sealed' })
+    return 'skipped'
+  }
+
+  const source = await readBlobRefBytes(env, job.source_ref)
+  if (!source) {
+    await finishJob(env, job.id, 'failed', { error: 'source_missing' })
+    return 'failed'
+  }
+
+  try {
+    const tags = [
+      { name: 'Content-Type', value: 'application/octet-stream' },
+      { name: 'App-Name', value: 'Soulon' },
+      { name: 'Memory-ID', value: job.memory_id },
+      ...(source.contentHash ? [{ name: 'Content-Hash', value: source.contentHash }] : []),
+      { name: 'Encrypted', value: 'true' },
+      { name: 'Timestamp', value: String(Date.now()) },
+      { name: 'Wallet-Address', value: job.wallet_address },
+      { name: 'Memory-Type', value: String(memory.type || 'text') },
+      { name: 'Migrated-By', value: 'server' },
+    ]
+    const irysId = await uploadToIrys(env, source.bytes, tags)
+
+    await db.prepare(
+      'UPDATE memories SET irys_id = ? WHERE id = ? AND wallet_address = ? AND irys_id = ?'
+    ).bind(irysId, job.memory_id, job.wallet_address, job.source_ref).run()
+    await finishJob(env, job.id, 'completed', { irysId })
+
+    await deleteAllBlobVersions(env, job.wallet_address, job.memory_id)
+    await deleteBlobRef(env, job.source_ref)
+    return 'completed'
+  } catch (error) {
+    const message = (error as Error).message || String(error)
+    if (attempts >= IRYS_MIGRATION_MAX_ATTEMPTS) {
+      await finishJob(env, job.id, 'failed', { error: message })
+      return 'failed'
+    }
+    await db.prepare(
+      `UPDATE irys_migration_jobs SET status = 'queued', next_attempt_at = ?, last_error = ?, updated_at = ? WHERE id = ?`
+    ).bind(now + irysBackoffSeconds(attempts), message, Math.floor(Date.now() / 1000), job.id).run()
+    return 'queued'
+  }
+}
+
+/**
+ * 执行一批到期任务
+ */
+export async function runIrysMigrationBatch(env: Env, limit = 20): Promise<Record<IrysMigrationStatus, number>> {
+  const counts: Record<IrysMigrationStatus, number> = { queued: 0, uploading: 0, completed: 0, failed: 0, skipped: 0 }
+  if (!env.DB || !env.IRYS_UPLOADER_URL) return counts
+  await ensureIrysMigrationTable(env)
+  const now = Math.floor(Date.now() / 1000)
+
+  await env.DB.prepare(
+    `UPDATE irys_migration_jobs SET status = 'queued', updated_at = ? WHERE status = 'uploading' AND updated_at < ?`
+  ).bind(now, now - STALE_UPLOADING_SECONDS).run()
+
+  const result = await env.DB.prepare(
+    `SELECT * FROM irys_migration_jobs WHERE status = 'queued' AND next_attempt_at <= ? ORDER BY next_attempt_at ASC LIMIT ?`
+  ).bind(now, limit).all()
+
+  for (const job of (result.results || []) as unknown as IrysMigrationJob[]) {
+    counts[await processJob(env, job)]++
+  }
+  return counts
+}
+
+/**
+ * 单个钱包的迁移进度
+ */
+export async function getIrysMigrationProgress(env: Env, walletAddress: string): Promise<{
+  total: number
+  counts: Record<IrysMigrationStatus, number>
+  bytes: { total: number; completed: number }
+  nextAttemptAt: number | null
+  failures: Array<{ memoryId: string; attempts: number; error: string | null; updatedAt: number }>
+}> {
+  const counts: Record<IrysMigrationStatus, number> = { queued: 0, uploading: 0, completed: 0, failed: 0, skipped: 0 }
+  const progress = { total: 0, counts, bytes: { total: 0, completed: 0 }, nextAttemptAt: null as number | null, failures: [] as any[] }
+  if (!env.DB) return progress
+  await ensureIrysMigrationTable(env)
+
+  const grouped = await env.DB.prepare(
+    `SELECT status, COUNT(*) AS cnt, SUM(size) AS bytes, MIN(next_attempt_at) AS next_attempt_at
+     FROM irys_migration_jobs WHERE wallet_address = ? GROUP BY status`
+  ).bind(walletAddress).all()
+  for (const row of (grouped.results || []) as any[]) {
+    const status = row.status as IrysMigrationStatus
+    counts[status] = Number(row.cnt || 0)
+    progress.total += counts[status]
+    progress.bytes.total += Number(row.bytes || 0)
+    if (status === 'completed') progress.bytes.completed = Number(row.bytes || 0)
+    if (status === 'queued') progress.nextAttemptAt = Number(row.next_attempt_at) || null
+  }
+
+  const failures = await env.DB.prepare(
+    `SELECT memory_id, attempts, last_error, updated_at FROM irys_migration_jobs
+     WHERE wallet_address = ? AND (status = 'failed' OR (status = 'queued' AND last_error IS NOT NULL))
+     ORDER BY updated_at DESC LIMIT 20`
+  ).bind(walletAddress).all()
+  progress.failures = ((failures.results || []) as any[]).map((r) => ({
+    memoryId: r.memory_id,
+    attempts: Number(r.attempts || 0),
+    error: r.last_error,
+    updatedAt: Number(r.updated_at),
+  }))
+  return progress
+}
+
+/**
+ * 把失败的任务重新放回队列（管理员或用户手动重试）
+ */
+export async function retryFailedIrysMigrations(env: Env, walletAddress: string): Promise<number> {
+  if (!env.DB) return 0
+  await ensureIrysMigrationTable(env)
+  const now = Math.floor(Date.now() / 1000)
+  const result = await env.DB.prepare(
+    `UPDATE irys_migration_jobs SET status = 'queued', attempts = 0, next_attempt_at = ?, updated_at = ?
+     WHERE wallet_address = ? AND status = 'failed'`
+  ).bind(now, now, walletAddress).run()
+  return Number(result.meta?.changes || 0)
+}
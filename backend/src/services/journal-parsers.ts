@@ -0,0 +1,242 @@
+/**
+ * 日记导出格式解析：Markdown 文件夹（zip）、Day One JSON（或含 JSON 的 zip）、Evernote ENEX
+ * 统一解析为带原始时间与标签的条目，正文保留为 Markdown / 纯文本
+ */
+
+import { readZip, ZipEntry } from '../utils/zip'
+
+export type JournalFormat = 'markdown' | 'dayone' | 'enex'
+
+export type JournalEntry = {
+  externalId: string
+  title: string | null
+  text: string
+  tags: string[]
+  createdAt: number | null
+}
+
+const MARKDOWN_EXTENSIONS = /\.(md|markdown|txt)$/i
+
+function toUnixSeconds(value: unknown): number | null {
+  if (value == null || value === '') return null
+  if (typeof value === 'number') return Math.floor(value > 1e12 ? value / 1000 : value)
+  const ms = Date.parse(String(value).trim())
+  return Number.isFinite(ms) ? Math.floor(ms / 1000) : null
+}
+
+function normalizeTags(tags: unknown): string[] {
+  const list = Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(',') : []
+  const out: string[] = []
+  for (const tag of list) {
+    const t = String(tag).trim().replace(/^#/, '')
+    if (t && !out.includes(t)) out.push(t)
+  }
+  return out
+}
+
+function isHiddenPath(name: string): boolean {
+  return name.startsWith('__MACOSX/') || name.split('/').some(part => part.startsWith('.'))
+}
+
+/**
+ * 根据文件内容推断格式：zip 中有 .json 视为 Day One，否则按 Markdown 文件夹处理
+ */
+export function detectJournalFormat(bytes: Uint8Array, zipEntries?: ZipEntry[] | null): JournalFormat | null {
+  if (zipEntries) {
+    return zipEntries.some(e => !isHiddenPath(e.name) && /\.json$/i.test(e.name)) ? 'dayone' : 'markdown'
+  }
+  const head = new TextDecoder().decode(bytes.subarray(0, 512)).replace(/^\uFEFF/, '').trimStart()
+  if (head.startsWith('{')) return 'dayone'
+  if (head.startsWith('<?xml') || head.startsWith('<en-export')) return 'enex'
+  return null
+}
+
+export function isZip(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04
+}
+
+// ============================================
+// Markdown
+// ============================================
+
+function parseFrontMatter(text: string): { fields: Record<string, any>; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/)
+  if (!match) return { fields: {}, body: text }
+
+  const fields: Record<string, any> = {}
+  let listKey: string | null = null
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/)
+    if (item && listKey) {
+      fields[listKey].push(item[1].trim().replace(/^["']|["']$/g, ''))
+      continue
+    }
+    const kv = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/)
+    if (!kv) continue
+    const key = kv[1].toLowerCase()
+    const value = kv[2].trim()
+    if (value === '') {
+      fields[key] = []
+      listKey = key
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      fields[key] = value.slice(1, -1).split(',').map(v => v.trim().replace(/^["']|["']$/g, '')).filter(Boolean)
+      listKey = null
+    } else {
+      fields[key] = value.replace(/^["']|["']$/g, '')
+      listKey = null
+    }
+  }
+  return { fields, body: text.slice(match[0].length) }
+}
+
+export function parseMarkdownEntries(files: ZipEntry[]): JournalEntry[] {
+  const entries: JournalEntry[] = []
+  for (const file of files) {
+    if (isHiddenPath(file.name) || !MARKDOWN_EXTENSIONS.test(file.name)) continue
+    const raw = new TextDecoder().decode(file.data).replace(/^\uFEFF/, '')
+    const { fields, body } = parseFrontMatter(raw)
+
+    const baseName = file.name.split('/').pop()!.replace(MARKDOWN_EXTENSIONS, '')
+    const heading = body.match(/^\s*#\s+(.+)$/m)
+    const dateInName = baseName.match(/(\d{4})-(\d{2})-(\d{2})/)
+    const createdAt =
+      toUnixSeconds(fields.date ?? fields.created ?? fields.created_at ?? fields.creationdate) ??
+      (dateInName ? toUnixSeconds(`${dateInName[1]}-${dateInName[2]}-${dateInName[3]}T00:00:00Z`) : null) ??
+      Math.floor(file.modifiedAt.getTime() / 1000)
+
+    entries.push({
+      externalId: file.name,
+      title: (fields.title ? String(fields.title) : heading?.[1].trim()) || baseName,
+      text: body.trim(),
+      tags: normalizeTags(fields.tags ?? fields.tag),
+      createdAt,
+    })
+  }
+  return entries
+}
+
+// ============================================
+// Day One
+// ============================================
+
+export function parseDayOneJson(json: any): JournalEntry[] {
+  const list = Array.isArray(json?.entries) ? json.entries : []
+  return list
+    .filter((e: any) => typeof e?.text === 'string' && e.text.trim())
+    .map((e: any, i: number) => {
+      const text = String(e.text).replace(/\\([.!\-#*_()[\]])/g, '$1').trim()
+      const heading = text.match(/^#\s+(.+)$/m)
+      return {
+        externalId: String(e.uuid || i),
+        title: heading ? heading[1].trim() : null,
+        text,
+        tags: normalizeTags(e.tags),
+        createdAt: toUnixSeconds(e.creationDate ?? e.creation_date),
+      }
+    })
+}
+
+// ============================================
+// Evernote ENEX
+// ============================================
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCodePoint(parseInt(n, 16)))
+    .replace(/&amp;/g, '&')
+}
+
+function unwrapCdata(text: string): string {
+  const match = text.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/)
+  return match ? match[1] : decodeEntities(text)
+}
+
+/**
+ * ENML → 纯文本：块级元素换行，列表项加前缀，其余标签去除
+ */
+function enmlToText(enml: string): string {
+  return decodeEntities(
+    enml
+      .replace(/<\?xml[\s\S]*?\?>|<!DOCTYPE[\s\S]*?>/gi, '')
+      .replace(/<en-media[^>]*\/?>(<\/en-media>)?/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li[^>]*>/gi, '- ')
+      .replace(/<en-todo\s+checked="true"[^>]*\/?>/gi, '[x] ')
+      .replace(/<en-todo[^>]*\/?>/gi, '[ ] ')
+      .replace(/<\/(div|p|li|h[1-6]|tr|blockquote)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// ENEX 时间格式：20200101T120000Z
+function parseEnexDate(value: string | undefined): number | null {
+  const m = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/)
+  if (!m) return toUnixSeconds(value)
+  return Math.floor(Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]) / 1000)
+}
+
+export function parseEnex(xml: string): JournalEntry[] {
+  const entries: JournalEntry[] = []
+  const notes = xml.match(/<note>[\s\S]*?<\/note>/g) || []
+  notes.forEach((note, i) => {
+    const pick = (tag: string) => note.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))?.[1]
+    const title = pick('title')
+    const content = pick('content')
+    const text = content ? enmlToText(unwrapCdata(content)) : ''
+    if (!text && !title) return
+    entries.push({
+      externalId: pick('guid') || String(i),
+      title: title ? decodeEntities(title).trim() : null,
+      text,
+      tags: normalizeTags((note.match(/<tag>([\s\S]*?)<\/tag>/g) || []).map(t => decodeEntities(t.slice(5, -6)))),
+      createdAt: parseEnexDate(pick('created')),
+    })
+  })
+  return entries
+}
+
+/**
+ * 解析上传文件；format 未指定时自动识别
+ */
+export async function parseJournalExport(
+  bytes: Uint8Array,
+  format?: JournalFormat | null
+): Promise<{ format: JournalFormat; entries: JournalEntry[] }> {
+  const zipEntries = isZip(bytes) ? await readZip(bytes) : null
+  const resolved = format || detectJournalFormat(bytes, zipEntries)
+  if (!resolved) throw new Error('unsupported_format')
+
+  if (resolved === 'markdown') {
+    if (!zipEntries) throw new Error('markdown_requires_zip')
+    return { format: resolved, entries: parseMarkdownEntries(zipEntries) }
+  }
+
+  if (resolved === 'dayone') {
+    const sources = zipEntries
+      ? zipEntries.filter(e => !isHiddenPath(e.name) && /\.json$/i.test(e.name)).map(e => e.data)
+      : [bytes]
+    const entries: JournalEntry[] = []
+    for (const source of sources) {
+      let json: any
+      try {
+        json = JSON.parse(new TextDecoder().decode(source).replace(/^\uFEFF/, ''))
+      } catch {
+        throw new Error('invalid_json')
+      }
+      entries.push(...parseDayOneJson(json))
+    }
+    return { format: resolved, entries }
+  }
+
+  if (zipEntries) throw new Error('enex_requires_xml')
+  return { format: resolved, entries: parseEnex(new TextDecoder().decode(bytes)) }
+}
@@ -0,0 +1,212 @@
+/**
+ * 记忆 blob 版本与软删除
+ * 每次写入保存为不可变版本（独立对象键 + SHA-256 + 时间），memories.irys_id 指向最新版本；
+ * 删除只写墓碑（memories.deleted_at），保留期内可恢复，过期后由定时任务清除全部版本。
+ */
+
+import type { Env } from '../types'
+import { readConfigValues } from '../utils/config-reader'
+
+export const DEFAULT_RESTORE_WINDOW_DAYS = 30
+const PURGE_BATCH_SIZE = 50
+const PURGE_MAX_BATCHES = 10
+
+export type MemoryBlobVersion = {
+  memory_id: string
+  wallet_address: string
+  version: number
+  storage_ref: string
+  size: number
+  content_hash: string | null
+  created_at: number
+}
+
+export async function ensureMemoryBlobTables(env: Env): Promise<void> {
+  if (!env.DB || (globalThis as any).__memoryBlobTablesReady) return
+  try { await env.DB.prepare(`ALTER TABLE memories ADD COLUMN content_hash TEXT`).run() } catch {}
+  try { await env.DB.prepare(`ALTER TABLE memories ADD COLUMN content_hash_verified_at INTEGER`).run() } catch {}
+  try { await env.DB.prepare(`ALTER TABLE memories ADD COLUMN deleted_at INTEGER`).run() } catch {}
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS memory_blob_versions (
+      memory_id TEXT NOT NULL,
+      wallet_address TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      storage_ref TEXT NOT NULL,
+      size INTEGER NOT NULL DEFAULT 0,
+      content_hash TEXT,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (wallet_address, memory_id, version)
+    )`
+  ).run()
+  ;(globalThis as any).__memoryBlobTablesReady = true
+}
+
+export function getVersionStorageKey(walletAddress: string, memoryId: string, version: number): string {
+  return `memory-blobs/${walletAddress}/${memoryId}/v${version}`
+}
+
+export function getVersionKvKey(walletAddress: string, memoryId: string, version: number): string {
+  return `memory_blob:${walletAddress}:${memoryId}:v${version}`
+}
+
+export async function getRestoreWindowSeconds(env: Env): Promise<number> {
+  const values = await readConfigValues(env, ['memory.blob.restore_window_days'])
+  const raw = values['memory.blob.restore_window_days']
+  const days = raw == null || raw === '' ? NaN : Number(raw)
+  return (Number.isFinite(days) && days >= 0 ? days : DEFAULT_RESTORE_WINDOW_DAYS) * 86400
+}
+
+// 并发保存同一记忆时版本号冲突的重试次数
+const RESERVE_VERSION_ATTEMPTS = 5
+
+/**
+ * 预留下一个版本号并写入版本记录（对象写入前调用，写入失败时用 releaseBlobVersion 回滚）
+ * 首次为旧数据写新版本时，把原有对象登记为 v1，保证历史不丢
+ * 并发保存算出相同版本号时主键冲突，重新读取最新版本后重试
+ */
+export async function reserveBlobVersion(
+  env: Env,
+  walletAddress: string,
+  memoryId: string,
+  storageRef: (version: number) => string,
+  size: number,
+  contentHash: string
+): Promise<number> {
+  await ensureMemoryBlobTables(env)
+  const db = env.DB!
+  const now = Math.floor(Date.now() / 1000)
+
+  for (let attempt = 1; ; attempt++) {
+    const latest = await db.prepare(
+      'SELECT MAX(version) AS version FROM memory_blob_versions WHERE wallet_address = ? AND memory_id = ?'
+    ).bind(walletAddress, memoryId).first() as any
+    let version = Number(latest?.version || 0) + 1
+
+    if (version === 1) {
+      const legacy = await db.prepare(
+        'SELECT irys_id, size, content_hash, created_at FROM memories WHERE id = ? AND wallet_address = ?'
+      ).bind(memoryId, walletAddress).first() as any
+      if (legacy?.irys_id && isStoredRef(legacy.irys_id)) {
+        await db.prepare(
+          `INSERT OR IGNORE INTO memory_blob_versions (memory_id, wallet_address, version, storage_ref, size, content_hash, created_at)
+           VALUES (?, ?, 1, ?, ?, ?, ?)`
+        ).bind(memoryId, walletAddress, legacy.irys_id, Number(legacy.size || 0), legacy.content_hash || null, Number(legacy.created_at || now)).run()
+        version = 2
+      }
+    }
+
+    try {
+      await db.prepare(
+        `INSERT INTO memory_blob_versions (memory_id, wallet_address, version, storage_ref, size, content_hash, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      ).bind(memoryId, walletAddress, version, storageRef(version), size, contentHash, now).run()
+      return version
+    } catch (error: any) {
+      if (attempt >= RESERVE_VERSION_ATTEMPTS || !String(error?.message || '').includes('UNIQUE constraint')) throw error
+    }
+  }
+}
+
+export async function releaseBlobVersion(env: Env, walletAddress: string, memoryId: string, version: number): Promise<void> {
+  await env.DB!.prepare(
+    'DELETE FROM memory_blob_versions WHERE wallet_address = ? AND memory_id = ? AND version = ?'
+  ).bind(walletAddress, memoryId, version).run()
+}
+
+export async function listBlobVersions(env: Env, walletAddress: string, memoryId: string): Promise<MemoryBlobVersion[]> {
+  await ensureMemoryBlobTables(env)
+  const result = await env.DB!.prepare(
+    'SELECT * FROM memory_blob_versions WHERE wallet_address = ? AND memory_id = ? ORDER BY version DESC'
+  ).bind(walletAddress, memoryId).all()
+  return (result.results || []) as unknown as MemoryBlobVersion[]
+}
+
+export async function getBlobVersion(
+  env: Env,
+  walletAddress: string,
+  memoryId: string,
+  version: number
+): Promise<MemoryBlobVersion | null> {
+  await ensureMemoryBlobTables(env)
+  return await env.DB!.prepare(
+    'SELECT * FROM memory_blob_versions WHERE wallet_address = ? AND memory_id = ? AND version = ?'
+  ).bind(walletAddress, memoryId, version).first() as unknown as MemoryBlobVersion | null
+}
+
+function isStoredRef(ref: string): boolean {
+  return ref.startsWith('r2:') || ref.startsWith('kv:')
+}
+
+/**
+ * 读取 r2:/kv: 引用指向的对象字节；对象不存在或引用不在本服务存储时返回 null
+ */
+export async function readBlobRefBytes(
+  env: Env,
+  ref: string
+): Promise<{ bytes: Uint8Array<ArrayBuffer>; contentHash: string | null } | null> {
+  if (ref.startsWith('r2:') && env.R2) {
+    const obj = await env.R2.get(ref.substring('r2:'.length))
+    if (!obj) return null
+    return { bytes: new Uint8Array(await obj.arrayBuffer()), contentHash: obj.customMetadata?.contentHash || null }
+  }
+  if (ref.startsWith('kv:') && env.KV) {
+    const value = await env.KV.get(ref.substring('kv:'.length))
+    if (!value) return null
+    return { bytes: Uint8Array.from(Buffer.from(value, 'base64')), contentHash: null }
+  }
+  return null
+}
+
+/**
+ * 删除 r2:/kv: 引用指向的对象；其它引用（如 Irys ID）不在本服务存储，忽略
+ */
+export async function deleteBlobRef(env: Env, ref: string | null | undefined): Promise<void> {
+  if (!ref) return
+  if (ref.startsWith('r2:') && env.R2) {
+    await env.R2.delete(ref.substring('r2:'.length))
+  } else if (ref.startsWith('kv:') && env.KV) {
+    await env.KV.delete(ref.substring('kv:'.length))
+  }
+}
+
+/**
+ * 永久删除某条记忆的全部版本对象与版本记录
+ */
+export async function deleteAllBlobVersions(env: Env, walletAddress: string, memoryId: string): Promise<number> {
+  if (!env.DB) return 0
+  const versions = await listBlobVersions(env, walletAddress, memoryId)
+  for (const v of versions) await deleteBlobRef(env, v.storage_ref)
+  await env.DB.prepare(
+    'DELETE FROM memory_blob_versions WHERE wallet_address = ? AND memory_id = ?'
+  ).bind(walletAddress, memoryId).run()
+  return versions.length
+}
+
+/**
+ * 清除超过恢复期的墓碑：全部版本对象、版本记录与 memories 行
+ */
+export async function purgeExpiredMemoryBlobs(env: Env, now = Math.floor(Date.now() / 1000)): Promise<number> {
+  if (!env.DB) return 0
+  await ensureMemoryBlobTables(env)
+  const cutoff = now - await getRestoreWindowSeconds(env)
+
+  let purged = 0
+  for (let batch = 0; batch < PURGE_MAX_BATCHES; batch++) {
+    const result = await env.DB.prepare(
+      `SELECT id, wallet_address, irys_id FROM memories
+       WHERE deleted_at IS NOT NULL AND deleted_at <= ?
+       ORDER BY deleted_at ASC LIMIT ?`
+    ).bind(cutoff, PURGE_BATCH_SIZE).all()
+    const rows = (result.results || []) as any[]
+    for (const row of rows) {
+      await deleteAllBlobVersions(env, row.wallet_address, row.id)
+      await deleteBlobRef(env, row.irys_id)
+      await env.DB.prepare(
+        'DELETE FROM memories WHERE id = ? AND wallet_address = ? AND deleted_at IS NOT NULL'
+      ).bind(row.id, row.wallet_address).run()
+      purged++
+    }
+    if (rows.length < PURGE_BATCH_SIZE) break
+  }
+  return purged
+}
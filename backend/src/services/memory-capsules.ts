@@ -0,0 +1,315 @@
+/**
+ * 时间胶囊记忆
+ * 胶囊内容照常通过 blob 路径存储，封存期间 memories 行的 type 置为 'capsule'、content_hash 置空，
+ * 真实元数据保存在 memory_capsules 中，开启时再写回（size 保留用于配额统计）。
+ * 未指定接收方时到期自动开启；指定接收方时到期后需由接收方领取，领取后记忆归属转移给接收方。
+ */
+
+import type { Env } from '../types'
+import { checkStorageQuota } from './storage-quota'
+import {
+  deleteAllBlobVersions,
+  deleteBlobRef,
+  getVersionKvKey,
+  getVersionStorageKey,
+  readBlobRefBytes,
+  reserveBlobVersion,
+} from './memory-blob-store'
+import { getFcmToken, sendFcmNotification } from '../utils/fcm'
+
+export type MemoryCapsuleStatus = 'sealed' | 'claimable' | 'opened' | 'claimed'
+
+export type MemoryCapsule = {
+  memory_id: string
+  owner_wallet: string
+  recipient_wallet: string | null
+  unlock_at: number
+  status: MemoryCapsuleStatus
+  sealed_type: string | null
+  sealed_content_hash: string | null
+  key_envelope: string | null
+  created_at: number
+  opened_at: number | null
+  notified_at: number | null
+  claimed_at: number | null
+}
+
+// 封存期间 memories.type 的占位值，其它按类型处理记忆的流程（导出、Irys 迁移）据此跳过
+export const SEALED_CAPSULE_TYPE = 'capsule'
+export const MAX_CAPSULE_LOCK_SECONDS = 50 * 365 * 86400
+
+export async function ensureMemoryCapsuleTable(env: Env): Promise<void> {
+  if (!env.DB || (globalThis as any).__memoryCapsuleTableReady) return
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS memory_capsules (
+      memory_id TEXT NOT NULL,
+      owner_wallet TEXT NOT NULL,
+      recipient_wallet TEXT,
+      unlock_at INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'sealed',
+      sealed_type TEXT,
+      sealed_content_hash TEXT,
+      key_envelope TEXT,
+      created_at INTEGER NOT NULL,
+      opened_at INTEGER,
+      notified_at INTEGER,
+      claimed_at INTEGER,
+      PRIMARY KEY (owner_wallet, memory_id)
+    )`
+  ).run()
+  await env.DB.prepare(
+    `CREATE INDEX IF NOT EXISTS idx_memory_capsules_unlock ON memory_capsules(status, unlock_at)`
+  ).run()
+  await env.DB.prepare(
+    `CREATE INDEX IF NOT EXISTS idx_memory_capsules_recipient ON memory_capsules(recipient_wallet)`
+  ).run()
+  ;(globalThis as any).__memoryCapsuleTableReady = true
+}
+
+/**
+ * 胶囊按 (所有者, 记忆) 标识，不同钱包使用相同的 memoryId 互不影响
+ */
+export async function getMemoryCapsule(env: Env, ownerWallet: string, memoryId: string): Promise<MemoryCapsule | null> {
+  if (!env.DB) return null
+  await ensureMemoryCapsuleTable(env)
+  return await env.DB.prepare(
+    'SELECT * FROM memory_capsules WHERE owner_wallet = ? AND memory_id = ?'
+  ).bind(ownerWallet, memoryId).first() as unknown as MemoryCapsule | null
+}
+
+/**
+ * 接收方视角的胶囊查询，未领取的优先
+ */
+export async function getIncomingCapsule(env: Env, recipientWallet: string, memoryId: string): Promise<MemoryCapsule | null> {
+  if (!env.DB) return null
+  await ensureMemoryCapsuleTable(env)
+  return await env.DB.prepare(
+    `SELECT * FROM memory_capsules WHERE recipient_wallet = ? AND memory_id = ?
+     ORDER BY CASE WHEN status = 'claimed' THEN 1 ELSE 0 END, created_at DESC LIMIT 1`
+  ).bind(recipientWallet, memoryId).first() as unknown as MemoryCapsule | null
+}
+
+/**
+ * 封存刚写入的记忆：把 memories 行的真实元数据移入胶囊记录
+ */
+export async function sealMemoryCapsule(
+  env: Env,
+  options: { memoryId: string; ownerWallet: string; unlockAt: number; recipientWallet?: string | null; keyEnvelope?: string | null }
+): Promise<MemoryCapsule> {
+  await ensureMemoryCapsuleTable(env)
+  const db = env.DB!
+  const now = Math.floor(Date.now() / 1000)
+  const row = await db.prepare(
+    'SELECT type, content_hash FROM memories WHERE id = ? AND wallet_address = ?'
+  ).bind(options.memoryId, options.ownerWallet).first() as any
+
+  const capsule: MemoryCapsule = {
+    memory_id: options.memoryId,
+    owner_wallet: options.ownerWallet,
+    recipient_wallet: options.recipientWallet || null,
+    unlock_at: options.unlockAt,
+    status: 'sealed',
+    sealed_type: row?.type || null,
+    sealed_content_hash: row?.content_hash || null,
+    key_envelope: options.keyEnvelope || null,
+    created_at: now,
+    opened_at: null,
+    notified_at: null,
+    claimed_at: null,
+  }
+  // 只会覆盖同一所有者已开启的旧胶囊；封存中的胶囊在写入前已被拒绝
+  await db.prepare(
+    `INSERT INTO memory_capsules
+     (memory_id, owner_wallet, recipient_wallet, unlock_at, status, sealed_type, sealed_content_hash, key_envelope, created_at)
+     VALUES (?, ?, ?, ?, 'sealed', ?, ?, ?, ?)
+     ON CONFLICT(owner_wallet, memory_id) DO UPDATE SET
+       recipient_wallet = excluded.recipient_wallet, unlock_at = excluded.unlock_at, status = 'sealed',
+       sealed_type = excluded.sealed_type, sealed_content_hash = excluded.sealed_content_hash,
+       key_envelope = excluded.key_envelope, created_at = excluded.created_at,
+       opened_at = NULL, notified_at = NULL, claimed_at = NULL`
+  ).bind(capsule.memory_id, capsule.owner_wallet, capsule.recipient_wallet, capsule.unlock_at,
+    capsule.sealed_type, capsule.sealed_content_hash, capsule.key_envelope, now).run()
+  await db.prepare(
+    'UPDATE memories SET type = ?, content_hash = NULL WHERE id = ? AND wallet_address = ?'
+  ).bind(SEALED_CAPSULE_TYPE, options.memoryId, options.ownerWallet).run()
+  return capsule
+}
+
+async function openMemoryCapsule(env: Env, capsule: MemoryCapsule, now: number): Promise<void> {
+  await env.DB!.prepare(
+    'UPDATE memories SET type = ?, content_hash = ? WHERE id = ? AND wallet_address = ?'
+  ).bind(capsule.sealed_type || 'text', capsule.sealed_content_hash, capsule.memory_id, capsule.owner_wallet).run()
+  await env.DB!.prepare(
+    `UPDATE memory_capsules SET status = 'opened', opened_at = ? WHERE owner_wallet = ? AND memory_id = ? AND status = 'sealed'`
+  ).bind(now, capsule.owner_wallet, capsule.memory_id).run()
+}
+
+/**
+ * 读取记忆前的胶囊检查：返回 null 表示可读，否则返回仍封存的胶囊
+ * 无接收方的胶囊到期后即便定时任务尚未执行也会在此开启
+ */
+export async function getLockedCapsule(
+  env: Env,
+  ownerWallet: string,
+  memoryId: string,
+  now = Math.floor(Date.now() / 1000)
+): Promise<MemoryCapsule | null> {
+  const capsule = await getMemoryCapsule(env, ownerWallet, memoryId)
+  if (!capsule || capsule.status === 'opened' || capsule.status === 'claimed') return null
+  if (!capsule.recipient_wallet && capsule.unlock_at <= now) {
+    await openMemoryCapsule(env, capsule, now)
+    return null
+  }
+  return capsule
+}
+
+/**
+ * 把服务端托管的当前版本复制到接收方名下，作为接收方的第一个版本；返回新的存储引用
+ * 复制后对象键不再位于所有者前缀下，所有者注销时按前缀清扫不会波及已领取的记忆
+ */
+async function copyBlobToWallet(env: Env, ref: string, walletAddress: string, memoryId: string): Promise<string | null> {
+  const source = await readBlobRefBytes(env, ref)
+  if (!source) return null
+  const digest = await crypto.subtle.digest('SHA-256', source.bytes)
+  const sha256 = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+
+  const inR2 = ref.startsWith('r2:')
+  const refFor = (version: number) => inR2
+    ? `r2:${getVersionStorageKey(walletAddress, memoryId, version)}`
+    : `kv:${getVersionKvKey(walletAddress, memoryId, version)}`
+  const version = await reserveBlobVersion(env, walletAddress, memoryId, refFor, source.bytes.byteLength, sha256)
+  const newRef = refFor(version)
+  if (inR2) {
+    await env.R2!.put(newRef.substring('r2:'.length), source.bytes, {
+      httpMetadata: { contentType: 'application/octet-stream' },
+      customMetadata: {
+        walletAddress,
+        memoryId,
+        contentHash: source.contentHash || sha256,
+        sha256,
+        version: String(version),
+      },
+    })
+  } else {
+    await env.KV!.put(newRef.substring('kv:'.length), Buffer.from(source.bytes).toString('base64'))
+  }
+  return newRef
+}
+
+/**
+ * 接收方领取已到期的胶囊：对象复制到接收方名下，记忆行转给接收方并恢复元数据
+ */
+export async function claimMemoryCapsule(
+  env: Env,
+  recipientWallet: string,
+  memoryId: string,
+  now = Math.floor(Date.now() / 1000)
+): Promise<
+  | { ok: true; capsule: MemoryCapsule }
+  | { ok: false; error: string; status: number; unlockAt?: number; usedBytes?: number; limitBytes?: number; requiredBytes?: number }
+> {
+  const capsule = await getIncomingCapsule(env, recipientWallet, memoryId)
+  if (!capsule) return { ok: false, error: 'not_found', status: 404 }
+  if (capsule.status === 'claimed') return { ok: false, error: 'already_claimed', status: 409 }
+  if (capsule.unlock_at > now) return { ok: false, error: 'memory_sealed', status: 423, unlockAt: capsule.unlock_at }
+
+  const db = env.DB!
+  const row = await db.prepare(
+    'SELECT irys_id, size, deleted_at FROM memories WHERE id = ? AND wallet_address = ?'
+  ).bind(memoryId, capsule.owner_wallet).first() as any
+  if (!row || row.deleted_at) return { ok: false, error: 'capsule_unavailable', status: 410 }
+
+  const quota = await checkStorageQuota(env, recipientWallet, Number(row.size || 0))
+  if (!quota.allowed) return { ok: false, error: 'storage_quota_exceeded', status: 413, ...quota }
+
+  // Irys 上的记忆只转移记录
+  const oldRef = row.irys_id ? String(row.irys_id) : ''
+  let storageRef: string | null = oldRef
+  if (oldRef.startsWith('r2:') || oldRef.startsWith('kv:')) {
+    storageRef = await copyBlobToWallet(env, oldRef, recipientWallet, memoryId)
+    if (!storageRef) return { ok: false, error: 'capsule_unavailable', status: 410 }
+  }
+
+  const user = await db.prepare('SELECT id FROM users WHERE wallet_address = ?').bind(recipientWallet).first() as any
+  const userId = user?.id || `user_${recipientWallet.substring(0, 8)}`
+  await db.prepare(
+    `UPDATE memories SET wallet_address = ?, user_id = ?, type = ?, content_hash = ?, irys_id = ?
+     WHERE id = ? AND wallet_address = ?`
+  ).bind(recipientWallet, userId, capsule.sealed_type || 'text', capsule.sealed_content_hash, storageRef,
+    memoryId, capsule.owner_wallet).run()
+  if (storageRef !== oldRef) {
+    await deleteAllBlobVersions(env, capsule.owner_wallet, memoryId)
+    await deleteBlobRef(env, oldRef)
+  }
+  await db.prepare(
+    `UPDATE memory_capsules SET status = 'claimed', claimed_at = ?, opened_at = COALESCE(opened_at, ?)
+     WHERE owner_wallet = ? AND memory_id = ?`
+  ).bind(now, now, capsule.owner_wallet, memoryId).run()
+
+  return { ok: true, capsule: { ...capsule, status: 'claimed', claimed_at: now } }
+}
+
+/**
+ * 列出自己封存的胶囊与发给自己的胶囊
+ */
+export async function listMemoryCapsules(env: Env, walletAddress: string): Promise<{ sealed: MemoryCapsule[]; incoming: MemoryCapsule[] }> {
+  await ensureMemoryCapsuleTable(env)
+  const result = await env.DB!.prepare(
+    `SELECT * FROM memory_capsules WHERE owner_wallet = ? OR recipient_wallet = ? ORDER BY unlock_at ASC LIMIT 500`
+  ).bind(walletAddress, walletAddress).all()
+  const rows = (result.results || []) as unknown as MemoryCapsule[]
+  return {
+    sealed: rows.filter(c => c.owner_wallet === walletAddress),
+    incoming: rows.filter(c => c.recipient_wallet === walletAddress),
+  }
+}
+
+/**
+ * 处理已到期的胶囊：无接收方的直接开启并通知所有者，有接收方的标记为可领取并通知接收方
+ * 推送失败的胶囊保留 notified_at 为空，下次重试
+ */
+export async function openDueMemoryCapsules(env: Env, now = Math.floor(Date.now() / 1000), limit = 100): Promise<number> {
+  if (!env.DB) return 0
+  await ensureMemoryCapsuleTable(env)
+  const result = await env.DB.prepare(
+    `SELECT * FROM memory_capsules
+     WHERE status IN ('sealed', 'claimable', 'opened') AND notified_at IS NULL AND unlock_at <= ?
+     ORDER BY unlock_at ASC LIMIT ?`
+  ).bind(now, limit).all()
+  const capsules = (result.results || []) as unknown as MemoryCapsule[]
+
+  for (const capsule of capsules) {
+    if (capsule.status === 'sealed') {
+      if (capsule.recipient_wallet) {
+        await env.DB.prepare(
+          `UPDATE memory_capsules SET status = 'claimable' WHERE owner_wallet = ? AND memory_id = ? AND status = 'sealed'`
+        ).bind(capsule.owner_wallet, capsule.memory_id).run()
+      } else {
+        await openMemoryCapsule(env, capsule, now)
+      }
+    }
+
+    const target = capsule.recipient_wallet || capsule.owner_wallet
+    try {
+      const token = await getFcmToken(env.DB, target)
+      if (token) {
+        await sendFcmNotification(env, token, {
+          ...(capsule.recipient_wallet
+            ? { title: '🎁 有一个时间胶囊等你领取', body: '一段封存的记忆已到开启时间，打开应用即可领取' }
+            : { title: '⏳ 时间胶囊已开启', body: '你封存的一段记忆已到开启时间' }),
+          data: {
+            type: 'memory_capsule_opened',
+            memoryId: capsule.memory_id,
+            claimable: capsule.recipient_wallet ? '1' : '0',
+          },
+        })
+      }
+      await env.DB.prepare(
+        'UPDATE memory_capsules SET notified_at = ? WHERE owner_wallet = ? AND memory_id = ?'
+      ).bind(now, capsule.owner_wallet, capsule.memory_id).run()
+    } catch (error) {
+      console.error(`[Memory Capsules] Push failed for ${capsule.memory_id}:`, error)
+    }
+  }
+  return capsules.length
+}
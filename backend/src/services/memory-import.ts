@@ -0,0 +1,299 @@
+/**
+ * 日记导入任务
+ * 服务端把上传的导出文件解析为条目暂存；客户端分页领取待导入条目，在本地加密后走 /api/v1/memories/blob 上传
+ * （可选地经 Embedding 代理生成向量写入 memory_vectors），再逐条确认。未确认的条目保持 pending，中断后可继续。
+ * 条目按正文 SHA-256 去重（同一文件内及与此前导入的条目），重复条目标记为 duplicate 并指向首次出现的条目。
+ * 暂存的明文在确认 / 跳过 / 取消后立即清空，过期任务由定时任务清理。
+ */
+
+import type { Env } from '../types'
+import type { JournalEntry, JournalFormat } from './journal-parsers'
+
+export type MemoryImportStatus = 'active' | 'completed' | 'cancelled' | 'expired'
+export type MemoryImportEntryStatus = 'pending' | 'imported' | 'duplicate' | 'skipped'
+
+export type MemoryImport = {
+  id: string
+  wallet_address: string
+  source: JournalFormat
+  file_name: string | null
+  status: MemoryImportStatus
+  create_vectors: number
+  total_entries: number
+  created_at: number
+  updated_at: number
+  expires_at: number
+}
+
+export type MemoryImportEntry = {
+  import_id: string
+  seq: number
+  wallet_address: string
+  external_id: string | null
+  content_hash: string
+  title: string | null
+  content: string | null
+  tags: string | null
+  original_created_at: number | null
+  status: MemoryImportEntryStatus
+  duplicate_of: string | null
+  memory_id: string | null
+  vectorized: number
+  imported_at: number | null
+}
+
+export const MEMORY_IMPORT_MAX_ENTRIES = 5000
+export const MEMORY_IMPORT_MAX_ENTRY_BYTES = 512 * 1024
+export const MEMORY_IMPORT_RETENTION_DAYS = 7
+const INSERT_BATCH_SIZE = 50
+
+export async function ensureMemoryImportTables(env: Env): Promise<void> {
+  if (!env.DB || (globalThis as any).__memoryImportReady) return
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS memory_imports (
+      id TEXT PRIMARY KEY,
+      wallet_address TEXT NOT NULL,
+      source TEXT NOT NULL,
+      file_name TEXT,
+      status TEXT NOT NULL DEFAULT 'active',
+      create_vectors INTEGER NOT NULL DEFAULT 0,
+      total_entries INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL
+    )`
+  ).run()
+  await env.DB.prepare(
+    `CREATE INDEX IF NOT EXISTS idx_memory_imports_wallet ON memory_imports(wallet_address, created_at DESC)`
+  ).run()
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS memory_import_entries (
+      import_id TEXT NOT NULL,
+      seq INTEGER NOT NULL,
+      wallet_address TEXT NOT NULL,
+      external_id TEXT,
+      content_hash TEXT NOT NULL,
+      title TEXT,
+      content TEXT,
+      tags TEXT,
+      original_created_at INTEGER,
+      status TEXT NOT NULL DEFAULT 'pending',
+      duplicate_of TEXT,
+      memory_id TEXT,
+      vectorized INTEGER NOT NULL DEFAULT 0,
+      imported_at INTEGER,
+      PRIMARY KEY (import_id, seq)
+    )`
+  ).run()
+  await env.DB.prepare(
+    `CREATE INDEX IF NOT EXISTS idx_memory_import_entries_hash ON memory_import_entries(wallet_address, content_hash)`
+  ).run()
+  ;(globalThis as any).__memoryImportReady = true
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// 去重用的规范化：统一换行、去掉首尾空白
+function normalizeForHash(entry: JournalEntry): string {
+  return entry.text.replace(/\r\n?/g, '\n').trim()
+}
+
+/**
+ * 创建导入任务并暂存条目，返回任务与重复条目数
+ */
+export async function createMemoryImport(
+  env: Env,
+  walletAddress: string,
+  source: JournalFormat,
+  entries: JournalEntry[],
+  options: { fileName?: string | null; createVectors?: boolean } = {}
+): Promise<{ job: MemoryImport; duplicates: number; skipped: number }> {
+  await ensureMemoryImportTables(env)
+  const db = env.DB!
+  const now = Math.floor(Date.now() / 1000)
+  const id = crypto.randomUUID()
+
+  const job: MemoryImport = {
+    id,
+    wallet_address: walletAddress,
+    source,
+    file_name: options.fileName || null,
+    status: 'active',
+    create_vectors: options.createVectors ? 1 : 0,
+    total_entries: entries.length,
+    created_at: now,
+    updated_at: now,
+    expires_at: now + MEMORY_IMPORT_RETENTION_DAYS * 86400,
+  }
+  await db.prepare(
+    `INSERT INTO memory_imports (id, wallet_address, source, file_name, status, create_vectors, total_entries, created_at, updated_at, expires_at)
+     VALUES (?, ?, ?, ?, 'active', ?, ?, ?, ?, ?)`
+  ).bind(id, walletAddress, source, job.file_name, job.create_vectors, entries.length, now, now, job.expires_at).run()
+
+  const hashes = await Promise.all(entries.map(e => sha256Hex(normalizeForHash(e))))
+
+  // 此前导入中已出现（未被跳过）的正文
+  const known = new Map<string, string>()
+  const unique = [...new Set(hashes)]
+  for (let i = 0; i < unique.length; i += INSERT_BATCH_SIZE) {
+    const batch = unique.slice(i, i + INSERT_BATCH_SIZE)
+    const rows = await db.prepare(
+      `SELECT import_id, seq, content_hash FROM memory_import_entries
+       WHERE wallet_address = ? AND status IN ('pending', 'imported') AND content_hash IN (${batch.map(() => '?').join(', ')})`
+    ).bind(walletAddress, ...batch).all()
+    for (const row of (rows.results || []) as any[]) {
+      if (!known.has(row.content_hash)) known.set(row.content_hash, `${row.import_id}:${row.seq}`)
+    }
+  }
+
+  let duplicates = 0
+  let skipped = 0
+  const statements: D1PreparedStatement[] = []
+  entries.forEach((entry, seq) => {
+    const hash = hashes[seq]
+    let status: MemoryImportEntryStatus = 'pending'
+    let duplicateOf: string | null = null
+    let content: string | null = entry.text
+    if (!entry.text.trim() || new TextEncoder().encode(entry.text).length > MEMORY_IMPORT_MAX_ENTRY_BYTES) {
+      status = 'skipped'
+      content = null
+      skipped++
+    } else if (known.has(hash)) {
+      status = 'duplicate'
+      duplicateOf = known.get(hash)!
+      content = null
+      duplicates++
+    } else {
+      known.set(hash, `${id}:${seq}`)
+    }
+    statements.push(db.prepare(
+      `INSERT INTO memory_import_entries
+       (import_id, seq, wallet_address, external_id, content_hash, title, content, tags, original_created_at, status, duplicate_of)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(id, seq, walletAddress, entry.externalId, hash, entry.title, content, JSON.stringify(entry.tags),
+      entry.createdAt, status, duplicateOf))
+  })
+  for (let i = 0; i < statements.length; i += INSERT_BATCH_SIZE) {
+    await db.batch(statements.slice(i, i + INSERT_BATCH_SIZE))
+  }
+
+  return { job, duplicates, skipped }
+}
+
+export async function getMemoryImport(env: Env, walletAddress: string, importId: string): Promise<MemoryImport | null> {
+  await ensureMemoryImportTables(env)
+  return await env.DB!.prepare(
+    'SELECT * FROM memory_imports WHERE id = ? AND wallet_address = ?'
+  ).bind(importId, walletAddress).first() as unknown as MemoryImport | null
+}
+
+export async function listMemoryImports(env: Env, walletAddress: string, limit = 20): Promise<MemoryImport[]> {
+  await ensureMemoryImportTables(env)
+  const result = await env.DB!.prepare(
+    'SELECT * FROM memory_imports WHERE wallet_address = ? ORDER BY created_at DESC LIMIT ?'
+  ).bind(walletAddress, limit).all()
+  return (result.results || []) as unknown as MemoryImport[]
+}
+
+export async function getMemoryImportProgress(env: Env, importId: string): Promise<Record<MemoryImportEntryStatus, number> & { vectorized: number }> {
+  const counts = { pending: 0, imported: 0, duplicate: 0, skipped: 0, vectorized: 0 }
+  const result = await env.DB!.prepare(
+    `SELECT status, COUNT(*) AS cnt, SUM(vectorized) AS vectorized
+     FROM memory_import_entries WHERE import_id = ? GROUP BY status`
+  ).bind(importId).all()
+  for (const row of (result.results || []) as any[]) {
+    counts[row.status as MemoryImportEntryStatus] = Number(row.cnt || 0)
+    counts.vectorized += Number(row.vectorized || 0)
+  }
+  return counts
+}
+
+/**
+ * 按 seq 顺序分页读取条目（默认只读 pending，用于续传）
+ */
+export async function listMemoryImportEntries(
+  env: Env,
+  importId: string,
+  options: { status?: MemoryImportEntryStatus; afterSeq?: number; limit?: number } = {}
+): Promise<MemoryImportEntry[]> {
+  const limit = Math.max(1, Math.min(200, options.limit || 50))
+  const result = await env.DB!.prepare(
+    `SELECT * FROM memory_import_entries
+     WHERE import_id = ? AND status = ? AND seq > ?
+     ORDER BY seq ASC LIMIT ?`
+  ).bind(importId, options.status || 'pending', options.afterSeq ?? -1, limit).all()
+  return (result.results || []) as unknown as MemoryImportEntry[]
+}
+
+/**
+ * 确认条目已导入（或跳过），清空暂存正文；全部处理完后任务标记为 completed
+ */
+export async function acknowledgeMemoryImportEntries(
+  env: Env,
+  job: MemoryImport,
+  acks: Array<{ seq: number; memoryId?: string | null; vectorized?: boolean; skip?: boolean }>
+): Promise<{ updated: number; completed: boolean }> {
+  const db = env.DB!
+  const now = Math.floor(Date.now() / 1000)
+  const statements = acks.map(ack => ack.skip || !ack.memoryId
+    ? db.prepare(
+      `UPDATE memory_import_entries SET status = 'skipped', content = NULL, imported_at = ?
+       WHERE import_id = ? AND seq = ? AND status = 'pending'`
+    ).bind(now, job.id, ack.seq)
+    : db.prepare(
+      `UPDATE memory_import_entries SET status = 'imported', content = NULL, memory_id = ?, vectorized = ?, imported_at = ?
+       WHERE import_id = ? AND seq = ? AND status = 'pending'`
+    ).bind(ack.memoryId, ack.vectorized ? 1 : 0, now, job.id, ack.seq))
+
+  let updated = 0
+  for (let i = 0; i < statements.length; i += INSERT_BATCH_SIZE) {
+    const results = await db.batch(statements.slice(i, i + INSERT_BATCH_SIZE))
+    for (const r of results) updated += Number(r.meta?.changes || 0)
+  }
+
+  const remaining = await db.prepare(
+    `SELECT COUNT(*) AS cnt FROM memory_import_entries WHERE import_id = ? AND status = 'pending'`
+  ).bind(job.id).first() as any
+  const completed = Number(remaining?.cnt || 0) === 0
+  await db.prepare(
+    `UPDATE memory_imports SET status = ?, updated_at = ? WHERE id = ?`
+  ).bind(completed ? 'completed' : job.status, now, job.id).run()
+  return { updated, completed }
+}
+
+/**
+ * 取消导入：未处理的条目标记为 skipped 并清空正文
+ */
+export async function cancelMemoryImport(env: Env, job: MemoryImport): Promise<void> {
+  const now = Math.floor(Date.now() / 1000)
+  await env.DB!.prepare(
+    `UPDATE memory_import_entries SET status = 'skipped', content = NULL WHERE import_id = ? AND status = 'pending'`
+  ).bind(job.id).run()
+  await env.DB!.prepare(
+    `UPDATE memory_imports SET status = 'cancelled', updated_at = ? WHERE id = ?`
+  ).bind(now, job.id).run()
+}
+
+/**
+ * 清理过期任务的暂存正文（保留哈希用于后续去重）
+ */
+export async function expireMemoryImports(env: Env, now = Math.floor(Date.now() / 1000)): Promise<number> {
+  if (!env.DB) return 0
+  await ensureMemoryImportTables(env)
+  const result = await env.DB.prepare(
+    `SELECT id FROM memory_imports WHERE status = 'active' AND expires_at <= ? LIMIT 100`
+  ).bind(now).all()
+  const rows = (result.results || []) as any[]
+  for (const row of rows) {
+    await env.DB.prepare(
+      `UPDATE memory_import_entries SET status = 'skipped', content = NULL WHERE import_id = ? AND status = 'pending'`
+    ).bind(row.id).run()
+    await env.DB.prepare(
+      `UPDATE memory_imports SET status = 'expired', updated_at = ? WHERE id = ?`
+    ).bind(now, row.id).run()
+  }
+  return rows.length
+}
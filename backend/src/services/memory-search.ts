@@ -0,0 +1,154 @@
+/**
+ * 记忆向量检索
+ * 供 /api/v1/vectors/search 与 AI 代理的服务端工具共用
+ * 已建立 IVF 索引的钱包走近似检索，否则暴力扫描全部向量
+ */
+
+import type { Env } from '../types'
+import { MIN_INDEX_SIZE, requestMemoryIndex, searchMemoryIndex } from './vector-index'
+
+export type MemorySearchHit = {
+  memoryId: string
+  similarity: number
+  textPreview: string
+  textLength: number
+  memoryType: string
+  sourceId?: string
+  sourceType?: string
+  createdAt: number
+}
+
+/**
+ * 计算余弦相似度
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0
+
+  let dotProduct = 0
+  let normA = 0
+  let normB = 0
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+
+  if (normA === 0 || normB === 0) return 0
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+export type MemoryFilters = {
+  memoryTypes?: string[]
+  sourceTypes?: string[]
+  createdAfter?: number | null
+  createdBefore?: number | null
+}
+
+/**
+ * 生成过滤条件 SQL 片段（以 AND 开头，可直接拼在 WHERE wallet_address = ? 之后）
+ */
+export function buildMemoryFilterSql(filters: MemoryFilters): { sql: string; params: any[] } {
+  let sql = ''
+  const params: any[] = []
+  if (filters.memoryTypes?.length) {
+    sql += ` AND memory_type IN (${filters.memoryTypes.map(() => '?').join(', ')})`
+    params.push(...filters.memoryTypes)
+  }
+  if (filters.sourceTypes?.length) {
+    sql += ` AND source_type IN (${filters.sourceTypes.map(() => '?').join(', ')})`
+    params.push(...filters.sourceTypes)
+  }
+  if (filters.createdAfter != null) {
+    sql += ' AND created_at >= ?'
+    params.push(filters.createdAfter)
+  }
+  if (filters.createdBefore != null) {
+    sql += ' AND created_at <= ?'
+    params.push(filters.createdBefore)
+  }
+  return { sql, params }
+}
+
+export function toHit(row: any, similarity: number): MemorySearchHit {
+  return {
+    memoryId: row.memory_id,
+    similarity,
+    textPreview: row.text_preview,
+    textLength: row.text_length,
+    memoryType: row.memory_type,
+    sourceId: row.source_id,
+    sourceType: row.source_type,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * 在用户的记忆向量中做相似度检索
+ * 仅按单个 memoryType 过滤时走索引，其它过滤条件直接在 SQL 中收窄后暴力检索。
+ * total 为超过阈值的向量数；走索引时只统计重排候选集，totalExact = false，total 是下界
+ * 只比较与查询向量同维度的行；传入 model 时进一步限定为同一 Embedding 模型
+ */
+export async function searchMemoryVectors(
+  env: Env,
+  walletAddress: string,
+  queryVector: number[],
+  options: { topK?: number; threshold?: number; memoryType?: string | null; filters?: MemoryFilters; model?: string | null } = {}
+): Promise<{ results: MemorySearchHit[]; total: number; totalExact: boolean }> {
+  const topK = options.topK ?? 5
+  const threshold = options.threshold ?? 0.7
+  const filters: MemoryFilters = { ...options.filters }
+  if (options.memoryType && !filters.memoryTypes?.length) filters.memoryTypes = [options.memoryType]
+
+  const memoryTypes = filters.memoryTypes || []
+  const indexable = memoryTypes.length <= 1 && !filters.sourceTypes?.length &&
+    filters.createdAfter == null && filters.createdBefore == null
+
+  if (indexable) {
+    const indexed = await searchMemoryIndex(env, walletAddress, queryVector, { topK, memoryType: memoryTypes[0], model: options.model })
+    if (indexed) {
+      const hits = indexed
+        .filter((h) => h.similarity >= threshold)
+        .sort((a, b) => b.similarity - a.similarity)
+        .map((h) => toHit(h.row, h.similarity))
+      return { results: hits.slice(0, topK), total: hits.length, totalExact: false }
+    }
+  }
+
+  const filter = buildMemoryFilterSql(filters)
+  let query = `
+    SELECT memory_id, vector_json, text_preview, text_length, memory_type,
+           source_id, source_type, created_at
+    FROM memory_vectors
+    WHERE wallet_address = ? AND vector_dimension = ?${filter.sql}
+  `
+  const params: any[] = [walletAddress, queryVector.length, ...filter.params]
+  if (options.model) {
+    query += ' AND model = ?'
+    params.push(options.model)
+  }
+
+  const result = await env.DB!.prepare(query).bind(...params).all()
+
+  const similarities: MemorySearchHit[] = []
+  for (const row of (result.results || []) as any[]) {
+    const storedVector = JSON.parse(row.vector_json)
+    const similarity = cosineSimilarity(queryVector, storedVector)
+
+    if (similarity >= threshold) {
+      similarities.push(toHit(row, similarity))
+    }
+  }
+
+  // 存量用户首次达到索引规模时交给定时任务建索引
+  const rows = result.results || []
+  // 按模型过滤后的行数只会偏少，达到规模即可建索引
+  if (memoryTypes.length === 0 && filter.params.length === 0 && rows.length >= MIN_INDEX_SIZE) {
+    await requestMemoryIndex(env, walletAddress)
+  }
+
+  // 按相似度降序排序
+  similarities.sort((a, b) => b.similarity - a.similarity)
+
+  return { results: similarities.slice(0, topK), total: similarities.length, totalExact: true }
+}
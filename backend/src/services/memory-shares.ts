@@ -0,0 +1,194 @@
+/**
+ * 记忆分享授权
+ * 所有者为单条记忆创建分享：随机分享 ID、过期时间、最大查看次数、可选接收方钱包。
+ * 公开路由 /s/:shareId 直接读取记忆当前的存储对象（与 /api/v1/memories/blob 相同的 R2 / KV 键）下发密文；
+ * 解密密钥由客户端包装后放在链接的 URL fragment 中，不会发送到服务端。
+ * 每次访问（含被拒绝的访问）记录到 memory_share_views。
+ */
+
+import type { Env } from '../types'
+
+export type MemoryShare = {
+  id: string
+  memory_id: string
+  wallet_address: string
+  recipient_wallet: string | null
+  expires_at: number
+  max_views: number | null
+  view_count: number
+  created_at: number
+  revoked_at: number | null
+  last_viewed_at: number | null
+}
+
+export type MemoryShareView = {
+  id: number
+  share_id: string
+  viewer_wallet: string | null
+  ip_hash: string | null
+  user_agent: string | null
+  outcome: string
+  viewed_at: number
+}
+
+export const DEFAULT_SHARE_TTL_SECONDS = 7 * 86400
+export const MAX_SHARE_TTL_SECONDS = 90 * 86400
+export const MAX_SHARE_VIEWS = 1000
+
+export async function ensureMemoryShareTables(env: Env): Promise<void> {
+  if (!env.DB || (globalThis as any).__memoryShareTablesReady) return
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS memory_shares (
+      id TEXT PRIMARY KEY,
+      memory_id TEXT NOT NULL,
+      wallet_address TEXT NOT NULL,
+      recipient_wallet TEXT,
+      expires_at INTEGER NOT NULL,
+      max_views INTEGER,
+      view_count INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      revoked_at INTEGER,
+      last_viewed_at INTEGER
+    )`
+  ).run()
+  await env.DB.prepare(
+    `CREATE INDEX IF NOT EXISTS idx_memory_shares_wallet ON memory_shares(wallet_address, memory_id)`
+  ).run()
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS memory_share_views (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      share_id TEXT NOT NULL,
+      wallet_address TEXT NOT NULL,
+      viewer_wallet TEXT,
+      ip_hash TEXT,
+      user_agent TEXT,
+      outcome TEXT NOT NULL,
+      viewed_at INTEGER NOT NULL
+    )`
+  ).run()
+  await env.DB.prepare(
+    `CREATE INDEX IF NOT EXISTS idx_memory_share_views_share ON memory_share_views(share_id, viewed_at DESC)`
+  ).run()
+  ;(globalThis as any).__memoryShareTablesReady = true
+}
+
+// 128 位随机分享 ID（base64url）
+function generateShareId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return Buffer.from(bytes).toString('base64url')
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export async function createMemoryShare(
+  env: Env,
+  options: { walletAddress: string; memoryId: string; expiresAt: number; maxViews?: number | null; recipientWallet?: string | null }
+): Promise<MemoryShare> {
+  await ensureMemoryShareTables(env)
+  const share: MemoryShare = {
+    id: generateShareId(),
+    memory_id: options.memoryId,
+    wallet_address: options.walletAddress,
+    recipient_wallet: options.recipientWallet || null,
+    expires_at: options.expiresAt,
+    max_views: options.maxViews ?? null,
+    view_count: 0,
+    created_at: Math.floor(Date.now() / 1000),
+    revoked_at: null,
+    last_viewed_at: null,
+  }
+  await env.DB!.prepare(
+    `INSERT INTO memory_shares (id, memory_id, wallet_address, recipient_wallet, expires_at, max_views, view_count, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, 0, ?)`
+  ).bind(share.id, share.memory_id, share.wallet_address, share.recipient_wallet, share.expires_at, share.max_views, share.created_at).run()
+  return share
+}
+
+export async function getMemoryShare(env: Env, shareId: string): Promise<MemoryShare | null> {
+  if (!env.DB) return null
+  await ensureMemoryShareTables(env)
+  return await env.DB.prepare(
+    'SELECT * FROM memory_shares WHERE id = ?'
+  ).bind(shareId).first() as unknown as MemoryShare | null
+}
+
+export async function listMemoryShares(env: Env, walletAddress: string, memoryId?: string | null): Promise<MemoryShare[]> {
+  await ensureMemoryShareTables(env)
+  const result = memoryId
+    ? await env.DB!.prepare(
+      'SELECT * FROM memory_shares WHERE wallet_address = ? AND memory_id = ? ORDER BY created_at DESC LIMIT 200'
+    ).bind(walletAddress, memoryId).all()
+    : await env.DB!.prepare(
+      'SELECT * FROM memory_shares WHERE wallet_address = ? ORDER BY created_at DESC LIMIT 200'
+    ).bind(walletAddress).all()
+  return (result.results || []) as unknown as MemoryShare[]
+}
+
+export async function revokeMemoryShare(env: Env, walletAddress: string, shareId: string): Promise<MemoryShare | null> {
+  await ensureMemoryShareTables(env)
+  const now = Math.floor(Date.now() / 1000)
+  await env.DB!.prepare(
+    'UPDATE memory_shares SET revoked_at = ? WHERE id = ? AND wallet_address = ? AND revoked_at IS NULL'
+  ).bind(now, shareId, walletAddress).run()
+  const share = await getMemoryShare(env, shareId)
+  return share && share.wallet_address === walletAddress ? share : null
+}
+
+/**
+ * 分享当前是否可用；不可用时返回原因
+ */
+export function getShareDenial(share: MemoryShare, now = Math.floor(Date.now() / 1000)): string | null {
+  if (share.revoked_at) return 'share_revoked'
+  if (share.expires_at <= now) return 'share_expired'
+  if (share.max_views != null && share.view_count >= share.max_views) return 'share_exhausted'
+  return null
+}
+
+/**
+ * 原子地占用一次查看次数，返回占用后的 view_count；并发访问超出 max_views 时返回 null
+ */
+export async function consumeShareView(env: Env, share: MemoryShare, now = Math.floor(Date.now() / 1000)): Promise<number | null> {
+  const row = await env.DB!.prepare(
+    `UPDATE memory_shares SET view_count = view_count + 1, last_viewed_at = ?
+     WHERE id = ? AND revoked_at IS NULL AND expires_at > ? AND (max_views IS NULL OR view_count < max_views)
+     RETURNING view_count`
+  ).bind(now, share.id, now).first<{ view_count: number }>()
+  return row ? Number(row.view_count) : null
+}
+
+/**
+ * 记录访问；IP 只保存哈希
+ */
+export async function logShareView(
+  env: Env,
+  share: MemoryShare,
+  view: { outcome: string; viewerWallet?: string | null; ip?: string | null; userAgent?: string | null }
+): Promise<void> {
+  try {
+    await env.DB!.prepare(
+      `INSERT INTO memory_share_views (share_id, wallet_address, viewer_wallet, ip_hash, user_agent, outcome, viewed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      share.id,
+      share.wallet_address,
+      view.viewerWallet || null,
+      view.ip ? (await sha256Hex(`${share.id}:${view.ip}`)).slice(0, 16) : null,
+      view.userAgent ? view.userAgent.slice(0, 200) : null,
+      view.outcome,
+      Math.floor(Date.now() / 1000)
+    ).run()
+  } catch (error) {
+    console.error('[Memory Shares] Failed to log view:', error)
+  }
+}
+
+export async function listShareViews(env: Env, shareId: string, limit = 100): Promise<MemoryShareView[]> {
+  await ensureMemoryShareTables(env)
+  const result = await env.DB!.prepare(
+    'SELECT * FROM memory_share_views WHERE share_id = ? ORDER BY viewed_at DESC, id DESC LIMIT ?'
+  ).bind(shareId, limit).all()
+  return (result.results || []) as unknown as MemoryShareView[]
+}
@@ -0,0 +1,261 @@
+/**
+ * 人格变化历史
+ * user_persona / user_persona_profile_v2 每次被写入后追加一条 OCEAN 快照（含来源），
+ * 用于返回各维度的变化轨迹，并检测一段时间内的大幅漂移。
+ * 两处存储的分值口径不同（V2 为 Beta 均值），快照按 store 分开，轨迹与漂移只在同一存储内比较。
+ */
+
+import type { Env } from '../types'
+import { readConfigValues } from '../utils/config-reader'
+import { OCEAN_TRAITS, OceanScores, OceanTrait } from './persona-scoring'
+
+export type PersonaSnapshotSource = 'questionnaire' | 'increment' | 'chat_inference' | 'manual'
+
+export const PERSONA_SNAPSHOT_SOURCES: PersonaSnapshotSource[] = ['questionnaire', 'increment', 'chat_inference', 'manual']
+
+export type PersonaSnapshotStore = 'persona' | 'profile_v2'
+
+export const PERSONA_SNAPSHOT_STORES: PersonaSnapshotStore[] = ['persona', 'profile_v2']
+
+export type PersonaSnapshot = OceanScores & {
+  id: number
+  wallet_address: string
+  store: PersonaSnapshotStore
+  source: PersonaSnapshotSource
+  sample_size: number | null
+  created_at: number
+}
+
+export type PersonaTrajectoryPoint = OceanScores & {
+  at: number
+  sources: PersonaSnapshotSource[]
+  count: number
+}
+
+export type PersonaDriftReport = {
+  threshold: number
+  windowDays: number
+  flagged: boolean
+  baselineAt: number | null
+  currentAt: number | null
+  traits: { trait: OceanTrait; from: number; to: number; delta: number }[]
+  shifts: { trait: OceanTrait; at: number; source: PersonaSnapshotSource; delta: number }[]
+}
+
+export const DEFAULT_DRIFT_THRESHOLD = 0.15
+export const DEFAULT_DRIFT_WINDOW_DAYS = 30
+export const MAX_HISTORY_SNAPSHOTS = 5000
+export const MAX_TRAJECTORY_POINTS = 500
+
+export async function ensurePersonaHistoryTable(env: Env): Promise<void> {
+  if (!env.DB || (globalThis as any).__personaHistoryTableReady) return
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS persona_snapshots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      wallet_address TEXT NOT NULL,
+      store TEXT NOT NULL DEFAULT 'persona',
+      source TEXT NOT NULL,
+      openness REAL NOT NULL,
+      conscientiousness REAL NOT NULL,
+      extraversion REAL NOT NULL,
+      agreeableness REAL NOT NULL,
+      neuroticism REAL NOT NULL,
+      sample_size INTEGER,
+      created_at INTEGER NOT NULL
+    )`
+  ).run()
+  await env.DB.prepare(
+    `CREATE INDEX IF NOT EXISTS idx_persona_snapshots_wallet ON persona_snapshots(wallet_address, store, created_at)`
+  ).run()
+  ;(globalThis as any).__personaHistoryTableReady = true
+}
+
+export async function getDriftSettings(env: Env): Promise<{ threshold: number; windowDays: number }> {
+  const values = await readConfigValues(env, ['persona.drift_threshold', 'persona.drift_window_days'])
+  const rawThreshold = values['persona.drift_threshold']
+  const rawWindow = values['persona.drift_window_days']
+  const threshold = rawThreshold == null || rawThreshold === '' ? NaN : Number(rawThreshold)
+  const windowDays = rawWindow == null || rawWindow === '' ? NaN : Number(rawWindow)
+  return {
+    threshold: Number.isFinite(threshold) && threshold > 0 ? threshold : DEFAULT_DRIFT_THRESHOLD,
+    windowDays: Number.isFinite(windowDays) && windowDays > 0 ? windowDays : DEFAULT_DRIFT_WINDOW_DAYS,
+  }
+}
+
+/**
+ * 从人格画像 V2（各维度 Beta 分布 alpha/beta）取均值；缺少任一维度时返回 null
+ */
+export function scoresFromProfileV2(profile: any): OceanScores | null {
+  const ocean = profile?.ocean
+  if (!ocean || typeof ocean !== 'object') return null
+  const scores = {} as OceanScores
+  for (const trait of OCEAN_TRAITS) {
+    const alpha = Number(ocean[trait]?.alpha)
+    const beta = Number(ocean[trait]?.beta)
+    if (!Number.isFinite(alpha) || !Number.isFinite(beta) || alpha + beta <= 0) return null
+    scores[trait] = Math.max(0, Math.min(1, alpha / (alpha + beta)))
+  }
+  return scores
+}
+
+/**
+ * 追加一条快照；失败只记录日志，不影响人格数据本身的写入
+ */
+export async function recordPersonaSnapshot(
+  env: Env,
+  walletAddress: string,
+  source: PersonaSnapshotSource,
+  scores: OceanScores,
+  sampleSize: number | null = null,
+  store: PersonaSnapshotStore = 'persona'
+): Promise<void> {
+  try {
+    await ensurePersonaHistoryTable(env)
+    await env.DB!.prepare(
+      `INSERT INTO persona_snapshots
+       (wallet_address, store, source, openness, conscientiousness, extraversion, agreeableness, neuroticism, sample_size, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      walletAddress,
+      store,
+      source,
+      scores.openness,
+      scores.conscientiousness,
+      scores.extraversion,
+      scores.agreeableness,
+      scores.neuroticism,
+      sampleSize,
+      Math.floor(Date.now() / 1000)
+    ).run()
+  } catch (error) {
+    console.error('[Persona History] Failed to record snapshot:', error)
+  }
+}
+
+/**
+ * 读取当前 user_persona 行并记录快照（用于部分字段更新之后）
+ */
+export async function recordCurrentPersonaSnapshot(env: Env, walletAddress: string, source: PersonaSnapshotSource): Promise<void> {
+  try {
+    const row = await env.DB!.prepare(
+      `SELECT openness, conscientiousness, extraversion, agreeableness, neuroticism, sample_size
+       FROM user_persona WHERE wallet_address = ?`
+    ).bind(walletAddress).first() as any
+    if (!row) return
+    await recordPersonaSnapshot(env, walletAddress, source, row as OceanScores, row.sample_size ?? null)
+  } catch (error) {
+    console.error('[Persona History] Failed to read persona for snapshot:', error)
+  }
+}
+
+export async function listPersonaSnapshots(
+  env: Env,
+  walletAddress: string,
+  options: { store?: PersonaSnapshotStore; from?: number | null; to?: number | null; source?: PersonaSnapshotSource | null } = {}
+): Promise<PersonaSnapshot[]> {
+  await ensurePersonaHistoryTable(env)
+  const where = ['wallet_address = ?', 'store = ?']
+  const params: any[] = [walletAddress, options.store || 'persona']
+  if (options.from != null) {
+    where.push('created_at >= ?')
+    params.push(options.from)
+  }
+  if (options.to != null) {
+    where.push('created_at <= ?')
+    params.push(options.to)
+  }
+  if (options.source) {
+    where.push('source = ?')
+    params.push(options.source)
+  }
+  // 取最近的 MAX_HISTORY_SNAPSHOTS 条，再按时间正序返回
+  const result = await env.DB!.prepare(
+    `SELECT * FROM persona_snapshots WHERE ${where.join(' AND ')}
+     ORDER BY created_at DESC, id DESC LIMIT ?`
+  ).bind(...params, MAX_HISTORY_SNAPSHOTS).all()
+  return ((result.results || []) as unknown as PersonaSnapshot[]).reverse()
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+/**
+ * 生成轨迹；快照数超过 maxPoints 时按等长时间区间分桶取均值，时间取桶内最后一条
+ */
+export function buildPersonaTrajectory(snapshots: PersonaSnapshot[], maxPoints?: number | null): PersonaTrajectoryPoint[] {
+  const toPoint = (group: PersonaSnapshot[]): PersonaTrajectoryPoint => {
+    const point = {
+      at: group[group.length - 1].created_at,
+      sources: [...new Set(group.map(s => s.source))],
+      count: group.length,
+    } as PersonaTrajectoryPoint
+    for (const trait of OCEAN_TRAITS) {
+      point[trait] = round3(group.reduce((sum, s) => sum + Number(s[trait]), 0) / group.length)
+    }
+    return point
+  }
+
+  if (!maxPoints || snapshots.length <= maxPoints) return snapshots.map(s => toPoint([s]))
+
+  const start = snapshots[0].created_at
+  const span = Math.max(1, snapshots[snapshots.length - 1].created_at - start + 1)
+  const buckets: PersonaSnapshot[][] = []
+  for (const snapshot of snapshots) {
+    const index = Math.min(maxPoints - 1, Math.floor(((snapshot.created_at - start) / span) * maxPoints))
+    ;(buckets[index] ||= []).push(snapshot)
+  }
+  return buckets.filter(Boolean).map(toPoint)
+}
+
+/**
+ * 漂移检测：以最新快照对比窗口起点之前最后一条快照（没有则取最早一条），
+ * 任一维度变化达到阈值即标记；同时列出窗口内相邻快照间的单次大幅跳变。
+ * 只比较与最新快照同一存储的快照
+ */
+export function detectPersonaDrift(
+  allSnapshots: PersonaSnapshot[],
+  settings: { threshold: number; windowDays: number }
+): PersonaDriftReport {
+  const report: PersonaDriftReport = {
+    threshold: settings.threshold,
+    windowDays: settings.windowDays,
+    flagged: false,
+    baselineAt: null,
+    currentAt: null,
+    traits: [],
+    shifts: [],
+  }
+  const latest = allSnapshots[allSnapshots.length - 1]
+  const snapshots = latest ? allSnapshots.filter(s => s.store === latest.store) : []
+  if (snapshots.length < 2) return report
+
+  const current = snapshots[snapshots.length - 1]
+  const windowStart = current.created_at - settings.windowDays * 86400
+  let baselineIndex = 0
+  for (let i = 0; i < snapshots.length - 1; i++) {
+    if (snapshots[i].created_at <= windowStart) baselineIndex = i
+  }
+  const baseline = snapshots[baselineIndex]
+  report.baselineAt = baseline.created_at
+  report.currentAt = current.created_at
+
+  for (const trait of OCEAN_TRAITS) {
+    const delta = round3(Number(current[trait]) - Number(baseline[trait]))
+    if (Math.abs(delta) >= settings.threshold) {
+      report.traits.push({ trait, from: round3(Number(baseline[trait])), to: round3(Number(current[trait])), delta })
+    }
+  }
+
+  for (let i = baselineIndex + 1; i < snapshots.length; i++) {
+    for (const trait of OCEAN_TRAITS) {
+      const delta = round3(Number(snapshots[i][trait]) - Number(snapshots[i - 1][trait]))
+      if (Math.abs(delta) >= settings.threshold) {
+        report.shifts.push({ trait, at: snapshots[i].created_at, source: snapshots[i].source, delta })
+      }
+    }
+  }
+  report.shifts = report.shifts.slice(-20)
+  report.flagged = report.traits.length > 0 || report.shifts.length > 0
+  return report
+}
@@ -0,0 +1,313 @@
+/**
+ * 问卷人格评分
+ * 服务端依据题目定义（维度、反向计分、权重）从问卷答案重新计算 OCEAN 分数，
+ * 客户端上报的 personaScores 只用于交叉校验。
+ * 题库与 App 的 OnboardingQuestions 保持一致；修改题目或计分规则时必须提升 PERSONA_SCORING_VERSION。
+ */
+
+import type { Env } from '../types'
+
+export type OceanTrait = 'openness' | 'conscientiousness' | 'extraversion' | 'agreeableness' | 'neuroticism'
+
+export type OceanScores = Record<OceanTrait, number>
+
+export const OCEAN_TRAITS: OceanTrait[] = ['openness', 'conscientiousness', 'extraversion', 'agreeableness', 'neuroticism']
+
+export const PERSONA_SCORING_VERSION = 'onboarding-v1'
+
+/**
+ * 单选题定义；options 按 App 中的顺序排列，每项为 [中文, English]
+ * 默认第一个选项代表该维度最高分，reverse 为 true 时第一个选项代表最低分
+ */
+export type PersonaItem = {
+  id: number
+  trait: OceanTrait
+  reverse: boolean
+  weight: number
+  options: [string, string][]
+}
+
+// 开放式题目（1、3）不参与计分
+export const PERSONA_ITEMS: PersonaItem[] = [
+  {
+    id: 2, trait: 'openness', reverse: false, weight: 1,
+    options: [
+      ['非常喜欢尝试新鲜事物，充满好奇', 'Love trying new things, full of curiosity'],
+      ['比较喜欢尝试，但会谨慎选择', 'Like trying, but choose carefully'],
+      ['一般，偶尔会尝试', 'Average, occasionally try'],
+      ['不太喜欢，更喜欢熟悉的事物', 'Prefer familiar things over new ones'],
+    ],
+  },
+  {
+    id: 4, trait: 'openness', reverse: false, weight: 1,
+    options: [
+      ['抽象的、理论的概念（如哲学、理论）', 'Abstract, theoretical concepts'],
+      ['两者都喜欢，看情况而定', 'Like both, depends on situation'],
+      ['具体的、实际的事物（如技能、操作）', 'Concrete, practical things'],
+    ],
+  },
+  {
+    id: 5, trait: 'conscientiousness', reverse: false, weight: 1,
+    options: [
+      ['有详细的计划和清单，严格执行', 'Detailed plans and lists, strictly followed'],
+      ['有大致的计划，灵活调整', 'Rough plans, adjusted flexibly'],
+      ['随性而为，凭感觉安排', 'Spontaneous, arranged by feeling'],
+      ['经常拖延，最后赶工完成', 'Often procrastinate, rush at the end'],
+    ],
+  },
+  {
+    id: 6, trait: 'conscientiousness', reverse: false, weight: 1,
+    options: [
+      ['非常整洁，物品分类摆放', 'Very tidy, items categorized'],
+      ['基本整洁，偶尔有点乱', 'Basically tidy, occasionally messy'],
+      ['比较凌乱，但能找到东西', 'Messy, but can find things'],
+      ['很乱，经常找不到东西', 'Very messy, often lose things'],
+    ],
+  },
+  {
+    id: 7, trait: 'conscientiousness', reverse: false, weight: 1,
+    options: [
+      ['提前很多天开始，分步骤完成', 'Start days ahead, step by step'],
+      ['提前几天开始准备', 'Start a few days early'],
+      ['临近截止日期才开始', 'Start near the deadline'],
+      ['经常需要延期或匆忙完成', 'Often need extension or rush'],
+    ],
+  },
+  {
+    id: 8, trait: 'conscientiousness', reverse: false, weight: 1,
+    options: [
+      ['非常自律，能坚持既定计划', 'Very disciplined, stick to plans'],
+      ['比较自律，大部分时候能坚持', 'Quite disciplined, stick to plans mostly'],
+      ['一般，容易受外界影响', 'Average, easily influenced'],
+      ['自律性较弱，经常半途而废', 'Weak discipline, often give up'],
+    ],
+  },
+  {
+    id: 9, trait: 'extraversion', reverse: false, weight: 1,
+    options: [
+      ['非常喜欢和朋友在一起，越热闹越好', 'Love being with friends, the livelier the better'],
+      ['喜欢社交，但也需要独处时间', 'Like socializing, but need alone time'],
+      ['两者都可以，看心情而定', 'Both are fine, depends on mood'],
+      ['更喜欢独处，社交会让我疲惫', 'Prefer being alone, socializing is tiring'],
+    ],
+  },
+  {
+    id: 10, trait: 'extraversion', reverse: false, weight: 1,
+    options: [
+      ['主动者，喜欢带动气氛', 'Initiator, like to liven up atmosphere'],
+      ['积极参与者，会主动聊天', 'Active participant, chat proactively'],
+      ['观察者，适度参与交流', 'Observer, participate moderately'],
+      ['倾听者，较少主动发言', 'Listener, speak less proactively'],
+    ],
+  },
+  {
+    id: 11, trait: 'extraversion', reverse: false, weight: 1,
+    options: [
+      ['社交活动（聚会、交流）', 'Social activities (parties, networking)'],
+      ['两者都可以，取决于状态', 'Both, depends on state'],
+      ['独处活动（阅读、思考、独自爱好）', 'Solitary activities (reading, thinking, hobbies)'],
+    ],
+  },
+  {
+    id: 12, trait: 'extraversion', reverse: false, weight: 1,
+    options: [
+      ['朋友很多，喜欢认识新朋友', 'Many friends, like meeting new people'],
+      ['有一定数量的朋友，偶尔结交新朋友', 'Some friends, occasionally meet new ones'],
+      ['朋友不多，但关系紧密', 'Few friends, but close relationships'],
+      ['朋友很少，不太喜欢结交新朋友', 'Very few friends, dislike meeting new people'],
+    ],
+  },
+  // 最后一项“避免冲突”并非最不宜人，选项不完全单调，降低权重
+  {
+    id: 13, trait: 'agreeableness', reverse: false, weight: 0.5,
+    options: [
+      ['耐心倾听，寻求共识和妥协', 'Listen patiently, seek consensus'],
+      ['表达自己的观点，但尊重对方', 'Express views, but respect others'],
+      ['坚持自己的立场，据理力争', 'Insist on own stance, argue'],
+      ['避免冲突，保持沉默或退让', 'Avoid conflict, remain silent or yield'],
+    ],
+  },
+  {
+    id: 14, trait: 'agreeableness', reverse: false, weight: 1,
+    options: [
+      ['非常乐意帮助，主动提供帮助', 'Very willing, offer help proactively'],
+      ['愿意帮助，但视情况而定', 'Willing, but depends on situation'],
+      ['看心情和关系，有选择地帮助', 'Depends on mood/relationship, selective'],
+      ['更注重自己的事情，较少帮助他人', 'Focus on self, help others less'],
+    ],
+  },
+  {
+    id: 15, trait: 'agreeableness', reverse: false, weight: 1,
+    options: [
+      ['团队和谐与协作', 'Team harmony and collaboration'],
+      ['两者平衡，都很重要', 'Balance of both, both important'],
+      ['个人贡献与成就', 'Individual contribution and achievement'],
+    ],
+  },
+  {
+    id: 16, trait: 'agreeableness', reverse: false, weight: 1,
+    options: [
+      ['容易看到别人的优点，比较信任他人', 'See strengths, trust others'],
+      ['客观看待，优缺点都会注意', 'Objective, notice both pros/cons'],
+      ['容易注意到缺点，保持警惕', 'Notice flaws, remain vigilant'],
+    ],
+  },
+  {
+    id: 17, trait: 'neuroticism', reverse: true, weight: 1,
+    options: [
+      ['保持冷静，理性分析应对', 'Stay calm, analyze rationally'],
+      ['有些紧张，但能逐渐调整', 'A bit nervous, but can adjust'],
+      ['容易焦虑，需要时间缓解', 'Anxious, need time to relieve'],
+      ['非常焦虑，难以应对', 'Very anxious, hard to cope'],
+    ],
+  },
+  {
+    id: 18, trait: 'neuroticism', reverse: true, weight: 1,
+    options: [
+      ['情绪非常稳定，很少波动', 'Very stable, rarely fluctuate'],
+      ['比较稳定，偶尔会有起伏', 'Quite stable, occasional ups/downs'],
+      ['情绪波动较大，容易受影响', 'Fluctuate, easily influenced'],
+      ['情绪很不稳定，经常起伏', 'Unstable, frequent ups/downs'],
+    ],
+  },
+  {
+    id: 19, trait: 'neuroticism', reverse: true, weight: 1,
+    options: [
+      ['很快恢复，几乎不受影响', 'Recover quickly, barely affected'],
+      ['几小时到一天内能调整过来', 'Hours to a day to adjust'],
+      ['需要几天时间才能恢复', 'Need a few days to recover'],
+      ['需要很长时间，难以走出', 'Take long time, hard to move on'],
+    ],
+  },
+  {
+    id: 20, trait: 'neuroticism', reverse: true, weight: 1,
+    options: [
+      ['灵活适应，享受变化带来的新鲜感', 'Adapt flexibly, enjoy novelty'],
+      ['能够适应，虽然需要一些时间', 'Can adapt, though takes time'],
+      ['感到不安，但勉强能应对', 'Uneasy, but can cope barely'],
+      ['非常不安，很难适应变化', 'Very uneasy, hard to adapt'],
+    ],
+  },
+]
+
+// 与客户端分数的差值超过该阈值时视为不一致
+export const CLIENT_SCORE_TOLERANCE = 0.2
+
+export type PersonaScoringResult = {
+  version: string
+  scores: Partial<OceanScores>
+  // 各维度已作答题目的权重之和
+  weights: Partial<OceanScores>
+  answered: number[]
+  missing: number[]
+  invalid: number[]
+  complete: boolean
+}
+
+export type PersonaCrossCheck = {
+  consistent: boolean
+  maxDelta: number
+  deltas: OceanScores
+}
+
+function normalizeOption(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * 将答案解析为选项下标：支持数字下标（0 起）或选项原文（中英文均可）
+ */
+function resolveOptionIndex(item: PersonaItem, value: unknown): number | null {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const obj = value as Record<string, unknown>
+    value = obj.optionIndex ?? obj.answer ?? obj.originalAnswer ?? null
+  }
+  if (typeof value === 'number' || (typeof value === 'string' && /^\s*\d+\s*$/.test(value))) {
+    const index = Number(value)
+    return Number.isInteger(index) && index >= 0 && index < item.options.length ? index : null
+  }
+  if (typeof value !== 'string' || !value.trim()) return null
+  const normalized = normalizeOption(value)
+  const index = item.options.findIndex(labels => labels.some(label => normalizeOption(label) === normalized))
+  return index >= 0 ? index : null
+}
+
+/**
+ * 按当前版本的题库计算 OCEAN 分数（0-1）
+ * 答案的键与 App 一致，取其中的题号数字（如 "2"、"q2"、"question_2"）；题库之外的题目忽略
+ * 某一维度没有任何有效作答时该维度不出分，complete 为 false
+ */
+export function scorePersonaAnswers(answers: Record<string, unknown>): PersonaScoringResult {
+  const byId = new Map(PERSONA_ITEMS.map(item => [item.id, item]))
+  const chosen = new Map<number, number>()
+  const invalid = new Set<number>()
+
+  for (const [key, value] of Object.entries(answers || {})) {
+    const id = Number(key.match(/(\d+)/)?.[1])
+    const item = byId.get(id)
+    if (!item) continue
+    const index = resolveOptionIndex(item, value)
+    if (index == null) {
+      invalid.add(id)
+    } else {
+      chosen.set(id, index)
+      invalid.delete(id)
+    }
+  }
+
+  const totals = new Map<OceanTrait, { sum: number; weight: number }>()
+  for (const item of PERSONA_ITEMS) {
+    const index = chosen.get(item.id)
+    if (index == null) continue
+    const position = index / (item.options.length - 1)
+    const value = item.reverse ? position : 1 - position
+    const total = totals.get(item.trait) || { sum: 0, weight: 0 }
+    total.sum += value * item.weight
+    total.weight += item.weight
+    totals.set(item.trait, total)
+  }
+
+  const scores: Partial<OceanScores> = {}
+  const weights: Partial<OceanScores> = {}
+  for (const trait of OCEAN_TRAITS) {
+    const total = totals.get(trait)
+    if (total && total.weight > 0) {
+      scores[trait] = Math.round((total.sum / total.weight) * 1000) / 1000
+      weights[trait] = total.weight
+    }
+  }
+
+  return {
+    version: PERSONA_SCORING_VERSION,
+    scores,
+    weights,
+    answered: PERSONA_ITEMS.filter(item => chosen.has(item.id)).map(item => item.id),
+    missing: PERSONA_ITEMS.filter(item => !chosen.has(item.id) && !invalid.has(item.id)).map(item => item.id),
+    invalid: [...invalid].sort((a, b) => a - b),
+    complete: OCEAN_TRAITS.every(trait => scores[trait] != null),
+  }
+}
+
+/**
+ * 将客户端上报的分数与服务端分数对比；客户端未提供完整分数时返回 null
+ */
+export function crossCheckClientScores(serverScores: OceanScores, clientScores: unknown): PersonaCrossCheck | null {
+  if (!clientScores || typeof clientScores !== 'object') return null
+  const client = clientScores as Record<string, unknown>
+  if (!OCEAN_TRAITS.every(trait => typeof client[trait] === 'number' && Number.isFinite(client[trait]))) return null
+
+  const deltas = {} as OceanScores
+  let maxDelta = 0
+  for (const trait of OCEAN_TRAITS) {
+    const delta = Math.round(((client[trait] as number) - serverScores[trait]) * 1000) / 1000
+    deltas[trait] = delta
+    maxDelta = Math.max(maxDelta, Math.abs(delta))
+  }
+  return { consistent: maxDelta <= CLIENT_SCORE_TOLERANCE, maxDelta, deltas }
+}
+
+export async function ensurePersonaScoringColumns(env: Env): Promise<void> {
+  if (!env.DB || (globalThis as any).__personaScoringColumnsReady) return
+  try { await env.DB.prepare(`ALTER TABLE user_persona ADD COLUMN scoring_version TEXT`).run() } catch {}
+  ;(globalThis as any).__personaScoringColumnsReady = true
+}
@@ -0,0 +1,244 @@
+/**
+ * 人格增量更新
+ * 每个维度保存证据量（Beta 分布的伪样本数），随时间按半衰期衰减。
+ * 新信号按置信度（对话的 relevance_score / detected_traits）加权做贝叶斯更新，
+ * 单条信号对任一维度的改变量不超过 max_signal_step，避免一次情绪化对话大幅改写人格。
+ */
+
+import type { Env } from '../types'
+import { readConfigValues } from '../utils/config-reader'
+import { OCEAN_TRAITS, OceanScores, OceanTrait } from './persona-scoring'
+
+export type TraitEvidence = { evidence: number; updatedAt: number }
+
+export type PersonaSignal = {
+  // 各维度的观测值（0-1），未给出的维度不更新
+  observations: Partial<OceanScores>
+  // 信号置信度（0-1）
+  confidence: number
+  // 信号明确涉及的维度；为空时全部按 confidence 计
+  corroborated?: OceanTrait[] | null
+  // 信号产生时间（秒），较旧的信号同样按半衰期降权
+  observedAt?: number | null
+}
+
+export type PersonaUpdateSettings = { halfLifeDays: number; maxStep: number }
+
+export type PersonaTraitUpdate = { from: number; to: number; weight: number }
+
+export const DEFAULT_EVIDENCE_HALF_LIFE_DAYS = 90
+export const DEFAULT_MAX_SIGNAL_STEP = 0.05
+export const DEFAULT_SIGNAL_CONFIDENCE = 0.5
+// 未关联 chat_messages 的信号由客户端自报置信度，最高按该值计
+export const MAX_CLIENT_SIGNAL_CONFIDENCE = 0.5
+// 无证据时默认值 0.5 视为 2 个伪样本，首条信号不会直接覆盖
+export const PRIOR_EVIDENCE = 2
+export const MAX_EVIDENCE = 200
+// 问卷每道计分题（按权重）折算的证据量
+export const QUESTIONNAIRE_ITEM_EVIDENCE = 2
+// 未在 detected_traits 中出现的维度只按一半置信度计
+const UNCORROBORATED_FACTOR = 0.5
+
+const TRAIT_ALIASES: Record<string, OceanTrait> = {
+  openness: 'openness',
+  conscientiousness: 'conscientiousness',
+  extraversion: 'extraversion',
+  agreeableness: 'agreeableness',
+  neuroticism: 'neuroticism',
+  开放性: 'openness',
+  尽责性: 'conscientiousness',
+  外向性: 'extraversion',
+  宜人性: 'agreeableness',
+  神经质: 'neuroticism',
+}
+
+export async function ensurePersonaEvidenceTable(env: Env): Promise<void> {
+  if (!env.DB || (globalThis as any).__personaEvidenceTableReady) return
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS persona_trait_evidence (
+      wallet_address TEXT NOT NULL,
+      trait TEXT NOT NULL,
+      evidence REAL NOT NULL DEFAULT 0,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (wallet_address, trait)
+    )`
+  ).run()
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS persona_applied_signals (
+      wallet_address TEXT NOT NULL,
+      message_id TEXT NOT NULL,
+      applied_at INTEGER NOT NULL,
+      PRIMARY KEY (wallet_address, message_id)
+    )`
+  ).run()
+  ;(globalThis as any).__personaEvidenceTableReady = true
+}
+
+/**
+ * 占用一条消息的信号：同一条消息只计入一次，重放时返回 false
+ */
+export async function claimPersonaSignal(
+  env: Env,
+  walletAddress: string,
+  messageId: string,
+  now = Math.floor(Date.now() / 1000)
+): Promise<boolean> {
+  await ensurePersonaEvidenceTable(env)
+  const result = await env.DB!.prepare(
+    `INSERT INTO persona_applied_signals (wallet_address, message_id, applied_at)
+     VALUES (?, ?, ?)
+     ON CONFLICT(wallet_address, message_id) DO NOTHING`
+  ).bind(walletAddress, messageId, now).run()
+  return Number(result.meta?.changes || 0) > 0
+}
+
+/**
+ * 客户端自报的置信度：非法值按默认值，超过上限的截断
+ */
+export function clientSignalConfidence(raw: unknown): number {
+  const value = raw == null || raw === '' ? NaN : Number(raw)
+  if (!Number.isFinite(value)) return DEFAULT_SIGNAL_CONFIDENCE
+  return Math.max(0, Math.min(MAX_CLIENT_SIGNAL_CONFIDENCE, value))
+}
+
+export async function getPersonaUpdateSettings(env: Env): Promise<PersonaUpdateSettings> {
+  const values = await readConfigValues(env, ['persona.evidence_half_life_days', 'persona.max_signal_step'])
+  const rawHalfLife = values['persona.evidence_half_life_days']
+  const rawStep = values['persona.max_signal_step']
+  const halfLifeDays = rawHalfLife == null || rawHalfLife === '' ? NaN : Number(rawHalfLife)
+  const maxStep = rawStep == null || rawStep === '' ? NaN : Number(rawStep)
+  return {
+    halfLifeDays: Number.isFinite(halfLifeDays) && halfLifeDays > 0 ? halfLifeDays : DEFAULT_EVIDENCE_HALF_LIFE_DAYS,
+    maxStep: Number.isFinite(maxStep) && maxStep > 0 && maxStep <= 1 ? maxStep : DEFAULT_MAX_SIGNAL_STEP,
+  }
+}
+
+/**
+ * 把 chat_messages.detected_traits 中的 OCEAN 维度名（中英文）解析出来
+ */
+export function parseDetectedTraits(raw: unknown): OceanTrait[] {
+  let list: unknown = raw
+  if (typeof raw === 'string') {
+    try { list = JSON.parse(raw) } catch { return [] }
+  }
+  if (!Array.isArray(list)) return []
+  const traits = new Set<OceanTrait>()
+  for (const item of list) {
+    const trait = TRAIT_ALIASES[String(item).trim().toLowerCase()]
+    if (trait) traits.add(trait)
+  }
+  return [...traits]
+}
+
+// 秒或毫秒时间戳统一为秒
+export function toSeconds(timestamp: number): number {
+  return timestamp > 1e12 ? Math.floor(timestamp / 1000) : Math.floor(timestamp)
+}
+
+export function decayEvidence(evidence: number, ageSeconds: number, halfLifeDays: number): number {
+  if (!(evidence > 0)) return 0
+  if (ageSeconds <= 0) return evidence
+  return evidence * Math.pow(0.5, ageSeconds / (halfLifeDays * 86400))
+}
+
+/**
+ * 与 App 的 TraitDistributionV2.confidence 一致：ln(1 + n) / ln(41)
+ */
+export function traitConfidence(evidence: number): number {
+  if (!(evidence > 0)) return 0
+  return Math.round(Math.min(1, Math.log(1 + evidence) / Math.log(41)) * 1000) / 1000
+}
+
+export async function getTraitEvidence(env: Env, walletAddress: string): Promise<Partial<Record<OceanTrait, TraitEvidence>>> {
+  await ensurePersonaEvidenceTable(env)
+  const result = await env.DB!.prepare(
+    'SELECT trait, evidence, updated_at FROM persona_trait_evidence WHERE wallet_address = ?'
+  ).bind(walletAddress).all()
+  const state: Partial<Record<OceanTrait, TraitEvidence>> = {}
+  for (const row of (result.results || []) as any[]) {
+    if (OCEAN_TRAITS.includes(row.trait)) {
+      state[row.trait as OceanTrait] = { evidence: Number(row.evidence) || 0, updatedAt: Number(row.updated_at) || 0 }
+    }
+  }
+  return state
+}
+
+export async function saveTraitEvidence(
+  env: Env,
+  walletAddress: string,
+  evidence: Partial<Record<OceanTrait, number>>,
+  now = Math.floor(Date.now() / 1000)
+): Promise<void> {
+  await ensurePersonaEvidenceTable(env)
+  for (const trait of OCEAN_TRAITS) {
+    const value = evidence[trait]
+    if (value == null) continue
+    await env.DB!.prepare(
+      `INSERT INTO persona_trait_evidence (wallet_address, trait, evidence, updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(wallet_address, trait) DO UPDATE SET
+         evidence = excluded.evidence,
+         updated_at = excluded.updated_at`
+    ).bind(walletAddress, trait, Math.min(MAX_EVIDENCE, value), now).run()
+  }
+}
+
+/**
+ * 各维度当前置信度（证据量先按半衰期衰减到 now）
+ */
+export async function getPersonaConfidence(
+  env: Env,
+  walletAddress: string,
+  now = Math.floor(Date.now() / 1000)
+): Promise<OceanScores> {
+  const [state, settings] = await Promise.all([getTraitEvidence(env, walletAddress), getPersonaUpdateSettings(env)])
+  const confidence = {} as OceanScores
+  for (const trait of OCEAN_TRAITS) {
+    const entry = state[trait]
+    confidence[trait] = entry ? traitConfidence(decayEvidence(entry.evidence, now - entry.updatedAt, settings.halfLifeDays)) : 0
+  }
+  return confidence
+}
+
+/**
+ * 计算一条信号带来的更新（纯函数）：
+ * 现有证据衰减到 now 后与信号做加权平均，改变量截断到 maxStep
+ */
+export function applyPersonaSignal(
+  current: OceanScores,
+  state: Partial<Record<OceanTrait, TraitEvidence>>,
+  signal: PersonaSignal,
+  settings: PersonaUpdateSettings,
+  now = Math.floor(Date.now() / 1000)
+): { scores: OceanScores; evidence: Partial<Record<OceanTrait, number>>; updates: Partial<Record<OceanTrait, PersonaTraitUpdate>> } {
+  const scores = { ...current }
+  const evidence: Partial<Record<OceanTrait, number>> = {}
+  const updates: Partial<Record<OceanTrait, PersonaTraitUpdate>> = {}
+
+  const confidence = Math.max(0, Math.min(1, Number(signal.confidence) || 0))
+  const age = signal.observedAt != null ? Math.max(0, now - signal.observedAt) : 0
+  const freshness = decayEvidence(1, age, settings.halfLifeDays)
+  const corroborated = signal.corroborated && signal.corroborated.length > 0 ? signal.corroborated : null
+
+  for (const trait of OCEAN_TRAITS) {
+    const observed = signal.observations[trait]
+    if (observed == null || !Number.isFinite(observed)) continue
+    const target = Math.max(0, Math.min(1, observed))
+    const weight = confidence * freshness * (corroborated && !corroborated.includes(trait) ? UNCORROBORATED_FACTOR : 1)
+
+    const entry = state[trait]
+    const prior = entry ? decayEvidence(entry.evidence, now - entry.updatedAt, settings.halfLifeDays) : 0
+    const from = Number(current[trait])
+    let to = from
+    if (weight > 0) {
+      const strength = Math.max(prior, PRIOR_EVIDENCE)
+      const posterior = (from * strength + target * weight) / (strength + weight)
+      to = from + Math.max(-settings.maxStep, Math.min(settings.maxStep, posterior - from))
+    }
+    scores[trait] = Math.max(0, Math.min(1, to))
+    evidence[trait] = prior + weight
+    updates[trait] = { from, to: scores[trait], weight: Math.round(weight * 1000) / 1000 }
+  }
+
+  return { scores, evidence, updates }
+}
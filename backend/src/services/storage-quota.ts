@@ -0,0 +1,187 @@
+/**
+ * 记忆 blob 存储配额与用量统计
+ * 用量按实际占用计算：R2 / KV 中的全部版本（含软删除待清除的数据）计入配额，已迁移到 Irys 的数据只统计不计入。
+ * 限额按档位（免费 / 订阅 / 质押）取 quota.storage_*_mb，再乘 Tier 倍数与管理员覆盖倍数。
+ */
+
+import type { Env } from '../types'
+import { ensureMemoryBlobTables } from './memory-blob-store'
+import { loadQuotaConfig, loadQuotaUser, readTierMultiplier, resolveQuotaPlan, QuotaPlan } from './ai-quota'
+
+export type StorageBackend = 'r2' | 'kv' | 'irys'
+
+export type StorageUsage = {
+  usedBytes: number
+  deletedBytes: number
+  byBackend: Record<StorageBackend, { bytes: number; objects: number }>
+  byType: Record<string, number>
+}
+
+export type StorageQuota = {
+  plan: QuotaPlan
+  tier: number
+  limitBytes: number
+}
+
+// 未配置 app_config 时的兜底值（MB）
+export const DEFAULT_STORAGE_QUOTA_MB: Record<QuotaPlan, number> = {
+  free: 100,
+  subscriber: 2048,
+  staker: 10240,
+}
+
+const MB = 1024 * 1024
+
+const BACKEND_SQL = (column: string) =>
+  `CASE WHEN ${column} LIKE 'r2:%' THEN 'r2' WHEN ${column} LIKE 'kv:%' THEN 'kv' ELSE 'irys' END`
+
+function emptyUsage(): StorageUsage {
+  return {
+    usedBytes: 0,
+    deletedBytes: 0,
+    byBackend: { r2: { bytes: 0, objects: 0 }, kv: { bytes: 0, objects: 0 }, irys: { bytes: 0, objects: 0 } },
+    byType: {},
+  }
+}
+
+/**
+ * 统计钱包的存储用量
+ * 有版本记录的记忆按版本累加；没有版本记录的旧数据与 Irys 数据按 memories.size 计
+ */
+export async function getStorageUsage(env: Env, walletAddress: string): Promise<StorageUsage> {
+  const usage = emptyUsage()
+  if (!env.DB) return usage
+  await ensureMemoryBlobTables(env)
+
+  const versioned = await env.DB.prepare(
+    `SELECT COALESCE(m.type, 'text') AS type, ${BACKEND_SQL('v.storage_ref')} AS backend,
+            CASE WHEN m.deleted_at IS NULL THEN 0 ELSE 1 END AS deleted,
+            SUM(v.size) AS bytes, COUNT(*) AS objects
+     FROM memory_blob_versions v
+     LEFT JOIN memories m ON m.id = v.memory_id AND m.wallet_address = v.wallet_address
+     WHERE v.wallet_address = ?
+     GROUP BY 1, 2, 3`
+  ).bind(walletAddress).all()
+
+  const unversioned = await env.DB.prepare(
+    `SELECT COALESCE(m.type, 'text') AS type, ${BACKEND_SQL('m.irys_id')} AS backend,
+            CASE WHEN m.deleted_at IS NULL THEN 0 ELSE 1 END AS deleted,
+            SUM(m.size) AS bytes, COUNT(*) AS objects
+     FROM memories m
+     WHERE m.wallet_address = ? AND m.irys_id IS NOT NULL AND m.irys_id != ''
+       AND (${BACKEND_SQL('m.irys_id')} = 'irys' OR NOT EXISTS (
+         SELECT 1 FROM memory_blob_versions v WHERE v.wallet_address = m.wallet_address AND v.memory_id = m.id
+       ))
+     GROUP BY 1, 2, 3`
+  ).bind(walletAddress).all()
+
+  for (const row of [...(versioned.results || []), ...(unversioned.results || [])] as any[]) {
+    const backend = row.backend as StorageBackend
+    const bytes = Number(row.bytes || 0)
+    usage.byBackend[backend].bytes += bytes
+    usage.byBackend[backend].objects += Number(row.objects || 0)
+    usage.byType[row.type] = (usage.byType[row.type] || 0) + bytes
+    if (backend !== 'irys') {
+      usage.usedBytes += bytes
+      if (row.deleted) usage.deletedBytes += bytes
+    }
+  }
+  return usage
+}
+
+/**
+ * 解析钱包的存储限额
+ */
+export async function resolveStorageQuota(env: Env, walletAddress: string): Promise<StorageQuota> {
+  const user = await loadQuotaUser(env, walletAddress)
+  const config = await loadQuotaConfig(env)
+  const { plan, tier } = resolveQuotaPlan(user)
+
+  const raw = Number(config[`quota.storage_${plan}_mb`])
+  let limitBytes = (Number.isFinite(raw) && raw >= 0 ? raw : DEFAULT_STORAGE_QUOTA_MB[plan]) * MB
+  limitBytes *= readTierMultiplier(config, tier)
+
+  if (user?.id && env.DB) {
+    const override = await env.DB.prepare(
+      `SELECT custom_multiplier FROM user_quota_overrides
+       WHERE user_id = ? AND (expires_at IS NULL OR expires_at > ?)
+       LIMIT 1`
+    ).bind(user.id, Math.floor(Date.now() / 1000)).first() as any
+    const multiplier = Number(override?.custom_multiplier)
+    if (Number.isFinite(multiplier) && multiplier > 0) limitBytes *= multiplier
+  }
+
+  return { plan, tier, limitBytes: Math.floor(limitBytes) }
+}
+
+/**
+ * 写入前检查配额；未配置 D1 时无法统计，直接放行
+ */
+export async function checkStorageQuota(
+  env: Env,
+  walletAddress: string,
+  incomingBytes: number
+): Promise<{ allowed: boolean; usedBytes: number; limitBytes: number; requiredBytes: number }> {
+  if (!env.DB) return { allowed: true, usedBytes: 0, limitBytes: 0, requiredBytes: incomingBytes }
+  const [usage, quota] = await Promise.all([
+    getStorageUsage(env, walletAddress),
+    resolveStorageQuota(env, walletAddress),
+  ])
+  return {
+    allowed: usage.usedBytes + incomingBytes <= quota.limitBytes,
+    usedBytes: usage.usedBytes,
+    limitBytes: quota.limitBytes,
+    requiredBytes: incomingBytes,
+  }
+}
+
+/**
+ * 全站存储统计（管理后台）
+ */
+export async function getGlobalStorageStats(env: Env, topN = 10): Promise<{
+  totalBytes: number
+  byBackend: Record<StorageBackend, { bytes: number; objects: number }>
+  topWallets: Array<{ walletAddress: string; bytes: number }>
+}> {
+  const byBackend = emptyUsage().byBackend
+  if (!env.DB) return { totalBytes: 0, byBackend, topWallets: [] }
+  await ensureMemoryBlobTables(env)
+
+  const versioned = await env.DB.prepare(
+    `SELECT ${BACKEND_SQL('storage_ref')} AS backend, SUM(size) AS bytes, COUNT(*) AS objects
+     FROM memory_blob_versions GROUP BY 1`
+  ).all()
+  const unversioned = await env.DB.prepare(
+    `SELECT ${BACKEND_SQL('m.irys_id')} AS backend, SUM(m.size) AS bytes, COUNT(*) AS objects
+     FROM memories m
+     WHERE m.irys_id IS NOT NULL AND m.irys_id != ''
+       AND (${BACKEND_SQL('m.irys_id')} = 'irys' OR NOT EXISTS (
+         SELECT 1 FROM memory_blob_versions v WHERE v.wallet_address = m.wallet_address AND v.memory_id = m.id
+       ))
+     GROUP BY 1`
+  ).all()
+  for (const row of [...(versioned.results || []), ...(unversioned.results || [])] as any[]) {
+    const backend = row.backend as StorageBackend
+    byBackend[backend].bytes += Number(row.bytes || 0)
+    byBackend[backend].objects += Number(row.objects || 0)
+  }
+
+  const top = await env.DB.prepare(
+    `SELECT wallet_address, SUM(size) AS bytes FROM (
+       SELECT wallet_address, size FROM memory_blob_versions
+       WHERE storage_ref LIKE 'r2:%' OR storage_ref LIKE 'kv:%'
+       UNION ALL
+       SELECT m.wallet_address, m.size FROM memories m
+       WHERE (m.irys_id LIKE 'r2:%' OR m.irys_id LIKE 'kv:%') AND NOT EXISTS (
+         SELECT 1 FROM memory_blob_versions v WHERE v.wallet_address = m.wallet_address AND v.memory_id = m.id
+       )
+     )
+     GROUP BY wallet_address ORDER BY bytes DESC LIMIT ?`
+  ).bind(topN).all()
+
+  return {
+    totalBytes: byBackend.r2.bytes + byBackend.kv.bytes,
+    byBackend,
+    topWallets: ((top.results || []) as any[]).map((r) => ({ walletAddress: r.wallet_address, bytes: Number(r.bytes || 0) })),
+  }
+}
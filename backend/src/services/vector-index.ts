@@ -0,0 +1,487 @@
+/**
+ * 记忆向量近似最近邻索引（IVF + 二值量化）
+ * - 每个钱包独立训练 √N 个球面 k-means 质心（倒排列表），向量按符号位量化为二值码存入 D1
+ * - 检索时只探测最近的若干列表，用汉明距离粗排，再取候选的原始向量精确重排
+ * - 新增 / 删除向量时增量维护；规模翻倍或尚未建立索引时由定时任务重建，并记录相对暴力检索的 recall@k
+ */
+
+import type { Env } from '../types'
+
+export type IndexEntry = { memoryId: string; vector: number[]; memoryType?: string | null }
+
+export type VectorIndexMeta = {
+  wallet_address: string
+  dimension: number | null
+  n_lists: number
+  trained_count: number
+  indexed_count: number
+  needs_rebuild: number
+  recall_at_k: number | null
+  recall_k: number | null
+  built_at: number | null
+  updated_at: number | null
+}
+
+// 向量数少于该值时直接暴力检索
+export const MIN_INDEX_SIZE = 256
+const MAX_LISTS = 256
+const KMEANS_SAMPLE = 2048
+const KMEANS_ITERATIONS = 8
+const RERANK_FACTOR = 10
+const MIN_SHORTLIST = 50
+const RECALL_QUERIES = 20
+const RECALL_K = 10
+const WRITE_CHUNK = 50
+
+const POPCOUNT = (() => {
+  const table = new Uint8Array(256)
+  for (let i = 0; i < 256; i++) table[i] = (i & 1) + table[i >> 1]
+  return table
+})()
+
+const centroidCache = new Map<string, { builtAt: number; centroids: number[][] }>()
+
+export async function ensureVectorIndexTables(env: Env): Promise<void> {
+  if (!env.DB || (globalThis as any).__vectorIndexReady) return
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS memory_vector_index (
+      memory_id TEXT PRIMARY KEY,
+      wallet_address TEXT NOT NULL,
+      list_id INTEGER NOT NULL,
+      memory_type TEXT,
+      code TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    )`
+  ).run()
+  await env.DB.prepare(
+    `CREATE INDEX IF NOT EXISTS idx_memory_vector_index_list ON memory_vector_index(wallet_address, list_id)`
+  ).run()
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS memory_vector_centroids (
+      wallet_address TEXT NOT NULL,
+      list_id INTEGER NOT NULL,
+      centroid_json TEXT NOT NULL,
+      size INTEGER DEFAULT 0,
+      PRIMARY KEY (wallet_address, list_id)
+    )`
+  ).run()
+  await env.DB.prepare(
+    `CREATE TABLE IF NOT EXISTS memory_vector_index_meta (
+      wallet_address TEXT PRIMARY KEY,
+      dimension INTEGER,
+      n_lists INTEGER DEFAULT 0,
+      trained_count INTEGER DEFAULT 0,
+      indexed_count INTEGER DEFAULT 0,
+      needs_rebuild INTEGER DEFAULT 0,
+      recall_at_k REAL,
+      recall_k INTEGER,
+      built_at INTEGER,
+      updated_at INTEGER
+    )`
+  ).run()
+  ;(globalThis as any).__vectorIndexReady = true
+}
+
+// ============================================
+// 量化与距离
+// ============================================
+
+function normalize(v: number[]): number[] {
+  let norm = 0
+  for (let i = 0; i < v.length; i++) norm += v[i] * v[i]
+  norm = Math.sqrt(norm)
+  if (norm === 0) return v.slice()
+  return v.map((x) => x / norm)
+}
+
+function dot(a: number[], b: number[]): number {
+  let s = 0
+  for (let i = 0; i < a.length; i++) s += a[i] * b[i]
+  return s
+}
+
+/**
+ * 符号位二值量化：第 i 位表示第 i 维是否大于 0
+ */
+export function quantize(vector: number[]): Uint8Array {
+  const bytes = new Uint8Array(Math.ceil(vector.length / 8))
+  for (let i = 0; i < vector.length; i++) {
+    if (vector[i] > 0) bytes[i >> 3] |= 1 << (i & 7)
+  }
+  return bytes
+}
+
+function encodeCode(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i])
+  return btoa(binary)
+}
+
+function decodeCode(b64: string): Uint8Array {
+  const binary = atob(b64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+export function hammingDistance(a: Uint8Array, b: Uint8Array): number {
+  let d = 0
+  const n = Math.min(a.length, b.length)
+  for (let i = 0; i < n; i++) d += POPCOUNT[a[i] ^ b[i]]
+  return d
+}
+
+function nearestList(v: number[], centroids: number[][]): number {
+  let best = 0
+  let bestScore = -Infinity
+  for (let c = 0; c < centroids.length; c++) {
+    const score = dot(v, centroids[c])
+    if (score > bestScore) {
+      bestScore = score
+      best = c
+    }
+  }
+  return best
+}
+
+function probeLists(q: number[], centroids: number[][], nProbe: number): number[] {
+  return centroids
+    .map((c, i) => ({ i, score: dot(q, c) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, nProbe)
+    .map((x) => x.i)
+}
+
+export function probeCount(nLists: number): number {
+  return Math.min(nLists, Math.max(4, Math.ceil(nLists / 6)))
+}
+
+function listCount(n: number): number {
+  return Math.max(4, Math.min(MAX_LISTS, Math.round(Math.sqrt(n))))
+}
+
+/**
+ * 球面 k-means（在等距采样上训练）
+ */
+function trainCentroids(vectors: number[][], k: number): number[][] {
+  const step = Math.max(1, Math.floor(vectors.length / KMEANS_SAMPLE))
+  const sample: number[][] = []
+  for (let i = 0; i < vectors.length && sample.length < KMEANS_SAMPLE; i += step) sample.push(vectors[i])
+
+  const initStep = sample.length / k
+  let centroids = Array.from({ length: k }, (_, i) => sample[Math.floor(i * initStep)].slice())
+  const dim = centroids[0].length
+
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    const sums = Array.from({ length: k }, () => new Array<number>(dim).fill(0))
+    const counts = new Array<number>(k).fill(0)
+    for (const v of sample) {
+      const c = nearestList(v, centroids)
+      counts[c]++
+      const sum = sums[c]
+      for (let d = 0; d < dim; d++) sum[d] += v[d]
+    }
+    centroids = centroids.map((old, c) => (counts[c] > 0 ? normalize(sums[c]) : old))
+  }
+  return centroids
+}
+
+// ============================================
+// 读写
+// ============================================
+
+async function getMeta(env: Env, walletAddress: string): Promise<VectorIndexMeta | null> {
+  const row = await env.DB!.prepare(
+    `SELECT * FROM memory_vector_index_meta WHERE wallet_address = ?`
+  ).bind(walletAddress).first()
+  return (row as unknown as VectorIndexMeta) || null
+}
+
+async function loadCentroids(env: Env, meta: VectorIndexMeta): Promise<number[][]> {
+  const cached = centroidCache.get(meta.wallet_address)
+  if (cached && cached.builtAt === meta.built_at) return cached.centroids
+
+  const rows = await env.DB!.prepare(
+    `SELECT list_id, centroid_json FROM memory_vector_centroids WHERE wallet_address = ? ORDER BY list_id`
+  ).bind(meta.wallet_address).all()
+  const centroids = ((rows.results || []) as any[]).map((r) => JSON.parse(r.centroid_json) as number[])
+  centroidCache.set(meta.wallet_address, { builtAt: meta.built_at || 0, centroids })
+  return centroids
+}
+
+async function markNeedsRebuild(env: Env, walletAddress: string, now: number): Promise<void> {
+  await env.DB!.prepare(
+    `INSERT INTO memory_vector_index_meta (wallet_address, needs_rebuild, updated_at)
+     VALUES (?, 1, ?)
+     ON CONFLICT(wallet_address) DO UPDATE SET needs_rebuild = 1, updated_at = excluded.updated_at`
+  ).bind(walletAddress, now).run()
+}
+
+/**
+ * 新增 / 更新向量后增量写入索引
+ * 索引尚未建立时只在达到 MIN_INDEX_SIZE 后标记待重建
+ */
+export async function indexMemoryVectors(env: Env, walletAddress: string, entries: IndexEntry[]): Promise<void> {
+  if (!env.DB || entries.length === 0) return
+  await ensureVectorIndexTables(env)
+  const now = Math.floor(Date.now() / 1000)
+  const meta = await getMeta(env, walletAddress)
+
+  if (!meta || !meta.n_lists) {
+    if (meta?.needs_rebuild) return
+    const countRow = await env.DB.prepare(
+      `SELECT COUNT(*) AS cnt FROM memory_vectors WHERE wallet_address = ?`
+    ).bind(walletAddress).first()
+    if (Number(countRow?.cnt || 0) >= MIN_INDEX_SIZE) {
+      await markNeedsRebuild(env, walletAddress, now)
+    }
+    return
+  }
+
+  const centroids = await loadCentroids(env, meta)
+  const stmts = entries
+    .filter((e) => e.vector.length === meta.dimension)
+    .map((e) => env.DB!.prepare(
+      `INSERT OR REPLACE INTO memory_vector_index (memory_id, wallet_address, list_id, memory_type, code, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    ).bind(
+      e.memoryId,
+      walletAddress,
+      nearestList(normalize(e.vector), centroids),
+      e.memoryType || 'chat',
+      encodeCode(quantize(e.vector)),
+      now
+    ))
+
+  for (let i = 0; i < stmts.length; i += WRITE_CHUNK) {
+    await env.DB.batch(stmts.slice(i, i + WRITE_CHUNK))
+  }
+
+  // 规模超过训练时的两倍后质心失真；出现新维度（更换 Embedding 模型）时旧索引无法容纳，均交给定时任务重建
+  const dimensionChanged = entries.some((e) => e.vector.length !== meta.dimension) ? 1 : 0
+  await env.DB.prepare(
+    `UPDATE memory_vector_index_meta
+     SET indexed_count = (SELECT COUNT(*) FROM memory_vector_index WHERE wallet_address = ?),
+         needs_rebuild = CASE WHEN ? = 1 OR (SELECT COUNT(*) FROM memory_vector_index WHERE wallet_address = ?) > trained_count * 2 THEN 1 ELSE needs_rebuild END,
+         updated_at = ?
+     WHERE wallet_address = ?`
+  ).bind(walletAddress, dimensionChanged, walletAddress, now, walletAddress).run()
+}
+
+/**
+ * 暴力检索时发现规模已达标但从未建过索引的钱包，登记待建（已有记录则不动）
+ */
+export async function requestMemoryIndex(env: Env, walletAddress: string): Promise<void> {
+  if (!env.DB) return
+  await ensureVectorIndexTables(env)
+  await env.DB.prepare(
+    `INSERT OR IGNORE INTO memory_vector_index_meta (wallet_address, needs_rebuild, updated_at) VALUES (?, 1, ?)`
+  ).bind(walletAddress, Math.floor(Date.now() / 1000)).run()
+}
+
+export async function removeFromMemoryIndex(env: Env, memoryId: string): Promise<void> {
+  if (!env.DB) return
+  await ensureVectorIndexTables(env)
+  await env.DB.prepare(`DELETE FROM memory_vector_index WHERE memory_id = ?`).bind(memoryId).run()
+}
+
+/**
+ * 在内存中执行与线上一致的 ANN 流程（用于 recall 评估）
+ */
+function annSearchInMemory(
+  query: number[],
+  centroids: number[][],
+  lists: number[],
+  codes: Uint8Array[],
+  vectors: number[][],
+  k: number
+): number[] {
+  const probes = new Set(probeLists(query, centroids, probeCount(centroids.length)))
+  const qCode = quantize(query)
+  const shortlistSize = Math.max(k * RERANK_FACTOR, MIN_SHORTLIST)
+  const candidates: Array<{ i: number; d: number }> = []
+  for (let i = 0; i < vectors.length; i++) {
+    if (probes.has(lists[i])) candidates.push({ i, d: hammingDistance(qCode, codes[i]) })
+  }
+  candidates.sort((a, b) => a.d - b.d)
+  return candidates
+    .slice(0, shortlistSize)
+    .map(({ i }) => ({ i, s: dot(query, vectors[i]) }))
+    .sort((a, b) => b.s - a.s)
+    .slice(0, k)
+    .map((x) => x.i)
+}
+
+function measureRecall(centroids: number[][], lists: number[], codes: Uint8Array[], vectors: number[][]): number {
+  const k = Math.min(RECALL_K, vectors.length)
+  const queries = Math.min(RECALL_QUERIES, vectors.length)
+  const step = Math.max(1, Math.floor(vectors.length / queries))
+  let total = 0
+  let measured = 0
+  for (let q = 0; q < vectors.length && measured < queries; q += step) {
+    const query = vectors[q]
+    const exact = vectors
+      .map((v, i) => ({ i, s: dot(query, v) }))
+      .sort((a, b) => b.s - a.s)
+      .slice(0, k)
+      .map((x) => x.i)
+    const approx = new Set(annSearchInMemory(query, centroids, lists, codes, vectors, k))
+    total += exact.filter((i) => approx.has(i)).length / k
+    measured++
+  }
+  return measured > 0 ? total / measured : 1
+}
+
+/**
+ * 重建单个钱包的索引（定时任务调用）
+ */
+export async function rebuildMemoryIndex(env: Env, walletAddress: string): Promise<VectorIndexMeta | null> {
+  if (!env.DB) return null
+  await ensureVectorIndexTables(env)
+  const now = Math.floor(Date.now() / 1000)
+
+  const rows = await env.DB.prepare(
+    `SELECT memory_id, vector_json, memory_type FROM memory_vectors WHERE wallet_address = ?`
+  ).bind(walletAddress).all()
+
+  const parsed: Array<{ memoryId: string; vector: number[]; memoryType: string }> = []
+  const dimensionCounts = new Map<number, number>()
+  for (const row of (rows.results || []) as any[]) {
+    try {
+      const vector = JSON.parse(row.vector_json) as number[]
+      if (!Array.isArray(vector) || vector.length === 0) continue
+      parsed.push({ memoryId: row.memory_id, vector, memoryType: row.memory_type })
+      dimensionCounts.set(vector.length, (dimensionCounts.get(vector.length) || 0) + 1)
+    } catch {}
+  }
+
+  // 同一钱包可能混有不同维度的旧向量，只索引占多数的维度
+  const dimension = [...dimensionCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 0
+  const items = parsed.filter((p) => p.vector.length === dimension)
+
+  await env.DB.batch([
+    env.DB.prepare(`DELETE FROM memory_vector_index WHERE wallet_address = ?`).bind(walletAddress),
+    env.DB.prepare(`DELETE FROM memory_vector_centroids WHERE wallet_address = ?`).bind(walletAddress),
+  ])
+
+  if (items.length < MIN_INDEX_SIZE) {
+    await env.DB.prepare(
+      `INSERT INTO memory_vector_index_meta (wallet_address, dimension, n_lists, trained_count, indexed_count, needs_rebuild, built_at, updated_at)
+       VALUES (?, ?, 0, 0, 0, 0, ?, ?)
+       ON CONFLICT(wallet_address) DO UPDATE SET dimension = excluded.dimension, n_lists = 0, trained_count = 0,
+         indexed_count = 0, needs_rebuild = 0, recall_at_k = NULL, recall_k = NULL, built_at = excluded.built_at, updated_at = excluded.updated_at`
+    ).bind(walletAddress, dimension || null, now, now).run()
+    centroidCache.delete(walletAddress)
+    return getMeta(env, walletAddress)
+  }
+
+  const vectors = items.map((p) => normalize(p.vector))
+  const centroids = trainCentroids(vectors, listCount(items.length))
+  const lists = vectors.map((v) => nearestList(v, centroids))
+  const codes = items.map((p) => quantize(p.vector))
+  const sizes = new Array<number>(centroids.length).fill(0)
+  for (const l of lists) sizes[l]++
+
+  const stmts = [
+    ...centroids.map((c, i) => env.DB!.prepare(
+      `INSERT INTO memory_vector_centroids (wallet_address, list_id, centroid_json, size) VALUES (?, ?, ?, ?)`
+    ).bind(walletAddress, i, JSON.stringify(c.map((x) => Math.round(x * 1e6) / 1e6)), sizes[i])),
+    ...items.map((p, i) => env.DB!.prepare(
+      `INSERT OR REPLACE INTO memory_vector_index (memory_id, wallet_address, list_id, memory_type, code, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    ).bind(p.memoryId, walletAddress, lists[i], p.memoryType || 'chat', encodeCode(codes[i]), now)),
+  ]
+  for (let i = 0; i < stmts.length; i += WRITE_CHUNK) {
+    await env.DB.batch(stmts.slice(i, i + WRITE_CHUNK))
+  }
+
+  const recall = measureRecall(centroids, lists, codes, vectors)
+
+  await env.DB.prepare(
+    `INSERT INTO memory_vector_index_meta (wallet_address, dimension, n_lists, trained_count, indexed_count, needs_rebuild, recall_at_k, recall_k, built_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, 0, ?, ?, ?, ?)
+     ON CONFLICT(wallet_address) DO UPDATE SET dimension = excluded.dimension, n_lists = excluded.n_lists,
+       trained_count = excluded.trained_count, indexed_count = excluded.indexed_count, needs_rebuild = 0,
+       recall_at_k = excluded.recall_at_k, recall_k = excluded.recall_k, built_at = excluded.built_at, updated_at = excluded.updated_at`
+  ).bind(walletAddress, dimension, centroids.length, items.length, items.length, recall, RECALL_K, now, now).run()
+
+  centroidCache.delete(walletAddress)
+  return getMeta(env, walletAddress)
+}
+
+// ============================================
+// 检索
+// ============================================
+
+/**
+ * 使用索引检索；索引不可用（未建立 / 维度不符）时返回 null，由调用方回退暴力检索
+ * 返回原始候选行与精确相似度，由调用方组装响应
+ */
+export async function searchMemoryIndex(
+  env: Env,
+  walletAddress: string,
+  queryVector: number[],
+  options: { topK: number; memoryType?: string | null; model?: string | null }
+): Promise<Array<{ row: any; similarity: number }> | null> {
+  if (!env.DB) return null
+  await ensureVectorIndexTables(env)
+  const meta = await getMeta(env, walletAddress)
+  if (!meta || !meta.n_lists || meta.dimension !== queryVector.length) return null
+
+  const centroids = await loadCentroids(env, meta)
+  if (centroids.length === 0) return null
+
+  const query = normalize(queryVector)
+  const probes = probeLists(query, centroids, probeCount(centroids.length))
+  const placeholders = probes.map(() => '?').join(', ')
+  let sql = `SELECT memory_id, code FROM memory_vector_index WHERE wallet_address = ? AND list_id IN (${placeholders})`
+  const params: any[] = [walletAddress, ...probes]
+  if (options.memoryType) {
+    sql += ' AND memory_type = ?'
+    params.push(options.memoryType)
+  }
+  const codeRows = await env.DB.prepare(sql).bind(...params).all()
+
+  const qCode = quantize(queryVector)
+  const shortlist = ((codeRows.results || []) as any[])
+    .map((r) => ({ memoryId: r.memory_id as string, d: hammingDistance(qCode, decodeCode(r.code)) }))
+    .sort((a, b) => a.d - b.d)
+    .slice(0, Math.max(options.topK * RERANK_FACTOR, MIN_SHORTLIST))
+
+  const hits: Array<{ row: any; similarity: number }> = []
+  for (let i = 0; i < shortlist.length; i += 90) {
+    const ids = shortlist.slice(i, i + 90).map((s) => s.memoryId)
+    const rows = await env.DB.prepare(
+      `SELECT memory_id, vector_json, text_preview, text_length, memory_type,
+              source_id, source_type, created_at, model
+       FROM memory_vectors
+       WHERE wallet_address = ? AND memory_id IN (${ids.map(() => '?').join(', ')})`
+    ).bind(walletAddress, ...ids).all()
+    for (const row of (rows.results || []) as any[]) {
+      // 不同模型生成的向量不可比
+      if (options.model && row.model !== options.model) continue
+      const vector = JSON.parse(row.vector_json) as number[]
+      if (vector.length !== queryVector.length) continue
+      hits.push({ row, similarity: dot(query, normalize(vector)) })
+    }
+  }
+  return hits
+}
+
+export async function getMemoryIndexStats(env: Env, walletAddress: string): Promise<VectorIndexMeta | null> {
+  if (!env.DB) return null
+  await ensureVectorIndexTables(env)
+  return getMeta(env, walletAddress)
+}
+
+/**
+ * 待重建索引的钱包（最早标记的优先）
+ */
+export async function listStaleMemoryIndexes(env: Env, limit: number): Promise<string[]> {
+  if (!env.DB) return []
+  await ensureVectorIndexTables(env)
+  const rows = await env.DB.prepare(
+    `SELECT wallet_address FROM memory_vector_index_meta WHERE needs_rebuild = 1 ORDER BY updated_at ASC LIMIT ?`
+  ).bind(limit).all()
+  return ((rows.results || []) as any[]).map((r) => r.wallet_address as string)
+}
@@ -26,6 +26,10 @@ export interface Env {
   QWEN_API_KEY?: string; // 从 Secrets 读取
   JUPITER_API_KEY?: string;
   ENCRYPTION_KEY?: string;
+
+  // Irys 签名上传服务（服务端迁移队列使用，Worker 内不持有 Irys 私钥）
+  IRYS_UPLOADER_URL?: string;
+  IRYS_UPLOADER_TOKEN?: string;
   
   // Cloudflare Access 配置
   CF_ACCESS_TEAM_NAME?: string;
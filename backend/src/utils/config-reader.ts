@@ -0,0 +1,36 @@
+import type { Env } from '../types'
+
+/**
+ * 批量读取 app_config（KV 镜像优先，缺失的 key 回退 D1）
+ */
+export async function readConfigValues(env: Env, keys: string[]): Promise<Record<string, string | null>> {
+  const values: Record<string, string | null> = {}
+  const missing: string[] = []
+
+  await Promise.all(keys.map(async (key) => {
+    let v: string | null = null
+    if (env.KV) {
+      try {
+        v = await env.KV.get(`config:${key}`)
+      } catch {}
+    }
+    values[key] = v
+    if (v == null) missing.push(key)
+  }))
+
+  if (missing.length > 0 && env.DB) {
+    try {
+      const placeholders = missing.map(() => '?').join(', ')
+      const rows = await env.DB.prepare(
+        `SELECT config_key, config_value FROM app_config WHERE config_key IN (${placeholders}) AND is_active = 1`
+      ).bind(...missing).all()
+      for (const row of (rows.results || []) as any[]) {
+        values[row.config_key as string] = row.config_value as string
+      }
+    } catch (e) {
+      console.error('[Config] Failed to load config values:', e)
+    }
+  }
+
+  return values
+}
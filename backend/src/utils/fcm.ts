@@ -0,0 +1,64 @@
+/**
+ * FCM 推送
+ * Token 由客户端通过 /api/v1/push/register 写入 fcm_tokens（每个钱包一条）
+ */
+
+/**
+ * 发送 FCM 推送通知
+ */
+export async function sendFcmNotification(
+  env: object,
+  fcmToken: string,
+  notification: {
+    title: string
+    body: string
+    data?: Record<string, string>
+  }
+): Promise<void> {
+  // 获取 FCM 服务器密钥
+  const fcmServerKey = (env as any).FCM_SERVER_KEY
+  
+  if (!fcmServerKey) {
+    console.warn('[FCM] FCM_SERVER_KEY not configured')
+    return
+  }
+  
+  const response = await fetch('https://fcm.googleapis.com/fcm/send', {
+    method: 'POST',
+    headers: {
+      'Authorization': `key=${fcmServerKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      to: fcmToken,
+      notification: {
+        title: notification.title,
+        body: notification.body,
+        icon: 'ic_notification',
+        sound: 'default',
+      },
+      data: notification.data || {},
+      priority: 'high',
+    }),
+  })
+  
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`FCM error: ${response.status} - ${errorText}`)
+  }
+  
+  const result = await response.json() as { success: number; failure: number }
+  if (result.failure > 0) {
+    console.warn('[FCM] Some messages failed to send')
+  }
+}
+
+/**
+ * 查询钱包登记的 FCM Token
+ */
+export async function getFcmToken(db: D1Database, walletAddress: string): Promise<string | null> {
+  const row = await db.prepare(
+    'SELECT fcm_token FROM fcm_tokens WHERE wallet_address = ?'
+  ).bind(walletAddress).first() as any
+  return row?.fcm_token || null
+}
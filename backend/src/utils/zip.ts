@@ -0,0 +1,205 @@
+/**
+ * 最小 ZIP 读写：写入仅 STORED（不压缩），读取支持 STORED / DEFLATE
+ * 记忆 blob 本身是密文，压缩无收益；按条目顺序输出字节块，便于直接流式写入 R2 分片上传。
+ * 不支持 ZIP64，单个归档上限 4GB / 65535 个条目。
+ */
+
+const ZIP_MAX_OFFSET = 0xffffffff
+const ZIP_MAX_ENTRIES = 0xffff
+
+let crcTable: Uint32Array | null = null
+
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getUTCFullYear())
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  }
+}
+
+type CentralEntry = { name: Uint8Array; crc: number; size: number; offset: number; time: number; date: number }
+
+export class ZipWriter {
+  private entries: CentralEntry[] = []
+  private offset = 0
+
+  constructor(private sink: (chunk: Uint8Array) => Promise<void>) {}
+
+  get bytesWritten(): number {
+    return this.offset
+  }
+
+  async addFile(name: string, data: Uint8Array, modifiedAt = new Date()): Promise<void> {
+    const nameBytes = new TextEncoder().encode(name)
+    const crc = crc32(data)
+    const { time, date } = dosDateTime(modifiedAt)
+    if (this.entries.length >= ZIP_MAX_ENTRIES || this.offset + 30 + nameBytes.length + data.length > ZIP_MAX_OFFSET) {
+      throw new Error('archive_too_large')
+    }
+
+    const header = new Uint8Array(30 + nameBytes.length)
+    const view = new DataView(header.buffer)
+    view.setUint32(0, 0x04034b50, true)
+    view.setUint16(4, 20, true)
+    view.setUint16(6, 0x0800, true) // UTF-8 文件名
+    view.setUint16(8, 0, true)
+    view.setUint16(10, time, true)
+    view.setUint16(12, date, true)
+    view.setUint32(14, crc, true)
+    view.setUint32(18, data.length, true)
+    view.setUint32(22, data.length, true)
+    view.setUint16(26, nameBytes.length, true)
+    view.setUint16(28, 0, true)
+    header.set(nameBytes, 30)
+
+    this.entries.push({ name: nameBytes, crc, size: data.length, offset: this.offset, time, date })
+    await this.sink(header)
+    await this.sink(data)
+    this.offset += header.length + data.length
+  }
+
+  async addJson(name: string, value: unknown, modifiedAt?: Date): Promise<Uint8Array> {
+    const bytes = new TextEncoder().encode(JSON.stringify(value, null, 2))
+    await this.addFile(name, bytes, modifiedAt)
+    return bytes
+  }
+
+  async finish(): Promise<number> {
+    const centralSize = this.entries.reduce((sum, e) => sum + 46 + e.name.length, 0)
+    const out = new Uint8Array(centralSize + 22)
+    const view = new DataView(out.buffer)
+    let p = 0
+    for (const e of this.entries) {
+      view.setUint32(p, 0x02014b50, true)
+      view.setUint16(p + 4, 20, true)
+      view.setUint16(p + 6, 20, true)
+      view.setUint16(p + 8, 0x0800, true)
+      view.setUint16(p + 10, 0, true)
+      view.setUint16(p + 12, e.time, true)
+      view.setUint16(p + 14, e.date, true)
+      view.setUint32(p + 16, e.crc, true)
+      view.setUint32(p + 20, e.size, true)
+      view.setUint32(p + 24, e.size, true)
+      view.setUint16(p + 28, e.name.length, true)
+      view.setUint32(p + 42, e.offset, true)
+      out.set(e.name, p + 46)
+      p += 46 + e.name.length
+    }
+    view.setUint32(p, 0x06054b50, true)
+    view.setUint16(p + 8, this.entries.length, true)
+    view.setUint16(p + 10, this.entries.length, true)
+    view.setUint32(p + 12, centralSize, true)
+    view.setUint32(p + 16, this.offset, true)
+
+    await this.sink(out)
+    this.offset += out.length
+    return this.offset
+  }
+}
+
+export type ZipEntry = { name: string; data: Uint8Array; modifiedAt: Date }
+
+function fromDosDateTime(time: number, date: number): Date {
+  return new Date(Date.UTC(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ))
+}
+
+/**
+ * 流式解压，实际产出超过 limit 时立即中止（不信任中央目录声明的大小）
+ */
+async function inflateRaw(data: Uint8Array, limit: number): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  const reader = stream.getReader()
+  const chunks: Uint8Array[] = []
+  let length = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    length += value.length
+    if (length > limit) {
+      await reader.cancel().catch(() => {})
+      throw new Error('archive_too_large')
+    }
+    chunks.push(value)
+  }
+  const out = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    out.set(chunk, offset)
+    offset += chunk.length
+  }
+  return out
+}
+
+// Worker 内存上限 128MB，解压总量需远低于此
+export const ZIP_DEFAULT_MAX_TOTAL_BYTES = 64 * 1024 * 1024
+
+/**
+ * 读取 ZIP 中的文件条目（支持 STORED / DEFLATE，跳过目录）
+ * 按实际解压字节累计，单个条目超过声明大小或总量超过 maxTotalBytes 时拒绝，防止压缩炸弹
+ */
+export async function readZip(bytes: Uint8Array, maxTotalBytes = ZIP_DEFAULT_MAX_TOTAL_BYTES): Promise<ZipEntry[]> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let eocd = -1
+  for (let p = bytes.length - 22; p >= Math.max(0, bytes.length - 22 - 0xffff); p--) {
+    if (view.getUint32(p, true) === 0x06054b50) {
+      eocd = p
+      break
+    }
+  }
+  if (eocd < 0) throw new Error('invalid_zip')
+
+  const count = view.getUint16(eocd + 10, true)
+  let p = view.getUint32(eocd + 16, true)
+  const entries: ZipEntry[] = []
+  let total = 0
+  for (let i = 0; i < count; i++) {
+    if (p + 46 > bytes.length || view.getUint32(p, true) !== 0x02014b50) throw new Error('invalid_zip')
+    const method = view.getUint16(p + 10, true)
+    const time = view.getUint16(p + 12, true)
+    const date = view.getUint16(p + 14, true)
+    const compressedSize = view.getUint32(p + 20, true)
+    const size = view.getUint32(p + 24, true)
+    const nameLength = view.getUint16(p + 28, true)
+    const extraLength = view.getUint16(p + 30, true)
+    const commentLength = view.getUint16(p + 32, true)
+    const localOffset = view.getUint32(p + 42, true)
+    const name = new TextDecoder().decode(bytes.subarray(p + 46, p + 46 + nameLength))
+    p += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+    if (total + size > maxTotalBytes) throw new Error('archive_too_large')
+    if (localOffset + 30 > bytes.length || view.getUint32(localOffset, true) !== 0x04034b50) throw new Error('invalid_zip')
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    const raw = bytes.subarray(start, start + compressedSize)
+
+    let data: Uint8Array
+    if (method === 0) data = raw.slice()
+    else if (method === 8) data = await inflateRaw(raw, Math.min(size, maxTotalBytes - total))
+    else throw new Error(`unsupported_zip_method_${method}`)
+    if (data.length !== size) throw new Error('invalid_zip')
+    total += data.length
+    entries.push({ name, data, modifiedAt: fromDosDateTime(time, date) })
+  }
+  return entries
+}
@@ -0,0 +1,224 @@
+import nacl from 'tweetnacl'
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('../src/utils/user-auth', () => ({
+  getUserAuth: vi.fn(),
+}))
+
+import { getUserAuth } from '../src/utils/user-auth'
+import { base58Encode } from '../src/utils/crypto'
+import { handleAccountDeletionRoutes } from '../src/routes/account-deletion'
+import { runDueAccountDeletions } from '../src/services/account-deletion'
+
+const keyPair = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(7))
+const WALLET = base58Encode(keyPair.publicKey)
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('SELECT * FROM account_deletion_requests WHERE id = ? AND wallet_address = ?')) {
+      return (this.db.requests.find(r => r.id === p[0] && r.wallet_address === p[1]) || null) as any
+    }
+    if (sql.startsWith("SELECT * FROM account_deletion_requests WHERE wallet_address = ? AND status != 'unconfirmed'")) {
+      return (this.db.requests.filter(r => r.wallet_address === p[0] && r.status !== 'unconfirmed').pop() || null) as any
+    }
+    if (sql.startsWith("SELECT * FROM account_deletion_requests WHERE wallet_address = ? AND status = 'pending'")) {
+      return (this.db.requests.find(r => r.wallet_address === p[0] && r.status === 'pending') || null) as any
+    }
+    if (sql.startsWith('SELECT id FROM users WHERE wallet_address = ?')) {
+      return (p[0] === WALLET ? { id: 'user_1' } : null) as any
+    }
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith("SELECT * FROM account_deletion_requests WHERE status = 'pending' AND execute_after <= ?")) {
+      return { results: this.db.requests.filter(r => r.status === 'pending' && r.execute_after <= p[0]) as any }
+    }
+    if (sql.startsWith('SELECT id, irys_id FROM memories WHERE wallet_address = ?')) {
+      return {
+        results: [
+          { id: 'm1', irys_id: `r2:memory-blobs/${WALLET}/m1/v1` },
+          { id: 'm2', irys_id: `kv:memory_blob:${WALLET}:m2` },
+          { id: 'm3', irys_id: 'irys_tx_1' },
+        ] as any,
+      }
+    }
+    return { results: [] }
+  }
+
+  async run() {
+    const sql = this.sql.trim()
+    const p = this.params
+    this.db.statements.push({ sql, params: p })
+    if (sql.startsWith('DELETE FROM account_deletion_requests')) {
+      this.db.requests = this.db.requests.filter(r => !(r.wallet_address === p[0] && r.status === 'unconfirmed'))
+    } else if (sql.startsWith('INSERT INTO account_deletion_requests')) {
+      this.db.requests.push({ id: p[0], wallet_address: p[1], status: 'unconfirmed', message: p[2], challenge_expires_at: p[3], created_at: p[4] })
+    } else if (sql.startsWith("UPDATE account_deletion_requests SET status = 'pending'")) {
+      Object.assign(this.db.requests.find(r => r.id === p[4])!, {
+        status: 'pending', signature: p[0], pseudonym: p[1], requested_at: p[2], execute_after: p[3],
+      })
+    } else if (sql.startsWith("UPDATE account_deletion_requests SET status = 'cancelled'")) {
+      Object.assign(this.db.requests.find(r => r.id === p[1])!, { status: 'cancelled', cancelled_at: p[0] })
+    } else if (sql.startsWith('UPDATE account_deletion_requests') && sql.includes("status = 'completed'")) {
+      Object.assign(this.db.requests.find(r => r.id === p[2])!, { status: 'completed', wallet_address: p[0], completed_at: p[1] })
+    } else if (sql.startsWith('DELETE FROM auto_renew_subscriptions')) {
+      // auto_renew_payment_logs.subscription_id 外键仍引用该订阅
+      throw new Error('D1_ERROR: FOREIGN KEY constraint failed: SQLITE_CONSTRAINT')
+    } else if (sql.startsWith('DELETE FROM game_npc_memory_summaries')) {
+      throw new Error('D1_ERROR: no such table: game_npc_memory_summaries')
+    } else if (sql.startsWith('INSERT INTO admin_logs')) {
+      this.db.adminLogs.push(p)
+    }
+    return { meta: { changes: 1 } }
+  }
+}
+
+class MockDB {
+  requests: any[] = []
+  statements: Array<{ sql: string; params: any[] }> = []
+  adminLogs: any[][] = []
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+class MockStore {
+  objects = new Map<string, string>()
+
+  async list(opts: { prefix: string }) {
+    const keys = [...this.objects.keys()].filter(k => k.startsWith(opts.prefix))
+    return { objects: keys.map(key => ({ key })), keys: keys.map(name => ({ name })), truncated: false, list_complete: true }
+  }
+
+  async get(key: string) {
+    return this.objects.get(key) ?? null
+  }
+
+  async delete(keys: string | string[]) {
+    for (const key of Array.isArray(keys) ? keys : [keys]) this.objects.delete(key)
+  }
+}
+
+function makeEnv() {
+  const r2 = new MockStore()
+  r2.objects.set(`memory-blobs/${WALLET}/m1/v1`, 'a')
+  r2.objects.set(`memory-blobs/${WALLET}/orphan`, 'b')
+  r2.objects.set(`account-exports/${WALLET}/e1.zip`, 'c')
+  r2.objects.set('memory-blobs/other_wallet/m9', 'd')
+  const kv = new MockStore()
+  kv.objects.set(`memory_blob:${WALLET}:m2`, 'e')
+  kv.objects.set(`autoRenew:switch:${WALLET}`, 'f')
+  return { DB: new MockDB(), R2: r2, KV: kv } as any
+}
+
+function call(env: any, method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method }
+  if (body !== undefined) {
+    init.body = JSON.stringify(body)
+    init.headers = { 'Content-Type': 'application/json' }
+  }
+  return handleAccountDeletionRoutes(new Request(`https://api.test${path}`, init), env, path) as Promise<Response>
+}
+
+function sign(message: string) {
+  return base58Encode(nacl.sign.detached(new TextEncoder().encode(message), keyPair.secretKey))
+}
+
+describe('account deletion', () => {
+  it('requires a wallet signature and can be cancelled during the cooling-off period', async () => {
+    vi.mocked(getUserAuth).mockResolvedValue({ ok: true, walletAddress: WALLET } as any)
+    const env = makeEnv()
+
+    const challenge = await (await call(env, 'POST', '/api/v1/users/deletion/challenge')).json() as any
+    expect(challenge.message).toContain(`Wallet: ${WALLET}`)
+
+    const forged = await call(env, 'POST', '/api/v1/users/deletion', {
+      requestId: challenge.requestId,
+      signature: base58Encode(nacl.sign.detached(new TextEncoder().encode('other'), keyPair.secretKey)),
+    })
+    expect(forged.status).toBe(401)
+
+    const confirmed = await call(env, 'POST', '/api/v1/users/deletion', { requestId: challenge.requestId, signature: sign(challenge.message) })
+    const view = await confirmed.json() as any
+    expect(confirmed.status).toBe(202)
+    expect(view.status).toBe('pending')
+    expect(view.executeAfter - view.requestedAt).toBe(14 * 86400)
+
+    expect((await call(env, 'POST', '/api/v1/users/deletion/challenge')).status).toBe(409)
+
+    const cancelled = await (await call(env, 'DELETE', '/api/v1/users/deletion')).json() as any
+    expect(cancelled.status).toBe('cancelled')
+    expect(await runDueAccountDeletions(env, view.executeAfter + 1)).toBe(0)
+  })
+
+  it('erases personal data, pseudonymizes ledgers and writes a receipt once the cooling-off period ends', async () => {
+    vi.mocked(getUserAuth).mockResolvedValue({ ok: true, walletAddress: WALLET } as any)
+    const env = makeEnv()
+
+    const challenge = await (await call(env, 'POST', '/api/v1/users/deletion/challenge')).json() as any
+    const view = await (await call(env, 'POST', '/api/v1/users/deletion', { requestId: challenge.requestId, signature: sign(challenge.message) })).json() as any
+
+    expect(await runDueAccountDeletions(env, view.executeAfter - 1)).toBe(0)
+    expect(await runDueAccountDeletions(env, view.executeAfter)).toBe(1)
+
+    const pseudonym = env.DB.requests[0].pseudonym
+    expect(pseudonym).toMatch(/^erased_[0-9a-f]{32}$/)
+    expect(env.DB.requests[0]).toMatchObject({ status: 'completed', wallet_address: pseudonym })
+
+    const statements = env.DB.statements as Array<{ sql: string; params: any[] }>
+    const deleted = (table: string) => statements.some(s => s.sql === `DELETE FROM ${table} WHERE wallet_address = ?` && s.params[0] === WALLET)
+    expect(deleted('chat_messages')).toBe(true)
+    expect(deleted('memories')).toBe(true)
+    expect(deleted('user_persona_profile_v2')).toBe(true)
+    expect(deleted('user_check_ins')).toBe(true)
+    expect(deleted('fcm_tokens')).toBe(true)
+    expect(deleted('user_profiles')).toBe(true)
+    expect(deleted('adventure_completions')).toBe(true)
+    const partsIndex = statements.findIndex(s => s.sql === 'DELETE FROM memory_blob_upload_parts WHERE upload_id IN (SELECT id FROM memory_blob_uploads WHERE wallet_address = ?)' && s.params[0] === WALLET)
+    const uploadsIndex = statements.findIndex(s => s.sql === 'DELETE FROM memory_blob_uploads WHERE wallet_address = ?')
+    // 分片记录先于上传会话删除，否则子查询已找不到会话
+    expect(partsIndex).toBeGreaterThanOrEqual(0)
+    expect(partsIndex).toBeLessThan(uploadsIndex)
+    expect(statements.some(s => s.sql.startsWith('DELETE FROM game_players WHERE user_id = ?'))).toBe(true)
+
+    const memoUpdate = statements.find(s => s.sql.startsWith('UPDATE memo_transaction_logs SET wallet_address = ?'))!
+    expect(memoUpdate.params).toEqual([pseudonym, WALLET])
+    expect(statements.some(s => s.sql.startsWith('DELETE FROM memo_transactions'))).toBe(false)
+    expect(statements.some(s => s.sql.startsWith('DELETE FROM auto_renew_subscriptions'))).toBe(false)
+    const renewIndex = statements.findIndex(s => s.sql.startsWith('UPDATE auto_renew_subscriptions SET is_active = 0') && s.params[1] === WALLET)
+    const renewUpdateIndex = statements.findIndex(s => s.sql.startsWith('UPDATE auto_renew_subscriptions SET wallet_address = ?'))
+    expect(renewIndex).toBeGreaterThanOrEqual(0)
+    expect(renewIndex).toBeLessThan(renewUpdateIndex)
+    expect(statements[renewUpdateIndex].params).toEqual([pseudonym, WALLET])
+    const userUpdate = statements.find(s => s.sql.startsWith('UPDATE users SET wallet_address = ?'))!
+    expect(userUpdate.params[0]).toBe(pseudonym)
+
+    expect([...env.R2.objects.keys()]).toEqual(['memory-blobs/other_wallet/m9'])
+    expect(env.KV.objects.size).toBe(0)
+
+    expect(env.DB.adminLogs).toHaveLength(1)
+    const [adminEmail, action, targetType, targetId, details] = env.DB.adminLogs[0]
+    expect([adminEmail, action, targetType, targetId]).toEqual(['system@account-erasure', 'ACCOUNT_ERASURE', 'user', challenge.requestId])
+    const receipt = JSON.parse(details)
+    expect(receipt.pseudonym).toBe(pseudonym)
+    expect(receipt.irysRetained).toBe(1)
+    expect(receipt.skipped).toContain('game_npc_memory_summaries')
+    expect(details).not.toContain(WALLET)
+  })
+})
@@ -0,0 +1,301 @@
+import { createHash, generateKeyPairSync } from 'node:crypto'
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('../src/utils/user-auth', () => ({
+  getUserAuth: vi.fn(async () => ({ ok: true, walletAddress: 'wallet_export_test' })),
+}))
+
+import { handleAccountExportRoutes } from '../src/routes/account-export'
+import { buildAccountExport, purgeExpiredAccountExports } from '../src/services/account-export'
+
+const WALLET = 'wallet_export_test'
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('SELECT * FROM account_exports WHERE wallet_address = ? AND status IN')) {
+      return (this.db.exports.find(e => e.wallet_address === p[0] && ['queued', 'building'].includes(e.status)) || null) as any
+    }
+    if (sql.startsWith('SELECT * FROM account_exports WHERE id = ? AND wallet_address = ?')) {
+      return (this.db.exports.find(e => e.id === p[0] && e.wallet_address === p[1]) || null) as any
+    }
+    if (sql.startsWith('SELECT * FROM account_exports WHERE id = ?')) {
+      return (this.db.exports.find(e => e.id === p[0]) || null) as any
+    }
+    if (sql.startsWith('SELECT id FROM users WHERE wallet_address = ?')) {
+      return (p[0] === WALLET ? { id: 'user_1' } : null) as any
+    }
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('SELECT * FROM account_exports WHERE wallet_address = ?')) {
+      return { results: this.db.exports.filter(e => e.wallet_address === p[0]) as any }
+    }
+    if (sql.startsWith('SELECT id, r2_key FROM account_exports')) {
+      return { results: this.db.exports.filter(e => e.status === 'ready' && e.expires_at <= p[0]) as any }
+    }
+    if (sql.startsWith('SELECT m.id, m.type, m.irys_id')) {
+      return { results: this.db.memories.filter(m => m.wallet_address === p[0] && m.deleted_at == null) as any }
+    }
+    if (sql.startsWith('SELECT id, title, created_at')) {
+      return { results: [{ id: 's1', title: '第一次对话', created_at: 100, updated_at: 200, message_count: 2 }] as any }
+    }
+    if (sql.startsWith('SELECT id, session_id, text')) {
+      return {
+        results: [
+          { id: 'c1', session_id: 's1', text: '你好', is_user: 1, timestamp: 101, detected_traits: '["openness"]' },
+          { id: 'c2', session_id: 's1', text: '你好呀', is_user: 0, timestamp: 102, detected_traits: null },
+        ] as any,
+      }
+    }
+    if (sql.startsWith('SELECT profile_json, updated_at FROM user_persona_profile_v2')) {
+      return { results: [{ profile_json: '{"ocean":{"openness":0.7}}', updated_at: 300 }] as any }
+    }
+    if (sql.startsWith('SELECT questionnaire_completed')) {
+      return { results: [{ questionnaire_completed: 1, questionnaire_answers: '{"q1":3}', questionnaire_completed_at: 50 }] as any }
+    }
+    if (sql.startsWith('SELECT id, question_text')) {
+      return { results: [] }
+    }
+    if (sql.startsWith('SELECT id, type, amount') && sql.includes('FROM memo_transaction_logs WHERE wallet_address = ?')) {
+      return { results: [{ id: 1, type: 'CHECK_IN', amount: 5, description: '签到奖励', reference_id: 'checkin_2026-01-01', created_at: 60 }] as any }
+    }
+    if (sql.startsWith('SELECT id, type, amount') && sql.includes('FROM memo_transactions WHERE wallet_address = ?')) {
+      return { results: [{ id: 9, type: 'admin_add', amount: 100, balance_before: 5, balance_after: 105, admin_reason: 'compensation', created_at: 70 }] as any }
+    }
+    if (sql.startsWith('SELECT check_in_date') && sql.includes('FROM user_check_ins WHERE wallet_address = ?')) {
+      return { results: [{ check_in_date: '2026-01-01', consecutive_days: 1, weekly_progress: 1, reward_amount: 5, tier_multiplier: 1 }] as any }
+    }
+    if (sql.startsWith('SELECT * FROM game_players WHERE user_id = ?')) {
+      return { results: [{ id: 7, user_id: p[0], name: 'Captain', money: 1000 }] as any }
+    }
+    if (sql.startsWith('SELECT * FROM game_inventory WHERE player_id = ?')) {
+      return { results: [{ player_id: p[0], good_id: 'spice', quantity: 3 }] as any }
+    }
+    if (sql.startsWith('SELECT * FROM game_player_')) {
+      throw new Error('no such table')
+    }
+    return { results: [] }
+  }
+
+  async run() {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('INSERT INTO account_exports')) {
+      this.db.exports.push({ id: p[0], wallet_address: p[1], status: 'queued', created_at: p[2] })
+      return { meta: { changes: 1 } }
+    }
+    if (sql.startsWith("UPDATE account_exports SET status = 'building'")) {
+      const job = this.db.exports.find(e => e.id === p[1] && e.status === 'queued')
+      if (!job) return { meta: { changes: 0 } }
+      Object.assign(job, { status: 'building', started_at: p[0] })
+      return { meta: { changes: 1 } }
+    }
+    if (sql.startsWith('UPDATE account_exports') && sql.includes("status = 'ready'")) {
+      const job = this.db.exports.find(e => e.id === p[7])!
+      Object.assign(job, {
+        status: 'ready', r2_key: p[0], size: p[1], memory_count: p[2], manifest_sha256: p[3], signature: p[4],
+        completed_at: p[5], expires_at: p[6],
+      })
+      return { meta: { changes: 1 } }
+    }
+    if (sql.startsWith("UPDATE account_exports SET status = 'failed'")) {
+      Object.assign(this.db.exports.find(e => e.id === p[2])!, { status: 'failed', error: p[0], completed_at: p[1] })
+      return { meta: { changes: 1 } }
+    }
+    if (sql.startsWith("UPDATE account_exports SET status = 'expired'")) {
+      this.db.exports.find(e => e.id === p[0])!.status = 'expired'
+      return { meta: { changes: 1 } }
+    }
+    return { meta: { changes: 0 } }
+  }
+}
+
+class MockDB {
+  exports: any[] = []
+  memories: any[] = []
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+class MockR2 {
+  objects = new Map<string, Uint8Array>()
+  multiparts = new Map<string, Map<number, Uint8Array>>()
+
+  async createMultipartUpload(key: string) {
+    const uploadId = `mp_${this.multiparts.size + 1}`
+    const parts = new Map<number, Uint8Array>()
+    this.multiparts.set(uploadId, parts)
+    return {
+      key,
+      uploadId,
+      uploadPart: async (partNumber: number, value: Uint8Array) => {
+        parts.set(partNumber, new Uint8Array(value))
+        return { partNumber, etag: `etag_${partNumber}` }
+      },
+      complete: async (uploaded: Array<{ partNumber: number; etag: string }>) => {
+        this.objects.set(key, Buffer.concat(uploaded.map(u => parts.get(u.partNumber)!)))
+      },
+      abort: async () => {},
+    }
+  }
+
+  async get(key: string) {
+    const value = this.objects.get(key)
+    if (!value) return null
+    return {
+      size: value.byteLength,
+      body: value.slice(),
+      customMetadata: {},
+      arrayBuffer: async () => value.slice().buffer,
+    }
+  }
+
+  async delete(key: string) {
+    this.objects.delete(key)
+  }
+}
+
+function makeEnv() {
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+  const r2 = new MockR2()
+  const db = new MockDB()
+  db.memories.push(
+    { id: 'm1', wallet_address: WALLET, type: 'text', irys_id: `r2:memory-blobs/${WALLET}/m1/v2`, size: 4, content_hash: null, created_at: 10, version: 2 },
+    { id: 'm2', wallet_address: WALLET, type: 'image', irys_id: 'irys_tx_abc', size: 2048, content_hash: 'abc', created_at: 20, version: null },
+    { id: 'm3', wallet_address: WALLET, type: 'text', irys_id: `r2:memory-blobs/${WALLET}/m3`, size: 3, created_at: 30, deleted_at: 40 },
+  )
+  r2.objects.set(`memory-blobs/${WALLET}/m1/v2`, new Uint8Array([9, 8, 7, 6]))
+  return {
+    DB: db,
+    R2: r2,
+    CONFIG_PRIVATE_KEY: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+  } as any
+}
+
+function call(env: any, method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method }
+  if (body !== undefined) {
+    init.body = JSON.stringify(body)
+    init.headers = { 'Content-Type': 'application/json' }
+  }
+  return handleAccountExportRoutes(new Request(`https://api.test${path}`, init), env, path) as Promise<Response>
+}
+
+// 解析 STORED ZIP 的本地文件头
+function readZip(bytes: Uint8Array): Map<string, Uint8Array> {
+  const files = new Map<string, Uint8Array>()
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let p = 0
+  while (view.getUint32(p, true) === 0x04034b50) {
+    const size = view.getUint32(p + 18, true)
+    const nameLength = view.getUint16(p + 26, true)
+    const name = new TextDecoder().decode(bytes.subarray(p + 30, p + 30 + nameLength))
+    const start = p + 30 + nameLength
+    files.set(name, bytes.slice(start, start + size))
+    p = start + size
+  }
+  return files
+}
+
+describe('account export', () => {
+  it('builds a signed archive with blobs, chats, persona, ledger and game state', async () => {
+    const env = makeEnv()
+
+    const created = await call(env, 'POST', '/api/v1/users/export')
+    const job = await created.json() as any
+    expect(created.status).toBe(202)
+    expect(job.status).toBe('queued')
+    expect(job.created).toBe(true)
+
+    const again = await (await call(env, 'POST', '/api/v1/users/export')).json() as any
+    expect(again.created).toBe(false)
+    expect(again.exportId).toBe(job.exportId)
+
+    const early = await call(env, 'GET', `/api/v1/users/export/${job.exportId}/download`)
+    expect(early.status).toBe(409)
+
+    expect(await buildAccountExport(env, job.exportId)).toBe('ready')
+    const status = await (await call(env, 'GET', `/api/v1/users/export/${job.exportId}`)).json() as any
+    expect(status.status).toBe('ready')
+    expect(status.memoryCount).toBe(2)
+    expect(status.downloadUrl).toBe(`/api/v1/users/export/${job.exportId}/download`)
+
+    const download = await call(env, 'GET', status.downloadUrl)
+    expect(download.status).toBe(200)
+    expect(download.headers.get('Content-Type')).toBe('application/zip')
+    const files = readZip(new Uint8Array(await download.arrayBuffer()))
+
+    expect(Array.from(files.get('memories/m1.bin')!)).toEqual([9, 8, 7, 6])
+    const manifestText = new TextDecoder().decode(files.get('manifest.json')!)
+    const manifestSha256 = createHash('sha256').update(manifestText).digest('hex')
+    expect(download.headers.get('X-Manifest-Sha256')).toBe(manifestSha256)
+
+    const manifest = JSON.parse(manifestText)
+    expect(manifest.walletAddress).toBe(WALLET)
+    expect(manifest.memories.map((m: any) => m.id)).toEqual(['m1', 'm2'])
+    expect(manifest.memories[0]).toMatchObject({
+      storage: 'r2',
+      storageRef: `r2:memory-blobs/${WALLET}/m1/v2`,
+      version: 2,
+      path: 'memories/m1.bin',
+      sha256: createHash('sha256').update(Buffer.from([9, 8, 7, 6])).digest('hex'),
+    })
+    expect(manifest.memories[1]).toMatchObject({ storage: 'irys', storageRef: 'irys_tx_abc', path: null })
+    for (const entry of manifest.files) {
+      expect(createHash('sha256').update(files.get(entry.path)!).digest('hex')).toBe(entry.sha256)
+    }
+
+    const chats = JSON.parse(new TextDecoder().decode(files.get('chats.json')!))
+    expect(chats[0].messages.map((m: any) => m.text)).toEqual(['你好', '你好呀'])
+    expect(chats[0].messages[0].detected_traits).toEqual(['openness'])
+    const game = JSON.parse(new TextDecoder().decode(files.get('game/player.json')!))
+    expect(game.player.name).toBe('Captain')
+    expect(game.game_inventory).toHaveLength(1)
+    expect(game.game_player_lore).toEqual([])
+    expect(JSON.parse(new TextDecoder().decode(files.get('persona/questionnaire.json')!)).answers).toEqual({ q1: 3 })
+    const json = (path: string) => JSON.parse(new TextDecoder().decode(files.get(path)!))
+    expect(json('memo-transactions.json')).toEqual([expect.objectContaining({ type: 'CHECK_IN', reference_id: 'checkin_2026-01-01' })])
+    expect(json('checkins.json')).toEqual([expect.objectContaining({ check_in_date: '2026-01-01', reward_amount: 5 })])
+    expect(json('memo-admin-adjustments.json')).toEqual([expect.objectContaining({ type: 'admin_add', admin_reason: 'compensation' })])
+
+    const signature = JSON.parse(new TextDecoder().decode(files.get('signature.json')!)).signature
+    const verified = await (await call(env, 'POST', '/api/v1/users/export/verify', { manifest: manifestText, signature })).json() as any
+    expect(verified).toMatchObject({ valid: true, manifestSha256 })
+
+    const tampered = manifestText.replace('"m2"', '"m9"')
+    const rejected = await (await call(env, 'POST', '/api/v1/users/export/verify', { manifest: tampered, signature })).json() as any
+    expect(rejected.valid).toBe(false)
+  })
+
+  it('removes archives after the retention period', async () => {
+    const env = makeEnv()
+    const job = await (await call(env, 'POST', '/api/v1/users/export')).json() as any
+    await buildAccountExport(env, job.exportId)
+    const row = env.DB.exports[0]
+    expect(env.R2.objects.has(row.r2_key)).toBe(true)
+
+    expect(await purgeExpiredAccountExports(env, row.expires_at - 1)).toBe(0)
+    expect(await purgeExpiredAccountExports(env, row.expires_at)).toBe(1)
+    expect(env.R2.objects.has(row.r2_key)).toBe(false)
+
+    const gone = await call(env, 'GET', `/api/v1/users/export/${job.exportId}/download`)
+    expect(gone.status).toBe(410)
+  })
+})
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { buildChatCacheKey, buildEmbeddingCacheKey, ChatCacheKeyOptions, ensureAiCacheColumns } from '../src/services/ai-cache'
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string
+  ) {}
+
+  bind() {
+    return this
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    return { results: [] }
+  }
+
+  async run() {
+    this.db.executed.push(this.sql.trim())
+    if (this.sql.includes('ADD COLUMN')) throw new Error('duplicate column name')
+    return { meta: { changes: 0 } }
+  }
+}
+
+class MockDB {
+  executed: string[] = []
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+const MESSAGES = [{ role: 'user', content: '分析我的人格' }]
+const BASE: ChatCacheKeyOptions = { walletAddress: 'WalletA', temperature: 0.7, maxTokens: 1000 }
+
+describe('AI response cache keys', () => {
+  afterEach(() => {
+    delete (globalThis as any).__aiCacheColumnsReady
+  })
+
+  it('separates entries by wallet and by generation parameters', async () => {
+    const key = await buildChatCacheKey('qwen-flash', MESSAGES, BASE)
+    // 空白差异不影响命中
+    expect(await buildChatCacheKey('qwen-flash', [{ role: 'USER', content: '  分析我的人格 ' }], { ...BASE })).toBe(key)
+
+    const variants = await Promise.all([
+      buildChatCacheKey('qwen-flash', MESSAGES, { ...BASE, walletAddress: 'WalletB' }),
+      buildChatCacheKey('qwen-flash', MESSAGES, { ...BASE, walletAddress: null }),
+      buildChatCacheKey('qwen-flash', MESSAGES, { ...BASE, temperature: 0.2 }),
+      buildChatCacheKey('qwen-flash', MESSAGES, { ...BASE, maxTokens: 200 }),
+      buildChatCacheKey('qwen-flash', MESSAGES, { ...BASE, tools: [{ type: 'function', function: { name: 'lookup' } }] }),
+      buildChatCacheKey('qwen-flash', MESSAGES, { ...BASE, tools: [{ type: 'function', function: { name: 'lookup' } }], toolChoice: 'required' }),
+      buildChatCacheKey('qwen-max', MESSAGES, BASE),
+    ])
+    expect(new Set([key, ...variants]).size).toBe(variants.length + 1)
+  })
+
+  it('scopes embedding entries to the wallet', async () => {
+    const key = await buildEmbeddingCacheKey('text-embedding-v4', { texts: ['去海边'] }, { walletAddress: 'WalletA' })
+    expect(await buildEmbeddingCacheKey('text-embedding-v4', ['  去海边 '], { walletAddress: 'WalletA' })).toBe(key)
+    expect(await buildEmbeddingCacheKey('text-embedding-v4', ['去海边'], { walletAddress: 'WalletB' })).not.toBe(key)
+    expect(await buildEmbeddingCacheKey('text-embedding-v4', ['去海边'], { walletAddress: null })).not.toBe(key)
+  })
+
+  it('adds the cache columns at most once per isolate', async () => {
+    const db = new MockDB()
+    await ensureAiCacheColumns({ DB: db } as any)
+    await ensureAiCacheColumns({ DB: db } as any)
+    expect(db.executed).toHaveLength(2)
+    expect(db.executed.every(sql => sql.startsWith('ALTER TABLE ai_usage_logs ADD COLUMN'))).toBe(true)
+  })
+})
@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { callAiProvider, getKeyCircuit, listProviderKeys } from '../src/services/ai-provider'
+
+type KeyRow = { id: number; name: string; service: string; encrypted_key: string; endpoint_url: string | null }
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    const sql = this.sql.trim()
+    if (sql.startsWith('SELECT id, name, service, encrypted_key, endpoint_url')) {
+      return { results: this.db.keys.filter(k => k.service === this.params[0]) as any }
+    }
+    return { results: [] }
+  }
+
+  async run() {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('UPDATE api_keys SET usage_count = usage_count + 1')) {
+      this.db.used.push(p[1])
+    } else if (sql.startsWith('UPDATE api_keys SET last_error = ?')) {
+      this.db.errors.push({ id: p[2], error: p[0] })
+    }
+    return { meta: { changes: 1 } }
+  }
+}
+
+class MockDB {
+  keys: KeyRow[] = [
+    { id: 1, name: 'primary', service: 'qwen', encrypted_key: btoa('sk-primary'), endpoint_url: 'https://primary.test/v1/chat' },
+    { id: 2, name: 'backup', service: 'qwen', encrypted_key: btoa('sk-backup'), endpoint_url: 'https://backup.test/v1/chat' },
+  ]
+  used: number[] = []
+  errors: { id: number; error: string }[] = []
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+function makeEnv() {
+  const store = new Map<string, string>()
+  const KV = {
+    get: async (key: string) => store.get(key) ?? null,
+    put: async (key: string, value: string) => { store.set(key, value) },
+    delete: async (key: string) => { store.delete(key) },
+  }
+  return { DB: new MockDB(), KV } as any
+}
+
+// 按 Authorization 头决定各密钥的上游响应
+function stubUpstream(statusFor: Record<string, number | 'network'>) {
+  const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+    const key = String((init.headers as any).Authorization).replace('Bearer ', '')
+    const status = statusFor[key] ?? 200
+    if (status === 'network') throw new Error('connection refused')
+    return new Response(JSON.stringify({ key }), { status })
+  })
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+function call(env: any) {
+  return callAiProvider(env, 'qwen', (key) => ({
+    method: 'POST',
+    headers: { Authorization: `Bearer ${key.apiKey}` },
+    body: '{}',
+  }))
+}
+
+function keysTried(fetchMock: ReturnType<typeof stubUpstream>) {
+  return fetchMock.mock.calls.map(([, init]) => String((init.headers as any).Authorization).replace('Bearer ', ''))
+}
+
+describe('AI provider failover', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+  })
+
+  it('orders the secret first and falls back to qwen keys for embeddings', async () => {
+    const env = makeEnv()
+    env.QWEN_API_KEY = 'sk-secret'
+    const qwen = await listProviderKeys(env, 'qwen')
+    expect(qwen.map(k => [k.name, k.endpoint])).toEqual([
+      ['QWEN_API_KEY', 'https://primary.test/v1/chat'],
+      ['primary', 'https://primary.test/v1/chat'],
+      ['backup', 'https://backup.test/v1/chat'],
+    ])
+    // 借用 qwen 密钥时不沿用 chat 的 endpoint
+    const embedding = await listProviderKeys(env, 'embedding')
+    expect(embedding.map(k => k.apiKey)).toEqual(['sk-secret', 'sk-primary', 'sk-backup'])
+    expect(new Set(embedding.map(k => k.endpoint)).size).toBe(1)
+    expect(embedding[0].endpoint).toContain('/embeddings/')
+  })
+
+  it('switches keys on 5xx, 429 and network errors but returns 4xx responses as-is', async () => {
+    const env = makeEnv()
+    const fetchMock = stubUpstream({ 'sk-primary': 503 })
+    const result = await call(env)
+    expect(result.response!.status).toBe(200)
+    expect(result.key!.name).toBe('backup')
+    expect(result.attempts.map(a => [a.keyName, a.status])).toEqual([['primary', 503], ['backup', 200]])
+    expect(keysTried(fetchMock)).toEqual(['sk-primary', 'sk-backup'])
+    expect(env.DB.used).toEqual([2])
+    expect(env.DB.errors[0]).toMatchObject({ id: 1 })
+    expect((await getKeyCircuit(env, 1)).failures).toBe(1)
+
+    stubUpstream({ 'sk-primary': 'network', 'sk-backup': 429 })
+    const exhausted = await call(env)
+    // 全部失败时返回最后一个上游响应
+    expect(exhausted.response!.status).toBe(429)
+    expect(exhausted.attempts.map(a => a.status)).toEqual([null, 429])
+
+    const badRequest = stubUpstream({ 'sk-primary': 400 })
+    expect((await call(env)).response!.status).toBe(400)
+    expect(keysTried(badRequest)).toEqual(['sk-primary'])
+  })
+
+  it('opens the circuit after repeated failures, skips the key during cooldown and resets on success', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+    const env = makeEnv()
+
+    stubUpstream({ 'sk-primary': 500 })
+    for (let i = 0; i < 3; i++) await call(env)
+    const opened = await getKeyCircuit(env, 1)
+    expect(opened.failures).toBe(3)
+    expect(opened.openedUntil).toBe(Math.floor(Date.now() / 1000) + 60)
+
+    // 冷却期内直接跳过熔断的密钥
+    const skipping = stubUpstream({})
+    await call(env)
+    expect(keysTried(skipping)).toEqual(['sk-backup'])
+
+    // 全部密钥熔断时仍逐个尝试，避免服务彻底不可用
+    stubUpstream({ 'sk-backup': 500 })
+    for (let i = 0; i < 3; i++) await call(env)
+    const allOpen = stubUpstream({})
+    const result = await call(env)
+    expect(keysTried(allOpen)).toEqual(['sk-primary'])
+    expect(result.response!.status).toBe(200)
+    expect(await getKeyCircuit(env, 1)).toMatchObject({ failures: 0, openedUntil: 0 })
+
+    // 冷却结束后重新参与轮换
+    vi.setSystemTime(new Date('2026-01-01T00:02:00Z'))
+    const recovered = stubUpstream({})
+    await call(env)
+    expect(keysTried(recovered)).toEqual(['sk-primary'])
+  })
+})
@@ -0,0 +1,184 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { handleAiProxy } from '../src/index'
+
+type StatsRow = { user_id: string; period: string; tokens_used: number }
+type UsageLogRow = { total_tokens: number; success: number; error_message: string | null }
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('SELECT id, current_tier, subscription_type, subscription_expiry, staked_amount')) {
+      return { id: 'user_1', current_tier: 1, subscription_type: 'FREE', subscription_expiry: null, staked_amount: 0 } as any
+    }
+    if (sql.startsWith('SELECT tokens_used FROM user_daily_stats') || sql.startsWith('SELECT tokens_used FROM user_monthly_stats')) {
+      const rows = sql.includes('user_daily_stats') ? this.db.daily : this.db.monthly
+      const row = rows.find(r => r.user_id === p[0] && r.period === p[1])
+      return (row ? { tokens_used: row.tokens_used } : null) as any
+    }
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    return { results: [] }
+  }
+
+  async run(): Promise<{ success: boolean; meta: { changes: number } }> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('INSERT INTO user_monthly_stats') || sql.startsWith('INSERT INTO user_daily_stats')) {
+      const rows = sql.startsWith('INSERT INTO user_monthly_stats') ? this.db.monthly : this.db.daily
+      const [userId, , period, tokens] = p
+      const existing = rows.find(r => r.user_id === userId && r.period === period)
+      if (existing) existing.tokens_used += tokens
+      else rows.push({ user_id: userId, period, tokens_used: tokens })
+      return { success: true, meta: { changes: 1 } }
+    }
+    if (sql.startsWith('UPDATE user_monthly_stats SET tokens_used = MAX(0, tokens_used + ?)') ||
+        sql.startsWith('UPDATE user_daily_stats SET tokens_used = MAX(0, tokens_used + ?)')) {
+      const rows = sql.startsWith('UPDATE user_monthly_stats') ? this.db.monthly : this.db.daily
+      const [delta, , userId, period] = p
+      const existing = rows.find(r => r.user_id === userId && r.period === period)
+      if (existing) existing.tokens_used = Math.max(0, existing.tokens_used + delta)
+      return { success: true, meta: { changes: existing ? 1 : 0 } }
+    }
+    if (sql.startsWith('INSERT INTO ai_usage_logs') && p.length === 13) {
+      this.db.usageLogs.push({ total_tokens: Number(p[7]), success: Number(p[9]), error_message: p[10] })
+    }
+    return { success: true, meta: { changes: 0 } }
+  }
+}
+
+class MockDB {
+  daily: StatsRow[] = []
+  monthly: StatsRow[] = []
+  usageLogs: UsageLogRow[] = []
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+const WALLET = 'WalletStream11111111111111111111111111111111'
+const encoder = new TextEncoder()
+
+function sse(event: unknown) {
+  return encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
+}
+
+function delta(content: string) {
+  return sse({ id: 'chatcmpl-stream', choices: [{ delta: { content } }] })
+}
+
+// 按需产出分块的上游流；chunks 用尽后可选择抛错
+function upstreamStream(chunks: Uint8Array[], failWith?: Error) {
+  let index = 0
+  const cancel = vi.fn()
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index < chunks.length) controller.enqueue(chunks[index++])
+      else if (failWith) controller.error(failWith)
+      else controller.close()
+    },
+    cancel,
+  })
+  return { response: new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } }), cancel }
+}
+
+async function streamRequest(env: any) {
+  const pending: Promise<unknown>[] = []
+  const response = await handleAiProxy(new Request('https://example.com/api/v1/ai/proxy/completions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      walletAddress: WALLET,
+      model: 'qwen-flash',
+      function_type: 'persona',
+      stream: true,
+      max_tokens: 500,
+      messages: [{ role: 'user', content: 'hi' }],
+    }),
+  }), env, { waitUntil: (p: Promise<unknown>) => pending.push(p) })
+  return { response, settled: () => Promise.all(pending) }
+}
+
+function makeEnv(db: MockDB) {
+  return { DB: db as any, QWEN_API_KEY: 'sk-test', ENVIRONMENT: 'test' } as any
+}
+
+describe('AI proxy streaming', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('relays SSE chunks and bills the usage reported in the stream', async () => {
+    const db = new MockDB()
+    const upstream = upstreamStream([
+      delta('Hel'),
+      delta('lo'),
+      sse({ id: 'chatcmpl-stream', choices: [], usage: { prompt_tokens: 20, completion_tokens: 30, total_tokens: 50 } }),
+      encoder.encode('data: [DONE]\n\n'),
+    ])
+    vi.stubGlobal('fetch', vi.fn(async () => upstream.response))
+
+    const { response, settled } = await streamRequest(makeEnv(db))
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream')
+    const text = await response.text()
+    await settled()
+
+    expect(text).toContain('"content":"Hel"')
+    expect(text).toContain('[DONE]')
+    expect(text).not.toContain('event: error')
+    expect(db.daily[0].tokens_used).toBe(50)
+    expect(db.usageLogs).toEqual([{ total_tokens: 50, success: 1, error_message: null }])
+  })
+
+  it('ends a truncated stream with an error event and logs the failure', async () => {
+    const db = new MockDB()
+    const upstream = upstreamStream([delta('partial answer')], new Error('connection reset'))
+    vi.stubGlobal('fetch', vi.fn(async () => upstream.response))
+
+    const { response, settled } = await streamRequest(makeEnv(db))
+    const text = await response.text()
+    await settled()
+
+    expect(text).toContain('partial answer')
+    expect(text).toMatch(/event: error\ndata: \{"error":"upstream_stream_error","message":"upstream_stream_error: connection reset"\}\n\n$/)
+    expect(db.usageLogs).toHaveLength(1)
+    expect(db.usageLogs[0]).toMatchObject({ success: 0, error_message: 'upstream_stream_error: connection reset' })
+    // 已转发的内容仍按估算计费
+    expect(db.usageLogs[0].total_tokens).toBeGreaterThan(0)
+    expect(db.daily[0].tokens_used).toBe(db.usageLogs[0].total_tokens)
+  })
+
+  it('stops reading upstream when the client disconnects and bills what was relayed', async () => {
+    const db = new MockDB()
+    const upstream = upstreamStream([delta('a'.repeat(40)), delta('b'.repeat(40)), delta('c'.repeat(40)), delta('d'.repeat(40))])
+    vi.stubGlobal('fetch', vi.fn(async () => upstream.response))
+
+    const { response, settled } = await streamRequest(makeEnv(db))
+    const reader = response.body!.getReader()
+    await reader.read()
+    await reader.cancel()
+    await settled()
+
+    expect(upstream.cancel).toHaveBeenCalled()
+    expect(db.usageLogs).toHaveLength(1)
+    expect(db.usageLogs[0]).toMatchObject({ success: 1, error_message: 'client_disconnected' })
+    // 未收到上游 usage：按提示词估算 + 已转发字符 / 4 计费，未转发的分块不计入
+    const billed = db.usageLogs[0].total_tokens
+    expect(billed).toBeGreaterThan(0)
+    expect(billed).toBeLessThan(1 + Math.ceil(160 / 4))
+    expect(db.daily[0].tokens_used).toBe(billed)
+  })
+})
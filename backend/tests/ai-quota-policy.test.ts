@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { resolveQuotaPlan, resolveQuotaPolicy } from '../src/services/ai-quota'
+
+const NOW = Math.floor(Date.now() / 1000)
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('SELECT monthly_token_limit, daily_conversation_limit, custom_multiplier')) {
+      const row = this.db.overrides.find(o => o.user_id === p[0] && (o.expires_at == null || o.expires_at > p[1]))
+      return (row ?? null) as any
+    }
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    const sql = this.sql.trim()
+    if (sql.startsWith('SELECT config_key, config_value FROM app_config WHERE category = \'quota\'')) {
+      return { results: Object.entries(this.db.config).map(([config_key, config_value]) => ({ config_key, config_value })) as any }
+    }
+    return { results: [] }
+  }
+
+  async run() {
+    return { meta: { changes: 0 } }
+  }
+}
+
+class MockDB {
+  config: Record<string, string> = {}
+  overrides: any[] = []
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+describe('AI quota policy resolution', () => {
+  it('falls back to the built-in free limits when nothing is configured', async () => {
+    const policy = await resolveQuotaPolicy({ DB: new MockDB() } as any, null)
+    expect(policy).toMatchObject({
+      plan: 'free',
+      tier: 1,
+      dailyLimit: 6000,
+      monthlyLimit: 140000,
+      maxTokensPerRequest: 2048,
+      dailyConversationLimit: null,
+      appliedRule: 'default',
+      rules: ['default:free'],
+    })
+  })
+
+  it('picks the plan from staking and active subscriptions and applies the tier multiplier', async () => {
+    const db = new MockDB()
+    db.config = { 'quota.daily_subscriber': '20000', 'quota.subscriber': '500000', 'quota.tier_multiplier': '[1, 1.5, 2]' }
+    const env = { DB: db } as any
+
+    const subscriber = await resolveQuotaPolicy(env, { id: 'u1', current_tier: 2, subscription_type: 'monthly', subscription_expiry: NOW + 86400 })
+    expect(subscriber).toMatchObject({ plan: 'subscriber', dailyLimit: 30000, monthlyLimit: 750000, appliedRule: 'tier' })
+    expect(subscriber.rules).toEqual(['global:subscriber', 'subscription:MONTHLY', 'tier:2x1.5'])
+
+    // 订阅过期后按免费处理；超出列表长度的 tier 取最后一个倍数
+    const expired = await resolveQuotaPolicy(env, { id: 'u2', current_tier: 9, subscription_type: 'MONTHLY', subscription_expiry: NOW - 1 })
+    expect(expired).toMatchObject({ plan: 'free', dailyLimit: 12000, monthlyLimit: 280000 })
+
+    // 质押优先于订阅
+    expect(resolveQuotaPlan({ id: 'u3', subscription_type: 'YEARLY', staked_amount: 10 }).plan).toBe('staker')
+    const staker = await resolveQuotaPolicy(env, { id: 'u3', current_tier: 1, staked_amount: 10 })
+    expect(staker).toMatchObject({ plan: 'staker', dailyLimit: 100000, monthlyLimit: 2800000, appliedRule: 'staker' })
+  })
+
+  it('applies an unexpired admin override after the plan and tier rules', async () => {
+    const db = new MockDB()
+    db.overrides = [
+      { user_id: 'vip', monthly_token_limit: 50000, daily_conversation_limit: 12, custom_multiplier: 2, reason: 'beta', expires_at: NOW + 3600 },
+      { user_id: 'lapsed', monthly_token_limit: 1, daily_conversation_limit: 1, custom_multiplier: 10, reason: null, expires_at: NOW - 10 },
+    ]
+    const env = { DB: db } as any
+
+    const vip = await resolveQuotaPolicy(env, { id: 'vip', current_tier: 2 })
+    // 倍数作用于日限额（6000 × 1.2 × 2），月限额被显式覆盖
+    expect(vip).toMatchObject({
+      dailyLimit: 14400,
+      monthlyLimit: 50000,
+      dailyConversationLimit: 12,
+      appliedRule: 'override',
+      overrideExpiresAt: NOW + 3600,
+    })
+    expect(vip.rules).toEqual(['default:free', 'tier:2x1.2', 'override:beta'])
+
+    const lapsed = await resolveQuotaPolicy(env, { id: 'lapsed', current_tier: 1 })
+    expect(lapsed).toMatchObject({ dailyLimit: 6000, monthlyLimit: 140000, appliedRule: 'default', overrideExpiresAt: null })
+  })
+})
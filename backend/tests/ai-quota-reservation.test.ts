@@ -0,0 +1,192 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { handleAiProxy } from '../src/index'
+
+type UserRow = { id: string; wallet_address: string; current_tier: number; subscription_type: string }
+type StatsRow = { user_id: string; wallet_address: string; period: string; tokens_used: number }
+type UsageLogRow = { user_id: string; total_tokens: number; success: number }
+
+// 每条语句前让出事件循环，模拟 D1 的网络往返，让并发请求真正交错执行
+const tick = () => new Promise<void>((resolve) => setTimeout(resolve, 0))
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    await tick()
+    const sql = this.sql.trim()
+    const p = this.params
+
+    if (sql.startsWith('SELECT id, current_tier, subscription_type, subscription_expiry, staked_amount')) {
+      const row = this.db.users.find(r => r.wallet_address === String(p[0]))
+      return (row ? { ...row, subscription_expiry: null, staked_amount: 0 } : null) as any
+    }
+
+    if (sql.startsWith('SELECT tokens_used FROM user_daily_stats')) {
+      const row = this.db.daily.find(r => r.user_id === p[0] && r.period === p[1])
+      return (row ? { tokens_used: row.tokens_used } : null) as any
+    }
+
+    if (sql.startsWith('SELECT tokens_used FROM user_monthly_stats')) {
+      const row = this.db.monthly.find(r => r.user_id === p[0] && r.period === p[1])
+      return (row ? { tokens_used: row.tokens_used } : null) as any
+    }
+
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    await tick()
+    return { results: [] }
+  }
+
+  async run(): Promise<{ success: boolean; meta: { changes: number } }> {
+    await tick()
+    const sql = this.sql.trim()
+    const p = this.params
+
+    if (sql.startsWith('INSERT INTO user_monthly_stats') || sql.startsWith('INSERT INTO user_daily_stats')) {
+      const rows = sql.startsWith('INSERT INTO user_monthly_stats') ? this.db.monthly : this.db.daily
+      const [userId, wallet, period, tokens, , limit] = p
+      const existing = rows.find(r => r.user_id === userId && r.period === period)
+      if (!existing) {
+        rows.push({ user_id: userId, wallet_address: wallet, period, tokens_used: tokens })
+        return { success: true, meta: { changes: 1 } }
+      }
+      if (existing.tokens_used + tokens > limit) {
+        return { success: true, meta: { changes: 0 } }
+      }
+      existing.tokens_used += tokens
+      return { success: true, meta: { changes: 1 } }
+    }
+
+    if (sql.startsWith('UPDATE user_monthly_stats SET tokens_used = MAX(0, tokens_used + ?)') ||
+        sql.startsWith('UPDATE user_daily_stats SET tokens_used = MAX(0, tokens_used + ?)')) {
+      const rows = sql.startsWith('UPDATE user_monthly_stats') ? this.db.monthly : this.db.daily
+      const [delta, , userId, period] = p
+      const existing = rows.find(r => r.user_id === userId && r.period === period)
+      if (!existing) return { success: true, meta: { changes: 0 } }
+      existing.tokens_used = Math.max(0, existing.tokens_used + delta)
+      return { success: true, meta: { changes: 1 } }
+    }
+
+    if (sql.startsWith('INSERT INTO ai_usage_logs')) {
+      // 成功路径绑定 13 个参数（第 10 个为 success），上游失败路径直接写 0
+      const success = p.length === 13 ? Number(p[9]) : 0
+      this.db.usageLogs.push({ user_id: p[0], total_tokens: success ? Number(p[7]) : 0, success })
+      return { success: true, meta: { changes: 1 } }
+    }
+
+    return { success: true, meta: { changes: 0 } }
+  }
+}
+
+class MockDB {
+  users: UserRow[] = []
+  daily: StatsRow[] = []
+  monthly: StatsRow[] = []
+  usageLogs: UsageLogRow[] = []
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+const WALLET = 'Wallet1111111111111111111111111111111111111'
+
+function makeEnv(db: MockDB) {
+  db.users.push({ id: 'user_1', wallet_address: WALLET, current_tier: 1, subscription_type: 'FREE' })
+  return { DB: db as any, QWEN_API_KEY: 'sk-test', ENVIRONMENT: 'test' } as any
+}
+
+function proxyRequest(maxTokens: number) {
+  return new Request('https://example.com/api/v1/ai/proxy', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      walletAddress: WALLET,
+      model: 'qwen-flash',
+      function_type: 'persona',
+      max_tokens: maxTokens,
+      messages: [{ role: 'user', content: 'hi' }],
+    }),
+  })
+}
+
+function upstreamOk(totalTokens: number) {
+  return new Response(JSON.stringify({
+    id: 'chatcmpl-test',
+    choices: [{ message: { role: 'assistant', content: 'ok' } }],
+    usage: { prompt_tokens: 100, completion_tokens: totalTokens - 100, total_tokens: totalTokens },
+  }), { status: 200, headers: { 'Content-Type': 'application/json' } })
+}
+
+describe('AI proxy quota reservation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('does not let concurrent requests overspend the daily limit', async () => {
+    const db = new MockDB()
+    const env = makeEnv(db)
+    const fetchMock = vi.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      return upstreamOk(500)
+    })
+    vi.stubGlobal('fetch', fetchMock)
+
+    // 预估 6 + 1000 tokens/次，免费日限额 6000，只能容纳 5 次
+    const responses = await Promise.all(Array.from({ length: 10 }, () => handleAiProxy(proxyRequest(1000), env)))
+    const statuses = responses.map((r) => r.status)
+
+    expect(statuses.filter((s) => s === 200)).toHaveLength(5)
+    expect(statuses.filter((s) => s === 429)).toHaveLength(5)
+    expect(fetchMock).toHaveBeenCalledTimes(5)
+
+    const rejected = await responses.find((r) => r.status === 429)!.json() as any
+    expect(rejected.error).toBe('daily_quota_would_exceed')
+
+    // 预留按实际 usage 结算：5 次 × 500
+    expect(db.daily[0].tokens_used).toBe(2500)
+    expect(db.monthly[0].tokens_used).toBe(2500)
+    expect(db.usageLogs.filter((l) => l.success === 1)).toHaveLength(5)
+  })
+
+  it('keeps every concurrent settlement instead of overwriting totals', async () => {
+    const db = new MockDB()
+    const env = makeEnv(db)
+    let call = 0
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      const tokens = 200 + 100 * (call++)
+      await new Promise((resolve) => setTimeout(resolve, 10 - call))
+      return upstreamOk(tokens)
+    }))
+
+    const responses = await Promise.all(Array.from({ length: 4 }, () => handleAiProxy(proxyRequest(500), env)))
+    expect(responses.every((r) => r.status === 200)).toBe(true)
+
+    // 200 + 300 + 400 + 500
+    expect(db.daily[0].tokens_used).toBe(1400)
+    expect(db.monthly[0].tokens_used).toBe(1400)
+  })
+
+  it('refunds the reservation when upstream fails', async () => {
+    const db = new MockDB()
+    const env = makeEnv(db)
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('upstream exploded', { status: 500 })))
+
+    const responses = await Promise.all(Array.from({ length: 3 }, () => handleAiProxy(proxyRequest(1000), env)))
+    expect(responses.every((r) => r.status === 500)).toBe(true)
+
+    expect(db.daily[0].tokens_used).toBe(0)
+    expect(db.monthly[0].tokens_used).toBe(0)
+    expect(db.usageLogs.every((l) => l.success === 0 && l.total_tokens === 0)).toBe(true)
+  })
+})
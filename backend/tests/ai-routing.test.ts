@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('../src/routes/admin/middleware', () => {
+  return {
+    logAdminAction: vi.fn(async () => {}),
+  }
+})
+
+import { dryRunRouting } from '../src/routes/admin/ai-service'
+import { DEFAULT_ROUTING_RULES, loadRoutingConfig, resolveRouting, RoutingInput } from '../src/services/ai-routing'
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    const sql = this.sql.trim()
+    if (sql.startsWith('SELECT config_key, config_value FROM app_config WHERE config_key IN')) {
+      const results = this.params
+        .filter(key => this.db.config[key] !== undefined)
+        .map(key => ({ config_key: key, config_value: this.db.config[key] }))
+      return { results: results as any }
+    }
+    return { results: [] }
+  }
+
+  async run() {
+    return { meta: { changes: 0 } }
+  }
+}
+
+class MockDB {
+  config: Record<string, string> = {}
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+function input(overrides: Partial<RoutingInput> = {}): RoutingInput {
+  return { functionType: 'conversation', messageCount: 2, lastUserContent: '你好', tier: 1, ...overrides }
+}
+
+function dryRun(env: any, body: unknown) {
+  return dryRunRouting(new Request('https://admin.test/admin/ai/routing/dry-run', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }), env, { adminId: 'admin_1' } as any)
+}
+
+describe('AI model routing', () => {
+  it('resolves the built-in rules per field, in order, with client overrides last', async () => {
+    const config = await loadRoutingConfig({ DB: new MockDB() } as any)
+    expect(config.rules).toEqual(DEFAULT_ROUTING_RULES)
+
+    expect(resolveRouting(config, input())).toMatchObject({
+      model: 'qwen-flash', upstreamModel: 'qwen-flash', enableSearch: false, temperature: 0.7, maxTokens: null,
+      matchedRules: ['default'],
+    })
+
+    const long = resolveRouting(config, input({ messageCount: 12, lastUserContent: '今天的天气怎么样' }))
+    // realtime_search 先命中 enableSearch，long_thread 决定模型；联网时切换到搜索模型
+    expect(long.matchedRules).toEqual(['realtime_search', 'long_thread', 'default'])
+    expect(long.sources).toMatchObject({ model: 'rule:long_thread', enableSearch: 'rule:realtime_search' })
+    expect(long).toMatchObject({ model: 'qwen-max', enableSearch: true, upstreamModel: 'qwen3-max', keywordClasses: ['realtime'] })
+
+    // structured_tasks 在前：即使消息很长，persona 也固定 qwen-flash 且不联网
+    const persona = resolveRouting(config, input({ functionType: 'persona', lastUserContent: `${'x'.repeat(200)} latest price` }))
+    expect(persona).toMatchObject({ model: 'qwen-flash', enableSearch: false, upstreamModel: 'qwen-flash' })
+
+    const client = resolveRouting(config, input({ requestedModel: 'qwen-plus', enableSearch: false, temperature: 0.2, maxTokens: 300 }))
+    expect(client).toMatchObject({ model: 'qwen-plus', temperature: 0.2, maxTokens: 300 })
+    expect(client.sources).toEqual({ model: 'client', enableSearch: 'client', temperature: 'client', maxTokens: 'client' })
+    expect(resolveRouting(config, input({ requestedModel: 'auto' })).sources.model).toBe('rule:default')
+  })
+
+  it('reads saved rules from config, honours tier bounds and skips disabled rules and bad patterns', async () => {
+    const db = new MockDB()
+    db.config = {
+      'ai.routing.rules': JSON.stringify([
+        { id: 'off', enabled: false, set: { model: 'never' } },
+        { id: 'vip', match: { minTier: 3 }, set: { model: 'qwen-max', maxTokens: 4000 } },
+        { id: 'poem', match: { keywordClasses: ['poem', 'broken'] }, set: { temperature: 1.1 } },
+        { id: 'fallback', set: { model: 'qwen-turbo' } },
+      ]),
+      'ai.routing.keyword_classes': JSON.stringify({ poem: { pattern: '诗|poem', flags: 'i' }, broken: { pattern: '(' } }),
+      'ai.routing.search_model': 'qwen-search',
+    }
+    const config = await loadRoutingConfig({ DB: db } as any)
+
+    expect(resolveRouting(config, input({ tier: 1, lastUserContent: 'write a POEM' }))).toMatchObject({
+      model: 'qwen-turbo', temperature: 1.1, maxTokens: null, matchedRules: ['poem', 'fallback'], keywordClasses: ['poem'],
+    })
+    expect(resolveRouting(config, input({ tier: 4, enableSearch: true }))).toMatchObject({
+      model: 'qwen-max', maxTokens: 4000, upstreamModel: 'qwen-search', matchedRules: ['vip', 'fallback'],
+    })
+  })
+
+  it('dry-runs saved rules or an unsaved draft from the admin endpoint', async () => {
+    const env = { DB: new MockDB() } as any
+
+    const saved = await (await dryRun(env, {
+      messages: [{ role: 'user', content: '帮我分析这个 kotlin 的 bug' }, { role: 'assistant', content: 'ok' }],
+    })).json() as any
+    expect(saved.usingDraft).toBe(false)
+    expect(saved.decision).toMatchObject({ model: 'qwen-max', matchedRules: ['complex_request', 'default'], keywordClasses: ['technical'] })
+
+    const draft = await (await dryRun(env, {
+      text: 'hello',
+      tier: 5,
+      rules: [{ id: 'gold', match: { minTier: 5 }, set: { model: 'qwen-gold' } }],
+    })).json() as any
+    expect(draft.usingDraft).toBe(true)
+    expect(draft.decision).toMatchObject({ model: 'qwen-gold', matchedRules: ['gold'], sources: { model: 'rule:gold' } })
+  })
+})
@@ -0,0 +1,143 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('../src/services/ai-provider', async (importOriginal) => {
+  return {
+    ...(await importOriginal<typeof import('../src/services/ai-provider')>()),
+    aiEmbedText: vi.fn(async () => ({ ok: true, embeddings: [[0.1, 0.2]], model: 'text-embedding-v4', totalTokens: 7 })),
+  }
+})
+
+vi.mock('../src/services/hybrid-search', () => {
+  return {
+    hybridSearchMemories: vi.fn(async () => ({
+      results: [{ memoryId: 'mem_1', similarity: 0.91234, textPreview: '去海边', memoryType: 'event', createdAt: 1700000000 }],
+      total: 1,
+    })),
+  }
+})
+
+import { runServerToolLoop } from '../src/services/ai-tools'
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    if (this.sql.includes('FROM user_persona_profile_v2')) {
+      return { profile_json: JSON.stringify({ openness: 0.8 }), updated_at: 1700000000 } as any
+    }
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    return { results: [] }
+  }
+
+  async run() {
+    return { meta: { changes: 0 } }
+  }
+}
+
+class MockDB {
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+function toolCall(id: string, name: string, args: unknown = {}) {
+  return { id, type: 'function', function: { name, arguments: JSON.stringify(args) } }
+}
+
+function completion(message: any, totalTokens: number, finishReason = message.tool_calls ? 'tool_calls' : 'stop') {
+  return {
+    response: new Response(JSON.stringify({
+      choices: [{ index: 0, message: { role: 'assistant', content: null, ...message }, finish_reason: finishReason }],
+      usage: { prompt_tokens: totalTokens - 10, completion_tokens: 10, total_tokens: totalTokens },
+    }), { status: 200 }),
+    key: null,
+    attempts: [],
+  }
+}
+
+// 依次返回预设的上游响应，并记录每轮发送的 payload
+function scriptedSend(replies: ReturnType<typeof completion>[]) {
+  const payloads: any[] = []
+  const send = vi.fn(async (payload: any) => {
+    payloads.push(JSON.parse(JSON.stringify(payload)))
+    return replies.shift()!
+  })
+  return { send, payloads }
+}
+
+function loop(send: any, overrides: { tokenBudget?: number; maxRounds?: number; tools?: any[] } = {}) {
+  return runServerToolLoop({ DB: new MockDB() } as any, {
+    walletAddress: 'WalletTools1111111111111111111111111111111',
+    payload: { model: 'qwen-flash', messages: [{ role: 'user', content: '我上次去哪玩了？' }], ...(overrides.tools ? { tools: overrides.tools } : {}) },
+    enabledTools: ['search_memories', 'get_persona'],
+    maxRounds: overrides.maxRounds ?? 3,
+    tokenBudget: overrides.tokenBudget ?? 10000,
+    send,
+  })
+}
+
+const CLIENT_TOOL = { type: 'function', function: { name: 'open_camera', parameters: { type: 'object', properties: {} } } }
+
+describe('AI server tool loop', () => {
+  it('executes server tools, feeds results back and bills the query embedding', async () => {
+    const { send, payloads } = scriptedSend([
+      completion({ tool_calls: [toolCall('c1', 'search_memories', { query: '旅行' })] }, 100),
+      completion({ content: '你去了海边。' }, 150),
+    ])
+
+    const result = await loop(send)
+    const body = await result.response!.json() as any
+
+    expect(send).toHaveBeenCalledTimes(2)
+    const toolMessage = payloads[1].messages.at(-1)
+    expect(toolMessage).toMatchObject({ role: 'tool', tool_call_id: 'c1', name: 'search_memories' })
+    expect(JSON.parse(toolMessage.content).memories[0]).toMatchObject({ memoryId: 'mem_1', similarity: 0.912 })
+
+    expect(body.choices[0].message.content).toBe('你去了海边。')
+    expect(body.server_tool_rounds).toBe(1)
+    expect(body.server_tool_tokens).toBe(7)
+    expect(body.usage).toEqual({ prompt_tokens: 230, completion_tokens: 20, total_tokens: 257 })
+  })
+
+  it('strips server tool calls when the model mixes them with client tools', async () => {
+    const { send } = scriptedSend([
+      completion({ tool_calls: [toolCall('c1', 'get_persona'), toolCall('c2', 'open_camera')] }, 100),
+    ])
+
+    const result = await loop(send, { tools: [CLIENT_TOOL] })
+    const body = await result.response!.json() as any
+
+    expect(send).toHaveBeenCalledTimes(1)
+    expect(body.choices[0].message.tool_calls.map((c: any) => c.id)).toEqual(['c2'])
+    expect(body.choices[0].finish_reason).toBe('tool_calls')
+  })
+
+  it('stops calling tools once the reserved tokens are spent', async () => {
+    const { send } = scriptedSend([
+      completion({ tool_calls: [toolCall('c1', 'get_persona')] }, 400),
+      completion({ tool_calls: [toolCall('c2', 'get_persona')] }, 700),
+    ])
+
+    const result = await loop(send, { tokenBudget: 1000 })
+    const body = await result.response!.json() as any
+
+    // 第二轮后累计 1100 ≥ 预留 1000，不再执行工具也不再请求上游
+    expect(send).toHaveBeenCalledTimes(2)
+    expect(body.server_tool_budget_exhausted).toBe(true)
+    expect(body.server_tool_rounds).toBe(1)
+    expect(body.usage.total_tokens).toBe(1100)
+    expect(body.choices[0].message.tool_calls).toBeUndefined()
+    expect(body.choices[0].finish_reason).toBe('stop')
+  })
+})
@@ -0,0 +1,218 @@
+import { describe, expect, it } from 'vitest'
+import { handleChatRoutes } from '../src/routes/chat'
+import { backfillChatSearchIndex, buildSnippet, parseSearchQuery, tokenize } from '../src/services/chat-search'
+
+const WALLET = 'wallet_search_owner'
+const OTHER = 'wallet_search_other'
+const T0 = 1_700_000_000_000
+
+// 短语按 FTS5 语义匹配：各词在 body 中连续出现
+function phraseIn(body: string[], phrase: string[]) {
+  for (let i = 0; i + phrase.length <= body.length; i++) {
+    if (phrase.every((t, j) => body[i + j] === t)) return true
+  }
+  return false
+}
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('SELECT id FROM chat_sessions WHERE id = ?')) {
+      return (this.db.sessions.has(p[0]) ? { id: p[0] } : null) as any
+    }
+    if (sql.startsWith('SELECT last_rowid FROM chat_search_backfill')) {
+      return (this.db.backfillRowid == null ? null : { last_rowid: this.db.backfillRowid }) as any
+    }
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    const sql = this.sql.trim()
+    const p = [...this.params]
+    if (sql.startsWith('SELECT m.id, m.session_id, m.text')) {
+      const match = p.shift() as string
+      const wallet = p.shift()
+      const walletPhrase = tokenize(match.match(/^wallet_address : "([^"]*)"/)![1].toLowerCase())
+      const phrases = [...match.matchAll(/body : "([^"]*)"/g)].map(m => m[1].toLowerCase().split(' '))
+      const from = sql.includes('m.timestamp >= ?') ? p.shift() : null
+      const to = sql.includes('m.timestamp <= ?') ? p.shift() : null
+      const isUser = sql.includes('m.is_user = ?') ? p.shift() : null
+      const sessionId = sql.includes('m.session_id = ?') ? p.shift() : null
+      const [limit, offset] = p
+      const rows = [...this.db.fts.entries()]
+        .filter(([, f]) => phraseIn(tokenize(f.wallet_address.toLowerCase()), walletPhrase))
+        .filter(([, f]) => phrases.every(phrase => phraseIn(f.body.toLowerCase().split(' '), phrase)))
+        .map(([rowid]) => this.db.messages.find(m => m.rowid === rowid))
+        .filter(m => m && m.wallet_address === wallet && !m.is_deleted && !m.is_error)
+        .filter(m => (from == null || m.timestamp >= from) && (to == null || m.timestamp <= to))
+        .filter(m => (isUser == null || m.is_user === isUser) && (sessionId == null || m.session_id === sessionId))
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .map(m => ({ ...m, session_title: this.db.sessions.get(m.session_id)?.title ?? null, score: -1 }))
+      return { results: rows.slice(offset, offset + limit) as any }
+    }
+    if (sql.startsWith('SELECT id, text, is_user, timestamp FROM chat_messages')) {
+      const [sessionId, timestamp, count] = p
+      const before = sql.includes('timestamp < ?')
+      const rows = this.db.messages
+        .filter(m => m.session_id === sessionId && !m.is_deleted && (before ? m.timestamp < timestamp : m.timestamp > timestamp))
+        .sort((a, b) => (before ? b.timestamp - a.timestamp : a.timestamp - b.timestamp))
+        .slice(0, count)
+      return { results: rows as any }
+    }
+    if (sql.startsWith('SELECT id, text FROM chat_messages WHERE session_id = ?')) {
+      return { results: this.db.messages.filter(m => m.session_id === p[0] && m.wallet_address === p[1] && !m.is_deleted) as any }
+    }
+    if (sql.startsWith('SELECT rowid, id, text FROM chat_messages WHERE rowid > ?')) {
+      return { results: this.db.messages.filter(m => m.rowid > p[0] && !m.is_deleted).sort((a, b) => a.rowid - b.rowid).slice(0, p[1]) as any }
+    }
+    return { results: [] }
+  }
+
+  async run() {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('INSERT OR REPLACE INTO chat_messages')) {
+      // REPLACE 先删除旧行，新行拿到新的 rowid
+      this.db.messages = this.db.messages.filter(m => m.id !== p[0])
+      this.db.messages.push({
+        rowid: ++this.db.lastRowid, id: p[0], session_id: p[1], wallet_address: p[3], text: p[4], is_user: p[5],
+        timestamp: p[6], is_error: p[13], is_deleted: 0,
+      })
+    } else if (sql.startsWith('DELETE FROM chat_messages_fts WHERE rowid IN (SELECT rowid FROM chat_messages WHERE id IN')) {
+      for (const m of this.db.messages) if (p.includes(m.id)) this.db.fts.delete(m.rowid)
+    } else if (sql.startsWith('DELETE FROM chat_messages_fts WHERE rowid IN (SELECT rowid FROM chat_messages WHERE session_id = ?)')) {
+      for (const m of this.db.messages) if (m.session_id === p[0]) this.db.fts.delete(m.rowid)
+    } else if (sql.startsWith('DELETE FROM chat_messages_fts WHERE rowid = ?')) {
+      this.db.fts.delete(p[0])
+    } else if (sql.startsWith('INSERT INTO chat_messages_fts')) {
+      const m = sql.includes('WHERE id = ?')
+        ? this.db.messages.find(row => row.id === p[1])
+        : this.db.messages.find(row => row.rowid === p[1])
+      if (m) this.db.fts.set(m.rowid, { body: p[0], wallet_address: m.wallet_address })
+    } else if (sql.startsWith('INSERT INTO chat_search_backfill')) {
+      this.db.backfillRowid = p[0]
+    } else if (sql.startsWith('INSERT INTO chat_sessions')) {
+      this.db.sessions.set(p[0], { id: p[0], wallet_address: p[2], title: p[3] })
+    } else if (sql.startsWith('UPDATE chat_messages SET is_deleted = 1')) {
+      for (const m of this.db.messages) if (m.session_id === p[0]) m.is_deleted = 1
+    }
+    return { meta: { changes: 1 } }
+  }
+}
+
+class MockDB {
+  sessions = new Map<string, any>([
+    ['s_run', { id: 's_run', wallet_address: WALLET, title: '训练计划' }],
+    ['s_other', { id: 's_other', wallet_address: OTHER, title: 'other' }],
+  ])
+  messages: any[] = []
+  fts = new Map<number, { body: string; wallet_address: string }>()
+  lastRowid = 0
+  backfillRowid: number | null = null
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+function call(env: any, method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method, headers: { 'Content-Type': 'application/json' } }
+  if (body !== undefined) init.body = JSON.stringify(body)
+  const request = new Request(`https://api.test${path}`, init)
+  return handleChatRoutes(request, env, new URL(request.url).pathname) as Promise<Response>
+}
+
+async function search(env: any, params: string) {
+  const res = await call(env, 'GET', `/api/v1/chat/search?wallet=${WALLET}&${params}`)
+  return { status: res.status, body: await res.json() as any }
+}
+
+describe('chat full-text search', () => {
+  it('indexes uploaded messages and searches them with phrases, filters, snippets and context', async () => {
+    const db = new MockDB()
+    const env = { DB: db } as any
+    await call(env, 'POST', '/api/v1/chat/messages', {
+      walletAddress: WALLET,
+      sessionId: 's_run',
+      messages: [
+        { id: 'm1', text: '我下个月想跑步参加半程马拉松', isUser: true, timestamp: T0 },
+        { id: 'm2', text: 'A half marathon is a great goal! Start with three runs a week.', isUser: false, timestamp: T0 + 1000 },
+        { id: 'm3', text: 'Marathon half-way tips please', isUser: true, timestamp: T0 + 86_400_000 },
+      ],
+    })
+    await call(env, 'POST', '/api/v1/chat/messages', {
+      walletAddress: OTHER,
+      sessionId: 's_other',
+      messages: [{ id: 'o1', text: 'half marathon for someone else', isUser: true, timestamp: T0 }],
+    })
+    // 重新上传同一条消息不会残留旧索引
+    await call(env, 'POST', '/api/v1/chat/messages', {
+      walletAddress: WALLET,
+      sessionId: 's_run',
+      messages: [{ id: 'm1', text: '我下个月想跑步参加半程马拉松', isUser: true, timestamp: T0 }],
+    })
+    expect(db.fts.size).toBe(4)
+
+    const cjk = await search(env, `q=${encodeURIComponent('跑步')}`)
+    expect(cjk.body.results).toHaveLength(1)
+    expect(cjk.body.results[0]).toMatchObject({
+      messageId: 'm1', sessionId: 's_run', sessionTitle: '训练计划', snippet: '我下个月想跑步参加半程马拉松', highlights: [[5, 7]],
+      before: [],
+      after: [{ id: 'm2', isUser: false }],
+    })
+
+    const phrase = await search(env, `q=${encodeURIComponent('"half marathon"')}`)
+    expect(phrase.body.results.map((r: any) => r.messageId)).toEqual(['m2'])
+    expect(phrase.body.results[0].highlights).toEqual([[2, 15]])
+    const words = await search(env, 'q=half%20marathon&sort=recent')
+    expect(words.body.results.map((r: any) => r.messageId)).toEqual(['m3', 'm2'])
+
+    expect((await search(env, 'q=marathon&isUser=false')).body.results.map((r: any) => r.messageId)).toEqual(['m2'])
+    expect((await search(env, `q=marathon&from=${new Date(T0 + 3_600_000).toISOString()}`)).body.results.map((r: any) => r.messageId)).toEqual(['m3'])
+    expect((await search(env, `q=marathon&to=${Math.floor((T0 + 3_600_000) / 1000)}`)).body.results.map((r: any) => r.messageId)).toEqual(['m2'])
+    expect((await search(env, 'q=marathon&from=yesterday')).status).toBe(400)
+    expect((await search(env, `q=${encodeURIComponent('"!!"')}`)).body).toEqual({ error: 'invalid_query' })
+
+    await call(env, 'DELETE', '/api/v1/chat/sessions/s_run')
+    expect(db.fts.size).toBe(1)
+    expect((await search(env, 'q=marathon')).body.results).toEqual([])
+  })
+
+  it('backfills existing messages by rowid and reindexes sessions on sync', async () => {
+    const db = new MockDB()
+    const env = { DB: db } as any
+    for (let i = 0; i < 3; i++) {
+      db.messages.push({
+        rowid: ++db.lastRowid, id: `old${i}`, session_id: 's_run', wallet_address: WALLET,
+        text: `old note ${i} about swimming`, is_user: 1, timestamp: T0 + i, is_error: 0, is_deleted: 0,
+      })
+    }
+
+    expect(await backfillChatSearchIndex(env, 2)).toBe(2)
+    expect(db.backfillRowid).toBe(2)
+    expect(await backfillChatSearchIndex(env, 2)).toBe(1)
+    expect(await backfillChatSearchIndex(env, 2)).toBe(0)
+    expect((await search(env, 'q=swimming&context=0')).body.results).toHaveLength(3)
+
+    db.fts.clear()
+    await call(env, 'POST', '/api/v1/chat/sessions/sync', {
+      walletAddress: WALLET,
+      sessions: [{ id: 's_run', title: '训练计划', createdAt: 1, updatedAt: 2, messageCount: 3 }],
+    })
+    expect(db.fts.size).toBe(3)
+
+    expect(parseSearchQuery('东京 "New York"  ')!.match).toBe('body : "东 京" AND body : "New York"')
+    expect(buildSnippet(`${'x'.repeat(100)} target ${'y'.repeat(200)}`, [['target']]).snippet.startsWith('…')).toBe(true)
+  })
+})
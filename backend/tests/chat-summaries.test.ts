@@ -0,0 +1,209 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('../src/services/ai-provider', () => ({
+  aiChatCompletion: vi.fn(),
+}))
+
+import { aiChatCompletion } from '../src/services/ai-provider'
+import { handleChatRoutes } from '../src/routes/chat'
+import { summarizePendingSessions, withSessionSummary } from '../src/services/chat-summaries'
+
+const WALLET = 'wallet_summary_owner'
+const SESSION = 'session_long'
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('SELECT * FROM chat_session_summaries WHERE session_id = ? AND wallet_address = ?')) {
+      const row = this.db.summaries.get(p[0])
+      return (row && row.wallet_address === p[1] ? { ...row } : null) as any
+    }
+    if (sql.startsWith('SELECT id FROM chat_sessions WHERE id = ? AND wallet_address = ?')) {
+      const session = this.db.sessions.get(p[0])
+      return (session && session.wallet_address === p[1] && !session.is_deleted ? { id: session.id } : null) as any
+    }
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('SELECT s.id, s.wallet_address, s.user_id FROM chat_sessions s')) {
+      const results = [...this.db.sessions.values()]
+        .filter(s => {
+          const summary = this.db.summaries.get(s.id)
+          const until = summary?.covered_until ?? -1
+          const pending = this.db.messages.filter(m => m.session_id === s.id && m.wallet_address === s.wallet_address
+            && !m.is_deleted && !m.is_error
+            && (m.timestamp > until || (m.timestamp === until && m.id > (summary?.covered_message_id ?? ''))))
+          return !s.is_deleted && s.message_count - (summary?.covered_count ?? 0) >= p[0] && pending.length >= p[1]
+        })
+        .slice(0, p[2])
+        .map(s => ({ id: s.id, wallet_address: s.wallet_address, user_id: s.user_id }))
+      return { results: results as any }
+    }
+    if (sql.startsWith('SELECT id, text, is_user, timestamp FROM chat_messages')) {
+      const [sessionId, wallet, until, , afterId, limit] = p
+      const results = this.db.messages
+        .filter(m => m.session_id === sessionId && m.wallet_address === wallet && !m.is_deleted && !m.is_error)
+        .filter(m => m.timestamp > until || (m.timestamp === until && m.id > afterId))
+        .sort((a, b) => a.timestamp - b.timestamp || a.id.localeCompare(b.id))
+        .slice(0, limit)
+      return { results: results as any }
+    }
+    return { results: [] }
+  }
+
+  async run() {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('INSERT INTO chat_session_summaries')) {
+      const existing = this.db.summaries.get(p[0])
+      this.db.summaries.set(p[0], {
+        session_id: p[0], wallet_address: p[1], summary: p[2], covered_until: p[3], covered_message_id: p[4],
+        covered_count: existing ? existing.covered_count + p[9] : p[5], model: p[6],
+        created_at: existing?.created_at ?? p[7], updated_at: p[8],
+      })
+    } else if (sql.startsWith('INSERT INTO ai_usage_logs')) {
+      const [userId, wallet, model, functionType, prompt, completion, total, , success, error] = p
+      this.db.usage.push({ user_id: userId, wallet_address: wallet, model, function_type: functionType, prompt_tokens: prompt, completion_tokens: completion, total_tokens: total, success, error_message: error })
+    } else if (sql.startsWith('DELETE FROM chat_session_summaries WHERE session_id = ?')) {
+      this.db.summaries.delete(p[0])
+    } else if (sql.startsWith('UPDATE chat_sessions SET is_deleted = 1')) {
+      const session = this.db.sessions.get(p[1])
+      if (session) session.is_deleted = 1
+    } else if (sql.startsWith('UPDATE chat_messages SET is_deleted = 1')) {
+      for (const m of this.db.messages) if (m.session_id === p[0]) m.is_deleted = 1
+    }
+    return { meta: { changes: 1 } }
+  }
+}
+
+class MockDB {
+  sessions = new Map<string, any>([[SESSION, { id: SESSION, user_id: 'user_summary', wallet_address: WALLET, message_count: 0, is_deleted: 0 }]])
+  messages: any[] = []
+  summaries = new Map<string, any>()
+  usage: any[] = []
+
+  addMessages(count: number, sessionId = SESSION, extra: Record<string, unknown> = {}) {
+    const start = this.messages.length
+    for (let i = start; i < start + count; i++) {
+      this.messages.push({
+        id: `m${String(i).padStart(3, '0')}`, session_id: sessionId, wallet_address: WALLET,
+        text: `message ${i}`, is_user: i % 2 === 0 ? 1 : 0, timestamp: 1_700_000_000_000 + i * 1000,
+        is_error: 0, is_deleted: 0, ...extra,
+      })
+    }
+    this.sessions.get(sessionId).message_count += count
+  }
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+function call(env: any, method: string, path: string) {
+  const request = new Request(`https://api.test${path}`, { method })
+  return handleChatRoutes(request, env, new URL(request.url).pathname) as Promise<Response>
+}
+
+describe('chat session summaries', () => {
+  it('folds older messages into a rolling summary and keeps the recent window verbatim', async () => {
+    const db = new MockDB()
+    const env = { DB: db } as any
+    vi.mocked(aiChatCompletion).mockResolvedValueOnce({
+      ok: true, content: ' summary v1 ', usage: { prompt_tokens: 900, completion_tokens: 120, total_tokens: 1020 },
+    })
+
+    db.addMessages(45)
+    expect(await summarizePendingSessions(env)).toEqual({ updated: 1, failed: 0 })
+    expect(db.usage).toEqual([{
+      user_id: 'user_summary', wallet_address: WALLET, model: 'qwen-turbo', function_type: 'session_summary',
+      prompt_tokens: 900, completion_tokens: 120, total_tokens: 1020, success: 1, error_message: null,
+    }])
+    expect(db.summaries.get(SESSION)).toMatchObject({ summary: 'summary v1', covered_message_id: 'm024', covered_count: 25 })
+    const firstPrompt = vi.mocked(aiChatCompletion).mock.calls[0][1].messages[1].content
+    expect(firstPrompt).toContain('Previous summary:\n(none)')
+    expect(firstPrompt).toContain('User: message 0')
+    expect(firstPrompt).not.toContain('message 25')
+
+    // 新消息不足一批时不调用模型
+    db.addMessages(10)
+    expect(await summarizePendingSessions(env)).toEqual({ updated: 0, failed: 0 })
+    expect(aiChatCompletion).toHaveBeenCalledTimes(1)
+
+    vi.mocked(aiChatCompletion).mockResolvedValueOnce({ ok: true, content: 'summary v2' })
+    db.addMessages(20)
+    expect(await summarizePendingSessions(env)).toEqual({ updated: 1, failed: 0 })
+    const secondPrompt = vi.mocked(aiChatCompletion).mock.calls[1][1].messages[1].content
+    expect(secondPrompt).toContain('Previous summary:\nsummary v1')
+    expect(secondPrompt).toContain('Assistant: message 25')
+    expect(secondPrompt).not.toContain('message 24\n')
+    expect(db.summaries.get(SESSION)).toMatchObject({ summary: 'summary v2', covered_message_id: 'm054', covered_count: 55 })
+
+    vi.mocked(aiChatCompletion).mockResolvedValueOnce({ ok: false, status: 503 })
+    db.addMessages(40)
+    expect(await summarizePendingSessions(env)).toEqual({ updated: 0, failed: 1 })
+    expect(db.summaries.get(SESSION).summary).toBe('summary v2')
+    expect(db.usage.at(-1)).toMatchObject({ success: 0, error_message: 'status_503', total_tokens: 0 })
+  })
+
+  it('does not keep selecting sessions whose message count is made up of deleted or failed messages', async () => {
+    const db = new MockDB()
+    const env = { DB: db } as any
+    // 放在最前，模拟最近更新的会话
+    db.sessions = new Map([
+      ['session_cleared', { id: 'session_cleared', user_id: 'user_summary', wallet_address: WALLET, message_count: 0, is_deleted: 0 }],
+      ...db.sessions,
+    ])
+    db.addMessages(50, 'session_cleared', { is_deleted: 1 })
+    db.addMessages(10, 'session_cleared', { is_error: 1 })
+    vi.mocked(aiChatCompletion).mockClear()
+
+    expect(await summarizePendingSessions(env)).toEqual({ updated: 0, failed: 0 })
+    expect(await summarizePendingSessions(env, 1)).toEqual({ updated: 0, failed: 0 })
+    expect(aiChatCompletion).not.toHaveBeenCalled()
+
+    // 清空过的会话不会占用每轮的名额
+    vi.mocked(aiChatCompletion).mockResolvedValueOnce({ ok: true, content: 'summary' })
+    db.addMessages(45)
+    expect(await summarizePendingSessions(env, 1)).toEqual({ updated: 1, failed: 0 })
+  })
+
+  it('serves the summary to the owning wallet, merges it into the system prompt and drops it with the session', async () => {
+    const db = new MockDB()
+    const env = { DB: db } as any
+    db.summaries.set(SESSION, {
+      session_id: SESSION, wallet_address: WALLET, summary: '用户在准备马拉松', covered_until: 1_700_000_024_000,
+      covered_message_id: 'm024', covered_count: 25, model: 'qwen-turbo', created_at: 1, updated_at: 2,
+    })
+
+    const res = await call(env, 'GET', `/api/v1/chat/sessions/${SESSION}/summary?wallet=${WALLET}`)
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      sessionId: SESSION, summary: '用户在准备马拉松', coveredUntil: 1_700_000_024_000,
+      coveredMessageCount: 25, model: 'qwen-turbo', updatedAt: 2,
+    })
+    expect((await call(env, 'GET', `/api/v1/chat/sessions/${SESSION}/summary?wallet=wallet_other`)).status).toBe(404)
+
+    expect(withSessionSummary([{ role: 'system', content: 'persona' }, { role: 'user', content: 'hi' }], 'S')).toEqual([
+      { role: 'system', content: 'persona\n\n【此前对话摘要】\nS' },
+      { role: 'user', content: 'hi' },
+    ])
+    expect(withSessionSummary([{ role: 'user', content: 'hi' }], 'S')[0]).toEqual({ role: 'system', content: '【此前对话摘要】\nS' })
+
+    expect((await call(env, 'DELETE', `/api/v1/chat/sessions/${SESSION}`)).status).toBe(200)
+    expect(db.summaries.has(SESSION)).toBe(false)
+  })
+})
@@ -0,0 +1,234 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { advanceEmbeddingMigration, createEmbeddingMigration } from '../src/services/embedding-migration'
+import { handleVectorRoutes } from '../src/routes/vectors'
+
+type VectorRow = { memory_id: string; wallet_address: string; text_preview: string; text_length?: number; memory_type: string; model: string; vector_dimension: number; vector_json: string }
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  private outdated(model: string, dimension: number) {
+    return this.db.vectors.filter(v => v.model !== model || v.vector_dimension !== dimension)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    const sql = this.sql.trim()
+    const p = this.params
+
+    if (sql.startsWith('SELECT * FROM embedding_migrations WHERE id = ?')) {
+      return (this.db.migrations.find(m => m.id === p[0]) || null) as any
+    }
+    if (sql.startsWith('SELECT id FROM embedding_migrations')) {
+      return (this.db.migrations.find(m => m.status === 'running' || m.status === 'paused') || null) as any
+    }
+    if (sql.startsWith('SELECT COUNT(*) AS cnt FROM memory_vectors WHERE (model != ?')) {
+      return { cnt: this.outdated(p[0], p[1]).length } as any
+    }
+    if (sql.startsWith('SELECT COUNT(*) AS cnt FROM memory_vectors WHERE wallet_address = ?')) {
+      return { cnt: this.db.vectors.filter(v => v.wallet_address === p[0]).length } as any
+    }
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    const sql = this.sql.trim()
+    const p = this.params
+
+    if (sql.startsWith('SELECT memory_id, vector_json')) {
+      const [wallet, dimension, model] = p
+      const rows = this.db.vectors.filter(v => v.wallet_address === wallet && v.vector_dimension === dimension
+        && (!sql.includes('AND model = ?') || v.model === model))
+      return { results: rows.map(v => ({ ...v, created_at: 1 })) as any }
+    }
+    if (sql.startsWith('SELECT memory_id, wallet_address, text_preview, text_length, memory_type')) {
+      const [cursor, model, dimension, limit] = p
+      const rows = this.outdated(model, dimension)
+        .filter(v => v.memory_id > cursor)
+        .sort((a, b) => a.memory_id.localeCompare(b.memory_id))
+        .slice(0, limit)
+      return { results: rows as any }
+    }
+    return { results: [] }
+  }
+
+  async run(): Promise<{ success: boolean; meta: { changes: number } }> {
+    const sql = this.sql.trim()
+    const p = this.params
+
+    if (sql.startsWith('INSERT INTO embedding_migrations')) {
+      const [id, model, dimension, status, total, batchSize, createdBy, createdAt, updatedAt, completedAt] = p
+      this.db.migrations.push({
+        id, target_model: model, target_dimension: dimension, status, total, processed: 0, failed: 0, skipped: 0,
+        cursor: null, batch_size: batchSize, last_error: null, created_by: createdBy,
+        created_at: createdAt, updated_at: updatedAt, completed_at: completedAt,
+      })
+    } else if (sql.startsWith('UPDATE memory_vectors SET vector_json')) {
+      const row = this.db.vectors.find(v => v.memory_id === p[3])!
+      Object.assign(row, { vector_json: p[0], vector_dimension: p[1], model: p[2] })
+    } else if (sql.startsWith('UPDATE embedding_migrations')) {
+      const m = this.db.migrations.find(x => x.id === p[p.length - 1])!
+      if (sql.includes("status = 'completed'")) {
+        m.status = 'completed'
+      } else if (sql.includes('processed = processed + ?')) {
+        m.processed += p[0]
+        m.failed += p[1]
+        m.skipped += p[2]
+        m.cursor = p[3]
+        m.last_error = null
+      } else {
+        m.last_error = p[0]
+      }
+    }
+    return { success: true, meta: { changes: 1 } }
+  }
+}
+
+class MockDB {
+  vectors: VectorRow[] = []
+  migrations: any[] = []
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+
+  async batch(stmts: MockStmt[]) {
+    for (const stmt of stmts) await stmt.run()
+    return []
+  }
+}
+
+function embeddingResponse(texts: string[]) {
+  return new Response(JSON.stringify({
+    output: { embeddings: texts.map((_, i) => ({ text_index: i, embedding: [i + 1, 0, 0, 1] })) },
+    usage: { total_tokens: texts.length * 5 },
+  }), { status: 200, headers: { 'Content-Type': 'application/json' } })
+}
+
+describe('embedding migration', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('re-embeds outdated rows in resumable batches and keeps the cursor on upstream failure', async () => {
+    const db = new MockDB()
+    for (let i = 1; i <= 5; i++) {
+      db.vectors.push({
+        memory_id: `m${i}`, wallet_address: 'w1', text_preview: `memory ${i}`, memory_type: 'chat',
+        model: 'text-embedding-v2', vector_dimension: 1536, vector_json: '[]',
+      })
+    }
+    db.vectors.push({
+      memory_id: 'm0', wallet_address: 'w1', text_preview: 'current', memory_type: 'chat',
+      model: 'text-embedding-v4', vector_dimension: 4, vector_json: '[1,0,0,0]',
+    })
+    const env = { DB: db, QWEN_API_KEY: 'test-key' } as any
+
+    const requests: any[] = []
+    let failNext = false
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(String(init.body))
+      requests.push(body)
+      if (failNext) {
+        failNext = false
+        return new Response('{"code":"Throttling"}', { status: 500 })
+      }
+      return embeddingResponse(body.input.texts)
+    }))
+
+    const { migration } = await createEmbeddingMigration(env, { model: 'text-embedding-v4', dimension: 4, batchSize: 2 })
+    expect(migration?.total).toBe(5)
+    expect(migration?.status).toBe('running')
+
+    let state = await advanceEmbeddingMigration(env, migration!, 1)
+    expect(state?.cursor).toBe('m2')
+    expect(state?.processed).toBe(2)
+
+    failNext = true
+    state = await advanceEmbeddingMigration(env, state!, 5)
+    expect(state?.cursor).toBe('m2')
+    expect(state?.last_error).toContain('HTTP 500')
+    expect(state?.status).toBe('running')
+
+    state = await advanceEmbeddingMigration(env, state!, 5)
+    expect(state?.status).toBe('completed')
+    expect(state?.processed).toBe(5)
+    expect(state?.failed).toBe(0)
+    expect(state?.skipped).toBe(0)
+    expect(db.vectors.every(v => v.model === 'text-embedding-v4' && v.vector_dimension === 4)).toBe(true)
+    expect(requests[0]).toEqual(expect.objectContaining({
+      model: 'text-embedding-v4',
+      input: { texts: ['memory 1', 'memory 2'] },
+    }))
+  })
+
+  it('leaves rows whose stored preview is truncated for the client to re-embed', async () => {
+    const db = new MockDB()
+    db.vectors.push(
+      { memory_id: 'm1', wallet_address: 'w1', text_preview: 'short note', text_length: 10, memory_type: 'chat', model: 'text-embedding-v2', vector_dimension: 1536, vector_json: '[]' },
+      { memory_id: 'm2', wallet_address: 'w1', text_preview: 'x'.repeat(200), text_length: 900, memory_type: 'chat', model: 'text-embedding-v2', vector_dimension: 1536, vector_json: '[]' },
+      { memory_id: 'm3', wallet_address: 'w1', text_preview: 'y'.repeat(200), memory_type: 'chat', model: 'text-embedding-v2', vector_dimension: 1536, vector_json: '[]' },
+    )
+    const env = { DB: db, QWEN_API_KEY: 'test-key' } as any
+    const requests: any[] = []
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(String(init.body))
+      requests.push(body)
+      return embeddingResponse(body.input.texts)
+    }))
+
+    const { migration } = await createEmbeddingMigration(env, { model: 'text-embedding-v4', dimension: 4, batchSize: 5 })
+    const state = await advanceEmbeddingMigration(env, migration!, 5)
+
+    expect(state).toMatchObject({ status: 'completed', processed: 1, failed: 0, skipped: 2 })
+    expect(requests).toHaveLength(1)
+    expect(requests[0].input.texts).toEqual(['short note'])
+    // 被截断的行保持旧版本，计入 outdated 由客户端重新上传
+    expect(db.vectors.filter(v => v.model === 'text-embedding-v2').map(v => v.memory_id)).toEqual(['m2', 'm3'])
+  })
+
+  it('refuses to start a second migration while one is active', async () => {
+    const db = new MockDB()
+    db.vectors.push({
+      memory_id: 'm1', wallet_address: 'w1', text_preview: 'x', memory_type: 'chat',
+      model: 'text-embedding-v2', vector_dimension: 1536, vector_json: '[]',
+    })
+    const env = { DB: db } as any
+
+    const first = await createEmbeddingMigration(env, { model: 'text-embedding-v4', dimension: 4 })
+    expect(first.migration?.status).toBe('running')
+    const second = await createEmbeddingMigration(env, { model: 'text-embedding-v4', dimension: 4 })
+    expect(second.migration).toBeNull()
+    expect(second.error).toBe('migration_in_progress')
+  })
+
+  it('searches only vectors from the current model when the client does not name one', async () => {
+    const db = new MockDB()
+    db.vectors = [
+      { memory_id: 'other', wallet_address: 'w1', text_preview: 'other model', memory_type: 'chat', model: 'text-embedding-v4', vector_dimension: 4, vector_json: '[1,0,0,1]' },
+      { memory_id: 'current', wallet_address: 'w1', text_preview: 'current model', memory_type: 'chat', model: 'text-embedding-v3', vector_dimension: 4, vector_json: '[1,0,0,0.9]' },
+    ]
+    const env = { DB: db } as any
+    const search = async (body: Record<string, unknown>) => {
+      const request = new Request('https://api.test/api/v1/vectors/search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ walletAddress: 'w1', queryVector: [1, 0, 0, 1], threshold: 0.5, ...body }),
+      })
+      return await (await handleVectorRoutes(request, env, '/api/v1/vectors/search'))!.json() as any
+    }
+
+    const vector = await search({ mode: 'vector' })
+    expect(vector.results.map((r: any) => r.memoryId)).toEqual(['current'])
+    expect(vector.embedding.model).toBe('text-embedding-v3')
+    expect((await search({ mode: 'hybrid' })).results.map((r: any) => r.memoryId)).toEqual(['current'])
+    expect((await search({ mode: 'vector', model: 'text-embedding-v4' })).results.map((r: any) => r.memoryId)).toEqual(['other'])
+  })
+})
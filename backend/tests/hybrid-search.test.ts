@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+import { hybridSearchMemories, tokenize } from '../src/services/hybrid-search'
+
+const WALLET = 'wallet_hybrid_test'
+
+type Row = { memory_id: string; wallet_address: string; vector_json: string; text_preview: string; text_length: number; memory_type: string; source_type: string | null; created_at: number }
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  // 只实现本测试用到的过滤：wallet + 维度 + memory_type IN + created_at >=
+  private filtered(): Row[] {
+    const p = [...this.params]
+    const wallet = p.shift()
+    let rows = this.db.rows.filter(r => r.wallet_address === wallet)
+    if (this.sql.includes('vector_dimension = ?')) {
+      const dimension = p.shift()
+      rows = rows.filter(r => JSON.parse(r.vector_json).length === dimension)
+    }
+    const typeMatch = this.sql.match(/memory_type IN \(([^)]*)\)/)
+    if (typeMatch) {
+      const types = p.splice(0, typeMatch[1].split(',').length)
+      rows = rows.filter(r => types.includes(r.memory_type))
+    }
+    if (this.sql.includes('created_at >= ?')) {
+      const after = p.shift()
+      rows = rows.filter(r => r.created_at >= after)
+    }
+    return rows
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    if (this.sql.trim().startsWith('SELECT COUNT(*) AS cnt FROM memory_vectors')) {
+      return { cnt: this.filtered().length } as any
+    }
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    const sql = this.sql.trim()
+    if (sql.includes('text_preview LIKE')) {
+      const likeCount = (sql.match(/LIKE \?/g) || []).length
+      const terms = this.params.slice(-likeCount - 1, -1).map((t: string) => t.slice(1, -1).toLowerCase())
+      return { results: this.filtered().filter(r => terms.some(t => r.text_preview.toLowerCase().includes(t))) as any }
+    }
+    if (sql.startsWith('SELECT memory_id, vector_json FROM memory_vectors') && sql.includes('memory_id IN')) {
+      const ids = new Set(this.params.slice(1))
+      return { results: this.db.rows.filter(r => ids.has(r.memory_id)) as any }
+    }
+    if (sql.startsWith('SELECT memory_id, vector_json')) {
+      return { results: this.filtered() as any }
+    }
+    return { results: [] }
+  }
+
+  async run() {
+    return { success: true, meta: { changes: 1 } }
+  }
+}
+
+class MockDB {
+  rows: Row[] = []
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+
+  async batch(stmts: MockStmt[]) {
+    for (const stmt of stmts) await stmt.run()
+    return []
+  }
+}
+
+function row(id: string, text: string, vector: number[], memoryType = 'chat', createdAt = 1000): Row {
+  return {
+    memory_id: id,
+    wallet_address: WALLET,
+    vector_json: JSON.stringify(vector),
+    text_preview: text,
+    text_length: text.length,
+    memory_type: memoryType,
+    source_type: null,
+    created_at: createdAt,
+  }
+}
+
+describe('hybrid memory search', () => {
+  it('tokenizes latin words, dates and chinese bigrams', () => {
+    expect(tokenize('Met Alice on 2024-05-03')).toEqual(['met', 'alice', 'on', '2024-05-03'])
+    expect(tokenize('和小明吃饭')).toEqual(['和小', '小明', '明吃', '吃饭'])
+  })
+
+  it('lifts exact keyword matches that embeddings rank low', async () => {
+    const db = new MockDB()
+    db.rows.push(
+      row('a', 'Dinner with friends downtown', [1, 0, 0]),
+      row('b', 'Lunch with friends at the park', [0.95, 0.05, 0]),
+      row('c', 'Called Zhang Wei about the contract', [0.2, 0.9, 0]),
+    )
+    const env = { DB: db } as any
+
+    const { results } = await hybridSearchMemories(env, WALLET, {
+      mode: 'hybrid',
+      query: 'Zhang Wei',
+      queryVector: [1, 0, 0],
+      topK: 3,
+      threshold: 0.1,
+      filters: {},
+    })
+
+    expect(results[0].memoryId).toBe('c')
+    expect(results[0].keywordRank).toBe(1)
+    expect(results[0].vectorRank).toBe(3)
+    expect(results[0].similarity).toBeCloseTo(0.2 / Math.hypot(0.2, 0.9), 5)
+    expect(results.map(r => r.memoryId)).toEqual(['c', 'a', 'b'])
+  })
+
+  it('applies filters and diversifies with MMR', async () => {
+    const db = new MockDB()
+    db.rows.push(
+      row('a', 'trip to Kyoto temples', [1, 0, 0], 'travel', 2000),
+      row('b', 'trip to Kyoto temples again', [0.99, 0.01, 0], 'travel', 2000),
+      row('c', 'trip to Kyoto food market', [0.6, 0.8, 0], 'travel', 2000),
+      row('d', 'trip to Kyoto old notes', [1, 0, 0], 'travel', 10),
+      row('e', 'Kyoto chat', [1, 0, 0], 'chat', 2000),
+    )
+    const env = { DB: db } as any
+
+    const { results } = await hybridSearchMemories(env, WALLET, {
+      mode: 'hybrid',
+      query: 'Kyoto',
+      queryVector: [1, 0, 0],
+      topK: 2,
+      threshold: 0,
+      filters: { memoryTypes: ['travel'], createdAfter: 1000 },
+      mmr: true,
+      mmrLambda: 0.5,
+    })
+
+    expect(results.map(r => r.memoryId)).toEqual(['a', 'c'])
+  })
+})
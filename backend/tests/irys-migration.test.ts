@@ -0,0 +1,189 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  enqueueIrysMigration,
+  getIrysMigrationProgress,
+  irysBackoffSeconds,
+  runIrysMigrationBatch,
+} from '../src/services/irys-migration'
+
+const WALLET = 'wallet_irys_test'
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    const sql = this.sql.trim()
+    if (sql.startsWith('SELECT irys_id, type, deleted_at FROM memories')) {
+      return (this.db.memories.find(m => m.id === this.params[0] && m.wallet_address === this.params[1]) || null) as any
+    }
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith("SELECT * FROM irys_migration_jobs WHERE status = 'queued'")) {
+      return { results: this.db.jobs.filter(j => j.status === 'queued' && j.next_attempt_at <= p[0]).slice(0, p[1]).map(j => ({ ...j })) as any }
+    }
+    if (sql.startsWith('SELECT status, COUNT(*) AS cnt')) {
+      const groups = new Map<string, any>()
+      for (const j of this.db.jobs.filter(j => j.wallet_address === p[0])) {
+        const g = groups.get(j.status) || { status: j.status, cnt: 0, bytes: 0, next_attempt_at: Infinity }
+        g.cnt++
+        g.bytes += j.size
+        g.next_attempt_at = Math.min(g.next_attempt_at, j.next_attempt_at)
+        groups.set(j.status, g)
+      }
+      return { results: [...groups.values()] as any }
+    }
+    if (sql.startsWith('SELECT memory_id, attempts, last_error')) {
+      return { results: this.db.jobs.filter(j => j.status === 'failed' || (j.status === 'queued' && j.last_error)) as any }
+    }
+    return { results: [] }
+  }
+
+  async run(): Promise<{ success: boolean; meta: { changes: number } }> {
+    const sql = this.sql.trim()
+    const p = this.params
+    let changes = 0
+
+    if (sql.startsWith('INSERT INTO irys_migration_jobs')) {
+      const [next, createdAt, updatedAt, wallet] = p
+      for (const m of this.db.memories) {
+        if (m.wallet_address !== wallet || !/^(r2|kv):/.test(m.irys_id) || m.deleted_at) continue
+        const existing = this.db.jobs.find(j => j.wallet_address === wallet && j.memory_id === m.id)
+        if (!existing) {
+          this.db.jobs.push({
+            id: `job_${m.id}`, wallet_address: wallet, memory_id: m.id, source_ref: m.irys_id, size: m.size,
+            status: 'queued', attempts: 0, next_attempt_at: next, last_error: null, irys_id: null,
+            created_at: createdAt, updated_at: updatedAt, completed_at: null,
+          })
+          changes++
+        } else if (existing.status !== 'uploading' && (existing.status !== 'queued' || existing.source_ref !== m.irys_id)) {
+          Object.assign(existing, { source_ref: m.irys_id, status: 'queued', attempts: 0, next_attempt_at: next, last_error: null })
+          changes++
+        }
+      }
+    } else if (sql.startsWith("UPDATE irys_migration_jobs SET status = 'uploading'")) {
+      const job = this.db.jobs.find(j => j.id === p[1] && j.status === 'queued')
+      if (job) {
+        Object.assign(job, { status: 'uploading', attempts: job.attempts + 1, updated_at: p[0] })
+        changes = 1
+      }
+    } else if (sql.startsWith("UPDATE irys_migration_jobs SET status = 'queued', next_attempt_at")) {
+      Object.assign(this.db.jobs.find(j => j.id === p[3]), { status: 'queued', next_attempt_at: p[0], last_error: p[1] })
+    } else if (sql.startsWith('UPDATE irys_migration_jobs SET status = ?, irys_id')) {
+      const job = this.db.jobs.find(j => j.id === p[5])
+      Object.assign(job, { status: p[0], irys_id: p[1] ?? job.irys_id, last_error: p[2], completed_at: p[4] })
+    } else if (sql.startsWith('UPDATE memories SET irys_id')) {
+      const m = this.db.memories.find(m => m.id === p[1] && m.wallet_address === p[2] && m.irys_id === p[3])
+      if (m) m.irys_id = p[0]
+    }
+    return { success: true, meta: { changes } }
+  }
+}
+
+class MockDB {
+  memories: any[] = []
+  jobs: any[] = []
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+class MockR2 {
+  objects = new Map<string, Uint8Array>()
+
+  async get(key: string) {
+    const value = this.objects.get(key)
+    return value ? { customMetadata: { contentHash: 'plain-hash' }, arrayBuffer: async () => value.slice().buffer } : null
+  }
+
+  async delete(key: string) {
+    this.objects.delete(key)
+  }
+}
+
+describe('irys migration queue', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('uploads queued memories, backs off on failure and records the arweave id', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-03-01T00:00:00Z'))
+    const db = new MockDB()
+    const r2 = new MockR2()
+    r2.objects.set(`memory-blobs/${WALLET}/m1/v1`, new Uint8Array([1, 2, 3]))
+    db.memories.push(
+      { id: 'm1', wallet_address: WALLET, irys_id: `r2:memory-blobs/${WALLET}/m1/v1`, size: 3, type: 'voice', deleted_at: null },
+      { id: 'm2', wallet_address: WALLET, irys_id: 'arweave_tx_existing', size: 10, type: 'text', deleted_at: null },
+      { id: 'm3', wallet_address: WALLET, irys_id: `r2:memory-blobs/${WALLET}/m3/v1`, size: 5, type: 'text', deleted_at: 123 },
+    )
+    const env = { DB: db, R2: r2, IRYS_UPLOADER_URL: 'https://uploader.test/upload', IRYS_UPLOADER_TOKEN: 'secret' } as any
+
+    expect(await enqueueIrysMigration(env, WALLET)).toBe(1)
+    expect(await enqueueIrysMigration(env, WALLET)).toBe(0)
+
+    const calls: any[] = []
+    let fail = true
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+      calls.push({ url, headers: init.headers, body: init.body })
+      if (fail) return new Response('bundler busy', { status: 503 })
+      return new Response(JSON.stringify({ id: 'arweave_tx_m1' }), { status: 200 })
+    }))
+
+    let counts = await runIrysMigrationBatch(env)
+    expect(counts.queued).toBe(1)
+    expect(db.jobs[0]).toEqual(expect.objectContaining({ status: 'queued', attempts: 1, last_error: 'HTTP 503: bundler busy' }))
+    expect(db.jobs[0].next_attempt_at).toBe(Math.floor(Date.now() / 1000) + irysBackoffSeconds(1))
+
+    // 退避期内不会重试
+    fail = false
+    counts = await runIrysMigrationBatch(env)
+    expect(calls).toHaveLength(1)
+
+    vi.setSystemTime(new Date('2026-03-01T00:05:00Z'))
+    counts = await runIrysMigrationBatch(env)
+    expect(counts.completed).toBe(1)
+    expect(db.memories[0].irys_id).toBe('arweave_tx_m1')
+    expect(db.jobs[0]).toEqual(expect.objectContaining({ status: 'completed', irys_id: 'arweave_tx_m1' }))
+    expect(r2.objects.size).toBe(0)
+
+    const tags = JSON.parse((calls[1].headers as any)['X-Irys-Tags'])
+    expect(tags).toEqual(expect.arrayContaining([
+      { name: 'App-Name', value: 'Soulon' },
+      { name: 'Memory-ID', value: 'm1' },
+      { name: 'Content-Hash', value: 'plain-hash' },
+      { name: 'Wallet-Address', value: WALLET },
+    ]))
+
+    const progress = await getIrysMigrationProgress(env, WALLET)
+    expect(progress.counts.completed).toBe(1)
+    expect(progress.bytes).toEqual({ total: 3, completed: 3 })
+  })
+
+  it('leaves jobs queued when no uploader is configured', async () => {
+    const db = new MockDB()
+    db.memories.push({ id: 'm1', wallet_address: WALLET, irys_id: 'kv:memory_blob:x', size: 3, type: 'text', deleted_at: null })
+    const env = { DB: db } as any
+    const fetchMock = vi.fn()
+    vi.stubGlobal('fetch', fetchMock)
+
+    await enqueueIrysMigration(env, WALLET)
+    const counts = await runIrysMigrationBatch(env)
+    expect(counts.completed + counts.failed).toBe(0)
+    expect(db.jobs[0]).toEqual(expect.objectContaining({ status: 'queued', attempts: 0 }))
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
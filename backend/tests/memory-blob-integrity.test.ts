@@ -0,0 +1,118 @@
+import { createHash } from 'node:crypto'
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('../src/utils/user-auth', () => ({
+  getUserAuth: vi.fn(async () => ({ ok: true, walletAddress: 'wallet_integrity_test' })),
+}))
+
+import { handleMemoriesRoutes } from '../src/routes/memories'
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    if (this.sql.trim().startsWith('SELECT irys_id, content_hash, deleted_at FROM memories')) {
+      const row = this.db.memories.get(this.params[0])
+      return (row && row.wallet_address === this.params[1] ? row : null) as any
+    }
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    return { results: [] }
+  }
+
+  async run(): Promise<{ success: boolean; meta: { changes: number } }> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('INSERT INTO memories')) {
+      this.db.memories.set(p[0], { id: p[0], wallet_address: p[2], type: p[3], irys_id: p[4], size: p[5], content_hash: p[6], content_hash_verified_at: null })
+    } else if (sql.startsWith('UPDATE memories SET content_hash')) {
+      Object.assign(this.db.memories.get(p[2]), { content_hash: p[0], content_hash_verified_at: p[1] })
+    }
+    return { success: true, meta: { changes: 1 } }
+  }
+}
+
+class MockDB {
+  memories = new Map<string, any>()
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+class MockR2 {
+  objects = new Map<string, { value: Uint8Array; customMetadata?: Record<string, string> }>()
+
+  async put(key: string, value: Uint8Array, options?: { customMetadata?: Record<string, string> }) {
+    this.objects.set(key, { value: new Uint8Array(value), customMetadata: options?.customMetadata })
+  }
+
+  async get(key: string) {
+    const obj = this.objects.get(key)
+    return obj ? { customMetadata: obj.customMetadata, arrayBuffer: async () => obj.value.slice().buffer } : null
+  }
+}
+
+function call(env: any, method: string, path: string, body?: unknown, headers: Record<string, string> = {}) {
+  const init: RequestInit = { method, headers: { 'Content-Type': 'application/json', ...headers } }
+  if (body !== undefined) init.body = JSON.stringify(body)
+  return handleMemoriesRoutes(new Request(`https://api.test${path}`, init), env, path) as Promise<Response>
+}
+
+const bytes = new TextEncoder().encode('encrypted memory payload')
+const sha256 = createHash('sha256').update(bytes).digest('hex')
+const contentBase64 = Buffer.from(bytes).toString('base64')
+
+describe('memory blob integrity', () => {
+  it('rejects a declared sha256 that does not match the uploaded bytes', async () => {
+    const env = { DB: new MockDB(), R2: new MockR2() } as any
+
+    const res = await call(env, 'POST', '/api/v1/memories/blob', {
+      memoryId: 'mem_1', contentBase64, contentHash: 'plaintext-hash', contentSha256: 'b'.repeat(64),
+    })
+    expect(res.status).toBe(422)
+    expect((await res.json() as any).actual).toBe(sha256)
+    expect(env.R2.objects.size).toBe(0)
+    expect(env.DB.memories.size).toBe(0)
+  })
+
+  it('persists the server hash, serves it as ETag/Digest and detects later corruption', async () => {
+    const env = { DB: new MockDB(), R2: new MockR2() } as any
+    const digest = `sha-256=${Buffer.from(sha256, 'hex').toString('base64')}`
+
+    const stored = await call(env, 'POST', '/api/v1/memories/blob', { memoryId: 'mem_2', contentBase64, contentHash: 'plaintext-hash' }, { Digest: digest })
+    expect(stored.status).toBe(200)
+    expect((await stored.json() as any).sha256).toBe(sha256)
+    expect(env.DB.memories.get('mem_2').content_hash).toBe(sha256)
+    const object = env.R2.objects.get('memory-blobs/wallet_integrity_test/mem_2/v1')
+    expect(object.customMetadata).toEqual(expect.objectContaining({ contentHash: 'plaintext-hash', sha256 }))
+
+    const download = await call(env, 'GET', '/api/v1/memories/blob/mem_2')
+    expect(download.headers.get('ETag')).toBe(`"${sha256}"`)
+    expect(download.headers.get('Digest')).toBe(digest)
+    expect(new Uint8Array(await download.arrayBuffer())).toEqual(bytes)
+
+    const cached = await call(env, 'GET', '/api/v1/memories/blob/mem_2', undefined, { 'If-None-Match': `"${sha256}"` })
+    expect(cached.status).toBe(304)
+
+    const ok = await (await call(env, 'POST', '/api/v1/memories/blob/mem_2/verify')).json() as any
+    expect(ok).toEqual(expect.objectContaining({ status: 'match', match: true, actual: sha256 }))
+    expect(env.DB.memories.get('mem_2').content_hash_verified_at).toBe(ok.verifiedAt)
+
+    object.value = new TextEncoder().encode('tampered payload')
+    const bad = await (await call(env, 'POST', '/api/v1/memories/blob/mem_2/verify')).json() as any
+    expect(bad).toEqual(expect.objectContaining({ status: 'mismatch', match: false, expected: sha256 }))
+    expect(bad.actual).not.toBe(sha256)
+    expect((await call(env, 'GET', '/api/v1/memories/blob/mem_2')).headers.get('ETag')).toBe(`"${sha256}"`)
+  })
+})
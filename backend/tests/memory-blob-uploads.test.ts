@@ -0,0 +1,249 @@
+import { createHash } from 'node:crypto'
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('../src/utils/user-auth', () => ({
+  getUserAuth: vi.fn(async () => ({ ok: true, walletAddress: 'wallet_upload_test' })),
+}))
+
+import { handleMemoriesRoutes, sweepExpiredUploads } from '../src/routes/memories'
+
+const MiB = 1024 * 1024
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('SELECT * FROM memory_blob_uploads')) {
+      return (this.db.uploads.find(u => u.id === p[0] && u.wallet_address === p[1]) || null) as any
+    }
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    const sql = this.sql.trim()
+    if (sql.startsWith('SELECT chunk_index, size, etag FROM memory_blob_upload_parts')) {
+      const rows = this.db.parts.filter(r => r.upload_id === this.params[0]).sort((a, b) => a.chunk_index - b.chunk_index)
+      return { results: rows as any }
+    }
+    if (sql.startsWith('SELECT * FROM memory_blob_uploads WHERE expires_at <= ?')) {
+      return { results: this.db.uploads.filter(u => u.expires_at <= this.params[0]).slice(0, this.params[1]) as any }
+    }
+    return { results: [] }
+  }
+
+  async run(): Promise<{ success: boolean; meta: { changes: number } }> {
+    const sql = this.sql.trim()
+    const p = this.params
+
+    if (sql.startsWith('INSERT INTO memory_blob_uploads')) {
+      const [id, wallet, memoryId, totalSize, chunkSize, totalChunks, contentHash, contentSha256, type, storage, r2UploadId, stagingKey, createdAt, updatedAt, expiresAt] = p
+      this.db.uploads.push({
+        id, wallet_address: wallet, memory_id: memoryId, total_size: totalSize, chunk_size: chunkSize,
+        total_chunks: totalChunks, content_hash: contentHash, content_sha256: contentSha256, type, storage, r2_upload_id: r2UploadId,
+        staging_key: stagingKey, status: 'open', created_at: createdAt, updated_at: updatedAt, expires_at: expiresAt,
+      })
+    } else if (sql.startsWith('INSERT INTO memory_blob_upload_parts')) {
+      const [uploadId, index, size, etag] = p
+      this.db.parts = this.db.parts.filter(r => !(r.upload_id === uploadId && r.chunk_index === index))
+      this.db.parts.push({ upload_id: uploadId, chunk_index: index, size, etag })
+    } else if (sql.startsWith("UPDATE memory_blob_uploads SET status = 'completed', result_json = ?")) {
+      Object.assign(this.db.uploads.find(u => u.id === p[2])!, { status: 'completed', result_json: p[0] })
+    } else if (sql.startsWith('UPDATE memory_blob_uploads SET status')) {
+      this.db.uploads.find(u => u.id === p[2])!.status = p[0]
+    } else if (sql.startsWith('DELETE FROM memory_blob_upload_parts WHERE upload_id = ?')) {
+      this.db.parts = this.db.parts.filter(r => r.upload_id !== p[0])
+    } else if (sql.startsWith('DELETE FROM memory_blob_uploads WHERE id = ?')) {
+      this.db.uploads = this.db.uploads.filter(u => u.id !== p[0])
+    } else if (sql.startsWith('INSERT INTO memories')) {
+      this.db.memories.set(p[0], { id: p[0], wallet_address: p[2], type: p[3], irys_id: p[4], size: p[5] })
+    }
+    return { success: true, meta: { changes: 1 } }
+  }
+}
+
+class MockDB {
+  uploads: any[] = []
+  parts: any[] = []
+  memories = new Map<string, any>()
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+
+  async batch(stmts: MockStmt[]) {
+    for (const stmt of stmts) await stmt.run()
+    return []
+  }
+}
+
+class MockR2 {
+  objects = new Map<string, Uint8Array>()
+  metadata = new Map<string, Record<string, string>>()
+  multiparts = new Map<string, Map<number, Uint8Array>>()
+  aborted: string[] = []
+
+  async createMultipartUpload(key: string) {
+    const uploadId = `mp_${this.multiparts.size + 1}`
+    this.multiparts.set(uploadId, new Map())
+    return this.resumeMultipartUpload(key, uploadId)
+  }
+
+  resumeMultipartUpload(key: string, uploadId: string) {
+    const parts = this.multiparts.get(uploadId)!
+    return {
+      key,
+      uploadId,
+      uploadPart: async (partNumber: number, value: Uint8Array) => {
+        parts.set(partNumber, new Uint8Array(value))
+        return { partNumber, etag: `etag_${partNumber}_${value.byteLength}` }
+      },
+      complete: async (uploaded: Array<{ partNumber: number; etag: string }>) => {
+        const chunks = uploaded.sort((a, b) => a.partNumber - b.partNumber).map(u => parts.get(u.partNumber)!)
+        const total = chunks.reduce((sum, c) => sum + c.byteLength, 0)
+        const out = new Uint8Array(total)
+        let offset = 0
+        for (const c of chunks) {
+          out.set(c, offset)
+          offset += c.byteLength
+        }
+        this.objects.set(key, out)
+      },
+      abort: async () => {
+        this.aborted.push(uploadId)
+      },
+    }
+  }
+
+  async put(key: string, value: Uint8Array, options?: { customMetadata?: Record<string, string> }) {
+    this.objects.set(key, new Uint8Array(value))
+    if (options?.customMetadata) this.metadata.set(key, options.customMetadata)
+  }
+
+  async get(key: string) {
+    const value = this.objects.get(key)
+    return value ? { arrayBuffer: async () => value.slice().buffer } : null
+  }
+
+  async delete(key: string) {
+    this.objects.delete(key)
+  }
+}
+
+function call(env: any, method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method }
+  if (body instanceof Uint8Array) {
+    init.body = body
+    init.headers = { 'Content-Type': 'application/octet-stream' }
+  } else if (body !== undefined) {
+    init.body = JSON.stringify(body)
+    init.headers = { 'Content-Type': 'application/json' }
+  }
+  return handleMemoriesRoutes(new Request(`https://api.test${path}`, init), env, path) as Promise<Response>
+}
+
+function makeBlob(size: number) {
+  const bytes = new Uint8Array(size)
+  for (let i = 0; i < size; i++) bytes[i] = (i * 31) % 251
+  return bytes
+}
+
+describe('chunked memory blob uploads', () => {
+  it('accepts out-of-order chunks, reports missing ones and finalizes after hash check', async () => {
+    const env = { DB: new MockDB(), R2: new MockR2() } as any
+    const blob = makeBlob(5 * MiB + 1234)
+    const contentSha256 = createHash('sha256').update(blob).digest('hex')
+
+    const created = await call(env, 'POST', '/api/v1/memories/blob/uploads', {
+      memoryId: 'mem_voice_1', totalSize: blob.byteLength, chunkSize: MiB, contentSha256, contentHash: 'plaintext-hash', type: 'voice',
+    })
+    const session = await created.json() as any
+    expect(created.status).toBe(200)
+    expect(session.chunkSize).toBe(5 * MiB)
+    expect(session.totalChunks).toBe(2)
+
+    const base = `/api/v1/memories/blob/uploads/${session.uploadId}`
+    expect((await call(env, 'PUT', `${base}/chunks/1`, blob.slice(5 * MiB))).status).toBe(200)
+
+    const status = await (await call(env, 'GET', base)).json() as any
+    expect(status.receivedChunks).toEqual([1])
+    expect(status.missingChunks).toEqual([0])
+
+    const early = await call(env, 'POST', `${base}/complete`)
+    expect(early.status).toBe(409)
+
+    const wrongSize = await call(env, 'PUT', `${base}/chunks/0`, blob.slice(0, 100))
+    expect(wrongSize.status).toBe(400)
+
+    expect((await call(env, 'PUT', `${base}/chunks/0`, blob.slice(0, 5 * MiB))).status).toBe(200)
+
+    const done = await call(env, 'POST', `${base}/complete`)
+    const result = await done.json() as any
+    expect(done.status).toBe(200)
+    expect(result.sha256).toBe(contentSha256)
+    expect(result.contentHash).toBe('plaintext-hash')
+    expect(result.storage).toBe('r2')
+
+    const stored = env.R2.objects.get('memory-blobs/wallet_upload_test/mem_voice_1/v1')
+    expect(stored?.byteLength).toBe(blob.byteLength)
+    // 与单次上传一致：contentHash 保存客户端哈希，sha256 为服务端校验值
+    expect(env.R2.metadata.get('memory-blobs/wallet_upload_test/mem_voice_1/v1')).toEqual(expect.objectContaining({ contentHash: 'plaintext-hash', sha256: contentSha256 }))
+    expect(env.R2.objects.has(`memory-blob-uploads/wallet_upload_test/${session.uploadId}`)).toBe(false)
+    expect(env.DB.memories.get('mem_voice_1')).toEqual(expect.objectContaining({ type: 'voice', size: blob.byteLength }))
+    expect(env.DB.uploads[0].status).toBe('completed')
+
+    // 重试 complete 返回首次结果，不再写入新版本
+    const retried = await call(env, 'POST', `${base}/complete`)
+    expect(retried.status).toBe(200)
+    expect(await retried.json()).toEqual(result)
+    expect(env.R2.objects.has('memory-blobs/wallet_upload_test/mem_voice_1/v2')).toBe(false)
+  })
+
+  it('aborts expired multipart uploads and removes their sessions', async () => {
+    const env = { DB: new MockDB(), R2: new MockR2() } as any
+    const blob = makeBlob(4096)
+    const contentSha256 = createHash('sha256').update(blob).digest('hex')
+
+    const expired = await (await call(env, 'POST', '/api/v1/memories/blob/uploads', {
+      memoryId: 'mem_stale', totalSize: blob.byteLength, contentSha256,
+    })).json() as any
+    await call(env, 'PUT', `/api/v1/memories/blob/uploads/${expired.uploadId}/chunks/0`, blob)
+    const active = await (await call(env, 'POST', '/api/v1/memories/blob/uploads', {
+      memoryId: 'mem_fresh', totalSize: blob.byteLength, contentSha256,
+    })).json() as any
+    env.DB.uploads.find((u: any) => u.id === expired.uploadId).expires_at = Math.floor(Date.now() / 1000) - 1
+
+    expect(await sweepExpiredUploads(env)).toBe(1)
+    expect(env.R2.aborted).toEqual(['mp_1'])
+    expect(env.DB.uploads.map((u: any) => u.id)).toEqual([active.uploadId])
+    expect(env.DB.parts).toHaveLength(0)
+  })
+
+  it('rejects the upload when the assembled bytes do not match contentSha256', async () => {
+    const env = { DB: new MockDB(), R2: new MockR2() } as any
+    const blob = makeBlob(4096)
+
+    const created = await call(env, 'POST', '/api/v1/memories/blob/uploads', {
+      memoryId: 'mem_photo_1', totalSize: blob.byteLength, contentSha256: 'a'.repeat(64),
+    })
+    const session = await created.json() as any
+    const base = `/api/v1/memories/blob/uploads/${session.uploadId}`
+    await call(env, 'PUT', `${base}/chunks/0`, blob)
+
+    const done = await call(env, 'POST', `${base}/complete`)
+    expect(done.status).toBe(422)
+    expect((await done.json() as any).error).toBe('content_hash_mismatch')
+    expect(env.R2.objects.has('memory-blobs/wallet_upload_test/mem_photo_1/v1')).toBe(false)
+    expect(env.DB.memories.size).toBe(0)
+    expect(env.DB.uploads[0].status).toBe('failed')
+  })
+})
@@ -0,0 +1,219 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('../src/utils/user-auth', () => ({
+  getUserAuth: vi.fn(async () => ({ ok: true, walletAddress: 'wallet_versions_test' })),
+}))
+
+import { handleMemoriesRoutes } from '../src/routes/memories'
+import { purgeExpiredMemoryBlobs } from '../src/services/memory-blob-store'
+
+const WALLET = 'wallet_versions_test'
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  private versionsOf(wallet: string, memoryId: string) {
+    return this.db.versions.filter(v => v.wallet_address === wallet && v.memory_id === memoryId)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('SELECT MAX(version) AS version FROM memory_blob_versions')) {
+      const versions = this.versionsOf(p[0], p[1]).map(v => v.version)
+      const latest = versions.length ? Math.max(...versions) : null
+      // 模拟另一个请求在读取之后抢先写入了同一版本号
+      this.db.afterMaxRead?.(p[0], p[1], (latest ?? 0) + 1)
+      this.db.afterMaxRead = null
+      return { version: latest } as any
+    }
+    if (sql.startsWith('SELECT * FROM memory_blob_versions')) {
+      return (this.versionsOf(p[0], p[1]).find(v => v.version === p[2]) || null) as any
+    }
+    if (sql.startsWith('SELECT') && sql.includes('FROM memories WHERE id = ? AND wallet_address = ?')) {
+      const row = this.db.memories.get(p[0])
+      return (row && row.wallet_address === p[1] ? row : null) as any
+    }
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('SELECT config_key, config_value FROM app_config')) {
+      return { results: [{ config_key: 'memory.blob.restore_window_days', config_value: '7' }] as any }
+    }
+    if (sql.startsWith('SELECT * FROM memory_blob_versions')) {
+      return { results: this.versionsOf(p[0], p[1]).sort((a, b) => b.version - a.version) as any }
+    }
+    if (sql.startsWith('SELECT id, wallet_address, irys_id FROM memories')) {
+      return { results: [...this.db.memories.values()].filter(m => m.deleted_at && m.deleted_at <= p[0]).slice(0, p[1]) as any }
+    }
+    return { results: [] }
+  }
+
+  async run(): Promise<{ success: boolean; meta: { changes: number } }> {
+    const sql = this.sql.trim()
+    const p = this.params
+
+    if (sql.startsWith('INSERT INTO memory_blob_versions') || sql.startsWith('INSERT OR IGNORE INTO memory_blob_versions')) {
+      const [memoryId, wallet] = p
+      const rest = sql.includes('VALUES (?, ?, 1,') ? [1, ...p.slice(2)] : p.slice(2)
+      const [version, ref, size, hash, createdAt] = rest
+      if (this.versionsOf(wallet, memoryId).some(v => v.version === version)) {
+        if (sql.startsWith('INSERT OR IGNORE')) return { success: true, meta: { changes: 0 } }
+        throw new Error('UNIQUE constraint failed: memory_blob_versions.wallet_address, memory_blob_versions.memory_id, memory_blob_versions.version')
+      }
+      this.db.versions.push({ memory_id: memoryId, wallet_address: wallet, version, storage_ref: ref, size, content_hash: hash, created_at: createdAt })
+    } else if (sql.startsWith('INSERT INTO memories')) {
+      this.db.memories.set(p[0], { id: p[0], wallet_address: p[2], type: p[3], irys_id: p[4], size: p[5], content_hash: p[6], created_at: 100, deleted_at: null })
+    } else if (sql.startsWith('UPDATE memories SET deleted_at = NULL')) {
+      this.db.memories.get(p[0]).deleted_at = null
+    } else if (sql.startsWith('UPDATE memories SET deleted_at = ?')) {
+      this.db.memories.get(p[1]).deleted_at = p[0]
+    } else if (sql.startsWith('UPDATE memories SET irys_id = ?')) {
+      this.db.memories.get(p[1]).irys_id = p[0]
+    } else if (sql.startsWith('DELETE FROM memory_blob_versions') && sql.includes('storage_ref = ?')) {
+      this.db.versions = this.db.versions.filter(v => !(v.wallet_address === p[0] && v.memory_id === p[1] && v.storage_ref === p[2]))
+    } else if (sql.startsWith('DELETE FROM memory_blob_versions')) {
+      this.db.versions = this.db.versions.filter(v => !(v.wallet_address === p[0] && v.memory_id === p[1]))
+    } else if (sql.startsWith('DELETE FROM memories')) {
+      this.db.memories.delete(p[0])
+    }
+    return { success: true, meta: { changes: 1 } }
+  }
+}
+
+class MockDB {
+  memories = new Map<string, any>()
+  versions: any[] = []
+  afterMaxRead: ((wallet: string, memoryId: string, version: number) => void) | null = null
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+class MockR2 {
+  objects = new Map<string, Uint8Array>()
+
+  async put(key: string, value: Uint8Array) {
+    this.objects.set(key, new Uint8Array(value))
+  }
+
+  async get(key: string) {
+    const value = this.objects.get(key)
+    return value ? { customMetadata: {}, arrayBuffer: async () => value.slice().buffer } : null
+  }
+
+  async delete(key: string) {
+    this.objects.delete(key)
+  }
+}
+
+function call(env: any, method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method, headers: { 'Content-Type': 'application/json' } }
+  if (body !== undefined) init.body = JSON.stringify(body)
+  return handleMemoriesRoutes(new Request(`https://api.test${path}`, init), env, path) as Promise<Response>
+}
+
+function store(env: any, memoryId: string, text: string) {
+  return call(env, 'POST', '/api/v1/memories/blob', { memoryId, contentBase64: Buffer.from(text).toString('base64') })
+}
+
+describe('memory blob versions and soft delete', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('keeps every write as an immutable version, including pre-existing objects', async () => {
+    const env = { DB: new MockDB(), R2: new MockR2() } as any
+    // 旧数据：单一对象键，没有版本记录
+    env.R2.objects.set(`memory-blobs/${WALLET}/mem_1`, new TextEncoder().encode('legacy'))
+    env.DB.memories.set('mem_1', { id: 'mem_1', wallet_address: WALLET, irys_id: `r2:memory-blobs/${WALLET}/mem_1`, size: 6, content_hash: null, created_at: 50 })
+
+    expect((await (await store(env, 'mem_1', 'second')).json() as any).version).toBe(2)
+    expect((await (await store(env, 'mem_1', 'third')).json() as any).version).toBe(3)
+
+    const list = await (await call(env, 'GET', '/api/v1/memories/blob/mem_1/versions')).json() as any
+    expect(list.currentVersion).toBe(3)
+    expect(list.versions.map((v: any) => v.version)).toEqual([3, 2, 1])
+    expect(list.versions[2]).toEqual(expect.objectContaining({ size: 6, createdAt: 50 }))
+
+    const v1 = await call(env, 'GET', '/api/v1/memories/blob/mem_1/versions/1')
+    expect(await v1.text()).toBe('legacy')
+    const v2 = await call(env, 'GET', '/api/v1/memories/blob/mem_1/versions/2')
+    expect(v2.headers.get('X-Memory-Version')).toBe('2')
+    expect(await v2.text()).toBe('second')
+    expect(await (await call(env, 'GET', '/api/v1/memories/blob/mem_1')).text()).toBe('third')
+    expect((await call(env, 'GET', '/api/v1/memories/blob/mem_1/versions/9')).status).toBe(404)
+  })
+
+  it('retries the version reservation when a concurrent save takes the same number', async () => {
+    const env = { DB: new MockDB(), R2: new MockR2() } as any
+    env.DB.afterMaxRead = (wallet: string, memoryId: string, version: number) => {
+      env.DB.versions.push({ memory_id: memoryId, wallet_address: wallet, version, storage_ref: 'r2:concurrent', size: 1, content_hash: null, created_at: 1 })
+    }
+    const res = await store(env, 'mem_race', 'second')
+    expect(res.status).toBe(200)
+    expect(env.DB.versions.map((v: any) => [v.version, v.storage_ref])).toEqual([
+      [1, 'r2:concurrent'],
+      [2, `r2:memory-blobs/${WALLET}/mem_race/v2`],
+    ])
+  })
+
+  it('soft deletes, restores within the window and purges expired tombstones', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+    const env = { DB: new MockDB(), R2: new MockR2() } as any
+    await store(env, 'mem_a', 'keep me')
+    await store(env, 'mem_b', 'drop me')
+
+    const deleted = await (await call(env, 'DELETE', '/api/v1/memories/blob/mem_a')).json() as any
+    expect(deleted.restorableUntil - deleted.deletedAt).toBe(7 * 86400)
+    expect((await call(env, 'GET', '/api/v1/memories/blob/mem_a')).status).toBe(410)
+    expect(env.R2.objects.has(`memory-blobs/${WALLET}/mem_a/v1`)).toBe(true)
+
+    const restored = await (await call(env, 'POST', '/api/v1/memories/blob/mem_a/restore')).json() as any
+    expect(restored.restored).toBe(true)
+    expect(await (await call(env, 'GET', '/api/v1/memories/blob/mem_a')).text()).toBe('keep me')
+
+    await call(env, 'DELETE', '/api/v1/memories/blob/mem_b')
+    vi.setSystemTime(new Date('2026-01-09T00:00:00Z'))
+    expect((await call(env, 'POST', '/api/v1/memories/blob/mem_b/restore')).status).toBe(410)
+
+    expect(await purgeExpiredMemoryBlobs(env)).toBe(1)
+    expect(env.DB.memories.has('mem_b')).toBe(false)
+    expect(env.DB.versions.some((v: any) => v.memory_id === 'mem_b')).toBe(false)
+    expect(env.R2.objects.has(`memory-blobs/${WALLET}/mem_b/v1`)).toBe(false)
+    expect(env.DB.memories.has('mem_a')).toBe(true)
+  })
+
+  it('deletes only the migrated current version when marking a memory as moved to Irys', async () => {
+    const env = { DB: new MockDB(), R2: new MockR2() } as any
+    await store(env, 'mem_m', 'first draft')
+    await store(env, 'mem_m', 'final')
+
+    // 未提供 irysId：记录仍指向本地对象，不删除
+    await call(env, 'POST', '/api/v1/memories/blob/mem_m/migrated', {})
+    expect(env.R2.objects.has(`memory-blobs/${WALLET}/mem_m/v2`)).toBe(true)
+
+    const res = await call(env, 'POST', '/api/v1/memories/blob/mem_m/migrated', { irysId: 'irys_tx_1' })
+    expect(res.status).toBe(200)
+    expect(env.DB.memories.get('mem_m').irys_id).toBe('irys_tx_1')
+    expect(env.R2.objects.has(`memory-blobs/${WALLET}/mem_m/v2`)).toBe(false)
+    expect(env.R2.objects.has(`memory-blobs/${WALLET}/mem_m/v1`)).toBe(true)
+
+    const list = await (await call(env, 'GET', '/api/v1/memories/blob/mem_m/versions')).json() as any
+    expect(list.currentVersion).toBeNull()
+    expect(list.versions.map((v: any) => v.version)).toEqual([1])
+  })
+})
@@ -0,0 +1,253 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('../src/utils/user-auth', () => ({
+  getUserAuth: vi.fn(),
+}))
+
+import { getUserAuth } from '../src/utils/user-auth'
+import { handleMemoriesRoutes } from '../src/routes/memories'
+import { handleMemoryCapsuleRoutes } from '../src/routes/memory-capsules'
+import { openDueMemoryCapsules } from '../src/services/memory-capsules'
+
+const OWNER = 'wallet_capsule_owner'
+const RECIPIENT = 'wallet_capsule_recipient'
+const NOW = 1_700_000_000
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('SELECT MAX(version) AS version FROM memory_blob_versions')) {
+      const versions = this.db.versions.filter(v => v.wallet_address === p[0] && v.memory_id === p[1]).map(v => v.version)
+      return { version: versions.length ? Math.max(...versions) : null } as any
+    }
+    if (sql.startsWith('SELECT * FROM memory_capsules WHERE owner_wallet = ? AND memory_id = ?')) {
+      return (this.db.capsules.get(`${p[0]}:${p[1]}`) || null) as any
+    }
+    if (sql.startsWith('SELECT * FROM memory_capsules WHERE recipient_wallet = ? AND memory_id = ?')) {
+      const rows = [...this.db.capsules.values()].filter(c => c.recipient_wallet === p[0] && c.memory_id === p[1])
+      return (rows.find(c => c.status !== 'claimed') || rows[0] || null) as any
+    }
+    if (sql.startsWith('SELECT fcm_token FROM fcm_tokens')) {
+      return (this.db.fcmTokens[p[0]] ? { fcm_token: this.db.fcmTokens[p[0]] } : null) as any
+    }
+    if (sql.startsWith('SELECT') && sql.includes('FROM memories WHERE id = ? AND wallet_address = ?')) {
+      const row = this.db.memories.get(p[0])
+      return (row && row.wallet_address === p[1] ? row : null) as any
+    }
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('SELECT * FROM memory_blob_versions')) {
+      return { results: this.db.versions.filter(v => v.wallet_address === p[0] && v.memory_id === p[1]) as any }
+    }
+    if (sql.startsWith('SELECT * FROM memory_capsules WHERE owner_wallet = ? OR recipient_wallet = ?')) {
+      return { results: [...this.db.capsules.values()].filter(c => c.owner_wallet === p[0] || c.recipient_wallet === p[1]) as any }
+    }
+    if (sql.startsWith('SELECT * FROM memory_capsules') && sql.includes('notified_at IS NULL')) {
+      return {
+        results: [...this.db.capsules.values()]
+          .filter(c => ['sealed', 'claimable', 'opened'].includes(c.status) && c.notified_at == null && c.unlock_at <= p[0]) as any,
+      }
+    }
+    return { results: [] }
+  }
+
+  async run(): Promise<{ success: boolean; meta: { changes: number } }> {
+    const sql = this.sql.trim()
+    const p = this.params
+    const capsule = (owner: string, id: string) => this.db.capsules.get(`${owner}:${id}`)
+
+    if (sql.startsWith('INSERT INTO memory_blob_versions')) {
+      const [memoryId, wallet, version, ref, size, hash, createdAt] = p
+      this.db.versions.push({ memory_id: memoryId, wallet_address: wallet, version, storage_ref: ref, size, content_hash: hash, created_at: createdAt })
+    } else if (sql.startsWith('DELETE FROM memory_blob_versions')) {
+      this.db.versions = this.db.versions.filter(v => !(v.wallet_address === p[0] && v.memory_id === p[1]))
+    } else if (sql.startsWith('INSERT INTO memories')) {
+      this.db.memories.set(p[0], { id: p[0], wallet_address: p[2], type: p[3], irys_id: p[4], size: p[5], content_hash: p[6], deleted_at: null })
+    } else if (sql.startsWith('UPDATE memories SET type = ?, content_hash = NULL')) {
+      Object.assign(this.db.memories.get(p[1]), { type: p[0], content_hash: null })
+    } else if (sql.startsWith('UPDATE memories SET type = ?, content_hash = ?')) {
+      Object.assign(this.db.memories.get(p[2]), { type: p[0], content_hash: p[1] })
+    } else if (sql.startsWith('UPDATE memories SET wallet_address = ?')) {
+      Object.assign(this.db.memories.get(p[5]), { wallet_address: p[0], user_id: p[1], type: p[2], content_hash: p[3], irys_id: p[4] })
+    } else if (sql.startsWith('INSERT INTO memory_capsules')) {
+      this.db.capsules.set(`${p[1]}:${p[0]}`, {
+        memory_id: p[0], owner_wallet: p[1], recipient_wallet: p[2], unlock_at: p[3], status: 'sealed',
+        sealed_type: p[4], sealed_content_hash: p[5], key_envelope: p[6], created_at: p[7],
+        opened_at: null, notified_at: null, claimed_at: null,
+      })
+    } else if (sql.startsWith("UPDATE memory_capsules SET status = 'opened'")) {
+      Object.assign(capsule(p[1], p[2]), { status: 'opened', opened_at: p[0] })
+    } else if (sql.startsWith("UPDATE memory_capsules SET status = 'claimable'")) {
+      Object.assign(capsule(p[0], p[1]), { status: 'claimable' })
+    } else if (sql.startsWith("UPDATE memory_capsules SET status = 'claimed'")) {
+      Object.assign(capsule(p[2], p[3]), { status: 'claimed', claimed_at: p[0] })
+    } else if (sql.startsWith('UPDATE memory_capsules SET notified_at = ?')) {
+      Object.assign(capsule(p[1], p[2]), { notified_at: p[0] })
+    }
+    return { success: true, meta: { changes: 1 } }
+  }
+}
+
+class MockDB {
+  memories = new Map<string, any>()
+  versions: any[] = []
+  capsules = new Map<string, any>()
+  fcmTokens: Record<string, string> = {}
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+class MockR2 {
+  objects = new Map<string, Uint8Array>()
+
+  async put(key: string, value: Uint8Array) {
+    this.objects.set(key, new Uint8Array(value))
+  }
+
+  async get(key: string) {
+    const value = this.objects.get(key)
+    return value ? { customMetadata: {}, arrayBuffer: async () => value.slice().buffer } : null
+  }
+
+  async delete(key: string) {
+    this.objects.delete(key)
+  }
+}
+
+function as(wallet: string) {
+  vi.mocked(getUserAuth).mockResolvedValue({ ok: true, walletAddress: wallet } as any)
+}
+
+function call(env: any, method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method, headers: { 'Content-Type': 'application/json' } }
+  if (body !== undefined) init.body = JSON.stringify(body)
+  const request = new Request(`https://api.test${path}`, init)
+  return (path.startsWith('/api/v1/memories/capsules')
+    ? handleMemoryCapsuleRoutes(request, env, path)
+    : handleMemoriesRoutes(request, env, path)) as Promise<Response>
+}
+
+function seal(env: any, memoryId: string, text: string, extra: Record<string, unknown> = {}) {
+  return call(env, 'POST', '/api/v1/memories/blob', {
+    memoryId,
+    contentBase64: Buffer.from(text).toString('base64'),
+    type: 'letter',
+    unlockAt: NOW + 3600,
+    ...extra,
+  })
+}
+
+describe('time-locked memory capsules', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('hides the blob and its metadata until the unlock time, then opens and notifies the owner', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(NOW * 1000)
+    as(OWNER)
+    const env = { DB: new MockDB(), R2: new MockR2(), FCM_SERVER_KEY: 'fcm_key' } as any
+    env.DB.fcmTokens[OWNER] = 'owner_token'
+
+    const sealed = await seal(env, 'cap_1', 'dear future me')
+    expect(sealed.status).toBe(200)
+    expect(env.DB.memories.get('cap_1')).toMatchObject({ type: 'capsule', content_hash: null })
+
+    const blocked = await call(env, 'GET', '/api/v1/memories/blob/cap_1')
+    expect(blocked.status).toBe(423)
+    expect(await blocked.json()).toEqual({ error: 'memory_sealed', unlockAt: NOW + 3600, claimRequired: false })
+    expect((await call(env, 'GET', '/api/v1/memories/blob/cap_1/versions')).status).toBe(423)
+    expect((await seal(env, 'cap_1', 'overwrite')).status).toBe(423)
+
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ success: 1, failure: 0 })))
+    vi.stubGlobal('fetch', fetchMock)
+    expect(await openDueMemoryCapsules(env, NOW + 3599)).toBe(0)
+    expect(await openDueMemoryCapsules(env, NOW + 3600)).toBe(1)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(JSON.parse((fetchMock.mock.calls[0] as any)[1].body)).toMatchObject({
+      to: 'owner_token',
+      data: { type: 'memory_capsule_opened', memoryId: 'cap_1', claimable: '0' },
+    })
+    expect(await openDueMemoryCapsules(env, NOW + 7200)).toBe(0)
+
+    expect(env.DB.memories.get('cap_1').type).toBe('letter')
+    const opened = await call(env, 'GET', '/api/v1/memories/blob/cap_1')
+    expect(opened.status).toBe(200)
+    expect(await opened.text()).toBe('dear future me')
+  })
+
+  it('keeps recipient capsules sealed until claimed and transfers them into the recipient namespace', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(NOW * 1000)
+    as(OWNER)
+    const env = { DB: new MockDB(), R2: new MockR2() } as any
+
+    const sealed = await seal(env, 'cap_2', 'for you', { recipientWallet: RECIPIENT, keyEnvelope: 'wrapped_key' })
+    expect(await sealed.json()).toMatchObject({ sealedUntil: NOW + 3600, recipientWallet: RECIPIENT })
+
+    as(RECIPIENT)
+    const early = await call(env, 'POST', '/api/v1/memories/capsules/cap_2/claim')
+    expect(early.status).toBe(423)
+    const incoming = await (await call(env, 'GET', '/api/v1/memories/capsules')).json() as any
+    expect(incoming.incoming).toEqual([expect.objectContaining({ memoryId: 'cap_2', claimable: false, keyEnvelope: null })])
+    expect(incoming.incoming[0]).not.toHaveProperty('type')
+
+    vi.setSystemTime((NOW + 3600) * 1000)
+    await openDueMemoryCapsules(env, NOW + 3600)
+    expect(env.DB.capsules.get(`${OWNER}:cap_2`).status).toBe('claimable')
+
+    as(OWNER)
+    const ownerRead = await call(env, 'GET', '/api/v1/memories/blob/cap_2')
+    expect(ownerRead.status).toBe(423)
+    expect((await ownerRead.json() as any).claimRequired).toBe(true)
+
+    as(RECIPIENT)
+    const claimed = await call(env, 'POST', '/api/v1/memories/capsules/cap_2/claim')
+    expect(claimed.status).toBe(200)
+    expect(await claimed.json()).toMatchObject({ status: 'claimed', keyEnvelope: 'wrapped_key' })
+    expect((await call(env, 'POST', '/api/v1/memories/capsules/cap_2/claim')).status).toBe(409)
+
+    expect(env.DB.memories.get('cap_2')).toMatchObject({ wallet_address: RECIPIENT, type: 'letter' })
+    expect([...env.R2.objects.keys()]).toEqual([`memory-blobs/${RECIPIENT}/cap_2/v1`])
+    const read = await call(env, 'GET', '/api/v1/memories/blob/cap_2')
+    expect(await read.text()).toBe('for you')
+  })
+
+  it('scopes capsules to the owner so another wallet reusing the memoryId cannot replace or lock them', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(NOW * 1000)
+    as(OWNER)
+    const env = { DB: new MockDB(), R2: new MockR2() } as any
+    expect((await seal(env, 'cap_3', 'mine')).status).toBe(200)
+    vi.setSystemTime((NOW + 3600) * 1000)
+    expect((await call(env, 'GET', '/api/v1/memories/blob/cap_3')).status).toBe(200)
+
+    as(RECIPIENT)
+    await seal(env, 'cap_3', 'theirs', { unlockAt: NOW + 7200 })
+    expect(env.DB.capsules.get(`${OWNER}:cap_3`)).toMatchObject({ owner_wallet: OWNER, status: 'opened' })
+    expect(env.DB.capsules.get(`${RECIPIENT}:cap_3`)).toMatchObject({ owner_wallet: RECIPIENT, status: 'sealed' })
+    expect((await call(env, 'POST', '/api/v1/memories/capsules/cap_3/claim')).status).toBe(404)
+
+    as(OWNER)
+    const view = await (await call(env, 'GET', '/api/v1/memories/capsules/cap_3')).json() as any
+    expect(view).toMatchObject({ ownerWallet: OWNER, status: 'opened' })
+  })
+})
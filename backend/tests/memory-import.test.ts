@@ -0,0 +1,263 @@
+import { deflateRawSync } from 'node:zlib'
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('../src/utils/user-auth', () => ({
+  getUserAuth: vi.fn(async () => ({ ok: true, walletAddress: 'wallet_import_test' })),
+}))
+
+import { handleMemoryImportRoutes } from '../src/routes/memory-imports'
+import { parseJournalExport } from '../src/services/journal-parsers'
+import { crc32, readZip, ZipWriter } from '../src/utils/zip'
+
+const WALLET = 'wallet_import_test'
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('SELECT * FROM memory_imports WHERE id = ? AND wallet_address = ?')) {
+      return (this.db.imports.find(i => i.id === p[0] && i.wallet_address === p[1]) || null) as any
+    }
+    if (sql.startsWith('SELECT COUNT(*) AS cnt FROM memory_import_entries')) {
+      return { cnt: this.db.entries.filter(e => e.import_id === p[0] && e.status === 'pending').length } as any
+    }
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('SELECT import_id, seq, content_hash FROM memory_import_entries')) {
+      const hashes = p.slice(1)
+      return {
+        results: this.db.entries.filter(e =>
+          e.wallet_address === p[0] && ['pending', 'imported'].includes(e.status) && hashes.includes(e.content_hash)) as any,
+      }
+    }
+    if (sql.startsWith('SELECT status, COUNT(*) AS cnt')) {
+      const counts = new Map<string, { status: string; cnt: number; vectorized: number }>()
+      for (const e of this.db.entries.filter(e => e.import_id === p[0])) {
+        const row = counts.get(e.status) || { status: e.status, cnt: 0, vectorized: 0 }
+        row.cnt++
+        row.vectorized += e.vectorized
+        counts.set(e.status, row)
+      }
+      return { results: [...counts.values()] as any }
+    }
+    if (sql.startsWith('SELECT * FROM memory_import_entries')) {
+      return {
+        results: this.db.entries
+          .filter(e => e.import_id === p[0] && e.status === p[1] && e.seq > p[2])
+          .slice(0, p[3]) as any,
+      }
+    }
+    return { results: [] }
+  }
+
+  async run() {
+    const sql = this.sql.trim()
+    const p = this.params
+    let changes = 0
+    if (sql.startsWith('INSERT INTO memory_imports')) {
+      this.db.imports.push({
+        id: p[0], wallet_address: p[1], source: p[2], file_name: p[3], status: 'active', create_vectors: p[4],
+        total_entries: p[5], created_at: p[6], updated_at: p[7], expires_at: p[8],
+      })
+    } else if (sql.startsWith('INSERT INTO memory_import_entries')) {
+      this.db.entries.push({
+        import_id: p[0], seq: p[1], wallet_address: p[2], external_id: p[3], content_hash: p[4], title: p[5],
+        content: p[6], tags: p[7], original_created_at: p[8], status: p[9], duplicate_of: p[10],
+        memory_id: null, vectorized: 0, imported_at: null,
+      })
+    } else if (sql.startsWith("UPDATE memory_import_entries SET status = 'imported'")) {
+      const entry = this.db.entries.find(e => e.import_id === p[3] && e.seq === p[4] && e.status === 'pending')
+      if (entry) {
+        Object.assign(entry, { status: 'imported', content: null, memory_id: p[0], vectorized: p[1], imported_at: p[2] })
+        changes = 1
+      }
+    } else if (sql.startsWith("UPDATE memory_import_entries SET status = 'skipped', content = NULL, imported_at = ?")) {
+      const entry = this.db.entries.find(e => e.import_id === p[1] && e.seq === p[2] && e.status === 'pending')
+      if (entry) {
+        Object.assign(entry, { status: 'skipped', content: null })
+        changes = 1
+      }
+    } else if (sql.startsWith('UPDATE memory_imports SET status = ?')) {
+      Object.assign(this.db.imports.find(i => i.id === p[2])!, { status: p[0], updated_at: p[1] })
+    }
+    return { meta: { changes } }
+  }
+}
+
+class MockDB {
+  imports: any[] = []
+  entries: any[] = []
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+
+  async batch(statements: MockStmt[]) {
+    const results = []
+    for (const stmt of statements) results.push(await stmt.run())
+    return results
+  }
+}
+
+async function storedZip(files: Record<string, string>): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = []
+  const zip = new ZipWriter(async chunk => { chunks.push(chunk.slice()) })
+  for (const [name, text] of Object.entries(files)) {
+    await zip.addFile(name, new TextEncoder().encode(text), new Date('2023-04-05T06:07:08Z'))
+  }
+  await zip.finish()
+  return new Uint8Array(Buffer.concat(chunks))
+}
+
+// 单文件 DEFLATE 压缩的 zip（与 Day One 等应用导出的格式一致）；declaredSize 可伪造解压大小
+function deflatedZip(name: string, text: string, declaredSize?: number): Uint8Array {
+  const data = Buffer.from(text)
+  const size = declaredSize ?? data.length
+  const compressed = deflateRawSync(data)
+  const nameBytes = Buffer.from(name)
+  const crc = crc32(data)
+
+  const local = Buffer.alloc(30)
+  local.writeUInt32LE(0x04034b50, 0)
+  local.writeUInt16LE(20, 4)
+  local.writeUInt16LE(8, 8)
+  local.writeUInt32LE(crc, 14)
+  local.writeUInt32LE(compressed.length, 18)
+  local.writeUInt32LE(size, 22)
+  local.writeUInt16LE(nameBytes.length, 26)
+
+  const central = Buffer.alloc(46)
+  central.writeUInt32LE(0x02014b50, 0)
+  central.writeUInt16LE(20, 4)
+  central.writeUInt16LE(20, 6)
+  central.writeUInt16LE(8, 10)
+  central.writeUInt32LE(crc, 16)
+  central.writeUInt32LE(compressed.length, 20)
+  central.writeUInt32LE(size, 24)
+  central.writeUInt16LE(nameBytes.length, 28)
+
+  const localSize = local.length + nameBytes.length + compressed.length
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(1, 8)
+  end.writeUInt16LE(1, 10)
+  end.writeUInt32LE(central.length + nameBytes.length, 12)
+  end.writeUInt32LE(localSize, 16)
+
+  return new Uint8Array(Buffer.concat([local, nameBytes, compressed, central, nameBytes, end]))
+}
+
+function call(env: any, method: string, path: string, body?: BodyInit) {
+  const url = `https://api.test${path}`
+  return handleMemoryImportRoutes(new Request(url, { method, body }), env, new URL(url).pathname) as Promise<Response>
+}
+
+describe('journal export parsing', () => {
+  it('parses Markdown folders, deflated Day One archives and ENEX notes', async () => {
+    const markdown = await parseJournalExport(await storedZip({
+      'journal/2021-03-04 Trip.md': '---\ntags: [travel, "family"]\n---\n# Lisbon\n\nTrams and pastel de nata.',
+      'journal/notes.txt': 'Plain note',
+      '__MACOSX/journal/._notes.txt': 'junk',
+      'journal/photo.jpg': 'binary',
+    }))
+    expect(markdown.format).toBe('markdown')
+    expect(markdown.entries).toHaveLength(2)
+    expect(markdown.entries[0]).toMatchObject({
+      title: 'Lisbon',
+      tags: ['travel', 'family'],
+      createdAt: Date.UTC(2021, 2, 4) / 1000,
+    })
+    expect(markdown.entries[1]).toMatchObject({ title: 'notes', createdAt: Date.UTC(2023, 3, 5, 6, 7, 8) / 1000 })
+
+    const dayOne = await parseJournalExport(deflatedZip('Journal.json', JSON.stringify({
+      entries: [
+        { uuid: 'A1', text: '# Morning\\.\n\nCoffee', tags: ['calm'], creationDate: '2020-01-02T03:04:05Z' },
+        { uuid: 'A2', text: '   ' },
+      ],
+    })))
+    expect(dayOne.format).toBe('dayone')
+    expect(dayOne.entries).toEqual([{
+      externalId: 'A1', title: 'Morning.', text: '# Morning.\n\nCoffee', tags: ['calm'], createdAt: Date.UTC(2020, 0, 2, 3, 4, 5) / 1000,
+    }])
+
+    const enex = await parseJournalExport(new TextEncoder().encode(`<?xml version="1.0"?>
+<en-export><note><title>Groceries &amp; more</title>
+<content><![CDATA[<?xml version="1.0"?><en-note><div>Milk</div><ul><li>Eggs</li></ul><en-todo checked="true"/>Bread<br/></en-note>]]></content>
+<created>20190706T080910Z</created><tag>home</tag><tag>todo</tag></note></en-export>`))
+    expect(enex.format).toBe('enex')
+    expect(enex.entries[0]).toMatchObject({
+      title: 'Groceries & more',
+      text: 'Milk\n- Eggs\n[x] Bread',
+      tags: ['home', 'todo'],
+      createdAt: Date.UTC(2019, 6, 6, 8, 9, 10) / 1000,
+    })
+
+    await expect(parseJournalExport(new TextEncoder().encode('hello'))).rejects.toThrow('unsupported_format')
+  })
+
+  it('stops inflating once an entry outgrows its declared size or the archive limit', async () => {
+    const bomb = deflatedZip('Journal.json', '0'.repeat(8 * 1024 * 1024), 100)
+    expect(bomb.length).toBeLessThan(64 * 1024)
+    await expect(readZip(bomb)).rejects.toThrow('archive_too_large')
+
+    const honest = deflatedZip('Journal.json', 'x'.repeat(4096))
+    expect((await readZip(honest))[0].data.length).toBe(4096)
+    await expect(readZip(honest, 1024)).rejects.toThrow('archive_too_large')
+    // 声明大小大于实际产出同样视为损坏
+    await expect(readZip(deflatedZip('Journal.json', 'x'.repeat(4096), 5000))).rejects.toThrow('invalid_zip')
+  })
+})
+
+describe('memory imports', () => {
+  it('stages entries, reports duplicates by content hash and resumes from pending entries', async () => {
+    const env = { DB: new MockDB() } as any
+    const first = await storedZip({
+      'a.md': '# One\n\nSame text',
+      'b.md': '# One\n\nSame text\n',
+      'c.md': 'Another entry',
+    })
+
+    const created = await call(env, 'POST', '/api/v1/memories/imports?format=markdown&createVectors=1&fileName=notes.zip', first)
+    const job = await created.json() as any
+    expect(created.status).toBe(201)
+    expect(job).toMatchObject({ source: 'markdown', totalEntries: 3, pending: 2, duplicates: 1, createVectors: true })
+    expect(env.DB.entries[1]).toMatchObject({ status: 'duplicate', duplicate_of: `${job.importId}:0`, content: null })
+
+    const page = await (await call(env, 'GET', `/api/v1/memories/imports/${job.importId}/entries?limit=1`)).json() as any
+    expect(page.entries).toHaveLength(1)
+    expect(page.entries[0]).toMatchObject({ seq: 0, title: 'One', content: '# One\n\nSame text' })
+
+    const ack = await (await call(env, 'POST', `/api/v1/memories/imports/${job.importId}/entries/ack`, JSON.stringify({
+      entries: [{ seq: 0, memoryId: 'mem_1', vectorized: true }],
+    }))).json() as any
+    expect(ack).toMatchObject({ updated: 1, completed: false, progress: { pending: 1, imported: 1, duplicate: 1, vectorized: 1 } })
+    expect(env.DB.entries[0].content).toBeNull()
+
+    // 续传：再次拉取 pending 只返回未确认的条目
+    const resumed = await (await call(env, 'GET', `/api/v1/memories/imports/${job.importId}/entries`)).json() as any
+    expect(resumed.entries.map((e: any) => e.seq)).toEqual([2])
+
+    const done = await (await call(env, 'POST', `/api/v1/memories/imports/${job.importId}/entries/ack`, JSON.stringify({ skip: [2] }))).json() as any
+    expect(done.completed).toBe(true)
+    expect(env.DB.imports[0].status).toBe('completed')
+
+    // 再次导入同样内容：与已导入的条目重复
+    const second = await (await call(env, 'POST', '/api/v1/memories/imports', await storedZip({ 'x.md': '# One\n\nSame text' }))).json() as any
+    expect(second).toMatchObject({ pending: 0, duplicates: 1 })
+    expect(env.DB.entries[3].duplicate_of).toBe(`${job.importId}:0`)
+  })
+})
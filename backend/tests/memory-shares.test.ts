@@ -0,0 +1,175 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('../src/utils/user-auth', () => ({
+  getUserAuth: vi.fn(),
+}))
+
+import { getUserAuth } from '../src/utils/user-auth'
+import { handleMemoryShareRoutes } from '../src/routes/memory-shares'
+
+const OWNER = 'wallet_share_owner'
+const FRIEND = 'wallet_share_friend'
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('SELECT * FROM memory_shares WHERE id = ?')) {
+      const share = this.db.shares.get(p[0])
+      return (share ? { ...share } : null) as any
+    }
+    if (sql.startsWith('SELECT') && sql.includes('FROM memories WHERE id = ? AND wallet_address = ?')) {
+      const row = this.db.memories.get(p[0])
+      return (row && row.wallet_address === p[1] ? row : null) as any
+    }
+    if (sql.startsWith('UPDATE memory_shares SET view_count = view_count + 1')) {
+      const share = this.db.shares.get(p[1])
+      if (share && !share.revoked_at && share.expires_at > p[2] && (share.max_views == null || share.view_count < share.max_views)) {
+        Object.assign(share, { view_count: share.view_count + 1, last_viewed_at: p[0] })
+        return { view_count: share.view_count } as any
+      }
+    }
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('SELECT * FROM memory_share_views WHERE share_id = ?')) {
+      return { results: this.db.views.filter(v => v.share_id === p[0]).reverse() as any }
+    }
+    if (sql.startsWith('SELECT * FROM memory_shares WHERE wallet_address = ?')) {
+      return { results: [...this.db.shares.values()].filter(s => s.wallet_address === p[0]) as any }
+    }
+    return { results: [] }
+  }
+
+  async run() {
+    const sql = this.sql.trim()
+    const p = this.params
+    let changes = 0
+    if (sql.startsWith('INSERT INTO memory_shares')) {
+      this.db.shares.set(p[0], {
+        id: p[0], memory_id: p[1], wallet_address: p[2], recipient_wallet: p[3], expires_at: p[4], max_views: p[5],
+        view_count: 0, created_at: p[6], revoked_at: null, last_viewed_at: null,
+      })
+      changes = 1
+    } else if (sql.startsWith('UPDATE memory_shares SET revoked_at = ?')) {
+      const share = this.db.shares.get(p[1])
+      if (share && share.wallet_address === p[2] && !share.revoked_at) {
+        share.revoked_at = p[0]
+        changes = 1
+      }
+    } else if (sql.startsWith('INSERT INTO memory_share_views')) {
+      this.db.views.push({ share_id: p[0], wallet_address: p[1], viewer_wallet: p[2], ip_hash: p[3], user_agent: p[4], outcome: p[5], viewed_at: p[6] })
+    }
+    return { meta: { changes } }
+  }
+}
+
+class MockDB {
+  shares = new Map<string, any>()
+  views: any[] = []
+  memories = new Map<string, any>([
+    ['mem_1', { id: 'mem_1', wallet_address: OWNER, irys_id: `r2:memory-blobs/${OWNER}/mem_1/v1`, content_hash: null, deleted_at: null }],
+  ])
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+function makeEnv() {
+  const objects = new Map<string, Uint8Array>([[`memory-blobs/${OWNER}/mem_1/v1`, new TextEncoder().encode('ciphertext')]])
+  const R2 = {
+    async get(key: string) {
+      const value = objects.get(key)
+      return value ? { customMetadata: {}, arrayBuffer: async () => value.slice().buffer } : null
+    },
+  }
+  return { DB: new MockDB(), R2 } as any
+}
+
+function as(wallet: string | null) {
+  vi.mocked(getUserAuth).mockResolvedValue(wallet ? { ok: true, walletAddress: wallet } as any : { ok: false, error: 'missing_token' } as any)
+}
+
+function call(env: any, method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method, headers: { 'Content-Type': 'application/json', 'CF-Connecting-IP': '203.0.113.9' } }
+  if (body !== undefined) init.body = JSON.stringify(body)
+  return handleMemoryShareRoutes(new Request(`https://api.test${path}`, init), env, path) as Promise<Response>
+}
+
+describe('memory share links', () => {
+  it('serves the stored ciphertext until the view limit is reached and logs every visit', async () => {
+    const env = makeEnv()
+    as(OWNER)
+    const created = await call(env, 'POST', '/api/v1/memories/shares', { memoryId: 'mem_1', maxViews: 2 })
+    const share = await created.json() as any
+    expect(created.status).toBe(201)
+    expect(share.shareId).toMatch(/^[A-Za-z0-9_-]{22}$/)
+    expect(share.url).toBe(`https://api.test/s/${share.shareId}`)
+
+    as(null)
+    const first = await call(env, 'GET', `/s/${share.shareId}`)
+    expect(first.status).toBe(200)
+    expect(await first.text()).toBe('ciphertext')
+    expect(first.headers.get('X-Share-Views-Remaining')).toBe('1')
+    expect((await call(env, 'GET', `/s/${share.shareId}`)).status).toBe(200)
+    const third = await call(env, 'GET', `/s/${share.shareId}`)
+    expect(third.status).toBe(410)
+    expect(await third.json()).toEqual({ error: 'share_exhausted' })
+
+    // 并发打开时各自按占用后的计数报告剩余次数
+    as(OWNER)
+    const burst = await (await call(env, 'POST', '/api/v1/memories/shares', { memoryId: 'mem_1', maxViews: 2 })).json() as any
+    as(null)
+    const opened = await Promise.all([call(env, 'GET', `/s/${burst.shareId}`), call(env, 'GET', `/s/${burst.shareId}`)])
+    expect(opened.map(r => r.headers.get('X-Share-Views-Remaining')).sort()).toEqual(['0', '1'])
+
+    as(OWNER)
+    const detail = await (await call(env, 'GET', `/api/v1/memories/shares/${share.shareId}`)).json() as any
+    expect(detail).toMatchObject({ viewCount: 2, status: 'share_exhausted' })
+    expect(detail.views.map((v: any) => v.outcome)).toEqual(['share_exhausted', 'served', 'served'])
+    expect(detail.views[0].ipHash).toMatch(/^[0-9a-f]{16}$/)
+  })
+
+  it('restricts recipient-bound shares to the recipient wallet and honours revocation', async () => {
+    const env = makeEnv()
+    as(OWNER)
+    const share = await (await call(env, 'POST', '/api/v1/memories/shares', { memoryId: 'mem_1', recipientWallet: FRIEND })).json() as any
+    expect((await call(env, 'POST', '/api/v1/memories/shares', { memoryId: 'missing' })).status).toBe(404)
+
+    as(null)
+    expect((await call(env, 'GET', `/s/${share.shareId}`)).status).toBe(401)
+    as('wallet_stranger')
+    expect((await call(env, 'GET', `/s/${share.shareId}`)).status).toBe(403)
+    as(FRIEND)
+    expect((await call(env, 'GET', `/s/${share.shareId}`)).status).toBe(200)
+
+    as(FRIEND)
+    expect((await call(env, 'DELETE', `/api/v1/memories/shares/${share.shareId}`)).status).toBe(404)
+    as(OWNER)
+    const revoked = await (await call(env, 'DELETE', `/api/v1/memories/shares/${share.shareId}`)).json() as any
+    expect(revoked.status).toBe('share_revoked')
+
+    as(FRIEND)
+    expect((await call(env, 'GET', `/s/${share.shareId}`)).status).toBe(410)
+    expect(env.DB.views.map((v: any) => [v.outcome, v.viewer_wallet])).toEqual([
+      ['unauthorized', null],
+      ['forbidden', 'wallet_stranger'],
+      ['served', FRIEND],
+      ['share_revoked', null],
+    ])
+  })
+})
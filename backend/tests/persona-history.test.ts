@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { handlePersonaRoutes } from '../src/routes/persona'
+import { detectPersonaDrift } from '../src/services/persona-history'
+
+const WALLET = 'wallet_persona_history'
+const DAY = 86400
+const T0 = 1_700_000_000
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first(): Promise<any> {
+    const sql = this.sql.replace(/\s+/g, ' ').trim()
+    const row = this.db.persona.get(this.params[0])
+    if (sql.includes('FROM user_persona WHERE wallet_address = ?')) {
+      return row ? { id: 1, ...row } : null
+    }
+    return null
+  }
+
+  async all(): Promise<any> {
+    const sql = this.sql.replace(/\s+/g, ' ').trim()
+    if (sql.startsWith('SELECT * FROM persona_snapshots')) {
+      const p = [...this.params]
+      const wallet = p.shift()
+      const store = p.shift()
+      const from = sql.includes('created_at >= ?') ? p.shift() : null
+      const to = sql.includes('created_at <= ?') ? p.shift() : null
+      const source = sql.includes('source = ?') ? p.shift() : null
+      const rows = this.db.snapshots.filter(s =>
+        s.wallet_address === wallet &&
+        s.store === store &&
+        (from == null || s.created_at >= from) &&
+        (to == null || s.created_at <= to) &&
+        (source == null || s.source === source)
+      )
+      return { results: rows.slice().reverse().slice(0, p[0]) }
+    }
+    return { results: [] }
+  }
+
+  async run(): Promise<any> {
+    const sql = this.sql.replace(/\s+/g, ' ').trim()
+    const p = [...this.params]
+    if (sql.startsWith('INSERT INTO persona_snapshots')) {
+      const [wallet, store, source, openness, conscientiousness, extraversion, agreeableness, neuroticism, sampleSize, createdAt] = p
+      this.db.snapshots.push({
+        id: this.db.snapshots.length + 1, wallet_address: wallet, store, source,
+        openness, conscientiousness, extraversion, agreeableness, neuroticism, sample_size: sampleSize, created_at: createdAt,
+      })
+    } else if (sql.startsWith('INSERT INTO user_persona ')) {
+      const columns = sql.match(/\(([^)]*)\) VALUES/)![1].split(',').map(c => c.trim())
+      const values = sql.match(/VALUES \(([^)]*)\)/)![1].split(',').map(v => v.trim())
+      const row: any = { openness: 0.5, conscientiousness: 0.5, extraversion: 0.5, agreeableness: 0.5, neuroticism: 0.5, sample_size: 0 }
+      columns.forEach((column, i) => { row[column] = values[i] === '?' ? p.shift() : Number(values[i]) })
+      this.db.persona.set(row.wallet_address, row)
+    } else if (sql.startsWith('UPDATE user_persona SET')) {
+      const wallet = p[p.length - 1]
+      const row = this.db.persona.get(wallet)
+      const assignments = sql.match(/SET (.*) WHERE wallet_address = \?/)![1].split(',').map(a => a.trim())
+      for (const assignment of assignments) {
+        const [column, expr] = assignment.split(' = ')
+        row[column] = expr === '?' ? p.shift() : row[column] + 1
+      }
+    }
+    return { success: true }
+  }
+}
+
+class MockDB {
+  persona = new Map<string, any>()
+  snapshots: any[] = []
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+function call(env: any, method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method, headers: { 'Content-Type': 'application/json' } }
+  if (body !== undefined) init.body = JSON.stringify(body)
+  return handlePersonaRoutes(new Request(`https://example.com${path}`, init), env, path.split('?')[0]) as Promise<Response>
+}
+
+function at(seconds: number) {
+  vi.setSystemTime(seconds * 1000)
+}
+
+function snapshot(day: number, openness: number, store: 'persona' | 'profile_v2' = 'persona') {
+  return {
+    id: day, wallet_address: WALLET, store, source: 'manual' as const, sample_size: null, created_at: T0 + day * DAY,
+    openness, conscientiousness: 0.5, extraversion: 0.5, agreeableness: 0.5, neuroticism: 0.5,
+  }
+}
+
+describe('persona history', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('records a snapshot with its source for every persona write and reports drift', async () => {
+    vi.useFakeTimers()
+    const env: any = { DB: new MockDB() }
+    const neutral = { openness: 0.5, conscientiousness: 0.5, extraversion: 0.5, agreeableness: 0.5, neuroticism: 0.5 }
+
+    at(T0)
+    expect((await call(env, 'PUT', '/api/v1/persona', { walletAddress: WALLET, ...neutral })).status).toBe(200)
+    at(T0 + DAY)
+    await call(env, 'POST', '/api/v1/persona/increment', { walletAddress: WALLET, traitAdjustments: { extraversion: 1 }, weight: 0.5 })
+    at(T0 + 2 * DAY)
+    const beta = (alpha: number) => ({ alpha, beta: 10 - alpha, updatedAt: 1 })
+    await call(env, 'PUT', '/api/v1/persona/profile-v2', {
+      walletAddress: WALLET,
+      personaProfileV2: {
+        version: 2,
+        ocean: { openness: beta(8), conscientiousness: beta(5), extraversion: beta(5), agreeableness: beta(5), neuroticism: beta(5) },
+        sampleCount: 7,
+      },
+    })
+    at(T0 + 3 * DAY)
+    await call(env, 'PUT', '/api/v1/persona', { walletAddress: WALLET, syncRate: 0.8 })
+    await call(env, 'PUT', '/api/v1/persona', { walletAddress: WALLET, neuroticism: 0.2, source: 'chat_inference' })
+
+    expect(env.DB.snapshots.map((s: any) => [s.store, s.source, s.sample_size])).toEqual([
+      ['persona', 'manual', 0],
+      ['persona', 'increment', 1],
+      ['profile_v2', 'chat_inference', 7],
+      ['persona', 'chat_inference', 1],
+    ])
+
+    // 画像 V2 的 Beta 均值不混入 user_persona 的轨迹与漂移比较
+    const history = await (await call(env, 'GET', `/api/v1/persona/history?wallet=${WALLET}`)).json() as any
+    expect(history.store).toBe('persona')
+    expect(history.total).toBe(3)
+    expect(history.downsampled).toBe(false)
+    expect(history.trajectory.map((p: any) => p.extraversion)).toEqual([0.5, 0.55, 0.55])
+    expect(history.trajectory.map((p: any) => p.openness)).toEqual([0.5, 0.5, 0.5])
+    expect(history.drift).toMatchObject({ flagged: true, threshold: 0.15, windowDays: 30, baselineAt: T0, currentAt: T0 + 3 * DAY })
+    expect(history.drift.traits).toEqual([
+      { trait: 'neuroticism', from: 0.5, to: 0.2, delta: -0.3 },
+    ])
+    expect(history.drift.shifts).toEqual([{ trait: 'neuroticism', at: T0 + 3 * DAY, source: 'chat_inference', delta: -0.3 }])
+
+    const v2 = await (await call(env, 'GET', `/api/v1/persona/history?wallet=${WALLET}&store=profile_v2`)).json() as any
+    expect(v2.total).toBe(1)
+    expect(v2.trajectory[0]).toMatchObject({ at: T0 + 2 * DAY, sources: ['chat_inference'], openness: 0.8, count: 1 })
+    expect(v2.drift.flagged).toBe(false)
+
+    const sampled = await (await call(env, 'GET', `/api/v1/persona/history?wallet=${WALLET}&maxPoints=2`)).json() as any
+    expect(sampled.downsampled).toBe(true)
+    expect(sampled.trajectory).toHaveLength(2)
+    expect(sampled.trajectory[0]).toMatchObject({ at: T0 + DAY, count: 2, sources: ['manual', 'increment'], extraversion: 0.525 })
+
+    const filtered = await (await call(env, 'GET', `/api/v1/persona/history?wallet=${WALLET}&source=chat_inference&from=${T0 + 3 * DAY}`)).json() as any
+    expect(filtered.total).toBe(1)
+    expect((await call(env, 'GET', `/api/v1/persona/history?wallet=${WALLET}&source=guess`)).status).toBe(400)
+    expect((await call(env, 'GET', `/api/v1/persona/history?wallet=${WALLET}&store=guess`)).status).toBe(400)
+    expect((await call(env, 'GET', `/api/v1/persona/history?wallet=${WALLET}&maxPoints=1`)).status).toBe(400)
+  })
+
+  it('compares against the last snapshot before the drift window', () => {
+    const settings = { threshold: 0.15, windowDays: 30 }
+    const slow = detectPersonaDrift([snapshot(0, 0.2), snapshot(20, 0.5), snapshot(60, 0.55)], settings)
+    expect(slow).toMatchObject({ flagged: false, baselineAt: T0 + 20 * DAY, traits: [], shifts: [] })
+
+    const sudden = detectPersonaDrift([snapshot(0, 0.5), snapshot(50, 0.5), snapshot(55, 0.9), snapshot(58, 0.7)], settings)
+    expect(sudden.flagged).toBe(true)
+    expect(sudden.traits).toEqual([{ trait: 'openness', from: 0.5, to: 0.7, delta: 0.2 }])
+    expect(sudden.shifts.map(s => s.delta)).toEqual([0.4, -0.2])
+
+    expect(detectPersonaDrift([snapshot(0, 0.5)], settings).flagged).toBe(false)
+  })
+
+  it('only compares snapshots from the same store', () => {
+    const settings = { threshold: 0.15, windowDays: 30 }
+    const mixed = detectPersonaDrift([snapshot(0, 0.5), snapshot(10, 0.9, 'profile_v2'), snapshot(20, 0.55)], settings)
+    expect(mixed).toMatchObject({ flagged: false, baselineAt: T0, currentAt: T0 + 20 * DAY, traits: [], shifts: [] })
+  })
+})
@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { handlePersonaRoutes } from '../src/routes/persona'
+import { PERSONA_SCORING_VERSION, scorePersonaAnswers } from '../src/services/persona-scoring'
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first(): Promise<any> {
+    if (this.sql.includes('SELECT id FROM user_persona WHERE wallet_address = ?')) {
+      return this.db.persona.get(this.params[0]) ? { id: 1 } : null
+    }
+    return null
+  }
+
+  async run(): Promise<any> {
+    const sql = this.sql.trim()
+    const p = this.params
+    if (sql.startsWith('INSERT INTO user_persona')) {
+      const [, wallet, openness, conscientiousness, extraversion, agreeableness, neuroticism, sampleSize, , answers, , scoringVersion] = p
+      this.db.persona.set(wallet, {
+        openness, conscientiousness, extraversion, agreeableness, neuroticism,
+        sample_size: sampleSize, questionnaire_answers: answers, scoring_version: scoringVersion,
+      })
+    }
+    return { success: true }
+  }
+}
+
+class MockDB {
+  persona = new Map<string, any>()
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+// 2、4 题选最高开放性；尽责性全选最低；外向性居中；宜人性最高；神经质全选“最稳定”
+const ANSWERS: Record<string, unknown> = {
+  q1: '看书和散步',
+  q2: '非常喜欢尝试新鲜事物，充满好奇',
+  q4: 0,
+  q5: 3, q6: 3, q7: 3, q8: 'Weak discipline, often give up',
+  q9: 0, q10: 3, q11: 2, q12: { optionIndex: 0 },
+  q13: 0, q14: 0, q15: 0, q16: 0,
+  q17: 0, q18: 0, q19: 0, q20: 'Adapt flexibly, enjoy novelty',
+}
+
+function submit(env: any, body: unknown) {
+  const request = new Request('https://example.com/api/v1/persona/questionnaire', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  })
+  return handlePersonaRoutes(request, env, '/api/v1/persona/questionnaire') as Promise<Response>
+}
+
+describe('persona questionnaire scoring', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('scores answers with the item bank, honouring reverse keying and weights', () => {
+    const result = scorePersonaAnswers(ANSWERS)
+    expect(result.complete).toBe(true)
+    expect(result.invalid).toEqual([])
+    expect(result.missing).toEqual([])
+    expect(result.scores).toEqual({
+      openness: 1,
+      conscientiousness: 0,
+      extraversion: 0.5,
+      agreeableness: 1,
+      neuroticism: 0,
+    })
+
+    // 13 题权重为 0.5：(0 * 0.5 + 1 * 3) / 3.5
+    const mixed = scorePersonaAnswers({ ...ANSWERS, q13: 2 })
+    expect(mixed.scores.agreeableness).toBe(0.905)
+
+    const partial = scorePersonaAnswers({ q2: 0, q4: 'nonsense', q17: 99 })
+    expect(partial).toMatchObject({ complete: false, invalid: [4, 17], answered: [2] })
+    expect(partial.missing).toContain(20)
+  })
+
+  it('stores server-computed scores and the scoring version, treating client scores as a cross-check', async () => {
+    const env: any = { DB: new MockDB() }
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const forged = { openness: 1, conscientiousness: 1, extraversion: 1, agreeableness: 1, neuroticism: 0 }
+
+    const res = await submit(env, { walletAddress: 'wallet_persona', answers: ANSWERS, personaScores: forged })
+    expect(res.status).toBe(200)
+    const json = await res.json() as any
+    expect(json.persona).toMatchObject({ conscientiousness: 0, extraversion: 0.5, scoringVersion: PERSONA_SCORING_VERSION })
+    expect(json.scoring.clientCrossCheck).toMatchObject({ consistent: false, maxDelta: 1 })
+    expect(warn).toHaveBeenCalledTimes(1)
+
+    expect(env.DB.persona.get('wallet_persona')).toMatchObject({
+      conscientiousness: 0,
+      extraversion: 0.5,
+      sample_size: 18,
+      scoring_version: PERSONA_SCORING_VERSION,
+    })
+    expect(JSON.parse(env.DB.persona.get('wallet_persona').questionnaire_answers)).toEqual(ANSWERS)
+
+    const incomplete = await submit(env, { walletAddress: 'wallet_other', answers: { q2: 0 } })
+    expect(incomplete.status).toBe(400)
+    expect(await incomplete.json()).toMatchObject({ error: 'incomplete_answers' })
+    const invalid = await submit(env, { walletAddress: 'wallet_other', answers: { ...ANSWERS, q9: 'maybe' } })
+    expect(await invalid.json()).toMatchObject({ error: 'invalid_answers', items: [9] })
+    expect(env.DB.persona.has('wallet_other')).toBe(false)
+  })
+})
@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { handlePersonaRoutes } from '../src/routes/persona'
+import { applyPersonaSignal, decayEvidence, traitConfidence } from '../src/services/persona-updates'
+
+const WALLET = 'wallet_persona_updates'
+const NOW = 1_700_000_000
+const DAY = 86400
+const SETTINGS = { halfLifeDays: 90, maxStep: 0.05 }
+const NEUTRAL = { openness: 0.5, conscientiousness: 0.5, extraversion: 0.5, agreeableness: 0.5, neuroticism: 0.5 }
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first(): Promise<any> {
+    const sql = this.sql.replace(/\s+/g, ' ').trim()
+    const p = this.params
+    if (sql.includes('FROM chat_messages WHERE id = ? AND wallet_address = ?')) {
+      const message = this.db.messages.get(p[0])
+      return message && message.wallet_address === p[1] ? message : null
+    }
+    if (sql.includes('FROM user_persona WHERE wallet_address = ?')) {
+      return this.db.persona.get(p[0]) || null
+    }
+    return null
+  }
+
+  async all(): Promise<any> {
+    const sql = this.sql.replace(/\s+/g, ' ').trim()
+    if (sql.startsWith('SELECT trait, evidence, updated_at FROM persona_trait_evidence')) {
+      return { results: [...this.db.evidence.values()].filter(e => e.wallet_address === this.params[0]) }
+    }
+    return { results: [] }
+  }
+
+  async run(): Promise<any> {
+    const sql = this.sql.replace(/\s+/g, ' ').trim()
+    const p = this.params
+    if (sql.startsWith('INSERT INTO persona_trait_evidence')) {
+      this.db.evidence.set(`${p[0]}:${p[1]}`, { wallet_address: p[0], trait: p[1], evidence: p[2], updated_at: p[3] })
+    } else if (sql.startsWith('INSERT INTO persona_applied_signals')) {
+      const key = `${p[0]}:${p[1]}`
+      if (this.db.appliedSignals.has(key)) return { success: true, meta: { changes: 0 } }
+      this.db.appliedSignals.add(key)
+    } else if (sql.startsWith('UPDATE user_persona SET openness = ?')) {
+      const row = this.db.persona.get(p[7])
+      Object.assign(row, {
+        openness: p[0], conscientiousness: p[1], extraversion: p[2], agreeableness: p[3], neuroticism: p[4],
+        sample_size: row.sample_size + 1,
+      })
+    }
+    return { success: true, meta: { changes: 1 } }
+  }
+}
+
+class MockDB {
+  persona = new Map<string, any>([[WALLET, { wallet_address: WALLET, ...NEUTRAL, neuroticism: 0.3, sample_size: 18 }]])
+  evidence = new Map<string, any>([
+    [`${WALLET}:neuroticism`, { wallet_address: WALLET, trait: 'neuroticism', evidence: 8, updated_at: NOW }],
+  ])
+  messages = new Map<string, any>([
+    ['msg_angry', { wallet_address: WALLET, relevance_score: 0.9, detected_traits: '["情感","神经质"]', timestamp: NOW * 1000 }],
+    ['msg_small_talk', { wallet_address: WALLET, relevance_score: 0, detected_traits: '[]', timestamp: NOW * 1000 }],
+  ])
+  appliedSignals = new Set<string>()
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+function call(env: any, method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method, headers: { 'Content-Type': 'application/json' } }
+  if (body !== undefined) init.body = JSON.stringify(body)
+  return handlePersonaRoutes(new Request(`https://example.com${path}`, init), env, path.split('?')[0]) as Promise<Response>
+}
+
+describe('weighted persona updates', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('weights chat signals by relevance and caps how far one message can move a trait', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(NOW * 1000)
+    const env: any = { DB: new MockDB() }
+
+    const res = await call(env, 'POST', '/api/v1/persona/increment', {
+      walletAddress: WALLET,
+      messageId: 'msg_angry',
+      traitAdjustments: { neuroticism: 1, openness: 0.9 },
+    })
+    expect(res.status).toBe(200)
+    const json = await res.json() as any
+    expect(json.applied).toBe(true)
+    // 神经质被 detected_traits 佐证，按 0.9 计；开放性未被佐证，减半
+    expect(json.updates.neuroticism).toEqual({ from: 0.3, to: 0.35, weight: 0.9 })
+    expect(json.updates.openness).toEqual({ from: 0.5, to: 0.55, weight: 0.45 })
+    expect(env.DB.persona.get(WALLET)).toMatchObject({ neuroticism: 0.35, openness: 0.55, extraversion: 0.5, sample_size: 19 })
+    expect(env.DB.evidence.get(`${WALLET}:neuroticism`).evidence).toBeCloseTo(8.9)
+    expect(json.confidence.neuroticism).toBe(traitConfidence(8.9))
+
+    const skipped = await (await call(env, 'POST', '/api/v1/persona/increment', {
+      walletAddress: WALLET,
+      messageId: 'msg_small_talk',
+      traitAdjustments: { neuroticism: 1 },
+    })).json() as any
+    expect(skipped.applied).toBe(false)
+    expect(env.DB.persona.get(WALLET).sample_size).toBe(19)
+
+    const missing = await call(env, 'POST', '/api/v1/persona/increment', {
+      walletAddress: WALLET,
+      messageId: 'msg_other',
+      traitAdjustments: { neuroticism: 1 },
+    })
+    expect(missing.status).toBe(404)
+
+    // 重放同一条消息不会再次叠加
+    const replay = await (await call(env, 'POST', '/api/v1/persona/increment', {
+      walletAddress: WALLET,
+      messageId: 'msg_angry',
+      traitAdjustments: { neuroticism: 1, openness: 0.9 },
+    })).json() as any
+    expect(replay).toMatchObject({ applied: false, duplicate: true, updates: {} })
+    expect(env.DB.persona.get(WALLET)).toMatchObject({ neuroticism: 0.35, sample_size: 19 })
+    expect(env.DB.evidence.get(`${WALLET}:neuroticism`).evidence).toBeCloseTo(8.9)
+
+    vi.setSystemTime((NOW + 90 * DAY) * 1000)
+    const persona = await (await call(env, 'GET', `/api/v1/persona?wallet=${WALLET}`)).json() as any
+    expect(persona.persona.confidence).toEqual({
+      openness: traitConfidence(0.45 / 2),
+      conscientiousness: 0,
+      extraversion: 0,
+      agreeableness: 0,
+      neuroticism: traitConfidence(8.9 / 2),
+    })
+  })
+
+  it('caps the confidence a client can claim for signals without a chat message', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(NOW * 1000)
+    const env: any = { DB: new MockDB() }
+
+    const boosted = await (await call(env, 'POST', '/api/v1/persona/increment', {
+      walletAddress: WALLET,
+      traitAdjustments: { extraversion: 1 },
+      confidence: 50,
+    })).json() as any
+    expect(boosted.updates.extraversion.weight).toBe(0.5)
+
+    const legacy = await (await call(env, 'POST', '/api/v1/persona/increment', {
+      walletAddress: WALLET,
+      traitAdjustments: { agreeableness: 1 },
+      weight: 'heavy',
+    })).json() as any
+    expect(legacy.updates.agreeableness.weight).toBe(0.5)
+    expect(env.DB.appliedSignals.size).toBe(0)
+  })
+
+  it('decays older evidence so stale signals count for less', () => {
+    expect(decayEvidence(40, 90 * DAY, 90)).toBeCloseTo(20)
+    expect(decayEvidence(40, 0, 90)).toBe(40)
+
+    const settings = { ...SETTINGS, maxStep: 1 }
+    const fresh = applyPersonaSignal(NEUTRAL, {}, { observations: { extraversion: 1 }, confidence: 1 }, settings, NOW)
+    const stale = applyPersonaSignal(NEUTRAL, {}, { observations: { extraversion: 1 }, confidence: 1, observedAt: NOW - 180 * DAY }, settings, NOW)
+    expect(fresh.updates.extraversion!.weight).toBe(1)
+    expect(stale.updates.extraversion!.weight).toBe(0.25)
+    expect(stale.scores.extraversion).toBeLessThan(fresh.scores.extraversion)
+
+    // 一年前的大量证据衰减后，新的信号更容易改变分数
+    const old = { extraversion: { evidence: 40, updatedAt: NOW - 360 * DAY } }
+    const recent = { extraversion: { evidence: 40, updatedAt: NOW } }
+    const afterOld = applyPersonaSignal(NEUTRAL, old, { observations: { extraversion: 1 }, confidence: 1 }, settings, NOW)
+    const afterRecent = applyPersonaSignal(NEUTRAL, recent, { observations: { extraversion: 1 }, confidence: 1 }, settings, NOW)
+    expect(afterOld.scores.extraversion).toBeGreaterThan(afterRecent.scores.extraversion)
+    expect(afterOld.evidence.extraversion).toBeCloseTo(40 / 16 + 1)
+  })
+})
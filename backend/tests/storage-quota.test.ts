@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('../src/utils/user-auth', () => ({
+  getUserAuth: vi.fn(async () => ({ ok: true, walletAddress: 'wallet_quota_test' })),
+}))
+
+import { handleMemoriesRoutes } from '../src/routes/memories'
+
+const MB = 1024 * 1024
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    const sql = this.sql.trim()
+    if (sql.startsWith('SELECT id, current_tier, subscription_type')) return this.db.user as any
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    const sql = this.sql.trim()
+    if (sql.startsWith('SELECT config_key, config_value FROM app_config')) {
+      return { results: Object.entries(this.db.config).map(([config_key, config_value]) => ({ config_key, config_value })) as any }
+    }
+    if (sql.includes('FROM memory_blob_versions v') && sql.includes('LEFT JOIN memories')) {
+      return { results: this.db.versionedUsage as any }
+    }
+    if (sql.includes('FROM memories m') && sql.includes('WHERE m.wallet_address = ?')) {
+      return { results: this.db.unversionedUsage as any }
+    }
+    return { results: [] }
+  }
+
+  async run(): Promise<{ success: boolean; meta: { changes: number } }> {
+    if (this.sql.trim().startsWith('INSERT INTO memory_blob_versions')) this.db.writes++
+    return { success: true, meta: { changes: 1 } }
+  }
+}
+
+class MockDB {
+  user: any = { id: 'u1', current_tier: 1, subscription_type: 'FREE', subscription_expiry: null, staked_amount: 0 }
+  config: Record<string, string> = { 'quota.storage_free_mb': '1', 'quota.storage_subscriber_mb': '4', 'quota.tier_multiplier': '[1,2]' }
+  versionedUsage: any[] = []
+  unversionedUsage: any[] = []
+  writes = 0
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+}
+
+function call(env: any, method: string, path: string, body?: unknown) {
+  const init: RequestInit = { method, headers: { 'Content-Type': 'application/json' } }
+  if (body !== undefined) init.body = JSON.stringify(body)
+  return handleMemoriesRoutes(new Request(`https://api.test${path}`, init), env, path) as Promise<Response>
+}
+
+describe('memory storage quota', () => {
+  it('reports usage by backend and type, counting only r2/kv against the quota', async () => {
+    const db = new MockDB()
+    db.versionedUsage = [
+      { type: 'voice', backend: 'r2', deleted: 0, bytes: 300_000, objects: 2 },
+      { type: 'text', backend: 'r2', deleted: 1, bytes: 100_000, objects: 1 },
+    ]
+    db.unversionedUsage = [
+      { type: 'text', backend: 'kv', deleted: 0, bytes: 50_000, objects: 1 },
+      { type: 'text', backend: 'irys', deleted: 0, bytes: 5 * MB, objects: 3 },
+    ]
+    const env = { DB: db, R2: {} } as any
+
+    const usage = await (await call(env, 'GET', '/api/v1/memories/usage')).json() as any
+    expect(usage.plan).toBe('free')
+    expect(usage.limitBytes).toBe(MB)
+    expect(usage.usedBytes).toBe(450_000)
+    expect(usage.pendingPurgeBytes).toBe(100_000)
+    expect(usage.byBackend.irys).toEqual({ bytes: 5 * MB, objects: 3 })
+    expect(usage.byType).toEqual({ voice: 300_000, text: 150_000 + 5 * MB })
+  })
+
+  it('rejects uploads beyond the plan limit and scales with subscription and tier', async () => {
+    const db = new MockDB()
+    db.versionedUsage = [{ type: 'text', backend: 'kv', deleted: 0, bytes: MB - 10, objects: 1 }]
+    const env = { DB: db, R2: { put: vi.fn(async () => {}) } } as any
+    const contentBase64 = Buffer.alloc(100).toString('base64')
+
+    const rejected = await call(env, 'POST', '/api/v1/memories/blob', { memoryId: 'm1', contentBase64 })
+    expect(rejected.status).toBe(413)
+    expect(await rejected.json()).toEqual({ error: 'storage_quota_exceeded', usedBytes: MB - 10, limitBytes: MB, requiredBytes: 100 })
+    expect(db.writes).toBe(0)
+
+    const session = await call(env, 'POST', '/api/v1/memories/blob/uploads', { memoryId: 'm2', totalSize: MB, contentSha256: 'a'.repeat(64) })
+    expect((await session.json() as any).error).toBe('storage_quota_exceeded')
+
+    db.user = { ...db.user, current_tier: 2, subscription_type: 'PREMIUM' }
+    const usage = await (await call(env, 'GET', '/api/v1/memories/usage')).json() as any
+    expect(usage.plan).toBe('subscriber')
+    expect(usage.limitBytes).toBe(8 * MB)
+
+    const accepted = await call(env, 'POST', '/api/v1/memories/blob', { memoryId: 'm1', contentBase64 })
+    expect(accepted.status).toBe(200)
+    expect(db.writes).toBe(1)
+  })
+})
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest'
+import { rebuildMemoryIndex } from '../src/services/vector-index'
+import { cosineSimilarity, searchMemoryVectors } from '../src/services/memory-search'
+
+const WALLET = 'wallet_vector_index_test'
+const DIM = 64
+
+type VectorRow = { memory_id: string; wallet_address: string; vector_json: string; memory_type: string; text_preview: string; text_length: number; created_at: number }
+type IndexRow = { memory_id: string; wallet_address: string; list_id: number; code: string }
+
+class MockStmt {
+  constructor(
+    private db: MockDB,
+    private sql: string,
+    private params: any[] = []
+  ) {}
+
+  bind(...params: any[]) {
+    return new MockStmt(this.db, this.sql, params)
+  }
+
+  async first<T = any>(): Promise<T | null> {
+    const sql = this.sql.trim()
+    if (sql.startsWith('SELECT * FROM memory_vector_index_meta')) {
+      return (this.db.meta.get(this.params[0]) || null) as any
+    }
+    return null
+  }
+
+  async all<T = any>(): Promise<{ results: T[] }> {
+    const sql = this.sql.trim()
+    const p = this.params
+
+    if (sql.startsWith('SELECT list_id, centroid_json FROM memory_vector_centroids')) {
+      const rows = this.db.centroids.filter(c => c.wallet_address === p[0]).sort((a, b) => a.list_id - b.list_id)
+      return { results: rows as any }
+    }
+
+    if (sql.startsWith('SELECT memory_id, code FROM memory_vector_index')) {
+      const lists = new Set(p.slice(1))
+      const rows = [...this.db.index.values()].filter(r => r.wallet_address === p[0] && lists.has(r.list_id))
+      this.db.scannedCodes += rows.length
+      return { results: rows as any }
+    }
+
+    if (sql.startsWith('SELECT memory_id, vector_json') && sql.includes('memory_id IN')) {
+      const ids = new Set(p.slice(1))
+      return { results: this.db.vectors.filter(v => v.wallet_address === p[0] && ids.has(v.memory_id)) as any }
+    }
+
+    if (sql.startsWith('SELECT memory_id, vector_json')) {
+      return { results: this.db.vectors.filter(v => v.wallet_address === p[0]) as any }
+    }
+
+    return { results: [] }
+  }
+
+  async run(): Promise<{ success: boolean; meta: { changes: number } }> {
+    const sql = this.sql.trim()
+    const p = this.params
+
+    if (sql.startsWith('DELETE FROM memory_vector_index WHERE wallet_address')) {
+      for (const [id, row] of this.db.index) if (row.wallet_address === p[0]) this.db.index.delete(id)
+    } else if (sql.startsWith('DELETE FROM memory_vector_centroids')) {
+      this.db.centroids = this.db.centroids.filter(c => c.wallet_address !== p[0])
+    } else if (sql.startsWith('INSERT INTO memory_vector_centroids')) {
+      this.db.centroids.push({ wallet_address: p[0], list_id: p[1], centroid_json: p[2] })
+    } else if (sql.startsWith('INSERT OR REPLACE INTO memory_vector_index')) {
+      this.db.index.set(p[0], { memory_id: p[0], wallet_address: p[1], list_id: p[2], code: p[4] })
+    } else if (sql.startsWith('INSERT INTO memory_vector_index_meta')) {
+      const [wallet, dimension, nLists, trained, indexed, recall, k, builtAt, updatedAt] = p
+      this.db.meta.set(wallet, {
+        wallet_address: wallet, dimension, n_lists: nLists, trained_count: trained, indexed_count: indexed,
+        needs_rebuild: 0, recall_at_k: recall, recall_k: k, built_at: builtAt, updated_at: updatedAt,
+      })
+    }
+    return { success: true, meta: { changes: 1 } }
+  }
+}
+
+class MockDB {
+  vectors: VectorRow[] = []
+  index = new Map<string, IndexRow>()
+  centroids: Array<{ wallet_address: string; list_id: number; centroid_json: string }> = []
+  meta = new Map<string, any>()
+  scannedCodes = 0
+
+  prepare(sql: string) {
+    return new MockStmt(this, sql)
+  }
+
+  async batch(stmts: MockStmt[]) {
+    for (const stmt of stmts) await stmt.run()
+    return []
+  }
+}
+
+// 固定种子的伪随机数，保证聚类数据可复现
+function rng(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0
+    return seed / 0x100000000 - 0.5
+  }
+}
+
+function seedVectors(db: MockDB, count: number) {
+  const rand = rng(42)
+  const centers = Array.from({ length: 12 }, () => Array.from({ length: DIM }, () => rand()))
+  for (let i = 0; i < count; i++) {
+    const center = centers[i % centers.length]
+    const vector = center.map(x => x + rand() * 0.6)
+    db.vectors.push({
+      memory_id: `m${i}`,
+      wallet_address: WALLET,
+      vector_json: JSON.stringify(vector),
+      memory_type: 'chat',
+      text_preview: `memory ${i}`,
+      text_length: 10,
+      created_at: i,
+    })
+  }
+}
+
+describe('memory vector index', () => {
+  it('builds an IVF index, reports recall and searches a fraction of the vectors', async () => {
+    const db = new MockDB()
+    seedVectors(db, 900)
+    const env = { DB: db } as any
+
+    const meta = await rebuildMemoryIndex(env, WALLET)
+    expect(meta?.n_lists).toBe(30)
+    expect(meta?.indexed_count).toBe(900)
+    expect(meta?.recall_k).toBe(10)
+    expect(meta?.recall_at_k).toBeGreaterThanOrEqual(0.9)
+
+    const query = JSON.parse(db.vectors[7].vector_json) as number[]
+    const { results, total, totalExact } = await searchMemoryVectors(env, WALLET, query, { topK: 5, threshold: 0.5 })
+
+    expect(db.scannedCodes).toBeGreaterThan(0)
+    expect(db.scannedCodes).toBeLessThan(900)
+    expect(results).toHaveLength(5)
+    expect(total).toBeGreaterThanOrEqual(5)
+    // 只统计了重排候选集
+    expect(totalExact).toBe(false)
+    expect(results[0].memoryId).toBe('m7')
+    expect(results[0]).toEqual(expect.objectContaining({ textPreview: 'memory 7', memoryType: 'chat', createdAt: 7 }))
+
+    const exact = db.vectors
+      .map(v => ({ id: v.memory_id, s: cosineSimilarity(query, JSON.parse(v.vector_json)) }))
+      .sort((a, b) => b.s - a.s)
+      .slice(0, 5)
+      .map(v => v.id)
+    expect(results.map(r => r.memoryId)).toEqual(exact)
+  })
+
+  it('falls back to brute force for wallets without an index', async () => {
+    const db = new MockDB()
+    seedVectors(db, 40)
+    const env = { DB: db } as any
+
+    const query = JSON.parse(db.vectors[3].vector_json) as number[]
+    const { results, total, totalExact } = await searchMemoryVectors(env, WALLET, query, { topK: 3, threshold: 0 })
+
+    expect(db.scannedCodes).toBe(0)
+    expect(total).toBe(db.vectors.filter(v => cosineSimilarity(query, JSON.parse(v.vector_json)) >= 0).length)
+    expect(totalExact).toBe(true)
+    expect(results[0].memoryId).toBe('m3')
+    expect(results).toHaveLength(3)
+  })
+})